@@ -117,6 +117,12 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    indexContextSelection,
+    enableIndexContextSelection,
+    reviewMode,
+    enableReviewMode,
+    autoFix,
+    enableAutoFix,
   } = useSettings();
 
   // Enable features by default on first load
@@ -170,11 +176,37 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'indexContextSelection': {
+          enableIndexContextSelection(enabled);
+          toast.success(`Index context selection ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'reviewMode': {
+          enableReviewMode(enabled);
+          toast.success(`Review mode ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'autoFix': {
+          enableAutoFix(enabled);
+          toast.success(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [
+      enableLatestBranch,
+      setAutoSelectTemplate,
+      enableContextOptimization,
+      setEventLogs,
+      enableIndexContextSelection,
+      enableReviewMode,
+      enableAutoFix,
+    ],
   );
 
   const features = {
@@ -212,7 +244,35 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'indexContextSelection',
+        title: 'Index Context Selection',
+        description: 'Pick context files from the local code index without an extra model call',
+        icon: 'i-ph:magnifying-glass',
+        enabled: indexContextSelection,
+        beta: true,
+        tooltip: 'Faster on large projects, the files are chosen by keyword, symbol and import ranking alone',
+      },
+      {
+        id: 'reviewMode',
+        title: 'Review Mode',
+        description: 'Review the file changes of the AI hunk by hunk before they are applied',
+        icon: 'i-ph:git-diff',
+        enabled: reviewMode,
+        beta: true,
+        tooltip: 'Changes are staged in the Diff view, rejected hunks are sent back to the model with the next message',
+      },
+      {
+        id: 'autoFix',
+        title: 'Auto-fix Errors',
+        description: 'Send preview and build errors back to the AI until the app runs cleanly',
+        icon: 'i-ph:first-aid-kit',
+        enabled: autoFix,
+        beta: true,
+        tooltip: 'Errors are grouped and sent automatically, at most three fix attempts per request',
+      },
+    ],
   };
 
   return (
@@ -0,0 +1,87 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import type { ToolAuditRecord } from '~/lib/persistence/types';
+import { clearToolAudit, loadToolAuditRecords, toolAuditRecords } from '~/lib/stores/mcpAudit';
+import { classNames } from '~/utils/classNames';
+
+const statusIcons: Record<ToolAuditRecord['status'], string> = {
+  pending: 'i-ph:clock text-bolt-elements-textTertiary',
+  success: 'i-ph:check text-bolt-elements-icon-success',
+  error: 'i-ph:warning text-bolt-elements-icon-error',
+  denied: 'i-ph:prohibit text-bolt-elements-icon-error',
+};
+
+function formatJson(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+export default function McpAuditLog() {
+  const records = useStore(toolAuditRecords);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadToolAuditRecords().catch(() => toast.error('Failed to load the MCP audit log'));
+  }, []);
+
+  const handleClear = () => {
+    clearToolAudit().catch(() => toast.error('Failed to clear the MCP audit log'));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-bolt-elements-textSecondary">Every MCP tool call with its decision and result</p>
+        <button
+          onClick={handleClear}
+          disabled={records.length === 0}
+          className="px-3 py-1.5 rounded-lg text-sm bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4 text-bolt-elements-textPrimary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <div className="i-ph:trash w-3 h-3" />
+          Clear
+        </button>
+      </div>
+      {records.length === 0 ? (
+        <p className="text-sm text-bolt-elements-textTertiary">No tool calls recorded</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {records.map((record) => (
+            <div key={record.id} className="p-2 rounded-md bg-bolt-elements-background-depth-1 text-xs">
+              <button
+                onClick={() => setExpanded(expanded === record.id ? null : record.id)}
+                className="w-full flex items-center gap-2 text-left"
+                aria-expanded={expanded === record.id}
+              >
+                <div className={classNames('w-3 h-3 shrink-0', statusIcons[record.status])} />
+                <span className="font-medium text-bolt-elements-textPrimary truncate">
+                  {record.serverName} / {record.toolName}
+                </span>
+                <span className="text-bolt-elements-textSecondary">{record.decision}</span>
+                <span className="ml-auto text-bolt-elements-textTertiary shrink-0">
+                  {new Date(record.timestamp).toLocaleString()}
+                </span>
+              </button>
+              {expanded === record.id && (
+                <div className="mt-2 ml-5 space-y-1">
+                  {record.reason && <p className="text-bolt-elements-textSecondary">Rule: {record.reason}</p>}
+                  <div className="text-bolt-elements-textSecondary">Arguments:</div>
+                  <pre className="p-2 rounded bg-[#FAFAFA] dark:bg-[#0A0A0A] overflow-x-auto whitespace-pre-wrap text-bolt-elements-textPrimary">
+                    {formatJson(record.args)}
+                  </pre>
+                  {record.result !== undefined && (
+                    <>
+                      <div className="text-bolt-elements-textSecondary">Result:</div>
+                      <pre className="p-2 rounded bg-[#FAFAFA] dark:bg-[#0A0A0A] max-h-48 overflow-auto whitespace-pre-wrap text-bolt-elements-textPrimary">
+                        {formatJson(record.result)}
+                      </pre>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
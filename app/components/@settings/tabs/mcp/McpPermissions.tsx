@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import type { MCPPermissionPolicy, ToolPermission, ToolPermissionRule } from '~/lib/mcp/permissions';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { classNames } from '~/utils/classNames';
+
+const permissionLabels: Record<ToolPermission, string> = {
+  allow: 'Allow',
+  ask: 'Ask',
+  deny: 'Deny',
+};
+
+const inputClassName = classNames(
+  'px-2 py-1 rounded-md text-xs min-w-0',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A] border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-bolt-elements-focus',
+);
+
+interface PermissionSelectProps {
+  id?: string;
+  value: ToolPermission;
+  onChange: (value: ToolPermission) => void;
+}
+
+function PermissionSelect({ id, value, onChange }: PermissionSelectProps) {
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value as ToolPermission)}
+      className={inputClassName}
+    >
+      {Object.entries(permissionLabels).map(([permission, label]) => (
+        <option key={permission} value={permission}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function McpPermissions() {
+  const permissions = useMCPStore((state) => state.settings.permissions);
+  const serverTools = useMCPStore((state) => state.serverTools);
+  const sessionAllowedTools = useMCPStore((state) => state.sessionAllowedTools);
+  const updatePermissions = useMCPStore((state) => state.updatePermissions);
+  const [policy, setPolicy] = useState<MCPPermissionPolicy>(permissions);
+
+  useEffect(() => {
+    setPolicy(permissions);
+  }, [permissions]);
+
+  const updateRule = (index: number, updates: Partial<ToolPermissionRule>) => {
+    setPolicy((policy) => ({
+      ...policy,
+      rules: policy.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)),
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setPolicy((policy) => ({ ...policy, rules: policy.rules.filter((_, i) => i !== index) }));
+  };
+
+  const addRule = () => {
+    setPolicy((policy) => ({ ...policy, rules: [...policy.rules, { server: '*', tool: '*', permission: 'allow' }] }));
+  };
+
+  const handleSave = () => {
+    const rules = policy.rules
+      .map((rule) => ({
+        ...rule,
+        server: rule.server.trim() || '*',
+        tool: rule.tool.trim() || '*',
+        conditions: rule.conditions?.filter(({ argument, pattern }) => argument.trim() && pattern.trim()),
+      }))
+      .map(({ conditions, ...rule }) => (conditions?.length ? { ...rule, conditions } : rule));
+
+    updatePermissions({ ...policy, rules });
+    toast.success('MCP permissions saved');
+  };
+
+  const toolNames = (server: string) => {
+    const entry = serverTools[server];
+
+    return entry?.status === 'available' ? Object.keys(entry.tools) : [];
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-bolt-elements-textSecondary">
+        Deny rules always win. Otherwise the first matching rule decides, and calls no rule matches use the default.
+        Argument patterns are globs, <span className="font-mono">*</span> stays within a path segment and{' '}
+        <span className="font-mono">**</span> crosses them.
+      </p>
+
+      <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+        <label htmlFor="mcp-default-permission">Default for other tool calls</label>
+        <PermissionSelect
+          id="mcp-default-permission"
+          value={policy.defaultPermission}
+          onChange={(defaultPermission) => setPolicy({ ...policy, defaultPermission })}
+        />
+      </div>
+
+      {policy.rules.length === 0 ? (
+        <p className="text-sm text-bolt-elements-textTertiary">No rules yet</p>
+      ) : (
+        <div className="space-y-2">
+          {policy.rules.map((rule, index) => (
+            <div key={index} className="p-2 rounded-md bg-bolt-elements-background-depth-1 space-y-2">
+              <div className="flex items-center gap-2">
+                <PermissionSelect
+                  value={rule.permission}
+                  onChange={(permission) => updateRule(index, { permission })}
+                />
+                <select
+                  value={rule.server}
+                  onChange={(e) => updateRule(index, { server: e.target.value, tool: '*' })}
+                  className={classNames(inputClassName, 'flex-1')}
+                  aria-label="Server"
+                >
+                  <option value="*">Any server</option>
+                  {[...new Set([...Object.keys(serverTools), rule.server])]
+                    .filter((server) => server !== '*')
+                    .map((server) => (
+                      <option key={server} value={server}>
+                        {server}
+                      </option>
+                    ))}
+                </select>
+                <input
+                  list={`mcp-rule-tools-${index}`}
+                  value={rule.tool}
+                  onChange={(e) => updateRule(index, { tool: e.target.value })}
+                  placeholder="* for any tool"
+                  className={classNames(inputClassName, 'flex-1')}
+                  aria-label="Tool"
+                />
+                <datalist id={`mcp-rule-tools-${index}`}>
+                  {toolNames(rule.server).map((tool) => (
+                    <option key={tool} value={tool} />
+                  ))}
+                </datalist>
+                <button
+                  onClick={() => removeRule(index)}
+                  className="p-1 text-bolt-elements-textTertiary hover:text-bolt-elements-icon-error"
+                  title="Remove rule"
+                >
+                  <div className="i-ph:trash w-4 h-4" />
+                </button>
+              </div>
+              {rule.conditions?.map((condition, conditionIndex) => (
+                <div key={conditionIndex} className="flex items-center gap-2 ml-4 text-xs">
+                  <span className="text-bolt-elements-textSecondary">when</span>
+                  <input
+                    value={condition.argument}
+                    onChange={(e) =>
+                      updateRule(index, {
+                        conditions: rule.conditions?.map((c, i) =>
+                          i === conditionIndex ? { ...c, argument: e.target.value } : c,
+                        ),
+                      })
+                    }
+                    placeholder="argument"
+                    className={classNames(inputClassName, 'w-32')}
+                  />
+                  <span className="text-bolt-elements-textSecondary">matches</span>
+                  <input
+                    value={condition.pattern}
+                    onChange={(e) =>
+                      updateRule(index, {
+                        conditions: rule.conditions?.map((c, i) =>
+                          i === conditionIndex ? { ...c, pattern: e.target.value } : c,
+                        ),
+                      })
+                    }
+                    placeholder="/home/project/**"
+                    className={classNames(inputClassName, 'flex-1 font-mono')}
+                  />
+                  <button
+                    onClick={() =>
+                      updateRule(index, { conditions: rule.conditions?.filter((_, i) => i !== conditionIndex) })
+                    }
+                    className="p-1 text-bolt-elements-textTertiary hover:text-bolt-elements-icon-error"
+                    title="Remove condition"
+                  >
+                    <div className="i-ph:x w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updateRule(index, { conditions: [...(rule.conditions ?? []), { argument: '', pattern: '' }] })
+                }
+                className="ml-4 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary flex items-center gap-1"
+              >
+                <div className="i-ph:plus w-3 h-3" />
+                Argument condition
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sessionAllowedTools.length > 0 && (
+        <p className="text-xs text-bolt-elements-textSecondary">
+          Allowed for this session: <span className="font-mono">{sessionAllowedTools.join(', ')}</span>
+        </p>
+      )}
+
+      <div className="flex justify-between gap-2">
+        <button
+          onClick={addRule}
+          className="px-3 py-1.5 rounded-lg text-sm border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 flex items-center gap-2"
+        >
+          <div className="i-ph:plus w-4 h-4" />
+          Add Rule
+        </button>
+        <button
+          onClick={handleSave}
+          className={classNames(
+            'px-3 py-1.5 rounded-lg text-sm flex items-center gap-2',
+            'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent',
+            'hover:bg-bolt-elements-item-backgroundActive',
+          )}
+        >
+          <div className="i-ph:floppy-disk w-4 h-4" />
+          Save Permissions
+        </button>
+      </div>
+    </div>
+  );
+}
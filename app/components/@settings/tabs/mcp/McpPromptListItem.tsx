@@ -0,0 +1,40 @@
+import type { MCPPrompt } from '~/lib/services/mcpService';
+
+type McpPromptProps = {
+  prompt: MCPPrompt;
+};
+
+export default function McpPromptListItem({ prompt }: McpPromptProps) {
+  const promptArguments = prompt.arguments ?? [];
+
+  return (
+    <div className="mt-2 ml-4 p-3 rounded-md bg-bolt-elements-background-depth-2 text-xs">
+      <div className="flex flex-col gap-1.5">
+        <h3 className="text-bolt-elements-textPrimary font-semibold font-mono truncate" title={prompt.name}>
+          /{prompt.name}
+        </h3>
+
+        <p className="text-bolt-elements-textSecondary">{prompt.description || 'No description available'}</p>
+
+        {promptArguments.length > 0 && (
+          <div className="mt-2.5">
+            <h4 className="text-bolt-elements-textSecondary font-semibold mb-1.5">Arguments:</h4>
+            <ul className="ml-1 space-y-2">
+              {promptArguments.map((argument) => (
+                <li key={argument.name} className="break-words">
+                  <span className="font-medium text-bolt-elements-textPrimary">
+                    {argument.name}
+                    {argument.required && <span className="text-red-600 dark:text-red-400 ml-1">*</span>}
+                  </span>
+                  {argument.description && (
+                    <span className="ml-2 text-bolt-elements-textSecondary">{argument.description}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
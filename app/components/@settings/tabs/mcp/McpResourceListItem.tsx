@@ -0,0 +1,35 @@
+import type { MCPResource } from '~/lib/services/mcpService';
+
+type McpResourceProps = {
+  resource: MCPResource;
+  onAttach?: () => void;
+};
+
+export default function McpResourceListItem({ resource, onAttach }: McpResourceProps) {
+  return (
+    <div className="mt-2 ml-4 p-3 rounded-md bg-bolt-elements-background-depth-2 text-xs">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex flex-col gap-1.5 min-w-0">
+          <h3 className="text-bolt-elements-textPrimary font-semibold truncate" title={resource.name}>
+            {resource.name}
+          </h3>
+          <span className="font-mono text-bolt-elements-textSecondary truncate" title={resource.uri}>
+            {resource.uri}
+            {resource.mimeType && <span className="ml-2 italic">{resource.mimeType}</span>}
+          </span>
+          {resource.description && <p className="text-bolt-elements-textSecondary">{resource.description}</p>}
+        </div>
+
+        {onAttach && (
+          <button
+            onClick={onAttach}
+            className="flex-shrink-0 flex items-center gap-1 px-2 py-1 rounded-md bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4 text-bolt-elements-textPrimary transition-colors"
+          >
+            <div className="i-ph:paperclip w-3 h-3" />
+            Attach
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import type { MCPServer } from '~/lib/services/mcpService';
+import type { MCPResource, MCPServer } from '~/lib/services/mcpService';
 import McpStatusBadge from '~/components/@settings/tabs/mcp/McpStatusBadge';
 import McpServerListItem from '~/components/@settings/tabs/mcp/McpServerListItem';
+import McpResourceListItem from '~/components/@settings/tabs/mcp/McpResourceListItem';
+import McpPromptListItem from '~/components/@settings/tabs/mcp/McpPromptListItem';
 
 type McpServerListProps = {
   serverEntries: [string, MCPServer][];
@@ -8,6 +10,9 @@ type McpServerListProps = {
   checkingServers: boolean;
   onlyShowAvailableServers?: boolean;
   toggleServerExpanded: (serverName: string) => void;
+
+  /** offers to attach the resources of the servers to the chat */
+  onAttachResource?: (serverName: string, resource: MCPResource) => void;
 };
 
 export default function McpServerList({
@@ -16,6 +21,7 @@ export default function McpServerList({
   checkingServers,
   onlyShowAvailableServers = false,
   toggleServerExpanded,
+  onAttachResource,
 }: McpServerListProps) {
   if (serverEntries.length === 0) {
     return <p className="text-sm text-bolt-elements-textSecondary">No MCP servers configured</p>;
@@ -89,6 +95,36 @@ export default function McpServerList({
                     ))}
                   </div>
                 )}
+
+                {mcpServer.resources.length > 0 && (
+                  <>
+                    <div className="text-bolt-elements-textSecondary text-xs font-medium ml-1 mt-3 mb-1.5">
+                      Resources:
+                    </div>
+                    <div className="mt-1 space-y-2">
+                      {mcpServer.resources.map((resource) => (
+                        <McpResourceListItem
+                          key={`${serverName}-${resource.uri}`}
+                          resource={resource}
+                          onAttach={onAttachResource ? () => onAttachResource(serverName, resource) : undefined}
+                        />
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {mcpServer.prompts.length > 0 && (
+                  <>
+                    <div className="text-bolt-elements-textSecondary text-xs font-medium ml-1 mt-3 mb-1.5">
+                      Prompts:
+                    </div>
+                    <div className="mt-1 space-y-2">
+                      {mcpServer.prompts.map((prompt) => (
+                        <McpPromptListItem key={`${serverName}-${prompt.name}`} prompt={prompt} />
+                      ))}
+                    </div>
+                  </>
+                )}
               </div>
             )}
           </div>
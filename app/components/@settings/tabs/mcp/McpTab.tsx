@@ -3,7 +3,10 @@ import { classNames } from '~/utils/classNames';
 import type { MCPConfig } from '~/lib/services/mcpService';
 import { toast } from 'react-toastify';
 import { useMCPStore } from '~/lib/stores/mcp';
+import { Switch } from '~/components/ui/Switch';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
+import McpPermissions from '~/components/@settings/tabs/mcp/McpPermissions';
+import McpAuditLog from '~/components/@settings/tabs/mcp/McpAuditLog';
 
 const EXAMPLE_MCP_CONFIG: MCPConfig = {
   mcpServers: {
@@ -37,6 +40,9 @@ export default function McpTab() {
   const [isSaving, setIsSaving] = useState(false);
   const [mcpConfigText, setMCPConfigText] = useState('');
   const [maxLLMSteps, setMaxLLMSteps] = useState(1);
+  const [enableWorkbenchTools, setEnableWorkbenchTools] = useState(true);
+  const [acceptMCPRequests, setAcceptMCPRequests] = useState(false);
+  const [mcpServerToken, setMCPServerToken] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isCheckingServers, setIsCheckingServers] = useState(false);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
@@ -53,6 +59,9 @@ export default function McpTab() {
   useEffect(() => {
     setMCPConfigText(JSON.stringify(settings.mcpConfig, null, 2));
     setMaxLLMSteps(settings.maxLLMSteps);
+    setEnableWorkbenchTools(settings.enableWorkbenchTools);
+    setAcceptMCPRequests(settings.acceptMCPRequests);
+    setMCPServerToken(settings.mcpServerToken);
     setError(null);
   }, [settings]);
 
@@ -79,8 +88,12 @@ export default function McpTab() {
 
     try {
       await updateSettings({
+        ...settings,
         mcpConfig: parsedConfig,
         maxLLMSteps,
+        enableWorkbenchTools,
+        acceptMCPRequests,
+        mcpServerToken,
       });
       toast.success('MCP configuration saved');
 
@@ -192,6 +205,45 @@ export default function McpTab() {
               className="w-full px-3 py-2 text-bolt-elements-textPrimary text-sm rounded-lg bg-white dark:bg-bolt-elements-background-depth-4 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <span className="block text-sm text-bolt-elements-textPrimary">Built-in workbench tools</span>
+              <p className="text-xs text-bolt-elements-textSecondary">
+                Lets the model read and search the project files, run commands and read the preview console during its
+                steps. Turn off for models without tool support.
+              </p>
+            </div>
+            <Switch checked={enableWorkbenchTools} onCheckedChange={setEnableWorkbenchTools} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <span className="block text-sm text-bolt-elements-textPrimary">Accept requests from MCP clients</span>
+              <p className="text-xs text-bolt-elements-textSecondary">
+                Lets other agents and editors connected to{' '}
+                <code className="text-bolt-elements-textPrimary">/api/mcp-server</code> (or{' '}
+                <code className="text-bolt-elements-textPrimary">octodev mcp</code>) list chats, read and change the
+                open project, create projects and deploy from this tab.
+              </p>
+            </div>
+            <Switch checked={acceptMCPRequests} onCheckedChange={setAcceptMCPRequests} />
+          </div>
+          {acceptMCPRequests && (
+            <div>
+              <label htmlFor="mcp-server-token" className="block text-sm text-bolt-elements-textSecondary mb-2">
+                MCP server token, the value of the server's{' '}
+                <code className="text-bolt-elements-textPrimary">MCP_SERVER_TOKEN</code> this tab pairs with
+              </label>
+              <input
+                id="mcp-server-token"
+                type="password"
+                autoComplete="off"
+                placeholder="MCP_SERVER_TOKEN"
+                value={mcpServerToken}
+                onChange={(e) => setMCPServerToken(e.target.value)}
+                className="w-full px-3 py-2 text-bolt-elements-textPrimary text-sm rounded-lg bg-white dark:bg-bolt-elements-background-depth-4 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
           <div className="mt-2 text-sm text-bolt-elements-textSecondary">
             The MCP configuration format is identical to the one used in Claude Desktop.
             <a
@@ -207,6 +259,20 @@ export default function McpTab() {
         </div>
       </section>
 
+      <section aria-labelledby="permissions-section-heading">
+        <h2 id="permissions-section-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-3">
+          Tool Permissions
+        </h2>
+        <McpPermissions />
+      </section>
+
+      <section aria-labelledby="audit-section-heading">
+        <h2 id="audit-section-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-3">
+          Audit Log
+        </h2>
+        <McpAuditLog />
+      </section>
+
       <div className="flex flex-wrap justify-between gap-3 mt-6">
         <button
           onClick={handleLoadExample}
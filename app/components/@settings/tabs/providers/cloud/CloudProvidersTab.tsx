@@ -14,6 +14,7 @@ import { TbBrain, TbCloudComputing } from 'react-icons/tb';
 import { BiCodeBlock, BiChip } from 'react-icons/bi';
 import { FaCloud, FaBrain } from 'react-icons/fa';
 import type { IconType } from 'react-icons';
+import FallbackChainSettings from './FallbackChainSettings';
 
 // Add type for provider names to ensure type safety
 type ProviderName =
@@ -301,6 +302,8 @@ const CloudProvidersTab = () => {
           ))}
         </div>
       </motion.div>
+
+      <FallbackChainSettings />
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { FallbackModel } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const iconButtonClassName = classNames(
+  'p-1.5 rounded-md text-bolt-elements-textSecondary',
+  'hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-4',
+  'disabled:opacity-30 disabled:pointer-events-none',
+  'transition-colors',
+);
+
+/**
+ * Ordered list of provider and model pairs tried when the selected model fails with a rate limit,
+ * authentication or timeout error.
+ */
+export default function FallbackChainSettings() {
+  const { providers, fallbackChain, setFallbackChain } = useSettings();
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  const enabledProviders = useMemo(
+    () =>
+      Object.entries(providers || {})
+        .filter(([, config]) => config.settings.enabled)
+        .map(([name, config]) => ({ name, models: (config.staticModels || []).map((staticModel) => staticModel.name) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [providers],
+  );
+
+  const selectedProvider = enabledProviders.find((entry) => entry.name === provider) ?? enabledProviders[0];
+
+  const handleAdd = () => {
+    const entry = { provider: selectedProvider?.name ?? '', model: model.trim() };
+
+    if (!entry.provider || !entry.model) {
+      return;
+    }
+
+    if (fallbackChain.some((item) => item.provider === entry.provider && item.model === entry.model)) {
+      toast.info(`${entry.model} is already in the fallback chain`);
+      return;
+    }
+
+    setFallbackChain([...fallbackChain, entry]);
+    setModel('');
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const chain: FallbackModel[] = [...fallbackChain];
+    const [entry] = chain.splice(index, 1);
+
+    chain.splice(index + offset, 0, entry);
+    setFallbackChain(chain);
+  };
+
+  return (
+    <motion.div
+      className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div>
+        <h4 className="text-md font-medium text-bolt-elements-textPrimary">Fallback Chain</h4>
+        <p className="text-sm text-bolt-elements-textSecondary">
+          Models tried in order when the selected one fails with a rate limit, authentication or timeout error
+        </p>
+      </div>
+
+      {fallbackChain.length > 0 ? (
+        <ol className="space-y-2">
+          {fallbackChain.map((entry, index) => (
+            <li
+              key={`${entry.provider}/${entry.model}`}
+              className="flex items-center gap-3 rounded-lg bg-bolt-elements-background-depth-3 px-3 py-2 text-sm"
+            >
+              <span className="text-bolt-elements-textTertiary">{index + 1}.</span>
+              <span className="flex-1 min-w-0 truncate text-bolt-elements-textPrimary">
+                {entry.model}
+                <span className="ml-2 text-bolt-elements-textSecondary">{entry.provider}</span>
+              </span>
+              <button
+                className={iconButtonClassName}
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+                title="Move up"
+              >
+                <div className="i-ph:arrow-up w-4 h-4" />
+              </button>
+              <button
+                className={iconButtonClassName}
+                disabled={index === fallbackChain.length - 1}
+                onClick={() => handleMove(index, 1)}
+                title="Move down"
+              >
+                <div className="i-ph:arrow-down w-4 h-4" />
+              </button>
+              <button
+                className={iconButtonClassName}
+                onClick={() => setFallbackChain(fallbackChain.filter((_, i) => i !== index))}
+                title="Remove"
+              >
+                <div className="i-ph:trash w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-bolt-elements-textTertiary">No fallback models configured</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedProvider?.name ?? ''}
+          onChange={(e) => setProvider(e.target.value)}
+          className={inputClassName}
+        >
+          {enabledProviders.map((entry) => (
+            <option key={entry.name} value={entry.name}>
+              {entry.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={model}
+          list="fallback-chain-models"
+          placeholder="Model name"
+          className={classNames(inputClassName, 'flex-1')}
+          onChange={(e) => setModel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleAdd();
+            }
+          }}
+        />
+        <datalist id="fallback-chain-models">
+          {selectedProvider?.models.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <button
+          onClick={handleAdd}
+          disabled={!selectedProvider || !model.trim()}
+          className={classNames(
+            'px-3 py-1.5 rounded-lg text-sm',
+            'bg-purple-500 text-white hover:bg-purple-600',
+            'disabled:opacity-50 disabled:pointer-events-none',
+            'transition-colors',
+          )}
+        >
+          Add
+        </button>
+      </div>
+    </motion.div>
+  );
+}
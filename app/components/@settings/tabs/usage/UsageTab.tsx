@@ -0,0 +1,341 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { ConfirmationDialog } from '~/components/ui/Dialog';
+import { clearUsageRecords, getAll, getUsageRecords } from '~/lib/persistence/db';
+import type { UsageRecord } from '~/lib/persistence/types';
+import {
+  getBudgetPeriodStart,
+  getUsageDay,
+  groupUsage,
+  summarizeUsage,
+  type BudgetPeriod,
+  type UsageGroup,
+} from '~/lib/persistence/usage';
+import {
+  getUsageDatabase,
+  refreshUsageSpend,
+  updateUsageBudget,
+  usageBudgetStore,
+  usageSpendStore,
+} from '~/lib/stores/usage';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+function formatCost(cost: number) {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+
+  return String(tokens);
+}
+
+function parseLimit(value: string) {
+  const limit = parseFloat(value);
+
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+function UsageTable({ title, icon, groups }: { title: string; icon: string; groups: UsageGroup[] }) {
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <div className={classNames(icon, 'w-4 h-4 text-purple-500')} />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{title}</span>
+      </div>
+      {groups.length === 0 ? (
+        <p className="text-sm text-bolt-elements-textSecondary">No usage recorded yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-bolt-elements-textTertiary">
+              <th className="pb-2 font-normal">Name</th>
+              <th className="pb-2 font-normal text-right">Requests</th>
+              <th className="pb-2 font-normal text-right">Tokens</th>
+              <th className="pb-2 font-normal text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ key, summary }) => (
+              <tr key={key} className="border-t border-bolt-elements-borderColor">
+                <td className="py-1.5 pr-2 text-bolt-elements-textPrimary truncate max-w-[240px]" title={key}>
+                  {key}
+                </td>
+                <td className="py-1.5 text-right text-bolt-elements-textSecondary">{summary.requests}</td>
+                <td className="py-1.5 text-right text-bolt-elements-textSecondary">
+                  {formatTokens(summary.totalTokens)}
+                </td>
+                <td className="py-1.5 text-right text-bolt-elements-textPrimary">
+                  {formatCost(summary.cost)}
+                  {summary.unpricedRequests > 0 && (
+                    <span className="text-bolt-elements-textTertiary" title="Some requests used models without pricing">
+                      *
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </motion.div>
+  );
+}
+
+export default function UsageTab() {
+  const budget = useStore(usageBudgetStore);
+  const spent = useStore(usageSpendStore);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [chatTitles, setChatTitles] = useState<Record<string, string>>({});
+  const [softLimit, setSoftLimit] = useState(budget.softLimit?.toString() ?? '');
+  const [hardLimit, setHardLimit] = useState(budget.hardLimit?.toString() ?? '');
+  const [showClearDialog, setShowClearDialog] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    const db = await getUsageDatabase();
+
+    if (!db) {
+      return;
+    }
+
+    try {
+      const [usageRecords, chats] = await Promise.all([getUsageRecords(db), getAll(db)]);
+
+      setRecords(usageRecords);
+      setChatTitles(Object.fromEntries(chats.map((chat) => [chat.id, chat.description || `Chat ${chat.id}`])));
+      await refreshUsageSpend();
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      toast.error('Failed to load usage data');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const totals = useMemo(() => summarizeUsage(records), [records]);
+  const periodTotals = useMemo(() => {
+    const since = getBudgetPeriodStart(budget.period).toISOString();
+
+    return summarizeUsage(records.filter((record) => record.timestamp >= since));
+  }, [records, budget.period]);
+  const byProvider = useMemo(() => groupUsage(records, (record) => record.provider), [records]);
+  const byModel = useMemo(() => groupUsage(records, (record) => `${record.provider} / ${record.model}`), [records]);
+  const byDay = useMemo(
+    () =>
+      groupUsage(records, (record) => getUsageDay(record.timestamp))
+        .sort((a, b) => b.key.localeCompare(a.key))
+        .slice(0, 30),
+    [records],
+  );
+  const byChat = useMemo(
+    () =>
+      groupUsage(records, (record) =>
+        record.source === 'agent' ? 'Agent executions' : (chatTitles[record.chatId ?? ''] ?? 'Deleted chat'),
+      ),
+    [records, chatTitles],
+  );
+
+  const handleSaveBudget = () => {
+    const soft = parseLimit(softLimit);
+    const hard = parseLimit(hardLimit);
+
+    if (soft !== undefined && hard !== undefined && soft > hard) {
+      toast.error('The soft budget must not exceed the hard budget');
+      return;
+    }
+
+    updateUsageBudget({ softLimit: soft, hardLimit: hard });
+    toast.success('Budget updated');
+  };
+
+  const handleClear = async () => {
+    const db = await getUsageDatabase();
+
+    if (!db) {
+      return;
+    }
+
+    try {
+      await clearUsageRecords(db);
+      await loadUsage();
+      toast.success('Usage history cleared');
+    } catch (error) {
+      toast.error('Failed to clear usage history: ' + (error as Error).message);
+    } finally {
+      setShowClearDialog(false);
+    }
+  };
+
+  const budgetProgress = budget.hardLimit ? Math.min(100, (spent / budget.hardLimit) * 100) : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Total cost', value: formatCost(totals.cost), icon: 'i-ph:currency-dollar' },
+          {
+            label: `This ${budget.period === 'daily' ? 'day' : 'month'}`,
+            value: formatCost(periodTotals.cost),
+            icon: 'i-ph:calendar',
+          },
+          { label: 'Tokens', value: formatTokens(totals.totalTokens), icon: 'i-ph:coins' },
+          {
+            label: 'Avg. latency',
+            value: `${(totals.averageLatencyMs / 1000).toFixed(1)}s`,
+            icon: 'i-ph:timer',
+          },
+        ].map((stat) => (
+          <motion.div
+            key={stat.label}
+            className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+          >
+            <div className="flex items-center gap-2 text-xs text-bolt-elements-textSecondary">
+              <div className={classNames(stat.icon, 'w-4 h-4')} />
+              {stat.label}
+            </div>
+            <div className="mt-1 text-xl font-semibold text-bolt-elements-textPrimary">{stat.value}</div>
+          </motion.div>
+        ))}
+      </div>
+
+      {totals.unpricedRequests > 0 && (
+        <p className="text-xs text-bolt-elements-textTertiary">
+          * {totals.unpricedRequests} request{totals.unpricedRequests === 1 ? '' : 's'} used models without pricing
+          information and are not included in the cost.
+        </p>
+      )}
+
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+      >
+        <div className="flex items-center gap-2">
+          <div className="i-ph:wallet w-4 h-4 text-purple-500" />
+          <span className="text-sm font-medium text-bolt-elements-textPrimary">Budget</span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-bolt-elements-textSecondary mb-2">Period</label>
+            <select
+              value={budget.period}
+              onChange={(e) => updateUsageBudget({ period: e.target.value as BudgetPeriod })}
+              className={inputClassName}
+            >
+              <option value="daily">Daily</option>
+              <option value="monthly">Monthly</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-bolt-elements-textSecondary mb-2">Soft budget (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              value={softLimit}
+              onChange={(e) => setSoftLimit(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-bolt-elements-textSecondary mb-2">Hard budget (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              value={hardLimit}
+              onChange={(e) => setHardLimit(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-bolt-elements-textTertiary">
+          Passing the soft budget shows a warning. Once the hard budget is reached, new chat requests are blocked until
+          the next period starts or the limit is raised.
+        </p>
+
+        {budgetProgress !== undefined && (
+          <div>
+            <div className="flex justify-between text-xs text-bolt-elements-textSecondary mb-1">
+              <span>{formatCost(spent)} spent</span>
+              <span>{formatCost(budget.hardLimit ?? 0)}</span>
+            </div>
+            <div className="h-2 rounded-full bg-bolt-elements-background-depth-3 overflow-hidden">
+              <div
+                className={classNames('h-full rounded-full', {
+                  'bg-red-500': budgetProgress >= 100,
+                  'bg-yellow-500': budgetProgress < 100 && budget.softLimit !== undefined && spent >= budget.softLimit,
+                  'bg-purple-500': budgetProgress < 100 && (budget.softLimit === undefined || spent < budget.softLimit),
+                })}
+                style={{ width: `${budgetProgress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSaveBudget} size="sm">
+            Save budget
+          </Button>
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <UsageTable title="Spend per provider" icon="i-ph:cloud" groups={byProvider} />
+        <UsageTable title="Spend per model" icon="i-ph:robot" groups={byModel} />
+        <UsageTable title="Spend per day" icon="i-ph:calendar" groups={byDay} />
+        <UsageTable title="Spend per chat" icon="i-ph:chat-circle-text" groups={byChat} />
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setShowClearDialog(true)} disabled={records.length === 0}>
+          <div className="i-ph:trash mr-2" />
+          Clear usage history
+        </Button>
+      </div>
+
+      <ConfirmationDialog
+        isOpen={showClearDialog}
+        onClose={() => setShowClearDialog(false)}
+        title="Clear usage history?"
+        description="This removes all recorded token usage and costs. Budgets are kept."
+        confirmLabel="Clear"
+        variant="destructive"
+        onConfirm={handleClear}
+      />
+    </div>
+  );
+}
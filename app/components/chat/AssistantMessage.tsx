@@ -7,6 +7,7 @@ import { WORK_DIR } from '~/utils/constants';
 import WithTooltip from '~/components/ui/Tooltip';
 import type { Message } from 'ai';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/task-plan';
 import type {
   TextUIPart,
   ReasoningUIPart,
@@ -16,7 +17,7 @@ import type {
   StepStartUIPart,
 } from '@ai-sdk/ui-utils';
 import { ToolInvocations } from './ToolInvocations';
-import type { ToolCallAnnotation } from '~/types/context';
+import type { ModelAnnotation, PlanStepAnnotation, ToolCallAnnotation, UsageAnnotation } from '~/types/context';
 
 interface AssistantMessageProps {
   content: string;
@@ -25,13 +26,12 @@ interface AssistantMessageProps {
   onRewind?: (messageId: string) => void;
   onFork?: (messageId: string) => void;
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
   parts:
-    | (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[]
-    | undefined;
+    (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[] | undefined;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
 }
 
@@ -91,11 +91,15 @@ export const AssistantMessage = memo(
       codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
     }
 
-    const usage: {
-      completionTokens: number;
-      promptTokens: number;
-      totalTokens: number;
-    } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+    const usage: UsageAnnotation['value'] | undefined = filteredAnnotations.find(
+      (annotation) => annotation.type === 'usage',
+    )?.value;
+
+    const answeredBy = filteredAnnotations.find((annotation) => annotation.type === 'model') as
+      ModelAnnotation | undefined;
+
+    const planStep = filteredAnnotations.find((annotation) => annotation.type === 'planStep') as
+      PlanStepAnnotation | undefined;
 
     const toolInvocations = parts?.filter((part) => part.type === 'tool-invocation');
     const toolCallAnnotations = filteredAnnotations.filter(
@@ -146,11 +150,37 @@ export const AssistantMessage = memo(
               </Popover>
             )}
             <div className="flex w-full items-center justify-between">
+              {planStep && (
+                <button
+                  className="flex items-center gap-1 bg-transparent text-bolt-elements-item-contentAccent hover:underline"
+                  onClick={() =>
+                    document
+                      .getElementById(`message-${planStep.planMessageId}`)
+                      ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+                  }
+                >
+                  <div className="i-ph:list-checks" />
+                  Step {planStep.index + 1} of {planStep.total}: {planStep.title}
+                </button>
+              )}
               {usage && (
                 <div>
                   Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+                  {usage.cost !== undefined && <> · ${usage.cost.toFixed(4)}</>}
                 </div>
               )}
+              {answeredBy && answeredBy.fallbacks.length > 0 && (
+                <WithTooltip
+                  tooltip={answeredBy.fallbacks
+                    .map((fallback) => `${fallback.provider} / ${fallback.model}: ${fallback.error}`)
+                    .join('\n')}
+                >
+                  <div className="flex items-center gap-1 text-bolt-elements-item-contentAccent">
+                    <div className="i-ph:arrows-split" />
+                    Answered by {answeredBy.model} ({answeredBy.provider})
+                  </div>
+                </WithTooltip>
+              )}
               {(onRewind || onFork) && messageId && (
                 <div className="flex gap-2 flex-col lg:flex-row ml-auto">
                   {onRewind && (
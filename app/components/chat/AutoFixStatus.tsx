@@ -0,0 +1,56 @@
+import { useStore } from '@nanostores/react';
+import { autoFixLoop } from '~/lib/stores/auto-fix';
+import type { AutoFixStatus as Status } from '~/lib/runtime/auto-fix';
+import { classNames } from '~/utils/classNames';
+
+function describe({ state, attempt, maxAttempts, errors }: Status) {
+  switch (state) {
+    case 'collecting':
+      return { icon: 'i-ph:bug', text: 'Collecting errors from the preview and the terminal...' };
+    case 'fixing':
+      return { icon: 'i-svg-spinners:90-ring-with-bg', text: `Fixing errors, attempt ${attempt} of ${maxAttempts}` };
+    case 'verifying':
+      return { icon: 'i-svg-spinners:90-ring-with-bg', text: 'Waiting for the preview to run without errors...' };
+    case 'fixed':
+      return { icon: 'i-ph:check-circle', text: 'The preview runs without errors' };
+    case 'exhausted':
+      return {
+        icon: 'i-ph:warning-circle',
+        text: `Still ${errors.length === 1 ? 'one error' : `${errors.length} errors`} after ${maxAttempts} attempts, fix them manually or ask again`,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Progress of the auto-fix loop above the chat input
+ */
+export function AutoFixStatus() {
+  const status = useStore(autoFixLoop.status);
+  const description = describe(status);
+
+  if (!description) {
+    return null;
+  }
+
+  const isActive = status.state === 'collecting' || status.state === 'fixing' || status.state === 'verifying';
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 px-3 py-2 mb-2 text-xs text-bolt-elements-textSecondary">
+      <div
+        className={classNames(description.icon, 'text-base shrink-0', {
+          'text-bolt-elements-icon-success': status.state === 'fixed',
+          'text-bolt-elements-button-danger-text': status.state === 'exhausted',
+        })}
+      />
+      <span className="flex-1">{description.text}</span>
+      <button
+        className="bg-transparent text-accent-500 hover:underline"
+        onClick={() => (isActive ? autoFixLoop.stop() : autoFixLoop.reset())}
+      >
+        {isActive ? 'Stop' : 'Dismiss'}
+      </button>
+    </div>
+  );
+}
@@ -2,11 +2,11 @@ import { useStore } from '@nanostores/react';
 import type { Message } from 'ai';
 import { useChat } from '@ai-sdk/react';
 import { useAnimate } from 'framer-motion';
-import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
-import { chatStore } from '~/lib/stores/chat';
+import { chatId, description, useChatHistory } from '~/lib/persistence';
+import { chatStore, pendingChatMessage } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
@@ -22,12 +22,28 @@ import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTempla
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
 import { filesToArtifacts } from '~/utils/fileUtils';
-import { supabaseConnection } from '~/lib/stores/supabase';
+import { supabaseBackend, supabaseConnection } from '~/lib/stores/supabase';
+import { databaseSchema } from '~/lib/stores/supabaseDatabase';
+import { formatSchemaContext } from '~/lib/supabase/schema';
 import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
 import { useMCPStore } from '~/lib/stores/mcp';
 import type { LlmErrorAlertType } from '~/types/actions';
+import type { UsageAnnotation } from '~/types/context';
+import { checkUsageBudget, recordUsage, usageBudgetStore, usageSpendStore } from '~/lib/stores/usage';
+import { rankContextFiles } from '~/lib/stores/code-index';
+import { useAutoFix } from '~/lib/hooks/useAutoFix';
+import { useToolPermissions } from '~/lib/hooks/useToolPermissions';
+import { useWorkspaceBridge } from '~/lib/hooks/useWorkspaceBridge';
+import { useTaskPlan } from '~/lib/hooks/useTaskPlan';
+import { isWorkbenchTool } from '~/lib/common/workbench-tools';
+import { rejectPendingWorkbenchToolCalls, runWorkbenchToolCall } from '~/lib/runtime/workbench-tools';
+import { autoFixLoop } from '~/lib/stores/auto-fix';
+import { taskPlanRunner } from '~/lib/stores/task-plan';
+import type { ChatMode, PlanStepRequest } from '~/types/task-plan';
+import { attachedMCPResources, expandMCPPrompt } from '~/lib/stores/mcpResources';
+import { listPromptCommands, parsePromptCommand } from '~/lib/mcp/prompts';
 
 const logger = createScopedLogger('Chat');
 
@@ -100,7 +116,23 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const isLocalDatabase = useStore(supabaseBackend) === 'local';
+    const supabaseSchema = useStore(databaseSchema);
+    const databaseSchemaContext = useMemo(
+      () =>
+        supabaseSchema?.tables.length || supabaseSchema?.functions.length
+          ? formatSchemaContext(supabaseSchema)
+          : undefined,
+      [supabaseSchema],
+    );
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      fallbackChain,
+      indexContextSelection,
+    } = useSettings();
     const [llmErrorAlert, setLlmErrorAlert] = useState<LlmErrorAlertType | undefined>(undefined);
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -113,9 +145,13 @@ export const ChatImpl = memo(
     const { showChat } = useStore(chatStore);
     const [animationScope, animate] = useAnimate();
     const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
-    const [chatMode, setChatMode] = useState<'discuss' | 'build'>('build');
+    const [chatMode, setChatMode] = useState<ChatMode>('build');
     const [selectedElement, setSelectedElement] = useState<ElementInfo | null>(null);
     const mcpSettings = useMCPStore((state) => state.settings);
+    const mcpServerTools = useMCPStore((state) => state.serverTools);
+    const mcpResources = useStore(attachedMCPResources);
+    const usageBudget = useStore(usageBudgetStore);
+    const usageSpend = useStore(usageSpendStore);
 
     const {
       messages,
@@ -138,19 +174,44 @@ export const ChatImpl = memo(
         files,
         promptId,
         contextOptimization: contextOptimizationEnabled,
+        indexContextSelection,
         chatMode,
         designScheme,
-        supabase: {
-          isConnected: supabaseConn.isConnected,
-          hasSelectedProject: !!selectedProject,
-          credentials: {
-            supabaseUrl: supabaseConn?.credentials?.supabaseUrl,
-            anonKey: supabaseConn?.credentials?.anonKey,
-          },
-        },
+        supabase: isLocalDatabase
+          ? { isConnected: true, hasSelectedProject: true, local: true, schema: databaseSchemaContext }
+          : {
+              isConnected: supabaseConn.isConnected,
+              hasSelectedProject: !!selectedProject,
+              credentials: {
+                supabaseUrl: supabaseConn?.credentials?.supabaseUrl,
+                anonKey: supabaseConn?.credentials?.anonKey,
+              },
+              schema: databaseSchemaContext,
+            },
         maxLLMSteps: mcpSettings.maxLLMSteps,
+        enableWorkbenchTools: mcpSettings.enableWorkbenchTools,
+        mcpResources: mcpResources.map(({ serverName, uri }) => ({ serverName, uri })),
+        usageBudget: {
+          spent: usageSpend,
+          hardLimit: usageBudget.hardLimit,
+        },
+        fallbackChain,
       },
       sendExtraMessageFields: true,
+
+      /*
+       * workbench tool results are sent back automatically, up to the same number of steps the server takes. The
+       * tool permissions apply to them like to MCP tools
+       */
+      maxSteps: mcpSettings.maxLLMSteps,
+      onToolCall: ({ toolCall }) => {
+        if (isWorkbenchTool(toolCall.toolName)) {
+          return runWorkbenchToolCall(toolCall.toolCallId, toolCall.toolName, toolCall.args);
+        }
+
+        // MCP tool calls wait for the approval in the chat
+        return undefined;
+      },
       onError: (e) => {
         setFakeLoading(false);
         handleError(e, 'chat');
@@ -159,6 +220,20 @@ export const ChatImpl = memo(
         const usage = response.usage;
         setData(undefined);
 
+        const usageAnnotation = message.annotations?.find(
+          (annotation): annotation is UsageAnnotation =>
+            !!annotation && typeof annotation === 'object' && (annotation as UsageAnnotation).type === 'usage',
+        );
+
+        if (usageAnnotation) {
+          recordUsage({
+            ...usageAnnotation.value,
+            source: 'chat',
+            chatId: chatId.get(),
+            messageId: message.id,
+          });
+        }
+
         if (usage) {
           console.log('Token usage:', usage);
           logStore.logProvider('Chat response completed', {
@@ -222,6 +297,9 @@ export const ChatImpl = memo(
       stop();
       chatStore.setKey('aborted', true);
       workbenchStore.abortAllActions();
+      autoFixLoop.stop();
+      taskPlanRunner.stop();
+      rejectPendingWorkbenchToolCalls();
 
       logStore.logProvider('Chat response aborted', {
         component: 'Chat',
@@ -264,7 +342,10 @@ export const ChatImpl = memo(
         let errorType: LlmErrorAlertType['errorType'] = 'unknown';
         let title = 'Request Failed';
 
-        if (errorInfo.statusCode === 401 || errorInfo.message.toLowerCase().includes('api key')) {
+        if (errorInfo.statusCode === 402) {
+          errorType = 'quota';
+          title = 'Budget Exceeded';
+        } else if (errorInfo.statusCode === 401 || errorInfo.message.toLowerCase().includes('api key')) {
           errorType = 'authentication';
           title = 'Authentication Error';
         } else if (errorInfo.statusCode === 429 || errorInfo.message.toLowerCase().includes('rate limit')) {
@@ -386,24 +467,69 @@ export const ChatImpl = memo(
       return attachments;
     };
 
-    const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
+    // resolves to whether the message went out, it is dropped e.g. while a response streams or over budget
+    const sendMessage = async (
+      _event: React.UIEvent,
+      messageInput?: string,
+      planStep?: PlanStepRequest,
+    ): Promise<boolean> => {
       const messageContent = messageInput || input;
 
       if (!messageContent?.trim()) {
-        return;
+        return false;
       }
 
       if (isLoading) {
         abort();
-        return;
+        return false;
+      }
+
+      // a message of the user starts over, the fix requests of the loop are sent while it is fixing
+      if (autoFixLoop.status.get().state !== 'fixing') {
+        autoFixLoop.reset();
+      }
+
+      const budgetStatus = await checkUsageBudget();
+
+      if (budgetStatus.hardExceeded) {
+        setLlmErrorAlert({
+          type: 'error',
+          title: 'Budget Exceeded',
+          description: `You have spent $${budgetStatus.spent.toFixed(2)} of your $${usageBudget.hardLimit?.toFixed(2)} ${usageBudget.period} budget. Raise the limit in Settings > Usage & Costs to continue.`,
+          provider: provider.name,
+          errorType: 'quota',
+        });
+
+        return false;
       }
 
       let finalMessageContent = messageContent;
 
+      // a slash command of an MCP prompt is sent as the text the server expands the prompt to
+      const promptCommand = parsePromptCommand(messageContent, listPromptCommands(mcpServerTools));
+
+      if (promptCommand) {
+        if (promptCommand.missingArguments.length > 0) {
+          toast.error(
+            `/${promptCommand.prompt.name} needs the arguments: ${promptCommand.missingArguments.join(', ')}`,
+          );
+          return false;
+        }
+
+        try {
+          finalMessageContent = await expandMCPPrompt(promptCommand);
+        } catch (error) {
+          toast.error(
+            `Failed to get the prompt /${promptCommand.prompt.name}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return false;
+        }
+      }
+
       if (selectedElement) {
         console.log('Selected Element:', selectedElement);
 
-        const elementInfo = `<div class=\"__boltSelectedElement__\" data-element='${JSON.stringify(selectedElement)}'>${JSON.stringify(`${selectedElement.displayText}`)}</div>`;
+        const elementInfo = `<div class=\"__boltSelectedElement__\" data-element='${JSON.stringify(selectedElement).replace(/'/g, '&#39;')}'>${JSON.stringify(`${selectedElement.displayText}`)}</div>`;
         finalMessageContent = messageContent + elementInfo;
       }
 
@@ -471,7 +597,7 @@ export const ChatImpl = memo(
               textareaRef.current?.blur();
               setFakeLoading(false);
 
-              return;
+              return true;
             }
           }
         }
@@ -501,23 +627,40 @@ export const ChatImpl = memo(
 
         textareaRef.current?.blur();
 
-        return;
+        return true;
       }
 
       if (error != null) {
         setMessages(messages.slice(0, -1));
       }
 
+      // hunks rejected in review mode, so the model does not propose them again
+      const reviewFeedback = workbenchStore.takeReviewFeedback();
+
+      if (reviewFeedback) {
+        finalMessageContent = `${finalMessageContent}\n\n${reviewFeedback}`;
+      }
+
       const modifiedFiles = workbenchStore.getModifiedFiles();
 
       chatStore.setKey('aborted', false);
 
+      // the steps of a plan are built, whatever mode the plan was made in
+      const planStepBody = planStep ? { chatMode: 'build', planStep } : {};
+
+      // files ranked by the local code index, the server narrows its context selection down to these
+      const contextCandidates = contextOptimizationEnabled
+        ? rankContextFiles(messageContent).map((file) => file.path)
+        : undefined;
+
       if (modifiedFiles !== undefined) {
         const userUpdateArtifact = filesToArtifacts(modifiedFiles, `${Date.now()}`);
         const messageText = `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${finalMessageContent}`;
 
-        const attachmentOptions =
-          uploadedFiles.length > 0 ? { experimental_attachments: await filesToAttachments(uploadedFiles) } : undefined;
+        const attachmentOptions = {
+          body: { contextCandidates, ...planStepBody },
+          experimental_attachments: uploadedFiles.length > 0 ? await filesToAttachments(uploadedFiles) : undefined,
+        };
 
         append(
           {
@@ -532,8 +675,10 @@ export const ChatImpl = memo(
       } else {
         const messageText = `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${finalMessageContent}`;
 
-        const attachmentOptions =
-          uploadedFiles.length > 0 ? { experimental_attachments: await filesToAttachments(uploadedFiles) } : undefined;
+        const attachmentOptions = {
+          body: { contextCandidates, ...planStepBody },
+          experimental_attachments: uploadedFiles.length > 0 ? await filesToAttachments(uploadedFiles) : undefined,
+        };
 
         append(
           {
@@ -554,8 +699,28 @@ export const ChatImpl = memo(
       resetEnhancer();
 
       textareaRef.current?.blur();
+
+      return true;
     };
 
+    useAutoFix({ isLoading, sendMessage: (message) => sendMessage({} as React.UIEvent, message) });
+    useToolPermissions({ messages, isLoading, addToolResult });
+    useWorkspaceBridge();
+    useTaskPlan({
+      messages,
+      isLoading,
+      sendMessage: (message, planStep) => sendMessage({} as React.UIEvent, message, planStep),
+    });
+
+    const pendingMessage = useStore(pendingChatMessage);
+
+    useEffect(() => {
+      if (pendingMessage && !isLoading) {
+        pendingChatMessage.set(undefined);
+        sendMessage({} as React.UIEvent, pendingMessage);
+      }
+    }, [pendingMessage, isLoading]);
+
     /**
      * Handles the change event for the textarea and updates the input state.
      * @param event - The change event from the textarea.
@@ -15,10 +15,13 @@ import { SupabaseConnection } from './SupabaseConnection';
 import { ExpoQrModal } from '~/components/workbench/ExpoQrModal';
 import styles from './BaseChat.module.scss';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/task-plan';
 import { ColorSchemeDialog } from '~/components/ui/ColorSchemeDialog';
 import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import { McpTools } from './MCPTools';
+import { McpResourceAttachments } from './MCPResourceAttachments';
+import { McpPromptMenu } from './MCPPromptMenu';
 
 interface ChatBoxProps {
   isModelSettingsCollapsed: boolean;
@@ -55,8 +58,8 @@ interface ChatBoxProps {
   handleStop?: (() => void) | undefined;
   enhancingPrompt?: boolean | undefined;
   enhancePrompt?: (() => void) | undefined;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   designScheme?: DesignScheme;
   setDesignScheme?: (scheme: DesignScheme) => void;
   selectedElement?: ElementInfo | null;
@@ -140,6 +143,7 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
           props.setImageDataList?.(props.imageDataList.filter((_, i) => i !== index));
         }}
       />
+      <ClientOnly>{() => <McpResourceAttachments />}</ClientOnly>
       <ClientOnly>
         {() => (
           <ScreenshotStateManager
@@ -157,6 +161,11 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
               {props?.selectedElement?.tagName}
             </code>
             selected for inspection
+            {props.selectedElement.sourceContext && (
+              <span className="normal-case font-mono text-bolt-elements-textTertiary">
+                {props.selectedElement.sourceContext.filePath}:{props.selectedElement.sourceContext.startLine}
+              </span>
+            )}
           </div>
           <button
             className="bg-transparent text-accent-500 pointer-auto"
@@ -167,8 +176,21 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
         </div>
       )}
       <div
-        className={classNames('relative border border-bolt-elements-borderColor backdrop-blur-md rounded-lg bg-bolt-elements-background-depth-2 transition-all duration-200 hover:border-bolt-elements-borderColorActive/50 focus-within:border-bolt-elements-borderColorActive')}
+        className={classNames(
+          'relative border border-bolt-elements-borderColor backdrop-blur-md rounded-lg bg-bolt-elements-background-depth-2 transition-all duration-200 hover:border-bolt-elements-borderColorActive/50 focus-within:border-bolt-elements-borderColorActive',
+        )}
       >
+        <ClientOnly>
+          {() => (
+            <McpPromptMenu
+              input={props.input}
+              onSelect={(command) => {
+                props.handleInputChange?.({ target: { value: command } } as React.ChangeEvent<HTMLTextAreaElement>);
+                props.textareaRef?.current?.focus();
+              }}
+            />
+          )}
+        </ClientOnly>
         <textarea
           ref={props.textareaRef}
           className={classNames(
@@ -235,7 +257,13 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
             minHeight: props.TEXTAREA_MIN_HEIGHT,
             maxHeight: props.TEXTAREA_MAX_HEIGHT,
           }}
-          placeholder={props.chatMode === 'build' ? 'How can Bolt help you today?' : 'What would you like to discuss?'}
+          placeholder={
+            props.chatMode === 'discuss'
+              ? 'What would you like to discuss?'
+              : props.chatMode === 'plan'
+                ? 'What should Bolt plan for you?'
+                : 'How can Bolt help you today?'
+          }
           translate="no"
         />
         <ClientOnly>
@@ -303,6 +331,21 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                 {props.chatMode === 'discuss' ? <span>Discuss</span> : <span />}
               </IconButton>
             )}
+            <IconButton
+              title="Plan first, then build step by step"
+              className={classNames(
+                'transition-all flex items-center gap-1 px-1.5',
+                props.chatMode === 'plan'
+                  ? '!bg-bolt-elements-item-backgroundAccent !text-bolt-elements-item-contentAccent'
+                  : 'bg-bolt-elements-item-backgroundDefault text-bolt-elements-item-contentDefault',
+              )}
+              onClick={() => {
+                props.setChatMode?.(props.chatMode === 'plan' ? 'build' : 'plan');
+              }}
+            >
+              <div className={`i-ph:list-checks text-xl`} />
+              {props.chatMode === 'plan' ? <span>Plan</span> : <span />}
+            </IconButton>
             <IconButton
               title="Model Settings"
               className={classNames('transition-all flex items-center gap-1', {
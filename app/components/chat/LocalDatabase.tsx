@@ -0,0 +1,72 @@
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { localDatabaseStore, type LocalDatabaseStatus } from '~/lib/stores/localDatabase';
+import { LOCAL_DATABASE_URL } from '~/lib/supabase/local-database';
+import { classNames } from '~/utils/classNames';
+
+const statusLabels: Record<LocalDatabaseStatus, string> = {
+  stopped: 'Stopped, starts with the first query',
+  installing: 'Installing PGlite...',
+  starting: 'Starting...',
+  running: 'Running',
+  error: 'Failed to start',
+};
+
+/**
+ * State of the PGlite database running in the project runtime
+ */
+export function LocalDatabase() {
+  const status = useStore(localDatabaseStore.status);
+  const error = useStore(localDatabaseStore.error);
+  const isBusy = status === 'installing' || status === 'starting';
+
+  const start = () => {
+    localDatabaseStore
+      .start()
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to start the local database'));
+  };
+
+  return (
+    <div className="p-3 bg-[#F8F8F8] dark:bg-[#1A1A1A] rounded-lg">
+      <div className="flex items-center gap-3">
+        <div
+          className={classNames(
+            'w-2 h-2 rounded-full shrink-0',
+            status === 'running' ? 'bg-[#3ECF8E]' : status === 'error' ? 'bg-red-500' : 'bg-yellow-500',
+            isBusy ? 'animate-pulse' : '',
+          )}
+        />
+        <div className="flex-1 min-w-0">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">PGlite</h4>
+          <p className="text-xs text-bolt-elements-textSecondary">{statusLabels[status]}</p>
+        </div>
+        {status === 'running' ? (
+          <button
+            onClick={() => localDatabaseStore.stop()}
+            className="px-2 py-1 rounded-md text-xs bg-[#F0F0F0] dark:bg-[#252525] text-bolt-elements-textSecondary hover:bg-[#E5E5E5] dark:hover:bg-[#333333] flex items-center gap-1"
+          >
+            <div className="i-ph:stop w-3 h-3" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md text-xs bg-[#3ECF8E] text-white hover:bg-[#3BBF84] flex items-center gap-1 disabled:opacity-50"
+          >
+            <div className={classNames('w-3 h-3', isBusy ? 'i-ph:spinner-gap animate-spin' : 'i-ph:play')} />
+            Start
+          </button>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-bolt-elements-textTertiary">
+        Runs offline in the project runtime at <span className="font-mono">{LOCAL_DATABASE_URL}</span>, only this app
+        can query it. Its data lasts until the runtime restarts and the migrations of this chat are applied again on
+        start.
+      </p>
+      {status === 'error' && error && (
+        <pre className="mt-2 max-h-32 overflow-auto text-xs text-red-500 whitespace-pre-wrap">{error}</pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { listPromptCommands } from '~/lib/mcp/prompts';
+
+type McpPromptMenuProps = {
+  input: string;
+  onSelect: (command: string) => void;
+};
+
+/**
+ * Lists the prompts of the MCP servers while the input is a slash command that has no arguments yet
+ */
+export function McpPromptMenu({ input, onSelect }: McpPromptMenuProps) {
+  const serverTools = useMCPStore((state) => state.serverTools);
+  const commands = useMemo(() => listPromptCommands(serverTools), [serverTools]);
+
+  const match = /^\/(\S*)$/.exec(input);
+
+  if (!match) {
+    return null;
+  }
+
+  const matchingCommands = commands.filter(({ prompt }) => prompt.name.startsWith(match[1]));
+
+  if (matchingCommands.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-10 max-h-60 overflow-y-auto p-1 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 shadow-lg">
+      {matchingCommands.map(({ serverName, prompt }) => (
+        <button
+          key={`${serverName}-${prompt.name}`}
+          onClick={() => onSelect(`/${prompt.name} `)}
+          className="w-full flex flex-col items-start gap-0.5 px-3 py-2 rounded-md bg-transparent text-left text-xs hover:bg-bolt-elements-background-depth-3"
+        >
+          <div className="flex items-center gap-2">
+            <span className="font-mono font-medium text-bolt-elements-textPrimary">/{prompt.name}</span>
+            {prompt.arguments?.map((argument) => (
+              <span key={argument.name} className="font-mono text-bolt-elements-textTertiary">
+                {argument.name}
+                {argument.required ? '' : '?'}
+              </span>
+            ))}
+            <span className="text-bolt-elements-textTertiary">{serverName}</span>
+          </div>
+          {prompt.description && <span className="text-bolt-elements-textSecondary">{prompt.description}</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
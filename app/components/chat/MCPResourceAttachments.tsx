@@ -0,0 +1,33 @@
+import { useStore } from '@nanostores/react';
+import { attachedMCPResources, detachMCPResource } from '~/lib/stores/mcpResources';
+
+export function McpResourceAttachments() {
+  const resources = useStore(attachedMCPResources);
+
+  if (resources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 mx-2 -mt-1 p-2 bg-bolt-elements-background-depth-3 border border-b-none border-bolt-elements-borderColor rounded-lg rounded-b-none">
+      {resources.map((resource) => (
+        <div
+          key={`${resource.serverName}-${resource.uri}`}
+          title={`${resource.serverName}: ${resource.uri}`}
+          className="flex items-center gap-1.5 max-w-64 px-2 py-1 rounded-md bg-bolt-elements-background-depth-2 text-xs text-bolt-elements-textPrimary"
+        >
+          <div className="i-bolt:mcp w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{resource.name}</span>
+          <span className="text-bolt-elements-textTertiary truncate">{resource.serverName}</span>
+          <button
+            onClick={() => detachMCPResource(resource)}
+            className="flex-shrink-0 bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+            title="Remove"
+          >
+            <div className="i-ph:x w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/co
 import { IconButton } from '~/components/ui/IconButton';
 import { useMCPStore } from '~/lib/stores/mcp';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
+import { attachMCPResource } from '~/lib/stores/mcpResources';
+import type { MCPResource } from '~/lib/services/mcpService';
 
 export function McpTools() {
   const isInitialized = useMCPStore((state) => state.isInitialized);
@@ -39,6 +41,17 @@ export function McpTools() {
     setExpandedServer(expandedServer === serverName ? null : serverName);
   };
 
+  const handleAttachResource = async (serverName: string, { uri, name, mimeType }: MCPResource) => {
+    setError(null);
+
+    try {
+      await attachMCPResource({ serverName, uri, name, mimeType });
+      setIsDialogOpen(false);
+    } catch (e) {
+      setError(`Failed to attach ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
   const handleDialogOpen = (open: boolean) => {
     setIsDialogOpen(open);
   };
@@ -101,6 +114,7 @@ export function McpTools() {
                       serverEntries={serverEntries}
                       onlyShowAvailableServers={true}
                       toggleServerExpanded={toggleServerExpanded}
+                      onAttachResource={handleAttachResource}
                     />
                   ) : (
                     <div className="py-4 text-center text-bolt-elements-textSecondary">
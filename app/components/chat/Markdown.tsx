@@ -9,6 +9,9 @@ import type { Message } from 'ai';
 import styles from './Markdown.module.scss';
 import ThoughtBox from './ThoughtBox';
 import type { ProviderInfo } from '~/types/model';
+import type { TestResultsSummary } from '~/lib/runtime/test-results';
+import type { ChatMode } from '~/types/task-plan';
+import { TaskPlan } from './TaskPlan';
 
 const logger = createScopedLogger('MarkdownComponent');
 
@@ -17,8 +20,8 @@ interface MarkdownProps {
   html?: boolean;
   limitedMarkdown?: boolean;
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
 }
@@ -75,6 +78,11 @@ export const Markdown = memo(
                   {elementData?.className && (
                     <span className="text-xs text-bolt-elements-textSecondary">.{elementData.className}</span>
                   )}
+                  {elementData?.sourceContext && (
+                    <span className="ml-auto text-xs font-mono text-bolt-elements-textTertiary">
+                      {elementData.sourceContext.filePath}:{elementData.sourceContext.startLine}
+                    </span>
+                  )}
                 </div>
                 <code className="block text-sm !text-bolt-elements-textSecondary !bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor p-2 rounded">
                   {elementData?.displayText}
@@ -83,6 +91,42 @@ export const Markdown = memo(
             );
           }
 
+          if (className?.includes('__boltTestResults__')) {
+            let results: TestResultsSummary | undefined;
+
+            try {
+              results = JSON.parse(node?.properties.dataResults as string);
+            } catch (e) {
+              logger.error('Failed to parse test results:', e);
+            }
+
+            if (!results) {
+              return null;
+            }
+
+            return (
+              <div className="flex items-center gap-3 bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor rounded-lg px-3 py-2 my-2 text-sm">
+                <div
+                  className={
+                    results.failed > 0
+                      ? 'i-ph:x-circle text-red-500 text-lg'
+                      : 'i-ph:check-circle text-green-500 text-lg'
+                  }
+                />
+                <span className="font-medium text-bolt-elements-textPrimary capitalize">{results.runner}</span>
+                <span className="text-green-500">{results.passed} passed</span>
+                <span className={results.failed > 0 ? 'text-red-500' : 'text-bolt-elements-textSecondary'}>
+                  {results.failed} failed
+                </span>
+                <span className="text-bolt-elements-textTertiary">{results.skipped} skipped</span>
+              </div>
+            );
+          }
+
+          if (className?.includes('__boltPlan__')) {
+            return <TaskPlan messageId={node?.properties.dataMessageId as string} />;
+          }
+
           if (className?.includes('__boltThought__')) {
             return <ThoughtBox title="Thought process">{children}</ThoughtBox>;
           }
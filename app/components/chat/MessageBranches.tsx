@@ -0,0 +1,166 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import WithTooltip from '~/components/ui/Tooltip';
+import { branchFromMessage, messageTreeStore, switchBranch } from '~/lib/persistence/branches';
+import { getPath, getLatestLeafId, getSiblingIds } from '~/lib/persistence/message-tree';
+import { chatId, db } from '~/lib/persistence/useChatHistory';
+
+async function openBranch(select: (db: IDBDatabase, chatId: string) => Promise<string>, search = '') {
+  const id = chatId.get();
+
+  if (!db || !id) {
+    toast.error('Chat persistence is not available');
+    return;
+  }
+
+  try {
+    const urlId = await select(db, id);
+
+    // the chat is loaded again, so the workbench restores the files of the branch
+    window.location.href = `/chat/${urlId}${search}`;
+  } catch (error) {
+    toast.error('Failed to switch branch: ' + (error as Error).message);
+  }
+}
+
+interface BranchSwitcherProps {
+  messageId: string;
+  disabled?: boolean;
+}
+
+/**
+ * Switches between the messages that branch off at the same point
+ */
+export function BranchSwitcher({ messageId, disabled }: BranchSwitcherProps) {
+  const tree = useStore(messageTreeStore);
+  const siblings = tree ? getSiblingIds(tree, messageId) : [];
+  const index = siblings.indexOf(messageId);
+
+  if (siblings.length < 2 || index === -1) {
+    return null;
+  }
+
+  const select = (siblingId: string) => openBranch((db, id) => switchBranch(db, id, siblingId));
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-bolt-elements-textSecondary">
+      <button
+        className="i-ph:caret-left text-base hover:text-bolt-elements-textPrimary disabled:opacity-40"
+        disabled={disabled || index === 0}
+        onClick={() => select(siblings[index - 1])}
+        aria-label="Previous branch"
+      />
+      <span>
+        {index + 1} / {siblings.length}
+      </span>
+      <button
+        className="i-ph:caret-right text-base hover:text-bolt-elements-textPrimary disabled:opacity-40"
+        disabled={disabled || index === siblings.length - 1}
+        onClick={() => select(siblings[index + 1])}
+        aria-label="Next branch"
+      />
+    </div>
+  );
+}
+
+interface EditPromptButtonProps {
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+export function EditPromptButton({ onClick, disabled }: EditPromptButtonProps) {
+  return (
+    <WithTooltip tooltip="Edit prompt in a new branch">
+      <button
+        className="i-ph:pencil-simple text-lg text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors disabled:opacity-40"
+        disabled={disabled}
+        onClick={onClick}
+        aria-label="Edit prompt"
+      />
+    </WithTooltip>
+  );
+}
+
+interface EditPromptProps {
+  messageId: string;
+  content: string;
+  onCancel: () => void;
+}
+
+/**
+ * Sends an edited prompt as a sibling of the original one, the original branch is kept
+ */
+export function EditPrompt({ messageId, content, onCancel }: EditPromptProps) {
+  const [prompt, setPrompt] = useState(content);
+  const [isSending, setIsSending] = useState(false);
+
+  const send = async () => {
+    setIsSending(true);
+
+    // the chat sends the `prompt` search parameter once it is loaded
+    await openBranch((db, id) => branchFromMessage(db, id, messageId), `?prompt=${encodeURIComponent(prompt.trim())}`);
+    setIsSending(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full rounded-lg border border-accent-500/30 bg-bolt-elements-background-depth-2 p-3">
+      <textarea
+        className="w-full min-h-24 resize-y bg-transparent text-sm text-bolt-elements-textPrimary focus:outline-none"
+        value={prompt}
+        autoFocus
+        onChange={(event) => setPrompt(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') {
+            onCancel();
+          } else if (event.key === 'Enter' && (event.metaKey || event.ctrlKey) && prompt.trim()) {
+            send();
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSending}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={send} disabled={isSending || !prompt.trim()}>
+          <div className="i-ph:git-branch mr-1.5" />
+          Send as new branch
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface BranchContinuationProps {
+  messageId: string;
+  disabled?: boolean;
+}
+
+/**
+ * Shown below the last message when the chat was rewound, so the messages that came after stay reachable
+ */
+export function BranchContinuation({ messageId, disabled }: BranchContinuationProps) {
+  const tree = useStore(messageTreeStore);
+  const leafId = tree ? getLatestLeafId(tree, messageId) : messageId;
+
+  if (!tree || leafId === messageId) {
+    return null;
+  }
+
+  const hidden = getPath(tree, leafId).length - getPath(tree, messageId).length;
+
+  return (
+    <div className="flex items-center justify-center gap-2 py-2 text-xs text-bolt-elements-textSecondary">
+      <span className="i-ph:git-branch" />
+      {hidden === 1 ? '1 later message is' : `${hidden} later messages are`} kept on another branch
+      <button
+        className="text-accent-500 hover:underline disabled:opacity-40"
+        disabled={disabled}
+        onClick={() => openBranch((db, id) => switchBranch(db, id, messageId))}
+      >
+        Continue there
+      </button>
+    </div>
+  );
+}
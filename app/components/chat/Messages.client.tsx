@@ -1,15 +1,18 @@
 import type { Message } from 'ai';
-import { Fragment } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
-import { UserMessage } from './UserMessage';
+import { UserMessage, stripMetadata } from './UserMessage';
+import { BranchContinuation, BranchSwitcher, EditPrompt, EditPromptButton } from './MessageBranches';
 import { useLocation } from '@remix-run/react';
 import { db, chatId } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
 import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
 import { forwardRef } from 'react';
 import type { ForwardedRef } from 'react';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/task-plan';
 
 interface MessagesProps {
   id?: string;
@@ -17,8 +20,8 @@ interface MessagesProps {
   isStreaming?: boolean;
   messages?: Message[];
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
@@ -28,6 +31,31 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
     const { id, isStreaming = false, messages = [] } = props;
     const location = useLocation();
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string>();
+    const [editingMessageId, setEditingMessageId] = useState<string>();
+    const currentChatId = useStore(chatId);
+    const canBranch = !!db && !!currentChatId && !isStreaming;
+    const lastMessage = messages.findLast((message) => !message.annotations?.includes('hidden'));
+    const targetMessageId = new URLSearchParams(location.search).get('message');
+    const hasTargetMessage = !!targetMessageId && messages.some((message) => message.id === targetMessageId);
+
+    // search results link to a message with `?message=<id>`, it is scrolled to once the chat is loaded
+    useEffect(() => {
+      if (!targetMessageId || !hasTargetMessage) {
+        return undefined;
+      }
+
+      const scrollTimeout = setTimeout(() => {
+        document.getElementById(`message-${targetMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setHighlightedMessageId(targetMessageId);
+      }, 300);
+      const highlightTimeout = setTimeout(() => setHighlightedMessageId(undefined), 3000);
+
+      return () => {
+        clearTimeout(scrollTimeout);
+        clearTimeout(highlightTimeout);
+      };
+    }, [targetMessageId, hasTargetMessage]);
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -65,13 +93,27 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
               return (
                 <div
                   key={index}
-                  className={classNames('flex gap-4 py-4 w-full rounded-lg', {
+                  id={`message-${messageId}`}
+                  className={classNames('flex gap-4 py-4 w-full rounded-lg transition-shadow duration-500', {
                     'mt-6': !isFirst,
+                    'ring-2 ring-purple-500/50': messageId === highlightedMessageId,
                   })}
                 >
                   <div className="grid grid-col-1 w-full">
-                    {isUserMessage ? (
-                      <UserMessage content={content} parts={parts} />
+                    {isUserMessage && editingMessageId === messageId ? (
+                      <EditPrompt
+                        messageId={messageId}
+                        content={getPromptText(content)}
+                        onCancel={() => setEditingMessageId(undefined)}
+                      />
+                    ) : isUserMessage ? (
+                      <>
+                        <UserMessage content={content} parts={parts} />
+                        <div className="flex items-center justify-end gap-3 mt-1">
+                          <BranchSwitcher messageId={messageId} disabled={!canBranch} />
+                          {canBranch && <EditPromptButton onClick={() => setEditingMessageId(messageId)} />}
+                        </div>
+                      </>
                     ) : (
                       <AssistantMessage
                         content={content}
@@ -88,11 +130,17 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                         addToolResult={props.addToolResult}
                       />
                     )}
+                    {!isUserMessage && (
+                      <div className="flex justify-end">
+                        <BranchSwitcher messageId={messageId} disabled={!canBranch} />
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })
           : null}
+        {lastMessage && !isStreaming && <BranchContinuation messageId={lastMessage.id} disabled={!canBranch} />}
         {isStreaming && (
           <div className="text-center w-full  text-bolt-elements-item-contentAccent i-svg-spinners:3-dots-fade text-4xl mt-4"></div>
         )}
@@ -100,3 +148,9 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
     );
   },
 );
+
+function getPromptText(content: Message['content'] | Array<{ type: string; text?: string }>) {
+  const text = Array.isArray(content) ? (content.find((item) => item.type === 'text')?.text ?? '') : content;
+
+  return stripMetadata(text).trim();
+}
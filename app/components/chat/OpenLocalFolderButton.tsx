@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { isNativeRuntimeAvailable, selectNativeProjectFolder, startChatInFolder } from '~/lib/webcontainer/native';
+import { logStore } from '~/lib/stores/logs';
+import { classNames } from '~/utils/classNames';
+
+interface OpenLocalFolderButtonProps {
+  className?: string;
+}
+
+/**
+ * Desktop app only: starts a chat that works on a folder on disk with the native Node instead of the WebContainer
+ */
+export const OpenLocalFolderButton: React.FC<OpenLocalFolderButtonProps> = ({ className }) => {
+  // the bridge only exists in the Electron renderer, checking it after mount keeps hydration stable
+  const [isAvailable, setIsAvailable] = useState(false);
+
+  useEffect(() => {
+    setIsAvailable(isNativeRuntimeAvailable());
+  }, []);
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    try {
+      const folder = await selectNativeProjectFolder();
+
+      if (folder) {
+        logStore.logSystem('Opening local project folder', { folder });
+        startChatInFolder(folder);
+      }
+    } catch (error) {
+      logStore.logError('Failed to open local folder', error);
+      toast.error('Failed to open local folder');
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleClick}
+      title="Run a project from a folder on this computer"
+      variant="default"
+      size="lg"
+      className={classNames(
+        'gap-2 bg-bolt-elements-background-depth-1',
+        'text-bolt-elements-textPrimary',
+        'hover:bg-bolt-elements-background-depth-2',
+        'border border-bolt-elements-borderColor',
+        'h-10 px-4 py-2 min-w-[120px] justify-center',
+        'transition-all duration-200 ease-in-out',
+        className,
+      )}
+    >
+      <span className="i-ph:folder-open w-4 h-4" />
+      Open Local Folder
+    </Button>
+  );
+};
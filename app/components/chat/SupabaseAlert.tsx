@@ -1,9 +1,12 @@
 import { AnimatePresence, motion } from 'framer-motion';
 import type { SupabaseAlert } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
-import { supabaseConnection } from '~/lib/stores/supabase';
+import { supabaseBackend, supabaseConnection } from '~/lib/stores/supabase';
 import { useStore } from '@nanostores/react';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { applySql, dryRunSql } from '~/lib/stores/supabaseDatabase';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { findDestructiveStatements, findMigrationForSql, getMigrationFiles } from '~/lib/supabase/migrations';
 
 interface Props {
   alert: SupabaseAlert;
@@ -14,14 +17,22 @@ interface Props {
 export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { content } = alert;
   const connection = useStore(supabaseConnection);
+  const isLocal = useStore(supabaseBackend) === 'local';
   const [isExecuting, setIsExecuting] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(true);
+  const [dryRun, setDryRun] = useState<{ status: 'running' | 'passed' | 'failed'; error?: string }>();
 
-  // Determine connection state
-  const isConnected = !!(connection.token && connection.selectedProjectId);
+  // statements that lose data can only be applied once a rolled back run of the script succeeded
+  const destructive = useMemo(() => findDestructiveStatements(content ?? ''), [content]);
+  const requiresDryRun = destructive.length > 0 && dryRun?.status !== 'passed';
+
+  useEffect(() => setDryRun(undefined), [content]);
+
+  // Determine connection state, the local database is started on demand
+  const isConnected = isLocal || !!(connection.token && connection.selectedProjectId);
 
   // Set title and description based on connection state
-  const title = isConnected ? 'Supabase Query' : 'Supabase Connection Required';
+  const title = isLocal ? 'Local Database Query' : isConnected ? 'Supabase Query' : 'Supabase Connection Required';
   const description = isConnected ? 'Execute database query' : 'Supabase connection required';
   const message = isConnected
     ? 'Please review the proposed changes and apply them to your database.'
@@ -36,7 +47,7 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
   const showConnectButton = !isConnected;
 
   const executeSupabaseAction = async (sql: string) => {
-    if (!connection.token || !connection.selectedProjectId) {
+    if (!isConnected) {
       console.error('No Supabase token or project selected');
       return;
     }
@@ -44,25 +55,10 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
     setIsExecuting(true);
 
     try {
-      const response = await fetch('/api/supabase/query', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${connection.token}`,
-        },
-        body: JSON.stringify({
-          projectId: connection.selectedProjectId,
-          query: sql,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = (await response.json()) as any;
-        throw new Error(`Supabase query failed: ${errorData.error?.message || response.statusText}`);
-      }
-
-      const result = await response.json();
-      console.log('Supabase query executed successfully:', result);
+      // SQL written to a migration file is recorded as applied, so drift against the files can be checked later
+      const migration = findMigrationForSql(getMigrationFiles(workbenchStore.files.get()), sql, alert.filePath);
+
+      await applySql(sql, migration);
       clearAlert();
     } catch (error) {
       console.error('Failed to execute Supabase action:', error);
@@ -74,6 +70,17 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
     }
   };
 
+  const dryRunSupabaseAction = async (sql: string) => {
+    setDryRun({ status: 'running' });
+
+    try {
+      await dryRunSql(sql);
+      setDryRun({ status: 'passed' });
+    } catch (error) {
+      setDryRun({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
   const cleanSqlContent = (content: string) => {
     if (!content) {
       return '';
@@ -137,6 +144,35 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
                   <pre>{cleanSqlContent(content)}</pre>
                 </div>
               )}
+
+              {destructive.length > 0 && (
+                <div className="mt-2 p-3 rounded-md bg-red-500/10 border border-red-500/30">
+                  <div className="flex items-center gap-2 text-sm text-red-500">
+                    <div className="i-ph:warning" />
+                    This change can lose data, dry run it before applying
+                  </div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-bolt-elements-textSecondary">
+                    {destructive.map(({ statement, reason }, index) => (
+                      <li key={index} className="truncate font-mono" title={statement}>
+                        {reason}: {statement}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {dryRun && dryRun.status !== 'running' && (
+                <div
+                  className={classNames(
+                    'mt-2 p-2 rounded-md text-xs',
+                    dryRun.status === 'passed'
+                      ? 'bg-green-500/10 text-green-500'
+                      : 'bg-red-500/10 text-red-500 font-mono whitespace-pre-wrap',
+                  )}
+                >
+                  {dryRun.status === 'passed' ? 'Dry run succeeded, the transaction was rolled back' : dryRun.error}
+                </div>
+              )}
             </>
           )}
         </div>
@@ -161,21 +197,38 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
                 Connect to Supabase
               </button>
             ) : (
-              <button
-                onClick={() => executeSupabaseAction(content)}
-                disabled={isExecuting}
-                className={classNames(
-                  `px-3 py-2 rounded-md text-sm font-medium`,
-                  'bg-[#098F5F]',
-                  'hover:bg-[#0aa06c]',
-                  'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500',
-                  'text-white',
-                  'flex items-center gap-1.5',
-                  isExecuting ? 'opacity-70 cursor-not-allowed' : '',
-                )}
-              >
-                {isExecuting ? 'Applying...' : 'Apply Changes'}
-              </button>
+              <>
+                <button
+                  onClick={() => dryRunSupabaseAction(content)}
+                  disabled={isExecuting || dryRun?.status === 'running'}
+                  className={classNames(
+                    `px-3 py-2 rounded-md text-sm font-medium`,
+                    'bg-bolt-elements-background-depth-3',
+                    'hover:bg-bolt-elements-background-depth-4',
+                    'focus:outline-none',
+                    'text-bolt-elements-textPrimary',
+                    'flex items-center gap-1.5',
+                    isExecuting || dryRun?.status === 'running' ? 'opacity-70 cursor-not-allowed' : '',
+                  )}
+                >
+                  {dryRun?.status === 'running' ? 'Running...' : 'Dry Run'}
+                </button>
+                <button
+                  onClick={() => executeSupabaseAction(content)}
+                  disabled={isExecuting || requiresDryRun}
+                  className={classNames(
+                    `px-3 py-2 rounded-md text-sm font-medium`,
+                    'bg-[#098F5F]',
+                    'hover:bg-[#0aa06c]',
+                    'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500',
+                    'text-white',
+                    'flex items-center gap-1.5',
+                    isExecuting || requiresDryRun ? 'opacity-70 cursor-not-allowed' : '',
+                  )}
+                >
+                  {isExecuting ? 'Applying...' : 'Apply Changes'}
+                </button>
+              </>
             )}
             <button
               onClick={clearAlert}
@@ -3,8 +3,10 @@ import { useSupabaseConnection } from '~/lib/hooks/useSupabaseConnection';
 import { classNames } from '~/utils/classNames';
 import { useStore } from '@nanostores/react';
 import { chatId } from '~/lib/persistence/useChatHistory';
-import { fetchSupabaseStats } from '~/lib/stores/supabase';
+import { fetchSupabaseStats, setSupabaseBackend, supabaseBackend } from '~/lib/stores/supabase';
 import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/components/ui/Dialog';
+import { LocalDatabase } from './LocalDatabase';
+import { SupabaseMigrations } from './SupabaseMigrations';
 
 export function SupabaseConnection() {
   const {
@@ -25,6 +27,7 @@ export function SupabaseConnection() {
   } = useSupabaseConnection();
 
   const currentChatId = useStore(chatId);
+  const isLocal = useStore(supabaseBackend) === 'local';
 
   useEffect(() => {
     const handleOpenConnectionDialog = () => {
@@ -91,8 +94,13 @@ export function SupabaseConnection() {
             crossOrigin="anonymous"
             src="https://cdn.simpleicons.org/supabase"
           />
-          {isConnected && supabaseConn.project && (
-            <span className="ml-1 text-xs max-w-[100px] truncate">{supabaseConn.project.name}</span>
+          {isLocal ? (
+            <span className="ml-1 text-xs">Local</span>
+          ) : (
+            isConnected &&
+            supabaseConn.project && (
+              <span className="ml-1 text-xs max-w-[100px] truncate">{supabaseConn.project.name}</span>
+            )
           )}
         </Button>
       </div>
@@ -100,7 +108,27 @@ export function SupabaseConnection() {
       <DialogRoot open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         {isDialogOpen && (
           <Dialog className="max-w-[520px] p-6">
-            {!isConnected ? (
+            {isLocal ? (
+              <div className="space-y-4">
+                <DialogTitle>
+                  <div className="i-ph:hard-drives w-5 h-5 text-[#3ECF8E]" />
+                  Local Database
+                </DialogTitle>
+
+                <LocalDatabase />
+                <SupabaseMigrations />
+
+                <div className="flex justify-end gap-2 mt-6">
+                  <DialogClose asChild>
+                    <DialogButton type="secondary">Close</DialogButton>
+                  </DialogClose>
+                  <DialogButton type="primary" onClick={() => setSupabaseBackend('remote')}>
+                    <div className="i-ph:cloud w-4 h-4" />
+                    Use Supabase Project
+                  </DialogButton>
+                </div>
+              </div>
+            ) : !isConnected ? (
               <div className="space-y-4">
                 <DialogTitle>
                   <img
@@ -144,6 +172,14 @@ export function SupabaseConnection() {
                 </div>
 
                 <div className="flex justify-end gap-2 mt-6">
+                  <button
+                    onClick={() => setSupabaseBackend('local')}
+                    className="mr-auto px-2 text-sm text-bolt-elements-textSecondary hover:text-[#3ECF8E] flex items-center gap-1"
+                    title="Run migrations and queries against a database in the project runtime, without a Supabase account"
+                  >
+                    <div className="i-ph:hard-drives w-4 h-4" />
+                    Use Local Database
+                  </button>
                   <DialogClose asChild>
                     <DialogButton type="secondary">Cancel</DialogButton>
                   </DialogClose>
@@ -288,10 +324,20 @@ export function SupabaseConnection() {
                         )}
                       </>
                     )}
+
+                    {supabaseConn.selectedProjectId && <SupabaseMigrations />}
                   </div>
                 )}
 
                 <div className="flex justify-end gap-2 mt-6">
+                  <button
+                    onClick={() => setSupabaseBackend('local')}
+                    className="mr-auto px-2 text-sm text-bolt-elements-textSecondary hover:text-[#3ECF8E] flex items-center gap-1"
+                    title="Run migrations and queries against a database in the project runtime, without a Supabase account"
+                  >
+                    <div className="i-ph:hard-drives w-4 h-4" />
+                    Use Local Database
+                  </button>
                   <DialogClose asChild>
                     <DialogButton type="secondary">Close</DialogButton>
                   </DialogClose>
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import {
+  checkMigrationDrift,
+  databaseSchema,
+  fetchDatabaseSchema,
+  isCheckingDrift,
+  isIntrospecting,
+  migrationDrift,
+  migrationLedger,
+  syncMigrations,
+} from '~/lib/stores/supabaseDatabase';
+import { supabaseBackend } from '~/lib/stores/supabase';
+import { LOCAL_PROJECT_ID } from '~/lib/supabase/local-database';
+import type { MigrationDriftStatus } from '~/lib/supabase/migrations';
+import { classNames } from '~/utils/classNames';
+
+const driftLabels: Record<MigrationDriftStatus, { text: string; className: string }> = {
+  applied: { text: 'Applied', className: 'text-[#3ECF8E]' },
+  pending: { text: 'Not applied', className: 'text-yellow-500' },
+  modified: { text: 'Changed since applied', className: 'text-orange-500' },
+  'remote-only': { text: 'Only in database', className: 'text-red-500' },
+};
+
+const sectionButtonClassName =
+  'px-2 py-1 rounded-md text-xs bg-[#F0F0F0] dark:bg-[#252525] text-bolt-elements-textSecondary hover:bg-[#E5E5E5] dark:hover:bg-[#333333] flex items-center gap-1 disabled:opacity-50';
+
+/**
+ * Schema of the selected project, the migrations applied from this chat and how the migration files of the
+ * project compare to the database
+ */
+export function SupabaseMigrations() {
+  const schema = useStore(databaseSchema);
+  const introspecting = useStore(isIntrospecting);
+  const ledger = useStore(migrationLedger);
+  const drift = useStore(migrationDrift);
+  const checkingDrift = useStore(isCheckingDrift);
+  const isLocal = useStore(supabaseBackend) === 'local';
+  const [isSchemaExpanded, setIsSchemaExpanded] = useState(false);
+  const [isPromoting, setIsPromoting] = useState(false);
+
+  const refreshSchema = () => {
+    fetchDatabaseSchema().catch((error) =>
+      toast.error(error instanceof Error ? error.message : 'Failed to read the database schema'),
+    );
+  };
+
+  const checkDrift = () => {
+    checkMigrationDrift().catch((error) =>
+      toast.error(error instanceof Error ? error.message : 'Failed to compare the migrations'),
+    );
+  };
+
+  // migrations tried out on the local database are applied to the project in the order they were run locally
+  const promote = async () => {
+    setIsPromoting(true);
+
+    try {
+      const promoted = await syncMigrations('remote');
+
+      toast.success(
+        promoted.length
+          ? `Applied ${promoted.length} local ${promoted.length === 1 ? 'migration' : 'migrations'} to the project`
+          : 'The project already has every local migration',
+      );
+      checkDrift();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply the local migrations');
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  const canPromote = !isLocal && ledger.some((entry) => entry.projectId === LOCAL_PROJECT_ID);
+  const outOfSync = drift?.filter((migration) => migration.status !== 'applied') ?? [];
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => setIsSchemaExpanded(!isSchemaExpanded)}
+            className="bg-transparent text-left text-sm font-medium text-bolt-elements-textPrimary flex items-center gap-2"
+          >
+            <div className="i-ph:table w-4 h-4" />
+            Schema ({schema?.tables.length ?? 0} tables, {schema?.functions.length ?? 0} functions)
+            <div
+              className={classNames(
+                'i-ph:caret-down w-4 h-4 transition-transform',
+                isSchemaExpanded ? 'rotate-180' : '',
+              )}
+            />
+          </button>
+          <button onClick={refreshSchema} disabled={introspecting} className={sectionButtonClassName}>
+            <div className={classNames('i-ph:arrows-clockwise w-3 h-3', introspecting ? 'animate-spin' : '')} />
+            Refresh
+          </button>
+        </div>
+        {isSchemaExpanded && (
+          <div className="max-h-48 overflow-y-auto p-2 rounded-lg bg-[#F8F8F8] dark:bg-[#1A1A1A] text-xs">
+            {schema?.tables.length ? (
+              schema.tables.map((table) => (
+                <div key={table.name} className="py-1">
+                  <div className="flex items-center gap-1 font-medium text-bolt-elements-textPrimary">
+                    {table.name}
+                    <span className={table.rls ? 'text-[#3ECF8E]' : 'text-yellow-500'}>
+                      {table.rls ? `RLS, ${table.policies.length} policies` : 'RLS disabled'}
+                    </span>
+                  </div>
+                  <div className="font-mono text-bolt-elements-textSecondary truncate">
+                    {table.columns.map((column) => `${column.name} ${column.type}`).join(', ')}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-bolt-elements-textSecondary">No tables in the public schema</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm font-medium text-bolt-elements-textPrimary flex items-center gap-2">
+            <div className="i-ph:git-diff w-4 h-4" />
+            Migrations
+            {drift && (
+              <span className={classNames('text-xs', outOfSync.length ? 'text-yellow-500' : 'text-[#3ECF8E]')}>
+                {outOfSync.length ? `${outOfSync.length} out of sync` : 'in sync'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {canPromote && (
+              <button
+                onClick={promote}
+                disabled={isPromoting}
+                className={sectionButtonClassName}
+                title="Apply the migrations run on the local database to this project"
+              >
+                <div className={classNames('w-3 h-3', isPromoting ? 'i-ph:spinner-gap animate-spin' : 'i-ph:upload')} />
+                Promote Local
+              </button>
+            )}
+            <button onClick={checkDrift} disabled={checkingDrift} className={sectionButtonClassName}>
+              <div className={classNames('i-ph:magnifying-glass w-3 h-3', checkingDrift ? 'animate-pulse' : '')} />
+              Check Drift
+            </button>
+          </div>
+        </div>
+        {outOfSync.length > 0 && (
+          <ul className="mb-2 space-y-1 text-xs">
+            {outOfSync.map((migration) => (
+              <li key={migration.version} className="flex items-center justify-between gap-2">
+                <span className="font-mono truncate text-bolt-elements-textSecondary">
+                  {migration.version === migration.name ? migration.name : `${migration.version}_${migration.name}`}
+                </span>
+                <span className={driftLabels[migration.status].className}>{driftLabels[migration.status].text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {ledger.length > 0 ? (
+          <ol className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {ledger.map((entry, index) => (
+              <li key={index} className="flex items-center gap-2" title={entry.error}>
+                <div
+                  className={classNames(
+                    'w-3 h-3 shrink-0',
+                    entry.status === 'applied' ? 'i-ph:check-circle text-[#3ECF8E]' : 'i-ph:x-circle text-red-500',
+                  )}
+                />
+                <span className="font-mono truncate text-bolt-elements-textPrimary">{entry.name}</span>
+                {entry.projectId === LOCAL_PROJECT_ID && (
+                  <span className="shrink-0 text-bolt-elements-textTertiary">local</span>
+                )}
+                <span className="ml-auto shrink-0 text-bolt-elements-textTertiary">
+                  {new Date(entry.appliedAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="text-xs text-bolt-elements-textSecondary">No migrations applied from this chat yet</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useStore } from '@nanostores/react';
+import { memo } from 'react';
+import { taskPlanRunner } from '~/lib/stores/task-plan';
+import type { PlanTask, PlanTaskStatus } from '~/types/task-plan';
+import { classNames } from '~/utils/classNames';
+
+interface TaskPlanProps {
+  messageId: string;
+}
+
+const statusIcons: Record<PlanTaskStatus, string> = {
+  pending: 'i-ph:circle text-bolt-elements-textTertiary',
+  running: 'i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress',
+  done: 'i-ph:check-circle-fill text-bolt-elements-icon-success',
+  failed: 'i-ph:x-circle-fill text-bolt-elements-icon-error',
+};
+
+function scrollToMessage(messageId: string) {
+  document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+}
+
+export const TaskPlan = memo(({ messageId }: TaskPlanProps) => {
+  const plans = useStore(taskPlanRunner.plans);
+  const plan = plans[messageId];
+
+  if (!plan) {
+    return null;
+  }
+
+  const isRunning = plan.state === 'running';
+  const doneCount = plan.tasks.filter((task) => task.status === 'done').length;
+
+  return (
+    <div className="my-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-bolt-elements-borderColor">
+        <div className="i-ph:list-checks text-lg text-bolt-elements-item-contentAccent" />
+        <div className="font-medium text-bolt-elements-textPrimary">{plan.title}</div>
+        <div className="text-xs text-bolt-elements-textTertiary">
+          {doneCount}/{plan.tasks.length}
+        </div>
+        <div className="ml-auto">
+          {isRunning ? (
+            <button
+              className="flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+              onClick={() => taskPlanRunner.stop()}
+            >
+              <div className="i-ph:stop-circle" />
+              Stop
+            </button>
+          ) : (
+            plan.state !== 'done' && (
+              <button
+                className="flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent hover:opacity-100 opacity-90 disabled:opacity-50"
+                disabled={plan.tasks.length === 0}
+                onClick={() => taskPlanRunner.start(messageId)}
+              >
+                <div className="i-ph:play" />
+                {plan.state === 'paused' ? 'Resume plan' : 'Run plan'}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+      <ol className="divide-y divide-bolt-elements-borderColor list-none !m-0 !p-0">
+        {plan.tasks.map((task, index) => (
+          <TaskPlanItem
+            key={task.id}
+            task={task}
+            index={index}
+            editable={!isRunning && task.status !== 'done'}
+            isFirst={index === 0 || plan.tasks[index - 1].status === 'done'}
+            isLast={index === plan.tasks.length - 1}
+            onMove={(offset) => taskPlanRunner.moveTask(messageId, task.id, offset)}
+            onRemove={() => taskPlanRunner.removeTask(messageId, task.id)}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+});
+
+interface TaskPlanItemProps {
+  task: PlanTask;
+  index: number;
+  editable: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function TaskPlanItem({ task, index, editable, isFirst, isLast, onMove, onRemove }: TaskPlanItemProps) {
+  return (
+    <li className="flex gap-3 px-4 py-3 !m-0">
+      <div className={classNames('text-lg flex-shrink-0 mt-0.5', statusIcons[task.status])} />
+      <div className="flex-1 min-w-0 text-sm">
+        <div className="text-bolt-elements-textPrimary font-medium">
+          {index + 1}. {task.title}
+        </div>
+        {task.description && <div className="mt-1 text-bolt-elements-textSecondary">{task.description}</div>}
+        {(task.files.length > 0 || task.commands.length > 0) && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {task.files.map((file) => (
+              <code key={file} className="text-xs flex items-center gap-1">
+                <span className="i-ph:file" />
+                {file}
+              </code>
+            ))}
+            {task.commands.map((command) => (
+              <code key={command} className="text-xs flex items-center gap-1">
+                <span className="i-ph:terminal" />
+                {command}
+              </code>
+            ))}
+          </div>
+        )}
+        {task.messageId && (
+          <button
+            className="flex items-center gap-1 mt-2 text-xs bg-transparent text-bolt-elements-item-contentAccent hover:underline"
+            onClick={() => scrollToMessage(task.messageId!)}
+          >
+            <div className="i-ph:arrow-bend-down-right" />
+            {task.artifact?.title ?? 'Response'}
+          </button>
+        )}
+      </div>
+      {editable && (
+        <div className="flex items-start gap-1 flex-shrink-0 text-bolt-elements-textTertiary">
+          <button
+            className="bg-transparent hover:text-bolt-elements-textPrimary disabled:opacity-30"
+            title="Move up"
+            disabled={isFirst}
+            onClick={() => onMove(-1)}
+          >
+            <div className="i-ph:arrow-up" />
+          </button>
+          <button
+            className="bg-transparent hover:text-bolt-elements-textPrimary disabled:opacity-30"
+            title="Move down"
+            disabled={isLast}
+            onClick={() => onMove(1)}
+          >
+            <div className="i-ph:arrow-down" />
+          </button>
+          <button className="bg-transparent hover:text-bolt-elements-icon-error" title="Remove step" onClick={onRemove}>
+            <div className="i-ph:trash" />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -12,8 +12,12 @@ import {
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
 import { themeStore, type Theme } from '~/lib/stores/theme';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { recordToolDecision } from '~/lib/stores/mcpAudit';
 import { useStore } from '@nanostores/react';
 import type { ToolCallAnnotation } from '~/types/context';
+import { WORKBENCH_SERVER_NAME, isWorkbenchTool } from '~/lib/common/workbench-tools';
+import { answerWorkbenchToolCall, pendingWorkbenchApprovals } from '~/lib/runtime/workbench-tools';
 
 const highlighterOptions = {
   langs: ['json'],
@@ -114,7 +118,7 @@ export const ToolInvocations = memo(({ toolInvocations, toolCallAnnotations, add
           </div>
           <div className="p-2.5 w-full text-left">
             <div className="w-full text-bolt-elements-textPrimary font-medium leading-5 text-sm">
-              MCP Tool Invocations{' '}
+              Tool Invocations{' '}
               {hasToolResults && (
                 <span className="w-full w-full text-bolt-elements-textSecondary text-xs mt-0.5">
                   ({toolResults.length} tool{hasToolResults ? 's' : ''} used)
@@ -275,6 +279,42 @@ interface ToolCallsListProps {
 
 const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResult }: ToolCallsListProps) => {
   const [expanded, setExpanded] = useState<{ [id: string]: boolean }>({});
+  const allowToolForSession = useMCPStore((state) => state.allowToolForSession);
+  const workbenchApprovals = useStore(pendingWorkbenchApprovals);
+
+  // workbench tools only wait for an answer when the permission policy asks, otherwise they are already running
+  const awaitsAnswer = (toolName: string, toolCallId: string) =>
+    !isWorkbenchTool(toolName) || toolCallId in workbenchApprovals;
+
+  const decide = (toolCallId: string, approved: boolean) => {
+    const invocation = toolInvocations.find((inv) => inv.toolInvocation.toolCallId === toolCallId)?.toolInvocation;
+
+    // the chat runs workbench tools itself and records the answer in the audit log
+    if (invocation && isWorkbenchTool(invocation.toolName)) {
+      answerWorkbenchToolCall(toolCallId, approved);
+      return;
+    }
+
+    const annotation = toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId);
+
+    if (invocation && annotation) {
+      recordToolDecision(
+        { toolCallId, serverName: annotation.serverName, toolName: invocation.toolName, args: invocation.args },
+        approved ? 'approved' : 'rejected',
+      );
+    }
+
+    addToolResult({
+      toolCallId,
+      result: approved ? TOOL_EXECUTION_APPROVAL.APPROVE : TOOL_EXECUTION_APPROVAL.REJECT,
+    });
+  };
+
+  const allowForSession = (toolCallId: string, serverName: string, toolName: string) => {
+    // the chat approves the other pending calls of the tool once the store changes
+    allowToolForSession(serverName, toolName);
+    decide(toolCallId, true);
+  };
 
   // OS detection for shortcut display
   const isMac = typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
@@ -282,12 +322,16 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
   useEffect(() => {
     const expandedState: { [id: string]: boolean } = {};
     toolInvocations.forEach((inv) => {
-      if (inv.toolInvocation.state === 'call') {
+      // the shortcuts answer the calls waiting for approval
+      if (
+        inv.toolInvocation.state === 'call' &&
+        awaitsAnswer(inv.toolInvocation.toolName, inv.toolInvocation.toolCallId)
+      ) {
         expandedState[inv.toolInvocation.toolCallId] = true;
       }
     });
     setExpanded(expandedState);
-  }, [toolInvocations]);
+  }, [toolInvocations, workbenchApprovals]);
 
   // Keyboard shortcut logic
   useEffect(() => {
@@ -312,25 +356,19 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
       // Cancel: Cmd/Ctrl + Backspace
       if ((isMac ? e.metaKey : e.ctrlKey) && e.key === 'Backspace') {
         e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.REJECT,
-        });
+        decide(openId, false);
       }
 
       // Run tool: Cmd/Ctrl + Enter
       if ((isMac ? e.metaKey : e.ctrlKey) && (e.key === 'Enter' || e.key === 'Return')) {
         e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-        });
+        decide(openId, true);
       }
     };
     window.addEventListener('keydown', handleKeyDown);
 
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [expanded, addToolResult, isMac]);
+  }, [expanded, decide, isMac]);
 
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
@@ -363,41 +401,53 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
                       {annotation?.toolDescription}
                     </span>
                   </div>
-                  <div className="flex items-center justify-end gap-2 ml-auto">
-                    <button
-                      className={classNames(
-                        'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
-                        'bg-transparent',
-                        'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
-                        'transition-all duration-200',
-                        'flex items-center gap-2',
-                      )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.REJECT,
-                        })
-                      }
-                    >
-                      Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
-                    </button>
-                    <button
-                      className={classNames(
-                        'h-10 inline-flex items-center gap-2 px-3 py-1.5 text-xs font-normal rounded-lg transition-colors',
-                        'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
-                        'text-accent-500 hover:text-bolt-elements-textPrimary',
-                        'disabled:opacity-50 disabled:cursor-not-allowed',
+                  {!awaitsAnswer(toolName, toolCallId) ? (
+                    <div className="flex items-center gap-2 ml-auto text-xs text-bolt-elements-textSecondary">
+                      <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 text-bolt-elements-loader-progress" />
+                      Running
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-end gap-2 ml-auto">
+                      <button
+                        className={classNames(
+                          'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
+                          'bg-transparent',
+                          'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
+                          'transition-all duration-200',
+                          'flex items-center gap-2',
+                        )}
+                        onClick={() => decide(toolCallId, false)}
+                      >
+                        Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
+                      </button>
+                      <button
+                        className={classNames(
+                          'h-10 inline-flex items-center gap-2 px-3 py-1.5 text-xs font-normal rounded-lg transition-colors',
+                          'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
+                          'text-accent-500 hover:text-bolt-elements-textPrimary',
+                          'disabled:opacity-50 disabled:cursor-not-allowed',
+                        )}
+                        onClick={() => decide(toolCallId, true)}
+                      >
+                        Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
+                      </button>
+                      {(annotation || isWorkbenchTool(toolName)) && (
+                        <button
+                          className={classNames(
+                            'h-10 inline-flex items-center gap-2 px-3 py-1.5 text-xs font-normal rounded-lg transition-colors',
+                            'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
+                            'text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                          )}
+                          title={`Run ${toolName} of ${annotation?.serverName ?? WORKBENCH_SERVER_NAME} without asking until the page is reloaded`}
+                          onClick={() =>
+                            allowForSession(toolCallId, annotation?.serverName ?? WORKBENCH_SERVER_NAME, toolName)
+                          }
+                        >
+                          Always allow this session
+                        </button>
                       )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-                        })
-                      }
-                    >
-                      Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
-                    </button>
-                  </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </motion.li>
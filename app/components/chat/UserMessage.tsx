@@ -18,8 +18,7 @@ import type {
 interface UserMessageProps {
   content: string | Array<{ type: string; text?: string; image?: string }>;
   parts:
-    | (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[]
-    | undefined;
+    (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[] | undefined;
 }
 
 export function UserMessage({ content, parts }: UserMessageProps) {
@@ -95,7 +94,13 @@ export function UserMessage({ content, parts }: UserMessageProps) {
   );
 }
 
-function stripMetadata(content: string) {
+export function stripMetadata(content: string) {
   const artifactRegex = /<boltArtifact\s+[^>]*>[\s\S]*?<\/boltArtifact>/gm;
-  return content.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(artifactRegex, '');
+  const rejectedChangesRegex = /<rejected_changes>[\s\S]*?<\/rejected_changes>/gm;
+
+  return content
+    .replace(MODEL_REGEX, '')
+    .replace(PROVIDER_REGEX, '')
+    .replace(artifactRegex, '')
+    .replace(rejectedChangesRegex, '');
 }
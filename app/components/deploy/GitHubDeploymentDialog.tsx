@@ -7,10 +7,19 @@ import { classNames } from '~/utils/classNames';
 import { getLocalStorage } from '~/lib/persistence/localStorage';
 import type { GitHubUserResponse, GitHubRepoInfo } from '~/types/GitHub';
 import { logStore } from '~/lib/stores/logs';
-import { chatId } from '~/lib/persistence/useChatHistory';
+import { chatId, db, description } from '~/lib/persistence/useChatHistory';
+import { getMessages } from '~/lib/persistence/db';
+import { gitHubApiService } from '~/lib/services/githubApiService';
+import {
+  createFeatureBranchName,
+  generatePullRequestDraft,
+  savePullRequest,
+  type PullRequestReference,
+} from '~/lib/git/pull-request';
 import { useStore } from '@nanostores/react';
 import { GitHubAuthDialog } from '~/components/@settings/tabs/github/components/GitHubAuthDialog';
 import { SearchInput, EmptyState, StatusIndicator, Badge } from '~/components/ui';
+import { PullRequestOptions, PullRequestReviews } from './PullRequestOptions';
 
 interface GitHubDeploymentDialogProps {
   isOpen: boolean;
@@ -32,6 +41,9 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
   const [createdRepoUrl, setCreatedRepoUrl] = useState('');
   const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
   const [showAuthDialog, setShowAuthDialog] = useState(false);
+  const [openPullRequest, setOpenPullRequest] = useState(false);
+  const [featureBranch, setFeatureBranch] = useState('');
+  const [pullRequest, setPullRequest] = useState<PullRequestReference | null>(null);
   const currentChatId = useStore(chatId);
 
   /*
@@ -61,6 +73,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
 
       // Set a default repository name based on the project name with proper sanitization
       setRepoName(sanitizeRepoName(projectName));
+      setFeatureBranch(createFeatureBranchName(description.get() ?? projectName));
 
       if (connection?.user && connection?.token) {
         setUser(connection.user);
@@ -213,6 +226,11 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
       return;
     }
 
+    if (openPullRequest && !featureBranch.trim()) {
+      toast.error('Branch name is required to open a pull request');
+      return;
+    }
+
     // Update the repo name field with the sanitized version if it was changed
     if (sanitizedName !== repoName) {
       setRepoName(sanitizedName);
@@ -237,7 +255,9 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
         repoExists = true;
 
         // If we get here, the repo exists - confirm overwrite
-        let confirmMessage = `Repository "${repoName}" already exists. Do you want to update it? This will add or modify files in the repository.`;
+        let confirmMessage = openPullRequest
+          ? `Repository "${repoName}" already exists. Do you want to open a pull request from the branch "${featureBranch.trim()}"?`
+          : `Repository "${repoName}" already exists. Do you want to update it? This will add or modify files in the repository.`;
 
         // Add visibility change warning if needed
         if (existingRepo.private !== isPrivate) {
@@ -270,6 +290,12 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
         }
       }
 
+      // A pull request needs a base branch to merge into
+      if (!repoExists && openPullRequest) {
+        toast.error('Pull requests can only be opened on an existing repository');
+        return;
+      }
+
       // Create repository if it doesn't exist
       if (!repoExists) {
         const sanitizedRepoName = sanitizeRepoName(repoName);
@@ -360,6 +386,19 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
         baseSha = null;
       }
 
+      // Pull requests get their own branch, otherwise the default branch is updated
+      const targetBranch = openPullRequest ? featureBranch.trim() : defaultBranch;
+
+      if (openPullRequest && targetBranch === defaultBranch) {
+        toast.error(`The pull request branch must differ from the default branch "${defaultBranch}"`);
+        return;
+      }
+
+      const chat = db && currentChatId ? await getMessages(db, currentChatId) : undefined;
+      const draft = openPullRequest
+        ? await generatePullRequestDraft(chat?.messages ?? [], description.get() || 'Update from Bolt.diy')
+        : undefined;
+
       try {
         console.log('Creating tree for repository');
 
@@ -406,44 +445,62 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
         const { data: commitData } = await octokit.git.createCommit({
           owner: connection.user.login,
           repo: sanitizedRepoName,
-          message: !repoExists ? 'Initial commit from Bolt.diy' : 'Update from Bolt.diy',
+          message: draft?.title ?? (!repoExists ? 'Initial commit from Bolt.diy' : 'Update from Bolt.diy'),
           tree: treeData.sha,
           parents: parentCommitSha ? [parentCommitSha] : [], // Use parent if available
         });
 
         console.log('Commit created successfully', commitData.sha);
 
-        // Update the reference to point to the new commit
-        try {
-          console.log(`Updating reference: heads/${defaultBranch} to ${commitData.sha}`);
-          await octokit.git.updateRef({
-            owner: connection.user.login,
-            repo: sanitizedRepoName,
-            ref: `heads/${defaultBranch}`,
-            sha: commitData.sha,
-            force: true, // Use force to ensure the update works
-          });
-          console.log('Reference updated successfully');
-        } catch (refError) {
-          console.log('Failed to update reference, attempting to create it', refError);
-
-          // If the reference doesn't exist, create it (shouldn't happen with auto_init, but just in case)
+        if (openPullRequest) {
+          // the pull request branch is always new, an existing branch is never overwritten
           try {
             await octokit.git.createRef({
               owner: connection.user.login,
               repo: sanitizedRepoName,
-              ref: `refs/heads/${defaultBranch}`,
+              ref: `refs/heads/${targetBranch}`,
+              sha: commitData.sha,
+            });
+          } catch (createRefError: any) {
+            if (createRefError?.status === 422) {
+              throw new Error(`Branch "${targetBranch}" already exists, choose a new branch name`);
+            }
+
+            throw createRefError;
+          }
+        } else {
+          // Update the reference to point to the new commit
+          try {
+            console.log(`Updating reference: heads/${targetBranch} to ${commitData.sha}`);
+            await octokit.git.updateRef({
+              owner: connection.user.login,
+              repo: sanitizedRepoName,
+              ref: `heads/${targetBranch}`,
               sha: commitData.sha,
+              force: true, // Use force to ensure the update works
             });
-            console.log('Reference created successfully');
-          } catch (createRefError) {
-            console.error('Error creating reference:', createRefError);
-
-            const errorMsg =
-              typeof createRefError === 'object' && createRefError !== null && 'message' in createRefError
-                ? String(createRefError.message)
-                : 'Unknown error';
-            throw new Error(`Failed to create Git reference: ${errorMsg}`);
+            console.log('Reference updated successfully');
+          } catch (refError) {
+            console.log('Failed to update reference, attempting to create it', refError);
+
+            // If the reference doesn't exist, create it (a repo without auto_init)
+            try {
+              await octokit.git.createRef({
+                owner: connection.user.login,
+                repo: sanitizedRepoName,
+                ref: `refs/heads/${targetBranch}`,
+                sha: commitData.sha,
+              });
+              console.log('Reference created successfully');
+            } catch (createRefError) {
+              console.error('Error creating reference:', createRefError);
+
+              const errorMsg =
+                typeof createRefError === 'object' && createRefError !== null && 'message' in createRefError
+                  ? String(createRefError.message)
+                  : 'Unknown error';
+              throw new Error(`Failed to create Git reference: ${errorMsg}`);
+            }
           }
         }
       } catch (gitError) {
@@ -458,6 +515,31 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
 
       // Save the repository information for this chat
       const sanitizedRepoName = sanitizeRepoName(repoName);
+
+      if (draft) {
+        gitHubApiService.configure({ token: connection.token, tokenType: connection.tokenType });
+
+        const created = await gitHubApiService.createPullRequest(connection.user.login, sanitizedRepoName, {
+          ...draft,
+          head: targetBranch,
+          base: defaultBranch,
+        });
+        const reference: PullRequestReference = {
+          provider: 'github',
+          repository: `${connection.user.login}/${sanitizedRepoName}`,
+          number: created.number,
+          url: created.html_url,
+          branch: targetBranch,
+        };
+
+        if (currentChatId) {
+          savePullRequest(currentChatId, reference);
+        }
+
+        setPullRequest(reference);
+        setCreatedRepoUrl(created.html_url);
+      }
+
       localStorage.setItem(
         `github-repo-${currentChatId}`,
         JSON.stringify({
@@ -538,6 +620,8 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
     setIsPrivate(false);
     setShowSuccessDialog(false);
     setCreatedRepoUrl('');
+    setOpenPullRequest(false);
+    setPullRequest(null);
     onClose();
   };
 
@@ -571,7 +655,9 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                 className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark shadow-xl"
                 aria-describedby="success-dialog-description"
               >
-                <Dialog.Title className="sr-only">Successfully pushed to GitHub</Dialog.Title>
+                <Dialog.Title className="sr-only">
+                  {pullRequest ? 'Pull request opened on GitHub' : 'Successfully pushed to GitHub'}
+                </Dialog.Title>
                 <div className="p-6 space-y-4">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
@@ -580,13 +666,15 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                       </div>
                       <div>
                         <h3 className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
-                          Successfully pushed to GitHub
+                          {pullRequest ? `Opened pull request #${pullRequest.number}` : 'Successfully pushed to GitHub'}
                         </h3>
                         <p
                           id="success-dialog-description"
                           className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
                         >
-                          Your code is now available on GitHub
+                          {pullRequest
+                            ? `Your changes are on the branch ${pullRequest.branch}, ready for review`
+                            : 'Your code is now available on GitHub'}
                         </p>
                       </div>
                     </div>
@@ -604,7 +692,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                   <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-4 text-left border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
                     <p className="text-sm font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark mb-2 flex items-center gap-2">
                       <span className="i-ph:github-logo w-4 h-4 text-purple-500" />
-                      Repository URL
+                      {pullRequest ? 'Pull Request URL' : 'Repository URL'}
                     </p>
                     <div className="flex items-center gap-2">
                       <code className="flex-1 text-sm bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 px-3 py-2 rounded border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark font-mono">
@@ -659,7 +747,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                       whileTap={{ scale: 0.98 }}
                     >
                       <div className="i-ph:github-logo w-4 h-4" />
-                      View Repository
+                      {pullRequest ? 'View Pull Request' : 'View Repository'}
                     </motion.a>
                     <motion.button
                       onClick={() => {
@@ -832,6 +920,8 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                   </div>
                 </div>
 
+                <PullRequestReviews provider="github" chatId={currentChatId} onImported={handleClose} />
+
                 <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
                     <label
@@ -994,6 +1084,14 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                     </p>
                   </div>
 
+                  <PullRequestOptions
+                    provider="github"
+                    enabled={openPullRequest}
+                    onEnabledChange={setOpenPullRequest}
+                    branch={featureBranch}
+                    onBranchChange={setFeatureBranch}
+                  />
+
                   <div className="pt-4 flex gap-2">
                     <motion.button
                       type="button"
@@ -1021,8 +1119,10 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                         </>
                       ) : (
                         <>
-                          <div className="i-ph:github-logo w-4 h-4" />
-                          Deploy to GitHub
+                          <div
+                            className={openPullRequest ? 'i-ph:git-pull-request w-4 h-4' : 'i-ph:github-logo w-4 h-4'}
+                          />
+                          {openPullRequest ? 'Open Pull Request' : 'Deploy to GitHub'}
                         </>
                       )}
                     </motion.button>
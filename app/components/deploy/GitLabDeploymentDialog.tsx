@@ -6,12 +6,20 @@ import { classNames } from '~/utils/classNames';
 import { getLocalStorage } from '~/lib/persistence/localStorage';
 import type { GitLabUserResponse, GitLabProjectInfo } from '~/types/GitLab';
 import { logStore } from '~/lib/stores/logs';
-import { chatId } from '~/lib/persistence/useChatHistory';
+import { chatId, db, description } from '~/lib/persistence/useChatHistory';
+import { getMessages } from '~/lib/persistence/db';
+import {
+  createFeatureBranchName,
+  generatePullRequestDraft,
+  savePullRequest,
+  type PullRequestReference,
+} from '~/lib/git/pull-request';
 import { useStore } from '@nanostores/react';
 import { GitLabApiService } from '~/lib/services/gitlabApiService';
 import { SearchInput, EmptyState, StatusIndicator, Badge } from '~/components/ui';
 import { formatSize } from '~/utils/formatSize';
 import { GitLabAuthDialog } from '~/components/@settings/tabs/gitlab/components/GitLabAuthDialog';
+import { PullRequestOptions, PullRequestReviews } from './PullRequestOptions';
 
 interface GitLabDeploymentDialogProps {
   isOpen: boolean;
@@ -33,6 +41,9 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
   const [createdRepoUrl, setCreatedRepoUrl] = useState('');
   const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
   const [showAuthDialog, setShowAuthDialog] = useState(false);
+  const [openPullRequest, setOpenPullRequest] = useState(false);
+  const [featureBranch, setFeatureBranch] = useState('');
+  const [mergeRequest, setMergeRequest] = useState<PullRequestReference | null>(null);
   const currentChatId = useStore(chatId);
 
   // Load GitLab connection on mount
@@ -42,6 +53,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
 
       // Set a default repository name based on the project name
       setRepoName(projectName.replace(/\s+/g, '-').toLowerCase());
+      setFeatureBranch(createFeatureBranchName(description.get() ?? projectName));
 
       if (connection?.user && connection?.token) {
         setUser(connection.user);
@@ -114,6 +126,11 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
       return;
     }
 
+    if (openPullRequest && !featureBranch.trim()) {
+      toast.error('Branch name is required to open a merge request');
+      return;
+    }
+
     setIsLoading(true);
 
     // Sanitize repository name to match what the API will create
@@ -137,6 +154,63 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
       const existingProject = await apiService.getProjectByPath(projectPath);
       const projectExists = existingProject !== null;
 
+      if (openPullRequest) {
+        if (!existingProject) {
+          toast.error('Merge requests can only be opened on an existing repository');
+          return;
+        }
+
+        const branch = featureBranch.trim();
+
+        if (branch === existingProject.default_branch) {
+          toast.error(`The merge request branch must differ from the default branch "${branch}"`);
+          return;
+        }
+
+        toast.info(`Pushing to the branch ${branch}...`);
+        await apiService.createBranch(existingProject.id, branch, existingProject.default_branch);
+        await apiService.updateProjectWithFiles(existingProject.id, files, branch);
+
+        const chat = db && currentChatId ? await getMessages(db, currentChatId) : undefined;
+        const draft = await generatePullRequestDraft(chat?.messages ?? [], description.get() || 'Update from Bolt.diy');
+        const created = await apiService.createMergeRequest(existingProject.id, {
+          source_branch: branch,
+          target_branch: existingProject.default_branch,
+          title: draft.title,
+          description: draft.body,
+        });
+        const reference: PullRequestReference = {
+          provider: 'gitlab',
+          repository: existingProject.path_with_namespace,
+          number: created.iid,
+          url: created.web_url,
+          branch,
+        };
+
+        if (currentChatId) {
+          savePullRequest(currentChatId, reference);
+        }
+
+        setMergeRequest(reference);
+        setCreatedRepoUrl(created.web_url);
+        setPushedFiles(
+          Object.entries(files).map(([filePath, content]) => ({
+            path: filePath,
+            size: new TextEncoder().encode(content).length,
+          })),
+        );
+        setShowSuccessDialog(true);
+
+        logStore.logInfo('GitLab merge request opened', {
+          type: 'system',
+          message: `Opened merge request !${created.iid} from ${branch} in ${projectPath}`,
+          projectPath,
+          filesCount: Object.keys(files).length,
+        });
+
+        return;
+      }
+
       if (projectExists && existingProject) {
         // Confirm overwrite
         const visibilityChange =
@@ -245,6 +319,8 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
     setIsPrivate(false);
     setShowSuccessDialog(false);
     setCreatedRepoUrl('');
+    setOpenPullRequest(false);
+    setMergeRequest(null);
     onClose();
   };
 
@@ -278,7 +354,9 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                 className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark shadow-xl"
                 aria-describedby="success-dialog-description"
               >
-                <Dialog.Title className="sr-only">Successfully pushed to GitLab</Dialog.Title>
+                <Dialog.Title className="sr-only">
+                  {mergeRequest ? 'Merge request opened on GitLab' : 'Successfully pushed to GitLab'}
+                </Dialog.Title>
                 <div className="p-6 space-y-4">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
@@ -287,13 +365,17 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                       </div>
                       <div>
                         <h3 className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
-                          Successfully pushed to GitLab
+                          {mergeRequest
+                            ? `Opened merge request !${mergeRequest.number}`
+                            : 'Successfully pushed to GitLab'}
                         </h3>
                         <p
                           id="success-dialog-description"
                           className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
                         >
-                          Your code is now available on GitLab
+                          {mergeRequest
+                            ? `Your changes are on the branch ${mergeRequest.branch}, ready for review`
+                            : 'Your code is now available on GitLab'}
                         </p>
                       </div>
                     </div>
@@ -311,7 +393,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                   <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-4 text-left border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
                     <p className="text-sm font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark mb-2 flex items-center gap-2">
                       <span className="i-ph:gitlab-logo w-4 h-4 text-orange-500" />
-                      Repository URL
+                      {mergeRequest ? 'Merge Request URL' : 'Repository URL'}
                     </p>
                     <div className="flex items-center gap-2">
                       <code className="flex-1 text-sm bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 px-3 py-2 rounded border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark font-mono">
@@ -366,7 +448,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                       whileTap={{ scale: 0.98 }}
                     >
                       <div className="i-ph:gitlab-logo w-4 h-4" />
-                      View Repository
+                      {mergeRequest ? 'View Merge Request' : 'View Repository'}
                     </motion.a>
                     <motion.button
                       onClick={() => {
@@ -584,6 +666,8 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                   </div>
                 </div>
 
+                <PullRequestReviews provider="gitlab" chatId={currentChatId} onImported={handleClose} />
+
                 <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
                     <label
@@ -717,6 +801,14 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                     </p>
                   </div>
 
+                  <PullRequestOptions
+                    provider="gitlab"
+                    enabled={openPullRequest}
+                    onEnabledChange={setOpenPullRequest}
+                    branch={featureBranch}
+                    onBranchChange={setFeatureBranch}
+                  />
+
                   <div className="pt-4 flex gap-2">
                     <motion.button
                       type="button"
@@ -744,8 +836,10 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                         </>
                       ) : (
                         <>
-                          <div className="i-ph:gitlab-logo w-4 h-4" />
-                          Deploy to GitLab
+                          <div
+                            className={openPullRequest ? 'i-ph:git-pull-request w-4 h-4' : 'i-ph:gitlab-logo w-4 h-4'}
+                          />
+                          {openPullRequest ? 'Open Merge Request' : 'Deploy to GitLab'}
                         </>
                       )}
                     </motion.button>
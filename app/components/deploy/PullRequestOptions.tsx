@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import {
+  fetchReviewComments,
+  formatReviewTasks,
+  getPullRequest,
+  type PullRequestProvider,
+  type PullRequestReference,
+} from '~/lib/git/pull-request';
+import { pendingChatMessage } from '~/lib/stores/chat';
+import { logStore } from '~/lib/stores/logs';
+import { classNames } from '~/utils/classNames';
+
+const labels: Record<PullRequestProvider, { request: string; short: string; accent: string; ring: string }> = {
+  github: { request: 'pull request', short: '#', accent: 'text-purple-500', ring: 'focus:ring-purple-500' },
+  gitlab: { request: 'merge request', short: '!', accent: 'text-orange-500', ring: 'focus:ring-orange-500' },
+};
+
+interface PullRequestOptionsProps {
+  provider: PullRequestProvider;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  branch: string;
+  onBranchChange: (branch: string) => void;
+}
+
+/**
+ * Pushes the changes to a feature branch and opens a pull request for it instead of updating the default branch
+ */
+export function PullRequestOptions({
+  provider,
+  enabled,
+  onEnabledChange,
+  branch,
+  onBranchChange,
+}: PullRequestOptionsProps) {
+  return (
+    <div className="p-3 bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={`${provider}-pull-request`}
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className={classNames(
+            'rounded border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark dark:bg-bolt-elements-background-depth-3',
+            labels[provider].accent,
+            labels[provider].ring,
+          )}
+        />
+        <label
+          htmlFor={`${provider}-pull-request`}
+          className="text-sm text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark"
+        >
+          Open a {labels[provider].request}
+        </label>
+      </div>
+      <p className="text-xs text-bolt-elements-textTertiary dark:text-bolt-elements-textTertiary-dark mt-2 ml-6">
+        Pushes to a new branch of an existing repository, the title and description summarize this chat
+      </p>
+      {enabled && (
+        <div className="relative mt-2 ml-6">
+          <div className="absolute left-3 top-1/2 -translate-y-1/2 text-bolt-elements-textTertiary dark:text-bolt-elements-textTertiary-dark">
+            <span className="i-ph:git-branch w-4 h-4" />
+          </div>
+          <input
+            type="text"
+            value={branch}
+            onChange={(e) => onBranchChange(e.target.value)}
+            placeholder="feature-branch"
+            className={classNames(
+              'w-full pl-10 px-4 py-1.5 rounded-lg bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-sm font-mono text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark focus:outline-none focus:ring-2',
+              labels[provider].ring,
+            )}
+            required
+            pattern="[A-Za-z0-9._\/\-]+"
+            title="Branch names can contain letters, numbers, dots, slashes, hyphens and underscores"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PullRequestReviewsProps {
+  provider: PullRequestProvider;
+  chatId?: string;
+  onImported: () => void;
+}
+
+/**
+ * The request opened for the chat, its review comments can be sent to the chat as tasks
+ */
+export function PullRequestReviews({ provider, chatId, onImported }: PullRequestReviewsProps) {
+  const [reference, setReference] = useState<PullRequestReference | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setReference(chatId ? getPullRequest(provider, chatId) : null);
+  }, [provider, chatId]);
+
+  if (!reference) {
+    return null;
+  }
+
+  const importComments = async () => {
+    setIsImporting(true);
+
+    try {
+      const comments = await fetchReviewComments(reference);
+
+      if (comments.length === 0) {
+        toast.info(`No review comments on the ${labels[provider].request} yet`);
+        return;
+      }
+
+      pendingChatMessage.set(formatReviewTasks(reference, comments));
+      toast.success(`Imported ${comments.length} review ${comments.length === 1 ? 'comment' : 'comments'}`);
+      onImported();
+    } catch (error) {
+      logStore.logError('Failed to import review comments', { error });
+      toast.error(error instanceof Error ? error.message : 'Failed to import review comments');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 mb-6 p-3 bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
+      <div className={classNames('i-ph:git-pull-request w-5 h-5', labels[provider].accent)} />
+      <div className="flex-1 min-w-0">
+        <a
+          href={reference.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark hover:underline"
+        >
+          {labels[provider].short}
+          {reference.number} in {reference.repository}
+        </a>
+        <p className="text-xs font-mono truncate text-bolt-elements-textTertiary dark:text-bolt-elements-textTertiary-dark">
+          {reference.branch}
+        </p>
+      </div>
+      <motion.button
+        type="button"
+        disabled={isImporting}
+        onClick={importComments}
+        className="px-3 py-1.5 rounded-lg bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark hover:text-bolt-elements-textPrimary text-xs inline-flex items-center gap-1.5 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark disabled:opacity-50"
+        whileHover={!isImporting ? { scale: 1.02 } : {}}
+        whileTap={!isImporting ? { scale: 0.98 } : {}}
+      >
+        <div className={isImporting ? 'i-ph:spinner-gap animate-spin w-3.5 h-3.5' : 'i-ph:chat-circle w-3.5 h-3.5'} />
+        Import Review Comments
+      </motion.button>
+    </div>
+  );
+}
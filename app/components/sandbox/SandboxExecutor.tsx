@@ -1,35 +1,83 @@
 import { useCallback, useEffect, useState, useRef } from 'react';
-import type { SandboxConfig, ExecutionLog, ValidationResult } from '~/types/sandbox';
+import type { SandboxConfig, ExecutionLog, FileChange, ValidationLevel, ValidationResult } from '~/types/sandbox';
 import { SandboxLogs } from './SandboxLogs';
 import { ExecutionMonitor } from './ExecutionMonitor';
 import { CodeValidator } from '~/lib/sandbox/code-validator';
+import { getSandboxManager } from '~/lib/sandbox/sandbox-manager';
 
 interface SandboxExecutorProps {
   config: SandboxConfig;
   onExecutionComplete?: (log: ExecutionLog) => void;
 }
 
+// code that could not be analyzed is never run
+function validationFailure(level: ValidationLevel, error: unknown): ValidationResult {
+  return {
+    level,
+    isValid: false,
+    issues: [
+      {
+        type: 'syntax-error',
+        severity: 'error',
+        message: `The code could not be validated: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+    dangerousOperations: [],
+    severity: 'critical',
+  };
+}
+
 export function SandboxExecutor({ config, onExecutionComplete }: SandboxExecutorProps) {
   const [code, setCode] = useState('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionLog, setExecutionLog] = useState<ExecutionLog | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [requiresApproval, setRequiresApproval] = useState(false);
+  const [liveOutput, setLiveOutput] = useState('');
+  const [pendingChanges, setPendingChanges] = useState<FileChange[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const validationIdRef = useRef(0);
+
+  useEffect(() => {
+    const manager = getSandboxManager();
+    sessionIdRef.current = manager.createSession(config).id;
+
+    return () => {
+      if (sessionIdRef.current) {
+        manager.terminateSession(sessionIdRef.current);
+      }
+    };
+  }, [config]);
 
   // Validate code on change
-  const handleCodeChange = useCallback((newCode: string) => {
-    setCode(newCode);
+  const handleCodeChange = useCallback(
+    async (newCode: string) => {
+      setCode(newCode);
+
+      // Perform validation, a result of code that changed meanwhile is dropped
+      const validationId = ++validationIdRef.current;
+      const validator = new CodeValidator(newCode, config.validationLevel, config.language);
+      let result: ValidationResult;
+
+      try {
+        result = await validator.validate();
+      } catch (error) {
+        result = validationFailure(config.validationLevel, error);
+      }
+
+      if (validationId !== validationIdRef.current) {
+        return;
+      }
 
-    // Perform validation
-    const validator = new CodeValidator(newCode, config.validationLevel);
-    const result = validator.validate();
-    setValidationResult(result);
+      setValidationResult(result);
 
-    // Check if approval is needed
-    const hasWarnings = result.severity === 'warning' || result.severity === 'critical';
-    setRequiresApproval(hasWarnings);
-  }, [config.validationLevel]);
+      // Check if approval is needed
+      const hasWarnings = result.severity === 'warning' || result.severity === 'critical';
+      setRequiresApproval(hasWarnings);
+    },
+    [config.validationLevel, config.language],
+  );
 
   // Execute code
   const handleExecute = useCallback(async () => {
@@ -39,8 +87,15 @@ export function SandboxExecutor({ config, onExecutionComplete }: SandboxExecutor
     }
 
     // Validate before execution
-    const validator = new CodeValidator(code, config.validationLevel);
-    const result = validator.validate();
+    const validator = new CodeValidator(code, config.validationLevel, config.language);
+    let result: ValidationResult;
+
+    try {
+      result = await validator.validate();
+    } catch (error) {
+      result = validationFailure(config.validationLevel, error);
+      setValidationResult(result);
+    }
 
     if (!result.isValid) {
       alert('Code validation failed:\n' + validator.getSummary(result));
@@ -48,45 +103,18 @@ export function SandboxExecutor({ config, onExecutionComplete }: SandboxExecutor
     }
 
     setIsExecuting(true);
+    setLiveOutput('');
+    setPendingChanges([]);
 
     try {
-      const response = await fetch('/api/sandbox.execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId: config.id,
-          config,
-          code,
-          priority: 'normal',
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.statusText}`);
-      }
+      const manager = getSandboxManager();
+      const log = await manager.executeCode(sessionIdRef.current!, config, code, 'normal', (chunk) =>
+        setLiveOutput((output) => output + chunk),
+      );
 
-      // In a real implementation, would receive execution ID and stream logs
-      // For now, simulate execution result
-      const mockLog: ExecutionLog = {
-        id: `log-${Date.now()}`,
-        sandboxId: config.id,
-        executionType: config.executionType,
-        language: config.language,
-        code,
-        startTime: Date.now(),
-        endTime: Date.now() + 100,
-        duration: 100,
-        status: 'success',
-        output: 'Code executed successfully',
-        errors: '',
-        warnings: result.issues.map((i) => i.message),
-        fileOperations: [],
-        networkRequests: [],
-        validationResult: result,
-      };
-
-      setExecutionLog(mockLog);
-      onExecutionComplete?.(mockLog);
+      setExecutionLog(log);
+      setPendingChanges(manager.getSnapshot(log.id)?.changes ?? []);
+      onExecutionComplete?.(log);
     } catch (error) {
       alert('Execution failed: ' + String(error));
     } finally {
@@ -94,12 +122,37 @@ export function SandboxExecutor({ config, onExecutionComplete }: SandboxExecutor
     }
   }, [code, config, onExecutionComplete]);
 
+  // Review the changes the execution made inside the sandbox
+  const handleApplyChanges = useCallback(async () => {
+    if (!executionLog) {
+      return;
+    }
+
+    try {
+      await getSandboxManager().applyExecutionChanges(executionLog.id);
+      setPendingChanges([]);
+    } catch (error) {
+      alert('Failed to apply changes: ' + String(error));
+    }
+  }, [executionLog]);
+
+  const handleDiscardChanges = useCallback(() => {
+    if (!executionLog) {
+      return;
+    }
+
+    getSandboxManager().discardExecutionChanges(executionLog.id);
+    setPendingChanges([]);
+  }, [executionLog]);
+
   // Clear code and logs
   const handleClear = useCallback(() => {
     setCode('');
     setExecutionLog(null);
     setValidationResult(null);
     setRequiresApproval(false);
+    setLiveOutput('');
+    setPendingChanges([]);
     textareaRef.current?.focus();
   }, []);
 
@@ -166,6 +219,56 @@ export function SandboxExecutor({ config, onExecutionComplete }: SandboxExecutor
         />
       </div>
 
+      {/* Live Output */}
+      {isExecuting && liveOutput && (
+        <pre className="max-h-40 overflow-auto p-3 rounded bg-bolt-elements-bg-depth-2 border border-bolt-elements-borderColor text-xs font-mono text-bolt-elements-textPrimary whitespace-pre-wrap">
+          {liveOutput}
+        </pre>
+      )}
+
+      {/* Pending File Changes */}
+      {pendingChanges.length > 0 && (
+        <div className="p-3 rounded border border-bolt-elements-borderColor bg-bolt-elements-bg-depth-2">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-bolt-elements-textPrimary">
+              {pendingChanges.length} file change(s) waiting for review
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDiscardChanges}
+                className="px-3 py-1 text-xs rounded bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleApplyChanges}
+                className="px-3 py-1 text-xs rounded bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover transition-colors"
+              >
+                Apply to Project
+              </button>
+            </div>
+          </div>
+          <ul className="text-xs font-mono space-y-1">
+            {pendingChanges.map((change) => (
+              <li key={change.path} className="flex gap-2">
+                <span
+                  className={
+                    change.type === 'created'
+                      ? 'text-green-400'
+                      : change.type === 'deleted'
+                        ? 'text-red-400'
+                        : 'text-yellow-400'
+                  }
+                >
+                  {change.type}
+                </span>
+                <span className="text-bolt-elements-textSecondary truncate">{change.path}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Execution Monitor */}
       {executionLog && <ExecutionMonitor log={executionLog} />}
 
@@ -9,6 +9,7 @@ import { Button } from '~/components/ui/Button';
 import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory } from '~/lib/persistence';
 import { cubicEasingFn } from '~/utils/easings';
 import { HistoryItem } from './HistoryItem';
+import { MessageSearchResults } from './MessageSearchResults';
 import { binDates } from './date-binning';
 import { useSearchFilter } from '~/lib/hooks/useSearchFilter';
 import { classNames } from '~/utils/classNames';
@@ -37,9 +38,7 @@ const menuVariants = {
 } satisfies Variants;
 
 type DialogContent =
-  | { type: 'delete'; item: ChatHistoryItem }
-  | { type: 'bulkDelete'; items: ChatHistoryItem[] }
-  | null;
+  { type: 'delete'; item: ChatHistoryItem } | { type: 'bulkDelete'; items: ChatHistoryItem[] } | null;
 
 function CurrentDateTime() {
   const [dateTime, setDateTime] = useState(new Date());
@@ -74,7 +73,11 @@ export const Menu = () => {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
 
-  const { filteredItems: filteredList, handleSearchChange } = useSearchFilter({
+  const {
+    filteredItems: filteredList,
+    handleSearchChange,
+    searchQuery,
+  } = useSearchFilter({
     items: list,
     searchFields: ['description'],
   });
@@ -390,7 +393,8 @@ export const Menu = () => {
               <input
                 className="w-full bg-gray-50 dark:bg-gray-900 relative pl-9 pr-3 py-2 rounded-lg focus:outline-none focus:ring-1 focus:ring-purple-500/50 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-500 border border-gray-200 dark:border-gray-800"
                 type="search"
-                placeholder="Search chats..."
+                placeholder="Search chats and messages..."
+                title='Supports "phrases", /regex/, provider:, after:, before:, has:deploy, has:code, path: and from:'
                 onChange={handleSearchChange}
                 aria-label="Search chats"
               />
@@ -417,7 +421,7 @@ export const Menu = () => {
           <div className="flex-1 overflow-auto px-3 pb-3">
             {filteredList.length === 0 && (
               <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
-                {list.length === 0 ? 'No previous conversations' : 'No matches found'}
+                {list.length === 0 ? 'No previous conversations' : 'No chat titles match'}
               </div>
             )}
             <DialogRoot open={dialogContent !== null}>
@@ -524,6 +528,7 @@ export const Menu = () => {
                 )}
               </Dialog>
             </DialogRoot>
+            <MessageSearchResults query={searchQuery} />
           </div>
           <div className="flex items-center justify-between border-t border-gray-200 dark:border-gray-800 px-4 py-3">
             <div className="flex items-center gap-3">
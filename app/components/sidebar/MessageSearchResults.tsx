@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { db } from '~/lib/persistence';
+import { ensureSearchIndex, searchChatHistory, type SearchResult } from '~/lib/persistence/search-index';
+import type { SearchSnippet } from '~/lib/persistence/search';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('MessageSearch');
+
+function Snippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    parts.push(<span key={`text-${index}`}>{snippet.text.slice(position, start)}</span>);
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-purple-500/20 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+
+  parts.push(<span key="rest">{snippet.text.slice(position)}</span>);
+
+  return <>{parts}</>;
+}
+
+interface MessageSearchResultsProps {
+  query: string;
+}
+
+/**
+ * Messages of all chats that match the search of the sidebar, each jumping to the message
+ */
+export function MessageSearchResults({ query }: MessageSearchResultsProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [error, setError] = useState<string>();
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!db || !query.trim()) {
+      setResults([]);
+      setError(undefined);
+
+      return undefined;
+    }
+
+    const database = db;
+    let cancelled = false;
+
+    setIsSearching(true);
+
+    ensureSearchIndex(database)
+      .then(() => searchChatHistory(database, query))
+      .then(({ results, error }) => {
+        if (!cancelled) {
+          setResults(results);
+          setError(error);
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to search the chat history', error);
+
+        if (!cancelled) {
+          setResults([]);
+          setError('The chat history could not be searched');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  if (!query.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-1">
+      <div className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400 sticky top-0 z-1 bg-white dark:bg-gray-950 px-4 py-1">
+        Messages
+        {isSearching && <span className="i-svg-spinners:90-ring-with-bg h-3 w-3" />}
+      </div>
+      {error && <div className="px-4 text-sm text-red-500">{error}</div>}
+      {!error && !isSearching && results.length === 0 && (
+        <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">No messages found</div>
+      )}
+      <div className="space-y-0.5 pr-1">
+        {results.map((result) => (
+          <a
+            key={`${result.chatId}-${result.messageId}`}
+            href={`/chat/${result.urlId ?? result.chatId}?message=${encodeURIComponent(result.messageId)}`}
+            className="block rounded-md px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-800/50"
+          >
+            <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+              <span className={result.role === 'user' ? 'i-ph:user' : 'i-ph:robot'} />
+              <span className="truncate font-medium text-gray-700 dark:text-gray-300">
+                {result.description || 'Untitled chat'}
+              </span>
+              {result.provider && <span className="ml-auto flex-shrink-0">{result.provider}</span>}
+            </div>
+            <div className="mt-1 line-clamp-3 break-words text-gray-600 dark:text-gray-400">
+              <Snippet snippet={result.snippet} />
+            </div>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
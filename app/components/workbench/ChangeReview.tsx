@@ -0,0 +1,183 @@
+import { memo, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { ReviewDecision, ReviewHunk, StagedFileChange } from '~/lib/runtime/change-review';
+import { extractRelativePath } from '~/utils/diff';
+import { classNames } from '~/utils/classNames';
+
+const lineStyles = {
+  '+': 'bg-green-500/10 dark:bg-green-500/20 text-green-700 dark:text-green-500',
+  '-': 'bg-red-500/10 dark:bg-red-500/20 text-red-700 dark:text-red-500',
+  ' ': 'text-bolt-elements-textPrimary',
+};
+
+const DecisionButtons = memo(
+  ({ decision, onDecide }: { decision?: ReviewDecision; onDecide: (decision: ReviewDecision) => void }) => (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onDecide(decision === 'accepted' ? 'pending' : 'accepted')}
+        className={classNames(
+          'flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors',
+          decision === 'accepted'
+            ? 'bg-green-500/20 text-green-700 dark:text-green-400'
+            : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+        )}
+        title="Accept"
+      >
+        <div className="i-ph:check" />
+        Accept
+      </button>
+      <button
+        onClick={() => onDecide(decision === 'rejected' ? 'pending' : 'rejected')}
+        className={classNames(
+          'flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors',
+          decision === 'rejected'
+            ? 'bg-red-500/20 text-red-700 dark:text-red-400'
+            : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+        )}
+        title="Reject"
+      >
+        <div className="i-ph:x" />
+        Reject
+      </button>
+    </div>
+  ),
+);
+
+const HunkView = memo(({ filePath, hunk, index }: { filePath: string; hunk: ReviewHunk; index: number }) => (
+  <div
+    className={classNames(
+      'border-t border-bolt-elements-borderColor',
+      hunk.decision === 'rejected' ? 'opacity-50' : '',
+    )}
+  >
+    <div className="flex items-center px-2 py-1 bg-bolt-elements-background-depth-1 text-xs font-mono text-bolt-elements-textTertiary">
+      <span>
+        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+      </span>
+      <span className="ml-auto">
+        <DecisionButtons
+          decision={hunk.decision}
+          onDecide={(decision) => workbenchStore.setHunkDecision(filePath, index, decision)}
+        />
+      </span>
+    </div>
+    <div className="overflow-x-auto text-xs">
+      {hunk.lines.map((line, lineIndex) => (
+        <div
+          key={lineIndex}
+          className={classNames('px-2 font-mono whitespace-pre', lineStyles[line[0] as keyof typeof lineStyles])}
+        >
+          {line}
+        </div>
+      ))}
+    </div>
+  </div>
+));
+
+const FileChangeView = memo(({ change }: { change: StagedFileChange }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  const { additions, deletions } = useMemo(() => {
+    const lines = change.hunks.flatMap((hunk) => hunk.lines);
+
+    return {
+      additions: lines.filter((line) => line.startsWith('+')).length,
+      deletions: lines.filter((line) => line.startsWith('-')).length,
+    };
+  }, [change]);
+
+  const decisions = new Set(change.hunks.map((hunk) => hunk.decision));
+  const fileDecision = decisions.size === 1 ? change.hunks[0]?.decision : undefined;
+
+  return (
+    <div className="rounded-lg border border-bolt-elements-borderColor overflow-hidden">
+      <div className="flex items-center gap-2 p-2 bg-bolt-elements-background-depth-2 text-sm text-bolt-elements-textPrimary">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-2 min-w-0">
+          <div className={expanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+          <div className="i-ph:file shrink-0" />
+          <span className="truncate">{extractRelativePath(change.filePath)}</span>
+        </button>
+        {change.before === undefined && <span className="text-xs text-green-700 dark:text-green-400">New</span>}
+        <span className="flex items-center gap-1 text-xs">
+          {additions > 0 && <span className="text-green-700 dark:text-green-500">+{additions}</span>}
+          {deletions > 0 && <span className="text-red-700 dark:text-red-500">-{deletions}</span>}
+        </span>
+        <span className="ml-auto">
+          <DecisionButtons
+            decision={fileDecision}
+            onDecide={(decision) => workbenchStore.setFileDecision(change.filePath, decision)}
+          />
+        </span>
+      </div>
+      {expanded &&
+        change.hunks.map((hunk, index) => (
+          <HunkView key={index} filePath={change.filePath} hunk={hunk} index={index} />
+        ))}
+    </div>
+  );
+});
+
+/**
+ * Changeset staged in review mode: every file and hunk can be accepted or rejected before anything is written
+ */
+export const ChangeReview = memo(() => {
+  const stagedChanges = useStore(workbenchStore.stagedChanges);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const changes = Object.values(stagedChanges).filter((change): change is StagedFileChange => !!change);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const rejected = changes.flatMap((change) => change.hunks).filter((hunk) => hunk.decision === 'rejected').length;
+
+  const apply = async (action: () => Promise<void>) => {
+    setIsApplying(true);
+
+    try {
+      await action();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1">
+      <div className="flex items-center gap-2 p-2 border-b border-bolt-elements-borderColor text-sm text-bolt-elements-textPrimary">
+        <div className="i-ph:git-diff" />
+        <span>
+          Review changes to {changes.length} {changes.length === 1 ? 'file' : 'files'}
+        </span>
+        {rejected > 0 && (
+          <span className="text-xs text-bolt-elements-textTertiary">
+            {rejected} rejected {rejected === 1 ? 'hunk is' : 'hunks are'} sent back with your next message
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            disabled={isApplying}
+            onClick={() => apply(() => workbenchStore.discardStagedChanges())}
+            className="px-3 py-1 rounded-md text-xs text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 disabled:opacity-50"
+          >
+            Reject All
+          </button>
+          <button
+            disabled={isApplying}
+            onClick={() => apply(() => workbenchStore.applyReviewedChanges())}
+            className="px-3 py-1 rounded-md text-xs bg-accent-500 text-white hover:bg-accent-600 disabled:opacity-50"
+            title="Pending hunks are applied as well"
+          >
+            {isApplying ? 'Applying...' : 'Apply Accepted'}
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto p-2 flex flex-col gap-2">
+        {changes.map((change) => (
+          <FileChangeView key={change.filePath} change={change} />
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,305 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { db } from '~/lib/persistence/useChatHistory';
+import {
+  checkpointsStore,
+  diffCheckpoints,
+  loadCheckpointFiles,
+  rewindToCheckpoint,
+  type CheckpointFileChange,
+} from '~/lib/persistence/checkpoints';
+import type { Checkpoint } from '~/lib/persistence/types';
+import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { InlineDiffComparison } from './DiffView';
+
+const changeIcons: Record<CheckpointFileChange['type'], string> = {
+  added: 'i-ph:plus-circle text-green-500',
+  removed: 'i-ph:minus-circle text-red-500',
+  modified: 'i-ph:pencil-simple text-bolt-elements-textSecondary',
+};
+
+const CheckpointRow = memo(
+  ({
+    checkpoint,
+    index,
+    isBase,
+    isTarget,
+    changeCount,
+    onSelectBase,
+    onSelectTarget,
+    onRestoreFiles,
+    onRewind,
+  }: {
+    checkpoint: Checkpoint;
+    index: number;
+    isBase: boolean;
+    isTarget: boolean;
+    changeCount: number;
+    onSelectBase: () => void;
+    onSelectTarget: () => void;
+    onRestoreFiles: () => void;
+    onRewind: () => void;
+  }) => {
+    return (
+      <li
+        className={classNames('group rounded-lg border px-3 py-2 cursor-pointer transition-colors', {
+          'border-accent-500/50 bg-accent-500/10': isTarget,
+          'border-bolt-elements-borderColor hover:bg-bolt-elements-background-depth-3': !isTarget,
+        })}
+        onClick={onSelectTarget}
+      >
+        <div className="flex items-center gap-2">
+          <div className="i-ph:git-commit text-lg text-bolt-elements-textSecondary" />
+          <span className="text-sm font-medium text-bolt-elements-textPrimary">Turn {index + 1}</span>
+          {isBase && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+              base
+            </span>
+          )}
+          <span className="ml-auto text-xs text-bolt-elements-textTertiary">
+            {new Date(checkpoint.timestamp).toLocaleTimeString()}
+          </span>
+        </div>
+        <div className="mt-1 flex items-center gap-2 text-xs text-bolt-elements-textSecondary">
+          <span>
+            {changeCount} file{changeCount === 1 ? '' : 's'} changed
+          </span>
+          <div className="ml-auto hidden group-hover:flex gap-1">
+            <button
+              className="px-1.5 py-0.5 rounded hover:bg-bolt-elements-background-depth-4 hover:text-bolt-elements-textPrimary"
+              title="Compare the selected checkpoint against this one"
+              onClick={(event) => {
+                event.stopPropagation();
+                onSelectBase();
+              }}
+            >
+              Set as base
+            </button>
+            <button
+              className="px-1.5 py-0.5 rounded hover:bg-bolt-elements-background-depth-4 hover:text-bolt-elements-textPrimary"
+              title="Write the files of this checkpoint back to the workspace"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRestoreFiles();
+              }}
+            >
+              Restore files
+            </button>
+            <button
+              className="px-1.5 py-0.5 rounded text-red-500 hover:bg-red-500/10"
+              title="Restore the files and remove all later messages"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRewind();
+              }}
+            >
+              Rewind here
+            </button>
+          </div>
+        </div>
+      </li>
+    );
+  },
+);
+
+export const CheckpointTimeline = memo(() => {
+  const checkpoints = useStore(checkpointsStore);
+  const [baseId, setBaseId] = useState<string | undefined>();
+  const [targetId, setTargetId] = useState<string | undefined>();
+  const [selectedPath, setSelectedPath] = useState<string | undefined>();
+  const [contents, setContents] = useState<{ before: string; after: string } | undefined>();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const target = checkpoints.find((checkpoint) => checkpoint.id === targetId) ?? checkpoints[checkpoints.length - 1];
+  const targetIndex = target ? checkpoints.indexOf(target) : -1;
+  const base = checkpoints.find((checkpoint) => checkpoint.id === baseId) ?? checkpoints[targetIndex - 1];
+
+  const changeCounts = useMemo(
+    () =>
+      checkpoints.map((checkpoint, index) =>
+        index === 0
+          ? Object.values(checkpoint.files).filter((entry) => entry.type === 'file').length
+          : diffCheckpoints(checkpoints[index - 1], checkpoint).length,
+      ),
+    [checkpoints],
+  );
+
+  const changes = useMemo(() => {
+    if (!target) {
+      return [];
+    }
+
+    return diffCheckpoints(base ?? { ...target, files: {} }, target);
+  }, [base, target]);
+
+  useEffect(() => {
+    if (!selectedPath || !changes.some((change) => change.path === selectedPath)) {
+      setSelectedPath(changes[0]?.path);
+    }
+  }, [changes]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!db || !target || !selectedPath) {
+      setContents(undefined);
+
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    Promise.all([base ? loadCheckpointFiles(db, base) : Promise.resolve<FileMap>({}), loadCheckpointFiles(db, target)])
+      .then(([beforeFiles, afterFiles]) => {
+        if (cancelled) {
+          return;
+        }
+
+        const before = beforeFiles[selectedPath];
+        const after = afterFiles[selectedPath];
+
+        setContents({
+          before: before?.type === 'file' ? before.content : '',
+          after: after?.type === 'file' ? after.content : '',
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to load checkpoint files:', error);
+        toast.error('Failed to load checkpoint files');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [base, target, selectedPath]);
+
+  const handleRestoreFiles = async (checkpoint: Checkpoint) => {
+    if (!db) {
+      toast.error('Chat persistence is not available');
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      const files = await loadCheckpointFiles(db, checkpoint);
+      await workbenchStore.restoreFiles(files);
+      toast.success('Files restored from checkpoint');
+    } catch (error) {
+      toast.error('Failed to restore files: ' + (error as Error).message);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRewind = async (checkpoint: Checkpoint) => {
+    if (!db) {
+      toast.error('Chat persistence is not available');
+      return;
+    }
+
+    if (!window.confirm('Restore this checkpoint? The later messages are kept as a branch you can switch back to.')) {
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      const urlId = await rewindToCheckpoint(db, checkpoint.id);
+      window.location.href = `/chat/${urlId}`;
+    } catch (error) {
+      setIsRestoring(false);
+      toast.error('Failed to rewind chat: ' + (error as Error).message);
+    }
+  };
+
+  if (checkpoints.length === 0) {
+    return (
+      <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary">
+        No checkpoints yet. A checkpoint is recorded after every AI response.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full bg-bolt-elements-background-depth-1">
+      <div className="w-72 flex-shrink-0 border-r border-bolt-elements-borderColor flex flex-col">
+        <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+          {checkpoints
+            .map((checkpoint, index) => (
+              <CheckpointRow
+                key={checkpoint.id}
+                checkpoint={checkpoint}
+                index={index}
+                isBase={checkpoint.id === base?.id}
+                isTarget={checkpoint.id === target?.id}
+                changeCount={changeCounts[index]}
+                onSelectBase={() => setBaseId(checkpoint.id)}
+                onSelectTarget={() => {
+                  setTargetId(checkpoint.id);
+                  setBaseId(undefined);
+                }}
+                onRestoreFiles={() => handleRestoreFiles(checkpoint)}
+                onRewind={() => handleRewind(checkpoint)}
+              />
+            ))
+            .reverse()}
+        </ul>
+        <div className="border-t border-bolt-elements-borderColor p-2 max-h-[40%] overflow-y-auto">
+          <div className="px-1 pb-1 text-xs text-bolt-elements-textTertiary">
+            {base ? `Turn ${checkpoints.indexOf(base) + 1}` : 'Empty project'} → Turn {targetIndex + 1}
+          </div>
+          {changes.length === 0 ? (
+            <div className="px-1 text-sm text-bolt-elements-textSecondary">No file changes</div>
+          ) : (
+            changes.map((change) => (
+              <button
+                key={change.path}
+                className={classNames(
+                  'flex w-full items-center gap-2 px-2 py-1 rounded text-left text-sm truncate',
+                  change.path === selectedPath
+                    ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                    : 'text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3',
+                )}
+                onClick={() => setSelectedPath(change.path)}
+              >
+                <span className={classNames('flex-shrink-0', changeIcons[change.type])} />
+                <span className="truncate">{extractRelativePath(change.path)}</span>
+              </button>
+            ))
+          )}
+        </div>
+        {isRestoring && (
+          <div className="border-t border-bolt-elements-borderColor p-2">
+            <Button variant="ghost" size="sm" disabled className="w-full">
+              <div className="i-svg-spinners:90-ring-with-bg mr-2" />
+              Restoring...
+            </Button>
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-hidden">
+        {selectedPath && contents ? (
+          <InlineDiffComparison
+            beforeCode={contents.before}
+            afterCode={contents.after}
+            filename={selectedPath}
+            language={getLanguageFromExtension(selectedPath.split('.').pop() || '')}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        ) : (
+          <div className="flex w-full h-full justify-center items-center text-bolt-elements-textSecondary">
+            Select a file to view differences
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,201 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { parseConflicts, resolveConflicts, type ConflictResolution } from '~/lib/git/conflicts';
+import { gitStore } from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+
+const resolutionLabels: Record<ConflictResolution, string> = {
+  ours: 'Keep Ours',
+  theirs: 'Keep Theirs',
+  both: 'Keep Both',
+};
+
+const ConflictHunk = memo(
+  ({
+    ours,
+    theirs,
+    oursLabel,
+    theirsLabel,
+    resolution,
+    onResolve,
+  }: {
+    ours: string;
+    theirs: string;
+    oursLabel: string;
+    theirsLabel: string;
+    resolution?: ConflictResolution;
+    onResolve: (resolution: ConflictResolution) => void;
+  }) => (
+    <div className="my-1 rounded border border-bolt-elements-borderColor overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-1 bg-bolt-elements-background-depth-2">
+        <span className="text-xs text-bolt-elements-textTertiary">Conflict</span>
+        <span className="ml-auto flex items-center gap-1">
+          {(Object.keys(resolutionLabels) as ConflictResolution[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => onResolve(option)}
+              className={classNames(
+                'px-2 py-0.5 rounded text-xs transition-colors',
+                resolution === option
+                  ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                  : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+              )}
+            >
+              {resolutionLabels[option]}
+            </button>
+          ))}
+        </span>
+      </div>
+      <div
+        className={classNames(
+          'px-2 py-1 bg-green-500/10 dark:bg-green-500/20',
+          resolution === 'theirs' ? 'opacity-40' : '',
+        )}
+      >
+        <div className="text-xs text-bolt-elements-textTertiary">Ours {oursLabel && `(${oursLabel})`}</div>
+        <pre className="font-mono text-xs text-bolt-elements-textPrimary whitespace-pre">{ours}</pre>
+      </div>
+      <div
+        className={classNames(
+          'px-2 py-1 bg-blue-500/10 dark:bg-blue-500/20',
+          resolution === 'ours' ? 'opacity-40' : '',
+        )}
+      >
+        <div className="text-xs text-bolt-elements-textTertiary">Theirs {theirsLabel && `(${theirsLabel})`}</div>
+        <pre className="font-mono text-xs text-bolt-elements-textPrimary whitespace-pre">{theirs}</pre>
+      </div>
+    </div>
+  ),
+);
+
+const ConflictFile = memo(({ path }: { path: string }) => {
+  const filePath = `${WORK_DIR}/${path}`;
+  const file = useStore(workbenchStore.files)[filePath];
+  const pending = useStore(gitStore.pending);
+  const [resolutions, setResolutions] = useState<Array<ConflictResolution | undefined>>([]);
+
+  const content = file?.type === 'file' && !file.isBinary ? file.content : undefined;
+  const segments = useMemo(() => (content === undefined ? [] : parseConflicts(content)), [content]);
+  const conflicts = segments.filter((segment) => segment.type === 'conflict').length;
+  const resolved = resolutions.filter(Boolean).length;
+
+  // the file can be edited by hand in the meantime, the choices only apply to the conflicts it has now
+  useEffect(() => setResolutions([]), [content]);
+
+  if (content === undefined) {
+    return <div className="p-4 text-sm text-bolt-elements-textSecondary">{path} cannot be resolved here</div>;
+  }
+
+  let conflictIndex = 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 p-2 border-b border-bolt-elements-borderColor text-sm text-bolt-elements-textPrimary">
+        <span className="truncate">{path}</span>
+        <span className="text-xs text-bolt-elements-textTertiary">
+          {conflicts === 0 ? 'no conflict markers left' : `${resolved} of ${conflicts} conflicts resolved`}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => {
+              workbenchStore.setSelectedFile(filePath);
+              workbenchStore.currentView.set('code');
+            }}
+            className="px-3 py-1 rounded-md text-xs text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+          >
+            Edit in Editor
+          </button>
+          <button
+            disabled={!!pending || resolved < conflicts}
+            onClick={() => gitStore.resolveConflict(path, resolveConflicts(segments, resolutions))}
+            className="px-3 py-1 rounded-md text-xs bg-accent-500 text-white hover:bg-accent-600 disabled:opacity-50"
+          >
+            Mark Resolved
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto p-2">
+        {segments.map((segment, index) => {
+          if (segment.type === 'text') {
+            return (
+              <pre key={index} className="px-2 font-mono text-xs text-bolt-elements-textSecondary whitespace-pre">
+                {segment.content}
+              </pre>
+            );
+          }
+
+          const current = conflictIndex++;
+
+          return (
+            <ConflictHunk
+              key={index}
+              {...segment}
+              resolution={resolutions[current]}
+              onResolve={(resolution) =>
+                setResolutions((prev) => {
+                  const next = [...prev];
+                  next[current] = resolution;
+
+                  return next;
+                })
+              }
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Files left with conflict markers by a pull, each conflict is resolved by picking a side before the file
+ * is staged for the merge commit
+ */
+export const ConflictResolver = memo(() => {
+  const merge = useStore(gitStore.merge);
+  const error = useStore(gitStore.error);
+  const [selected, setSelected] = useState<string>();
+
+  const conflicts = merge?.conflicts ?? [];
+  const path = selected && conflicts.includes(selected) ? selected : conflicts[0];
+
+  if (!merge || !path) {
+    return null;
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1">
+      <div className="flex items-center gap-2 p-2 border-b border-bolt-elements-borderColor text-sm text-bolt-elements-textPrimary">
+        <div className="i-ph:git-merge" />
+        <span>
+          Merging origin/{merge.branch}: {conflicts.length} conflicted {conflicts.length === 1 ? 'file' : 'files'}
+        </span>
+        {error && <span className="ml-auto text-xs text-red-500 truncate">{error}</span>}
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <ul className="w-56 shrink-0 overflow-y-auto border-r border-bolt-elements-borderColor p-1">
+          {conflicts.map((conflict) => (
+            <li key={conflict}>
+              <button
+                onClick={() => setSelected(conflict)}
+                className={classNames(
+                  'w-full truncate px-2 py-1 rounded text-left text-xs',
+                  conflict === path
+                    ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                    : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+                )}
+              >
+                {conflict}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex-1 min-w-0">
+          <ConflictFile key={path} path={path} />
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -10,6 +10,9 @@ import { diffFiles, extractRelativePath } from '~/utils/diff';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { themeStore } from '~/lib/stores/theme';
+import { ChangeReview } from './ChangeReview';
+import { ConflictResolver } from './ConflictResolver';
+import { gitStore } from '~/lib/stores/git';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -584,7 +587,7 @@ const getSharedHighlighter = async () => {
   return highlighterInstance;
 };
 
-const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
+export const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
 
   // Use state to hold the shared highlighter instance
@@ -670,6 +673,8 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const stagedChanges = useStore(workbenchStore.stagedChanges);
+  const merge = useStore(gitStore.merge);
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -753,6 +758,16 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
     }
   }, [selectedFile, currentDocument?.value, files, setFileHistory, unsavedFiles]);
 
+  // a pull left conflicts behind, they block the merge commit until resolved
+  if (merge && merge.conflicts.length > 0) {
+    return <ConflictResolver />;
+  }
+
+  // changes staged in review mode take precedence over the history of the selected file
+  if (Object.values(stagedChanges).some(Boolean)) {
+    return <ChangeReview />;
+  }
+
   if (!selectedFile || !currentDocument) {
     return (
       <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
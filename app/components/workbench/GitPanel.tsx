@@ -0,0 +1,357 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useState } from 'react';
+import { Button } from '~/components/ui/Button';
+import type { GitFileState, GitFileStatus } from '~/lib/git/repository';
+import { chatMetadata } from '~/lib/persistence';
+import { gitStore } from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+
+// file writes come in bursts while the model streams, the status is read once they settle
+const REFRESH_DELAY = 1000;
+
+const stateLabels: Record<GitFileState, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-500' },
+  modified: { letter: 'M', className: 'text-yellow-500' },
+  deleted: { letter: 'D', className: 'text-red-500' },
+  untracked: { letter: 'U', className: 'text-green-500' },
+};
+
+const diffLineStyles: Record<string, string> = {
+  '+': 'text-green-700 dark:text-green-500',
+  '-': 'text-red-700 dark:text-red-500',
+  '@': 'text-bolt-elements-textTertiary',
+};
+
+const FileRow = memo(
+  ({ file, action, disabled }: { file: GitFileStatus; action: 'stage' | 'unstage'; disabled: boolean }) => (
+    <li className="group flex items-center gap-2 px-2 py-0.5 rounded text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3">
+      <span className={classNames('w-3 text-xs font-mono', stateLabels[file.state].className)}>
+        {stateLabels[file.state].letter}
+      </span>
+      <span className={classNames('flex-1 truncate', file.state === 'deleted' ? 'line-through' : '')}>{file.path}</span>
+      <button
+        className="opacity-0 group-hover:opacity-100 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-50"
+        title={action === 'stage' ? 'Stage' : 'Unstage'}
+        disabled={disabled}
+        onClick={() => (action === 'stage' ? gitStore.stage([file]) : gitStore.unstage([file.path]))}
+      >
+        <div className={action === 'stage' ? 'i-ph:plus' : 'i-ph:minus'} />
+      </button>
+    </li>
+  ),
+);
+
+const InitRepository = memo(({ disabled }: { disabled: boolean }) => {
+  const [remoteUrl, setRemoteUrl] = useState('');
+  const gitUrl = useStore(chatMetadata)?.gitUrl;
+
+  if (gitUrl) {
+    // chats keep the files of an imported repository but not its history
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 h-full p-6 text-sm text-bolt-elements-textSecondary">
+        <div className="i-ph:git-branch text-3xl" />
+        <span className="text-center">
+          This project was imported from {gitUrl.split('#')[0]}. Its git history is not saved with the chat, restore it
+          from the remote to commit, pull and push again. Local commits that were not pushed are lost.
+        </span>
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => gitStore.restore(gitUrl)}>
+          <div className="i-ph:arrow-counter-clockwise mr-1.5" />
+          Restore Repository
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 h-full p-6 text-sm text-bolt-elements-textSecondary">
+      <div className="i-ph:git-branch text-3xl" />
+      <span>This project is not a git repository yet</span>
+      <input
+        className="w-full max-w-md px-3 py-1.5 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary"
+        placeholder="Remote URL (optional), e.g. https://github.com/user/repo.git"
+        value={remoteUrl}
+        onChange={(event) => setRemoteUrl(event.target.value)}
+      />
+      <Button variant="outline" size="sm" disabled={disabled} onClick={() => gitStore.init(remoteUrl)}>
+        <div className="i-ph:git-branch mr-1.5" />
+        Initialize Repository
+      </Button>
+    </div>
+  );
+});
+
+export const GitPanel = memo(() => {
+  const selectedView = useStore(workbenchStore.currentView);
+  const files = useStore(workbenchStore.files);
+  const isRepository = useStore(gitStore.isRepository);
+  const changes = useStore(gitStore.files);
+  const stagedDiff = useStore(gitStore.stagedDiff);
+  const branches = useStore(gitStore.branches);
+  const currentBranch = useStore(gitStore.currentBranch);
+  const remoteUrl = useStore(gitStore.remoteUrl);
+  const merge = useStore(gitStore.merge);
+  const pending = useStore(gitStore.pending);
+  const error = useStore(gitStore.error);
+
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState('');
+  const [editedRemote, setEditedRemote] = useState<string>();
+  const [showDiff, setShowDiff] = useState(false);
+
+  const isActive = selectedView === 'git';
+
+  useEffect(() => {
+    if (!isActive) {
+      return undefined;
+    }
+
+    const timeout = setTimeout(() => gitStore.refresh(), REFRESH_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [isActive, files]);
+
+  const staged = changes.filter((file) => file.staged);
+  const unstaged = changes.filter((file) => file.unstaged);
+  const isBusy = !!pending;
+
+  const commit = async () => {
+    const oid = await gitStore.commit(message.trim() || `Merge origin/${merge?.branch}`);
+
+    if (oid) {
+      setMessage('');
+    }
+  };
+
+  const suggest = async () => {
+    const suggestion = await gitStore.suggestCommitMessage();
+
+    if (suggestion) {
+      setMessage(suggestion);
+    }
+  };
+
+  const createBranch = async () => {
+    await gitStore.createBranch(newBranch);
+    setNewBranch('');
+  };
+
+  const saveRemote = async () => {
+    if (editedRemote !== undefined) {
+      await gitStore.setRemote(editedRemote);
+      setEditedRemote(undefined);
+    }
+  };
+
+  if (!isRepository) {
+    return (
+      <div className="flex flex-col h-full bg-bolt-elements-background-depth-1">
+        <InitRepository disabled={isBusy} />
+        {error && <div className="px-3 py-2 text-sm text-red-500">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-bolt-elements-background-depth-1">
+      <div className="flex items-center gap-2 p-2 border-b border-bolt-elements-borderColor">
+        <div className="i-ph:git-branch text-bolt-elements-textSecondary" />
+        <select
+          className="px-2 py-1 rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary border border-bolt-elements-borderColor"
+          value={currentBranch ?? ''}
+          disabled={isBusy || !!merge}
+          onChange={(event) => gitStore.checkout(event.target.value)}
+        >
+          {!currentBranch && <option value="">detached HEAD</option>}
+          {branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+        <input
+          className="w-36 px-2 py-1 rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary border border-bolt-elements-borderColor"
+          placeholder="New branch"
+          value={newBranch}
+          onChange={(event) => setNewBranch(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && newBranch.trim() && createBranch()}
+        />
+        <Button variant="outline" size="sm" disabled={isBusy || !!merge || !newBranch.trim()} onClick={createBranch}>
+          Create
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          {pending && <div className="i-svg-spinners:90-ring-with-bg text-bolt-elements-textSecondary" />}
+          <Button variant="outline" size="sm" disabled={isBusy} onClick={() => gitStore.refresh()}>
+            <div className="i-ph:arrows-clockwise" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy || !remoteUrl || !!merge}
+            onClick={() => gitStore.pull()}
+          >
+            <div className="i-ph:arrow-down mr-1.5" />
+            Pull
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy || !remoteUrl || !!merge}
+            onClick={() => gitStore.push()}
+          >
+            <div className="i-ph:arrow-up mr-1.5" />
+            Push
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-bolt-elements-textSecondary border-b border-bolt-elements-borderColor">
+        <span className="text-bolt-elements-textTertiary">origin</span>
+        {editedRemote === undefined ? (
+          <>
+            <span className="truncate">{remoteUrl ?? 'no remote configured'}</span>
+            <button
+              className="ml-auto hover:text-bolt-elements-textPrimary"
+              disabled={isBusy}
+              onClick={() => setEditedRemote(remoteUrl ?? '')}
+            >
+              Edit
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              autoFocus
+              className="flex-1 px-2 py-0.5 rounded bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary border border-bolt-elements-borderColor"
+              value={editedRemote}
+              onChange={(event) => setEditedRemote(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && saveRemote()}
+            />
+            <button className="hover:text-bolt-elements-textPrimary" disabled={isBusy} onClick={saveRemote}>
+              Save
+            </button>
+            <button className="hover:text-bolt-elements-textPrimary" onClick={() => setEditedRemote(undefined)}>
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+
+      {merge && (
+        <div className="flex items-center gap-2 px-3 py-2 text-sm border-b border-bolt-elements-borderColor bg-yellow-500/10">
+          <div className="i-ph:git-merge text-yellow-500" />
+          <span className="text-bolt-elements-textPrimary">
+            {merge.conflicts.length > 0
+              ? `Merging origin/${merge.branch}: ${merge.conflicts.length} ${merge.conflicts.length === 1 ? 'file has' : 'files have'} conflicts`
+              : `Conflicts resolved, commit to conclude the merge of origin/${merge.branch}`}
+          </span>
+          {merge.conflicts.length > 0 && (
+            <Button
+              className="ml-auto"
+              variant="outline"
+              size="sm"
+              onClick={() => workbenchStore.currentView.set('diff')}
+            >
+              Resolve in Diff
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && <div className="px-3 py-2 text-sm text-red-500 border-b border-bolt-elements-borderColor">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto p-2">
+        <div className="flex items-center px-2 py-1 text-xs font-medium text-bolt-elements-textTertiary">
+          <span>Staged Changes ({staged.length})</span>
+          {staged.length > 0 && (
+            <button
+              className="ml-auto hover:text-bolt-elements-textPrimary"
+              disabled={isBusy}
+              onClick={() => gitStore.unstage(staged.map((file) => file.path))}
+            >
+              Unstage All
+            </button>
+          )}
+        </div>
+        <ul className="mb-3">
+          {staged.map((file) => (
+            <FileRow key={file.path} file={file} action="unstage" disabled={isBusy} />
+          ))}
+        </ul>
+
+        <div className="flex items-center px-2 py-1 text-xs font-medium text-bolt-elements-textTertiary">
+          <span>Changes ({unstaged.length})</span>
+          {unstaged.length > 0 && (
+            <button
+              className="ml-auto hover:text-bolt-elements-textPrimary"
+              disabled={isBusy}
+              onClick={() => gitStore.stage(unstaged)}
+            >
+              Stage All
+            </button>
+          )}
+        </div>
+        <ul>
+          {unstaged.map((file) => (
+            <FileRow key={file.path} file={file} action="stage" disabled={isBusy} />
+          ))}
+        </ul>
+
+        {changes.length === 0 && (
+          <div className="px-2 py-4 text-sm text-center text-bolt-elements-textSecondary">
+            No changes since the last commit
+          </div>
+        )}
+      </div>
+
+      {stagedDiff && (
+        <div className="border-t border-bolt-elements-borderColor">
+          <button
+            className="flex w-full items-center gap-1 px-3 py-1.5 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+            onClick={() => setShowDiff(!showDiff)}
+          >
+            <span className={showDiff ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+            Staged Diff
+          </button>
+          {showDiff && (
+            <pre className="max-h-60 overflow-auto px-3 pb-2 text-xs font-mono">
+              {stagedDiff.split('\n').map((line, index) => (
+                <div key={index} className={diffLineStyles[line[0]] ?? 'text-bolt-elements-textSecondary'}>
+                  {line}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 p-2 border-t border-bolt-elements-borderColor">
+        <textarea
+          className="w-full h-20 px-2 py-1.5 rounded-md text-sm resize-none bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary border border-bolt-elements-borderColor"
+          placeholder={merge ? `Merge origin/${merge.branch}` : 'Commit message'}
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" disabled={isBusy || staged.length === 0} onClick={suggest}>
+            {pending === 'suggest' ? (
+              <div className="i-svg-spinners:90-ring-with-bg mr-1.5" />
+            ) : (
+              <div className="i-ph:sparkle mr-1.5" />
+            )}
+            Suggest Message
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy || !(message.trim() || merge) || (staged.length === 0 && !merge)}
+            onClick={commit}
+          >
+            <div className="i-ph:check mr-1.5" />
+            Commit
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -1,4 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
+import type { ElementSource } from '~/lib/inspector/source-edits';
+import type { GeneratedSource } from '~/lib/inspector/source-map';
 
 interface InspectorProps {
   isActive: boolean;
@@ -21,6 +23,24 @@ export interface ElementInfo {
     top: number;
     left: number;
   };
+  selector?: string;
+  elementPath?: string;
+
+  // JSX location of the element when the preview is a dev build that exposes it
+  source?: ElementSource | null;
+
+  // position in the transformed module when the dev build only keeps the stack of the JSX call
+  generatedSource?: GeneratedSource | null;
+  inlineStyles?: Record<string, string>;
+  childElementCount?: number;
+
+  // code of the element sent along with the chat message
+  sourceContext?: {
+    filePath: string;
+    startLine: number;
+    endLine: number;
+    snippet: string;
+  };
 }
 
 export const Inspector = ({ isActive, iframeRef, onElementSelect }: InspectorProps) => {
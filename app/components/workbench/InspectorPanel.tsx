@@ -1,34 +1,110 @@
-import { useState } from 'react';
-
-interface ElementInfo {
-  tagName: string;
-  className: string;
-  id: string;
-  textContent: string;
-  styles: Record<string, string>; // Changed from CSSStyleDeclaration
-  rect: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    top: number;
-    left: number;
-  };
-}
+import { useEffect, useMemo, useState } from 'react';
+import type { ElementEdits } from '~/lib/inspector/source-edits';
+import type { ElementInfo } from './Inspector';
 
 interface InspectorPanelProps {
   selectedElement: ElementInfo | null;
   isVisible: boolean;
   onClose: () => void;
+  onPreviewEdits?: (edits: ElementEdits) => void;
+  onApplyEdits?: (edits: ElementEdits) => Promise<void>;
+  onSendToChat?: () => void;
+}
+
+type StyleRow = { property: string; value: string };
+
+/**
+ * Only the parts of the element that differ from what the preview reported
+ */
+function collectEdits(element: ElementInfo, text: string, className: string, styleRows: StyleRow[]): ElementEdits {
+  const edits: ElementEdits = {};
+  const original = element.inlineStyles ?? {};
+
+  if (text !== element.textContent) {
+    edits.text = text;
+  }
+
+  if (className !== element.className) {
+    edits.className = className;
+  }
+
+  const style: Record<string, string> = {};
+  const rows = styleRows.filter((row) => row.property.trim());
+
+  for (const row of rows) {
+    if (original[row.property.trim()] !== row.value) {
+      style[row.property.trim()] = row.value;
+    }
+  }
+
+  for (const property of Object.keys(original)) {
+    if (!rows.some((row) => row.property.trim() === property)) {
+      style[property] = '';
+    }
+  }
+
+  if (Object.keys(style).length > 0) {
+    edits.style = style;
+  }
+
+  return edits;
 }
 
-export const InspectorPanel = ({ selectedElement, isVisible, onClose }: InspectorPanelProps) => {
-  const [activeTab, setActiveTab] = useState<'styles' | 'computed' | 'box'>('styles');
+export const InspectorPanel = ({
+  selectedElement,
+  isVisible,
+  onClose,
+  onPreviewEdits,
+  onApplyEdits,
+  onSendToChat,
+}: InspectorPanelProps) => {
+  const [activeTab, setActiveTab] = useState<'edit' | 'styles' | 'box'>('edit');
+  const [text, setText] = useState('');
+  const [className, setClassName] = useState('');
+  const [styleRows, setStyleRows] = useState<StyleRow[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    setText(selectedElement?.textContent ?? '');
+    setClassName(selectedElement?.className ?? '');
+    setStyleRows(Object.entries(selectedElement?.inlineStyles ?? {}).map(([property, value]) => ({ property, value })));
+  }, [selectedElement]);
+
+  const edits = useMemo(
+    () => (selectedElement ? collectEdits(selectedElement, text, className, styleRows) : {}),
+    [selectedElement, text, className, styleRows],
+  );
+
+  useEffect(() => {
+    if (Object.keys(edits).length > 0) {
+      onPreviewEdits?.(edits);
+    }
+  }, [edits]);
 
   if (!isVisible || !selectedElement) {
     return null;
   }
 
+  const { source } = selectedElement;
+  const hasEdits = Object.keys(edits).length > 0;
+
+  // text is only editable when it is all the element contains, the preview truncates long texts to 100 characters
+  const isTextEditable = !selectedElement.childElementCount && selectedElement.textContent.length < 100;
+
+  const updateStyleRow = (index: number, row: Partial<StyleRow>) => {
+    setStyleRows(styleRows.map((current, i) => (i === index ? { ...current, ...row } : current)));
+  };
+
+  const applyEdits = async () => {
+    setIsApplying(true);
+
+    try {
+      await onApplyEdits?.(edits);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
   const getRelevantStyles = (styles: Record<string, string>) => {
     const relevantProps = [
       'display',
@@ -87,12 +163,17 @@ export const InspectorPanel = ({ selectedElement, isVisible, onClose }: Inspecto
               "{selectedElement.textContent}"
             </div>
           )}
+          <div className="mt-1 text-xs font-mono text-bolt-elements-textTertiary truncate">
+            {source
+              ? `${source.filePath.split('/').slice(-2).join('/')}:${source.line}`
+              : 'Source location unavailable'}
+          </div>
         </div>
       </div>
 
       {/* Tabs */}
       <div className="flex border-b border-bolt-elements-borderColor">
-        {(['styles', 'computed', 'box'] as const).map((tab) => (
+        {(['edit', 'styles', 'box'] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -109,6 +190,83 @@ export const InspectorPanel = ({ selectedElement, isVisible, onClose }: Inspecto
 
       {/* Content */}
       <div className="p-3 overflow-y-auto max-h-96">
+        {activeTab === 'edit' && (
+          <div className="space-y-3 text-sm">
+            {!source && (
+              <p className="text-xs text-bolt-elements-textTertiary">
+                Edits need the JSX location of the element, which React development builds provide.
+              </p>
+            )}
+            <label className="block">
+              <span className="text-bolt-elements-textSecondary">Text</span>
+              <textarea
+                value={text}
+                disabled={!isTextEditable}
+                onChange={(event) => setText(event.target.value)}
+                rows={2}
+                className="mt-1 w-full px-2 py-1 rounded bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary disabled:opacity-50"
+              />
+            </label>
+            <label className="block">
+              <span className="text-bolt-elements-textSecondary">Classes</span>
+              <input
+                value={className}
+                onChange={(event) => setClassName(event.target.value)}
+                className="mt-1 w-full px-2 py-1 rounded font-mono text-xs bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+              />
+            </label>
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="text-bolt-elements-textSecondary">Inline styles</span>
+                <button
+                  onClick={() => setStyleRows([...styleRows, { property: '', value: '' }])}
+                  className="text-xs text-blue-500 hover:underline"
+                >
+                  Add
+                </button>
+              </div>
+              {styleRows.map((row, index) => (
+                <div key={index} className="flex gap-1 mt-1">
+                  <input
+                    value={row.property}
+                    placeholder="property"
+                    onChange={(event) => updateStyleRow(index, { property: event.target.value })}
+                    className="w-1/2 px-2 py-1 rounded font-mono text-xs bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+                  />
+                  <input
+                    value={row.value}
+                    placeholder="value"
+                    onChange={(event) => updateStyleRow(index, { value: event.target.value })}
+                    className="w-1/2 px-2 py-1 rounded font-mono text-xs bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+                  />
+                  <button
+                    onClick={() => setStyleRows(styleRows.filter((_, i) => i !== index))}
+                    className="text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={applyEdits}
+                disabled={!source || !hasEdits || isApplying}
+                className="flex-1 px-3 py-1.5 rounded bg-accent-500 text-white text-xs hover:bg-accent-600 disabled:opacity-50"
+              >
+                {isApplying ? 'Saving...' : 'Apply to Source'}
+              </button>
+              <button
+                onClick={onSendToChat}
+                className="flex-1 px-3 py-1.5 rounded border border-bolt-elements-borderColor text-bolt-elements-textPrimary text-xs hover:bg-bolt-elements-background-depth-2"
+              >
+                Send to Chat
+              </button>
+            </div>
+          </div>
+        )}
+
         {activeTab === 'styles' && (
           <div className="space-y-2">
             {Object.entries(getRelevantStyles(selectedElement.styles)).map(([prop, value]) => (
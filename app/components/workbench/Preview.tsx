@@ -7,6 +7,21 @@ import { ScreenshotSelector } from './ScreenshotSelector';
 import { expoUrlAtom } from '~/lib/stores/qrCodeStore';
 import { ExpoQrModal } from '~/components/workbench/ExpoQrModal';
 import type { ElementInfo } from './Inspector';
+import { InspectorPanel } from './InspectorPanel';
+import { toast } from 'react-toastify';
+import {
+  ElementEditError,
+  applyElementEdits,
+  getElementSnippet,
+  locateJsxElement,
+  resolveSourceFilePath,
+  type ElementEdits,
+} from '~/lib/inspector/source-edits';
+import { resolveGeneratedSource } from '~/lib/inspector/source-map';
+import { extractRelativePath } from '~/utils/diff';
+import { autoFixLoop } from '~/lib/stores/auto-fix';
+import { addPreviewConsoleEntry } from '~/lib/stores/previewConsole';
+import { cleanStackTrace } from '~/utils/stacktrace';
 
 type ResizeSide = 'left' | 'right' | null;
 
@@ -66,6 +81,7 @@ export const Preview = memo(({ setSelectedElement }: PreviewProps) => {
   const [iframeUrl, setIframeUrl] = useState<string | undefined>();
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [isInspectorMode, setIsInspectorMode] = useState(false);
+  const [inspectedElement, setInspectedElement] = useState<ElementInfo | null>(null);
   const [isDeviceModeOn, setIsDeviceModeOn] = useState(false);
   const [widthPercent, setWidthPercent] = useState<number>(37.5);
   const [currentWidth, setCurrentWidth] = useState<number>(0);
@@ -632,11 +648,44 @@ export const Preview = memo(({ setSelectedElement }: PreviewProps) => {
           );
         }
       } else if (event.data.type === 'INSPECTOR_CLICK') {
-        const element = event.data.elementInfo;
+        const element: ElementInfo = event.data.elementInfo;
+
+        if (!element.source && element.generatedSource) {
+          try {
+            element.source = resolveGeneratedSource(element.generatedSource) ?? null;
+          } catch {
+            // a malformed source map leaves the element without a location, like a production build
+            element.source = null;
+          }
+        }
 
-        navigator.clipboard.writeText(element.displayText).then(() => {
-          setSelectedElement?.(element);
+        setInspectedElement(element);
+        navigator.clipboard.writeText(element.displayText).catch(() => {
+          // copying is a convenience, the panel shows the element anyway
+        });
+      } else if (event.data.type === 'PREVIEW_CONSOLE') {
+        addPreviewConsoleEntry({
+          level: event.data.level,
+          message: event.data.message,
+          pathname: event.data.pathname,
+        });
+      } else if (event.data.type === 'PREVIEW_CONSOLE_ERROR') {
+        addPreviewConsoleEntry({ level: 'error', message: event.data.message, pathname: event.data.pathname });
+        autoFixLoop.report({
+          source: 'console',
+          title: 'Console Error',
+          message: event.data.message,
+          details: event.data.stack ? cleanStackTrace(event.data.stack) : undefined,
+        });
+      } else if (event.data.type === 'PREVIEW_VITE_ERROR') {
+        autoFixLoop.report({
+          source: 'vite',
+          title: 'Build Error',
+          message: event.data.message,
+          details: [event.data.file, event.data.frame].filter(Boolean).join('\n'),
         });
+      } else if (event.data.type === 'PREVIEW_LOADED') {
+        autoFixLoop.previewLoaded();
       }
     };
 
@@ -645,6 +694,78 @@ export const Preview = memo(({ setSelectedElement }: PreviewProps) => {
     return () => window.removeEventListener('message', handleMessage);
   }, [isInspectorMode]);
 
+  const previewInspectorEdits = (edit: ElementEdits) => {
+    iframeRef.current?.contentWindow?.postMessage({ type: 'INSPECTOR_PREVIEW_EDIT', edit }, '*');
+  };
+
+  const findInspectedSource = (element: ElementInfo) => {
+    if (!element.source) {
+      return undefined;
+    }
+
+    const files = workbenchStore.files.get();
+    const filePath = resolveSourceFilePath(element.source.filePath, files);
+    const file = filePath ? files[filePath] : undefined;
+
+    if (!filePath || file?.type !== 'file') {
+      return undefined;
+    }
+
+    return { filePath, content: file.content, source: { ...element.source, filePath } };
+  };
+
+  const applyInspectorEdits = async (edits: ElementEdits) => {
+    if (!inspectedElement) {
+      return;
+    }
+
+    const found = findInspectedSource(inspectedElement);
+
+    if (!found) {
+      toast.error('The source file of this element is not part of the project');
+      return;
+    }
+
+    try {
+      await workbenchStore.writeFile(found.filePath, applyElementEdits(found.content, found.source, edits));
+
+      setInspectedElement({
+        ...inspectedElement,
+        textContent: edits.text ?? inspectedElement.textContent,
+        className: edits.className ?? inspectedElement.className,
+        inlineStyles: Object.fromEntries(
+          Object.entries({ ...inspectedElement.inlineStyles, ...edits.style }).filter(([, value]) => value !== ''),
+        ),
+      });
+      toast.success(`Updated ${extractRelativePath(found.filePath)}`);
+    } catch (error) {
+      toast.error(error instanceof ElementEditError ? error.message : 'Failed to update the source of the element');
+    }
+  };
+
+  const sendInspectedElementToChat = () => {
+    if (!inspectedElement) {
+      return;
+    }
+
+    const found = findInspectedSource(inspectedElement);
+    const location = found ? locateJsxElement(found.content, found.source) : undefined;
+
+    setSelectedElement?.({
+      ...inspectedElement,
+      sourceContext:
+        found && location
+          ? {
+              filePath: extractRelativePath(found.filePath),
+              startLine: location.startLine,
+              endLine: location.endLine,
+              snippet: getElementSnippet(found.content, location),
+            }
+          : undefined,
+    });
+    setInspectedElement(null);
+  };
+
   const toggleInspectorMode = () => {
     const newInspectorMode = !isInspectorMode;
     setIsInspectorMode(newInspectorMode);
@@ -1009,6 +1130,14 @@ export const Preview = memo(({ setSelectedElement }: PreviewProps) => {
                 setIsSelectionMode={setIsSelectionMode}
                 containerRef={iframeRef}
               />
+              <InspectorPanel
+                selectedElement={inspectedElement}
+                isVisible={isInspectorMode}
+                onClose={() => setInspectedElement(null)}
+                onPreviewEdits={previewInspectorEdits}
+                onApplyEdits={applyInspectorEdits}
+                onSendToChat={sendInspectedElementToChat}
+              />
             </>
           ) : (
             <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
@@ -0,0 +1,209 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useMemo, useState } from 'react';
+import { Button } from '~/components/ui/Button';
+import { detectTestRunners, type TestCaseResult, type TestRunner } from '~/lib/runtime/test-results';
+import { streamingState } from '~/lib/stores/streaming';
+import { testsStore } from '~/lib/stores/tests';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { nativeProjectFolder } from '~/lib/webcontainer';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+
+const runnerLabels: Record<TestRunner, string> = {
+  vitest: 'Vitest',
+  playwright: 'Playwright',
+};
+
+const statusIcons: Record<TestCaseResult['status'], string> = {
+  passed: 'i-ph:check-circle text-green-500',
+  failed: 'i-ph:x-circle text-red-500',
+  skipped: 'i-ph:minus-circle text-bolt-elements-textTertiary',
+};
+
+function formatDuration(duration: number) {
+  return duration >= 1000 ? `${(duration / 1000).toFixed(1)}s` : `${Math.round(duration)}ms`;
+}
+
+const TestRow = memo(({ test }: { test: TestCaseResult }) => {
+  const [expanded, setExpanded] = useState(test.status === 'failed');
+
+  return (
+    <li>
+      <button
+        className="flex w-full items-center gap-2 px-2 py-1 rounded text-left text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3"
+        onClick={() => setExpanded(!expanded)}
+        disabled={!test.error}
+      >
+        <span className={classNames('flex-shrink-0', statusIcons[test.status])} />
+        <span className="flex-1 truncate">{test.name}</span>
+        <span className="text-xs text-bolt-elements-textTertiary">{formatDuration(test.duration)}</span>
+      </button>
+      {expanded && test.error && (
+        <pre className="mx-2 mb-2 p-2 rounded bg-bolt-elements-background-depth-3 text-xs text-bolt-elements-textSecondary whitespace-pre-wrap overflow-x-auto">
+          {test.error}
+        </pre>
+      )}
+    </li>
+  );
+});
+
+export const TestsPanel = memo(() => {
+  const files = useStore(workbenchStore.files);
+  const status = useStore(testsStore.status);
+  const output = useStore(testsStore.output);
+  const result = useStore(testsStore.result);
+  const error = useStore(testsStore.error);
+  const isStreaming = useStore(streamingState);
+  const projectFolder = useStore(nativeProjectFolder);
+  const [showOutput, setShowOutput] = useState(false);
+
+  const packageJson = files[`${WORK_DIR}/package.json`];
+  const installed = useMemo(
+    () => detectTestRunners(packageJson?.type === 'file' ? packageJson.content : undefined),
+    [packageJson],
+  );
+  const [runner, setRunner] = useState<TestRunner>(installed[0] ?? 'vitest');
+
+  useEffect(() => {
+    if (installed.length > 0 && !installed.includes(runner)) {
+      setRunner(installed[0]);
+    }
+  }, [installed]);
+
+  const testsByFile = useMemo(() => {
+    const groups = new Map<string, TestCaseResult[]>();
+
+    for (const test of result?.tests ?? []) {
+      groups.set(test.file, [...(groups.get(test.file) ?? []), test]);
+    }
+
+    return [...groups];
+  }, [result]);
+
+  const isRunning = status === 'running';
+  const isInstalled = installed.includes(runner);
+
+  return (
+    <div className="flex flex-col h-full bg-bolt-elements-background-depth-1">
+      <div className="flex items-center gap-2 p-2 border-b border-bolt-elements-borderColor">
+        <div className="flex gap-1 rounded-md bg-bolt-elements-background-depth-2 p-0.5">
+          {(Object.keys(runnerLabels) as TestRunner[]).map((option) => (
+            <button
+              key={option}
+              className={classNames(
+                'px-2.5 py-1 rounded text-xs',
+                option === runner
+                  ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                  : 'text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+              )}
+              onClick={() => setRunner(option)}
+              disabled={isRunning}
+            >
+              {runnerLabels[option]}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-bolt-elements-textTertiary">
+          {isInstalled ? 'installed' : 'not installed in this project'}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isStreaming || isRunning}
+            onClick={() => testsStore.requestTests(runner)}
+          >
+            <div className="i-ph:sparkle mr-1.5" />
+            Generate Tests
+          </Button>
+          {isRunning ? (
+            <Button variant="outline" size="sm" onClick={() => testsStore.stop()}>
+              <div className="i-ph:stop-circle mr-1.5" />
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled={!isInstalled} onClick={() => testsStore.run(runner)}>
+              <div className="i-ph:play mr-1.5" />
+              Run Tests
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!result || isRunning || isStreaming}
+            onClick={() => testsStore.sendResultsToChat()}
+          >
+            <div className="i-ph:chat-circle mr-1.5" />
+            Send to Chat
+          </Button>
+        </div>
+      </div>
+
+      {runner === 'playwright' && !projectFolder && (
+        <div className="px-3 py-2 text-xs text-bolt-elements-textSecondary border-b border-bolt-elements-borderColor">
+          Playwright tests run in the desktop app with a local folder, the WebContainer cannot start browsers.
+        </div>
+      )}
+
+      {result && (
+        <div className="flex items-center gap-4 px-3 py-2 text-sm border-b border-bolt-elements-borderColor">
+          <span className="text-green-500">{result.passed} passed</span>
+          <span className={result.failed > 0 ? 'text-red-500' : 'text-bolt-elements-textSecondary'}>
+            {result.failed} failed
+          </span>
+          <span className="text-bolt-elements-textTertiary">{result.skipped} skipped</span>
+          <span className="ml-auto text-xs text-bolt-elements-textTertiary">{formatDuration(result.duration)}</span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {isRunning && (
+          <div className="flex items-center gap-2 px-2 py-1 text-sm text-bolt-elements-textSecondary">
+            <div className="i-svg-spinners:90-ring-with-bg" />
+            Running {runnerLabels[runner]} tests...
+          </div>
+        )}
+        {error && <div className="px-2 py-1 text-sm text-red-500">{error}</div>}
+        {result?.error && (
+          <pre className="mx-2 mb-2 p-2 rounded bg-bolt-elements-background-depth-3 text-xs text-red-500 whitespace-pre-wrap">
+            {result.error}
+          </pre>
+        )}
+        {testsByFile.map(([file, tests]) => (
+          <div key={file} className="mb-2">
+            <div className="px-2 py-1 text-xs font-medium text-bolt-elements-textTertiary">{file}</div>
+            <ul>
+              {tests.map((test, index) => (
+                <TestRow key={`${test.name}-${index}`} test={test} />
+              ))}
+            </ul>
+          </div>
+        ))}
+        {status === 'idle' && !result && (
+          <div className="flex h-full items-center justify-center text-sm text-bolt-elements-textSecondary">
+            {isInstalled
+              ? `Run the ${runnerLabels[runner]} tests of the project`
+              : `Generate ${runnerLabels[runner]} tests to get started`}
+          </div>
+        )}
+      </div>
+
+      {output && (
+        <div className="border-t border-bolt-elements-borderColor">
+          <button
+            className="flex w-full items-center gap-1 px-3 py-1.5 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+            onClick={() => setShowOutput(!showOutput)}
+          >
+            <span className={showOutput ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+            Output
+          </button>
+          {showOutput && (
+            <pre className="max-h-60 overflow-auto px-3 pb-2 text-xs text-bolt-elements-textSecondary whitespace-pre-wrap">
+              {output}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
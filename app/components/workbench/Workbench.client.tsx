@@ -8,6 +8,7 @@ import { diffLines, type Change } from 'diff';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import type { FileHistory } from '~/types/actions';
 import { DiffView } from './DiffView';
+import { CheckpointTimeline } from './CheckpointTimeline';
 import {
   type OnChangeCallback as OnEditorChange,
   type OnScrollCallback as OnEditorScroll,
@@ -20,6 +21,8 @@ import { cubicEasingFn } from '~/utils/easings';
 import { renderLogger } from '~/utils/logger';
 import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
+import { TestsPanel } from './TestsPanel';
+import { GitPanel } from './GitPanel';
 import useViewport from '~/lib/hooks';
 
 import { usePreviewStore } from '~/lib/stores/previews';
@@ -51,6 +54,16 @@ const sliderOptions: SliderOptions<WorkbenchViewType> = {
     value: 'diff',
     text: 'Diff',
   },
+  extra: [
+    {
+      value: 'tests',
+      text: 'Tests',
+    },
+    {
+      value: 'git',
+      text: 'Git',
+    },
+  ],
   right: {
     value: 'preview',
     text: 'Preview',
@@ -308,6 +321,7 @@ export const Workbench = memo(
     const streaming = useStore(streamingState);
     const { exportChat } = useChatHistory();
     const [isSyncing, setIsSyncing] = useState(false);
+    const [diffMode, setDiffMode] = useState<'files' | 'checkpoints'>('files');
 
     const setSelectedView = (view: WorkbenchViewType) => {
       workbenchStore.currentView.set(view);
@@ -468,7 +482,23 @@ export const Workbench = memo(
                   )}
 
                   {selectedView === 'diff' && (
-                    <FileModifiedDropdown fileHistory={fileHistory} onSelectFile={handleSelectFile} />
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setDiffMode(diffMode === 'files' ? 'checkpoints' : 'files')}
+                        className={classNames(
+                          'flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg transition-colors',
+                          diffMode === 'checkpoints'
+                            ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                            : 'bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3',
+                        )}
+                      >
+                        <span className="i-ph:clock-counter-clockwise" />
+                        Checkpoints
+                      </button>
+                      {diffMode === 'files' && (
+                        <FileModifiedDropdown fileHistory={fileHistory} onSelectFile={handleSelectFile} />
+                      )}
+                    </div>
                   )}
                   <IconButton
                     icon="i-ph:x-circle"
@@ -499,7 +529,30 @@ export const Workbench = memo(
                     initial={{ x: '100%' }}
                     animate={{ x: selectedView === 'diff' ? '0%' : selectedView === 'code' ? '100%' : '-100%' }}
                   >
-                    <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} />
+                    {diffMode === 'checkpoints' ? (
+                      <CheckpointTimeline />
+                    ) : (
+                      <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} />
+                    )}
+                  </View>
+                  <View
+                    initial={{ x: '100%' }}
+                    animate={{
+                      x:
+                        selectedView === 'tests'
+                          ? '0%'
+                          : selectedView === 'git' || selectedView === 'preview'
+                            ? '-100%'
+                            : '100%',
+                    }}
+                  >
+                    <TestsPanel />
+                  </View>
+                  <View
+                    initial={{ x: '100%' }}
+                    animate={{ x: selectedView === 'git' ? '0%' : selectedView === 'preview' ? '-100%' : '100%' }}
+                  >
+                    <GitPanel />
                   </View>
                   <View initial={{ x: '100%' }} animate={{ x: selectedView === 'preview' ? '0%' : '100%' }}>
                     <Preview setSelectedElement={setSelectedElement} />
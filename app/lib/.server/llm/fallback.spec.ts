@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { resolveFallbackChain, shouldFallback } from './fallback';
+
+describe('shouldFallback', () => {
+  it('should fall back on rate limits, server errors, auth errors and timeouts', () => {
+    expect(shouldFallback({ statusCode: 429, message: 'Too Many Requests' })).toBe(true);
+    expect(shouldFallback({ statusCode: 503, message: 'Service Unavailable' })).toBe(true);
+    expect(shouldFallback(new Error('Invalid API key provided'))).toBe(true);
+    expect(shouldFallback(new Error('Request timed out'))).toBe(true);
+  });
+
+  it('should unwrap the last error of a retry error', () => {
+    expect(shouldFallback({ message: 'Failed after 3 attempts', lastError: { statusCode: 529 } })).toBe(true);
+  });
+
+  it('should not fall back on errors caused by the request', () => {
+    expect(shouldFallback({ statusCode: 400, message: 'prompt is too long' })).toBe(false);
+  });
+});
+
+describe('resolveFallbackChain', () => {
+  it('should drop the selected model, duplicates and incomplete entries', () => {
+    const chain = resolveFallbackChain({ provider: 'OpenAI', model: 'gpt-4o' }, [
+      { provider: 'OpenAI', model: 'gpt-4o' },
+      { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+      { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+      { provider: 'Google', model: '' },
+      { provider: 'Deepseek', model: 'deepseek-chat' },
+    ]);
+
+    expect(chain).toEqual([
+      { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+      { provider: 'Deepseek', model: 'deepseek-chat' },
+    ]);
+  });
+});
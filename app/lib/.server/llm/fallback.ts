@@ -0,0 +1,47 @@
+import { ErrorRecovery } from '~/lib/modules/agent/error-recovery';
+import type { FallbackModel } from '~/types/model';
+
+/**
+ * Message of the error, unwrapping the `RetryError` the AI SDK throws once its own retries are exhausted.
+ */
+export function getFallbackErrorMessage(error: any): string {
+  const cause = error?.lastError ?? error;
+
+  return cause?.message || String(cause);
+}
+
+/**
+ * Whether the error is one a different provider may not have: rate limits, rejected credentials,
+ * timeouts and server side failures. Errors caused by the request itself are not worth retrying elsewhere.
+ */
+export function shouldFallback(error: any): boolean {
+  const cause = error?.lastError ?? error;
+  const statusCode = cause?.statusCode;
+
+  if (typeof statusCode === 'number' && (statusCode === 429 || statusCode >= 500)) {
+    return true;
+  }
+
+  const errorType = ErrorRecovery.detectErrorType(getFallbackErrorMessage(error));
+
+  return errorType === 'rate_limit' || errorType === 'auth_error' || errorType === 'timeout';
+}
+
+/**
+ * Drops incomplete entries, duplicates and the selected model itself from the configured chain.
+ */
+export function resolveFallbackChain(selected: FallbackModel, chain: FallbackModel[] | undefined): FallbackModel[] {
+  const seen = new Set([`${selected.provider}/${selected.model}`]);
+
+  return (chain ?? []).filter(({ provider, model }) => {
+    const key = `${provider}/${model}`;
+
+    if (!provider || !model || seen.has(key)) {
+      return false;
+    }
+
+    seen.add(key);
+
+    return true;
+  });
+}
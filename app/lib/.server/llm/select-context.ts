@@ -12,6 +12,8 @@ import { LLMManager } from '~/lib/modules/llm/manager';
 const ig = ignore().add(IGNORE_PATTERNS);
 const logger = createScopedLogger('select-context');
 
+const MAX_CONTEXT_FILES = 5;
+
 export async function selectContext(props: {
   messages: Message[];
   env?: Env;
@@ -21,9 +23,25 @@ export async function selectContext(props: {
   promptId?: string;
   contextOptimization?: boolean;
   summary: string;
+
+  /** Project paths ranked by the client side code index, best match first */
+  candidates?: string[];
+
+  /** Take the best ranked candidates as they are instead of letting the model choose among them */
+  indexOnly?: boolean;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const {
+    messages,
+    env: serverEnv,
+    apiKeys,
+    files,
+    providerSettings,
+    summary,
+    candidates,
+    indexOnly,
+    onFinish,
+  } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -105,6 +123,26 @@ export async function selectContext(props: {
     context = createFilesContext(contextFiles);
   }
 
+  const rankedPaths = (candidates || []).filter((path) => filePaths.includes(path));
+
+  if (indexOnly && rankedPaths.length > 0) {
+    const indexedFiles: FileMap = {};
+
+    rankedPaths
+      .filter((path) => !currrentFiles.includes(path.replace('/home/project/', '')))
+      .slice(0, MAX_CONTEXT_FILES)
+      .forEach((path) => {
+        indexedFiles[path] = files[path];
+      });
+
+    logger.info(`Total files from code index: ${Object.keys(indexedFiles).length}`);
+
+    return indexedFiles;
+  }
+
+  // narrow the list down to the ranked files, the full list gets slow and inaccurate on large projects
+  const availablePaths = rankedPaths.length > 0 ? rankedPaths : filePaths;
+
   const summaryText = `Here is the summary of the chat till now: ${summary}`;
 
   const extractTextContent = (message: Message) =>
@@ -121,11 +159,11 @@ export async function selectContext(props: {
   // select files from the list of code file from the project that might be useful for the current request from the user
   const resp = await generateText({
     system: `
-        You are a software engineer. You are working on a project. You have access to the following files:
+        You are a software engineer. You are working on a project. You have access to the following files${rankedPaths.length > 0 ? ', ranked by relevance to the task with the most relevant first' : ''}:
 
         AVAILABLE FILES PATHS
         ---
-        ${filePaths.map((path) => `- ${path}`).join('\n')}
+        ${availablePaths.map((path) => `- ${path}`).join('\n')}
         ---
 
         You have following code loaded in the context buffer that you can refer to:
@@ -164,7 +202,7 @@ export async function selectContext(props: {
         * context buffer should not include any file that is not in the list of files above.
         * context buffer is extremlly expensive, so only include files that are absolutely necessary.
         * If no changes are needed, you can leave the response empty updateContextBuffer tag.
-        * Only 5 files can be placed in the context buffer at a time.
+        * Only ${MAX_CONTEXT_FILES} files can be placed in the context buffer at a time.
         * if the buffer is full, you need to exclude files that is not needed and include files that is relevent.
 
         `,
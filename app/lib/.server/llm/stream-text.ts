@@ -2,14 +2,17 @@ import { convertToCoreMessages, streamText as _streamText, type Message } from '
 import { MAX_TOKENS, PROVIDER_COMPLETION_LIMITS, isReasoningModel, type FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
-import type { IProviderSetting } from '~/types/model';
+import type { FallbackModel, IProviderSetting } from '~/types/model';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { discussPrompt } from '~/lib/common/prompts/discuss-prompt';
+import { planPrompt } from '~/lib/common/prompts/plan-prompt';
 import type { DesignScheme } from '~/types/design-scheme';
+import type { ChatMode } from '~/types/task-plan';
+import { LOCAL_DATABASE_URL } from '~/lib/supabase/local-database';
 
 export type Messages = Message[];
 
@@ -21,7 +24,16 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
       anonKey?: string;
       supabaseUrl?: string;
     };
+
+    /** tables, columns, RLS policies and functions of the selected project */
+    schema?: string;
+
+    /** database actions run against the local database of the project runtime */
+    local?: boolean;
   };
+
+  /** contents of the MCP resources the user attached to the chat */
+  mcpResources?: string;
 }
 
 const logger = createScopedLogger('stream-text');
@@ -51,6 +63,17 @@ function sanitizeText(text: string): string {
   return sanitized.trim();
 }
 
+function getModeSystemPrompt(chatMode: ChatMode | undefined, buildPrompt: string) {
+  switch (chatMode) {
+    case 'build':
+      return buildPrompt;
+    case 'plan':
+      return planPrompt();
+    default:
+      return discussPrompt();
+  }
+}
+
 export async function streamText(props: {
   messages: Omit<Message, 'id'>[];
   env?: Env;
@@ -63,8 +86,11 @@ export async function streamText(props: {
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
-  chatMode?: 'discuss' | 'build';
+  chatMode?: ChatMode;
   designScheme?: DesignScheme;
+
+  /** Answer with this model instead of the one selected in the last user message, used by the fallback chain */
+  modelOverride?: FallbackModel;
 }) {
   const {
     messages,
@@ -79,6 +105,7 @@ export async function streamText(props: {
     summary,
     chatMode,
     designScheme,
+    modelOverride,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -104,6 +131,11 @@ export async function streamText(props: {
     return newMessage;
   });
 
+  if (modelOverride) {
+    currentModel = modelOverride.model;
+    currentProvider = modelOverride.provider;
+  }
+
   const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
@@ -219,6 +251,37 @@ export async function streamText(props: {
     console.log('No locked files found from any source for prompt.');
   }
 
+  if (options?.supabaseConnection?.local) {
+    systemPrompt = `${systemPrompt}
+
+    LOCAL DATABASE:
+    Supabase actions run against a local Postgres database (PGlite) in the project runtime instead of a Supabase project, without network access. Keep writing migrations and queries as Supabase actions, they are applied locally and promoted to a Supabase project later. The \`auth\` schema only provides \`auth.users\`, \`auth.uid()\`, \`auth.role()\`, \`auth.jwt()\` and \`auth.email()\`, and there is no REST or Auth API, so do not create a Supabase client or .env file for it. Server code and tests of the project query the database by sending a POST request with the JSON body \`{ "query": "<sql>" }\` to ${LOCAL_DATABASE_URL}, which responds with the rows of the last statement as a JSON array or with \`{ "error": { "message": "..." } }\`.
+    ---
+    `;
+  }
+
+  if (options?.supabaseConnection?.hasSelectedProject && options.supabaseConnection.schema) {
+    systemPrompt = `${systemPrompt}
+
+    SUPABASE DATABASE SCHEMA:
+    The connected database currently has this schema. Write migrations against it, do not recreate existing tables or policies:
+    ---
+    ${options.supabaseConnection.schema}
+    ---
+    `;
+  }
+
+  if (options?.mcpResources) {
+    systemPrompt = `${systemPrompt}
+
+    MCP RESOURCES:
+    The user attached these resources of their MCP servers as context, they are current as of this message:
+    ---
+    ${options.mcpResources}
+    ---
+    `;
+  }
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
   // Log reasoning model detection and token parameters
@@ -280,7 +343,7 @@ export async function streamText(props: {
       apiKeys,
       providerSettings,
     }),
-    system: chatMode === 'build' ? systemPrompt : discussPrompt(),
+    system: getModeSystemPrompt(chatMode, systemPrompt),
     ...tokenParams,
     messages: convertToCoreMessages(processedMessages as any),
     ...filteredOptions,
@@ -0,0 +1,44 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+
+/**
+ * The token MCP clients and pairing app tabs authenticate with. The MCP server and its bridge stay disabled without it.
+ */
+export function getMCPServerToken(context: AppLoadContext): string | undefined {
+  const env = context.cloudflare?.env as unknown as Record<string, string> | undefined;
+
+  return env?.MCP_SERVER_TOKEN || process.env.MCP_SERVER_TOKEN || undefined;
+}
+
+export function getBearerToken(request: Request): string | undefined {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+
+  return match?.[1];
+}
+
+/**
+ * Compares in constant time so the answer time does not leak how much of a guess was right
+ */
+export function tokensMatch(actual: string | undefined, expected: string): boolean {
+  if (actual === undefined || actual.length !== expected.length) {
+    return false;
+  }
+
+  let difference = 0;
+
+  for (let i = 0; i < expected.length; i++) {
+    difference |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+export function mcpServerDisabledResponse() {
+  return Response.json(
+    { error: 'The MCP server is disabled, set MCP_SERVER_TOKEN on the server to enable it' },
+    { status: 503 },
+  );
+}
+
+export function unauthorizedResponse() {
+  return Response.json({ error: 'Unauthorized' }, { status: 401 });
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WorkspaceBridge, WorkspaceBridgeError } from './bridge';
+
+describe('WorkspaceBridge', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refuses requests while no tab polls', () => {
+    const bridge = new WorkspaceBridge();
+
+    expect(() => bridge.request('listChats', {}, 1000)).toThrow(WorkspaceBridgeError);
+  });
+
+  it('hands requests to a waiting tab and resolves with its answer', async () => {
+    const bridge = new WorkspaceBridge();
+    const tab = bridge.registerTab();
+    const poll = bridge.takeRequests(tab);
+    const result = bridge.request('deploy', { target: 'netlify' }, 1000);
+
+    const [request] = await poll;
+
+    expect(request).toMatchObject({ method: 'deploy', params: { target: 'netlify' } });
+
+    expect(bridge.respond(tab, { id: request.id, result: { url: 'https://example.netlify.app' } })).toBe(true);
+
+    await expect(result).resolves.toEqual({ url: 'https://example.netlify.app' });
+  });
+
+  it('rejects with the error the tab answers', async () => {
+    const bridge = new WorkspaceBridge();
+    const tab = bridge.registerTab();
+    const poll = bridge.takeRequests(tab);
+    const result = bridge.request('readProjectFiles', { chatId: '42' }, 1000);
+
+    const [request] = await poll;
+    bridge.respond(tab, { id: request.id, error: 'Chat 42 does not exist' });
+
+    await expect(result).rejects.toThrow('Chat 42 does not exist');
+  });
+
+  it('gives up on requests nobody answers', async () => {
+    vi.useFakeTimers();
+
+    const bridge = new WorkspaceBridge();
+    const poll = bridge.takeRequests(bridge.registerTab());
+    const result = bridge.request('listChats', {}, 1000);
+
+    await poll;
+    vi.advanceTimersByTime(1000);
+
+    await expect(result).rejects.toThrow('did not answer listChats');
+  });
+
+  it('keeps the requests queued when the polling tab goes away', async () => {
+    const bridge = new WorkspaceBridge();
+    const controller = new AbortController();
+    const tab = bridge.registerTab();
+    const poll = bridge.takeRequests(tab, controller.signal);
+
+    controller.abort();
+    await expect(poll).resolves.toEqual([]);
+
+    bridge.request('listChats', {}, 1000).catch(() => undefined);
+
+    await expect(bridge.takeRequests(tab)).resolves.toHaveLength(1);
+  });
+
+  it('refuses polls of tabs that did not pair', async () => {
+    const bridge = new WorkspaceBridge();
+
+    expect(bridge.isTab('forged')).toBe(false);
+    await expect(bridge.takeRequests('forged')).rejects.toThrow(WorkspaceBridgeError);
+  });
+
+  it('only accepts the answer of the tab that took the request', async () => {
+    const bridge = new WorkspaceBridge();
+    const tab = bridge.registerTab();
+    const other = bridge.registerTab();
+    const poll = bridge.takeRequests(tab);
+    const result = bridge.request('listChats', {}, 1000);
+
+    const [request] = await poll;
+
+    expect(bridge.respond(other, { id: request.id, result: [] })).toBe(false);
+    expect(bridge.respond(tab, { id: request.id, result: [{ id: '1', timestamp: '', isOpen: true }] })).toBe(true);
+
+    await expect(result).resolves.toHaveLength(1);
+  });
+
+  it('does not accept answers for requests no tab has taken yet', () => {
+    const bridge = new WorkspaceBridge();
+    const tab = bridge.registerTab();
+
+    bridge.request('listChats', {}, 1000).catch(() => undefined);
+
+    expect(bridge.respond(tab, { id: 'guessed', result: [] })).toBe(false);
+  });
+});
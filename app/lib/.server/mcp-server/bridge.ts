@@ -0,0 +1,186 @@
+import type {
+  WorkspaceBridgeMethod,
+  WorkspaceBridgeMethods,
+  WorkspaceBridgeRequest,
+  WorkspaceBridgeResponse,
+} from '~/types/mcp-server';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('WorkspaceBridge');
+
+// a tab polls again right after each answer, one that has not polled for this long is gone
+const TAB_TIMEOUT = 60_000;
+const POLL_TIMEOUT = 25_000;
+
+export class WorkspaceBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceBridgeError';
+  }
+}
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+
+  /** secret of the tab the request was handed to, only that tab may answer it */
+  tab?: string;
+};
+
+/**
+ * Relays requests of the MCP server to the app tabs that accept them. The tabs long-poll for requests and post the
+ * answers back, so this relies on a long-lived server process like the MCP clients do.
+ *
+ * A tab pairs first and gets a secret it sends with every poll and answer, see `registerTab`.
+ */
+export class WorkspaceBridge {
+  static #instance: WorkspaceBridge | undefined;
+
+  #queue: WorkspaceBridgeRequest[] = [];
+  #pending = new Map<string, PendingRequest>();
+  #waiters = new Set<() => void>();
+
+  // secret of every paired tab and when it last polled
+  #tabs = new Map<string, number>();
+
+  static getInstance(): WorkspaceBridge {
+    WorkspaceBridge.#instance ??= new WorkspaceBridge();
+
+    return WorkspaceBridge.#instance;
+  }
+
+  get isConnected() {
+    return (
+      this.#waiters.size > 0 || [...this.#tabs.values()].some((lastPollAt) => Date.now() - lastPollAt < TAB_TIMEOUT)
+    );
+  }
+
+  /**
+   * Pairs a tab and returns the secret it authenticates its polls and answers with. Tabs that stopped polling are
+   * forgotten here, their secrets no longer work.
+   */
+  registerTab(): string {
+    for (const [tab, lastPollAt] of this.#tabs) {
+      if (Date.now() - lastPollAt >= TAB_TIMEOUT) {
+        this.#tabs.delete(tab);
+      }
+    }
+
+    const secret = `${crypto.randomUUID()}${crypto.randomUUID()}`.replaceAll('-', '');
+    this.#tabs.set(secret, Date.now());
+
+    return secret;
+  }
+
+  isTab(secret: string | undefined): secret is string {
+    return secret !== undefined && this.#tabs.has(secret);
+  }
+
+  assertConnected() {
+    if (!this.isConnected) {
+      throw new WorkspaceBridgeError(
+        'No app tab accepts MCP requests. Open the app and enable "Accept requests from MCP clients" in Settings > MCP Servers.',
+      );
+    }
+  }
+
+  request<M extends WorkspaceBridgeMethod>(
+    method: M,
+    params: WorkspaceBridgeMethods[M]['params'],
+    timeoutMs: number,
+  ): Promise<WorkspaceBridgeMethods[M]['result']> {
+    this.assertConnected();
+
+    const id = crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.#pending.delete(id);
+        this.#queue = this.#queue.filter((request) => request.id !== id);
+        reject(new WorkspaceBridgeError(`The app did not answer ${method} within ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      this.#pending.set(id, {
+        resolve: (result) => resolve(result as WorkspaceBridgeMethods[M]['result']),
+        reject,
+        timeoutId,
+      });
+      this.#queue.push({ id, method, params } as WorkspaceBridgeRequest);
+
+      logger.debug(`relaying ${method} (${id}) to the app`);
+
+      this.#waiters.forEach((wake) => wake());
+    });
+  }
+
+  /**
+   * Hands the queued requests to a polling tab, waiting for one when there are none yet
+   */
+  async takeRequests(tab: string, signal?: AbortSignal, timeoutMs = POLL_TIMEOUT): Promise<WorkspaceBridgeRequest[]> {
+    if (!this.#tabs.has(tab)) {
+      throw new WorkspaceBridgeError('Unknown tab, pair it again');
+    }
+
+    this.#tabs.set(tab, Date.now());
+
+    if (this.#queue.length === 0) {
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timeoutId);
+          this.#waiters.delete(wake);
+          signal?.removeEventListener('abort', wake);
+          resolve();
+        };
+
+        const timeoutId = setTimeout(wake, timeoutMs);
+
+        this.#waiters.add(wake);
+        signal?.addEventListener('abort', wake);
+      });
+
+      this.#tabs.set(tab, Date.now());
+    }
+
+    // the tab went away while waiting, the requests stay queued for the next one
+    if (signal?.aborted) {
+      return [];
+    }
+
+    const requests = this.#queue;
+    this.#queue = [];
+
+    for (const request of requests) {
+      const pending = this.#pending.get(request.id);
+
+      if (pending) {
+        pending.tab = tab;
+      }
+    }
+
+    return requests;
+  }
+
+  /**
+   * Settles a request with the answer of the tab it was handed to, returns false for answers of any other tab
+   */
+  respond(tab: string, response: WorkspaceBridgeResponse): boolean {
+    const pending = this.#pending.get(response.id);
+
+    if (!pending || pending.tab !== tab) {
+      logger.warn(`answer for unknown, expired or foreign request ${response.id}`);
+      return false;
+    }
+
+    clearTimeout(pending.timeoutId);
+    this.#pending.delete(response.id);
+
+    if ('error' in response) {
+      pending.reject(new WorkspaceBridgeError(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,180 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Message } from 'ai';
+import { z } from 'zod';
+import { streamText } from '~/lib/.server/llm/stream-text';
+import { WorkspaceBridge } from '~/lib/.server/mcp-server/bridge';
+import type { IProviderSetting } from '~/types/model';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST, STARTER_TEMPLATES } from '~/utils/constants';
+import { getTemplates } from '~/utils/selectStarterTemplate';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('AppMCPServer');
+
+const REQUEST_TIMEOUT = 30_000;
+const APPLY_TIMEOUT = 5 * 60_000;
+const DEPLOY_TIMEOUT = 10 * 60_000;
+
+export interface AppMCPServerContext {
+  env?: Env;
+  apiKeys: Record<string, string>;
+  providerSettings: Record<string, IProviderSetting>;
+
+  /** origin of the app, the server fetches the starter templates from its own API */
+  origin: string;
+}
+
+function textResult(value: unknown): CallToolResult {
+  return {
+    content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  };
+}
+
+// failures go back to the client as tool errors, it can correct the call or tell its user
+async function runTool(toolName: string, run: () => Promise<unknown>): Promise<CallToolResult> {
+  try {
+    return textResult(await run());
+  } catch (error) {
+    logger.error(`MCP tool ${toolName} failed`, error);
+
+    return {
+      content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+      isError: true,
+    };
+  }
+}
+
+function getFilePaths(content: string) {
+  return [...content.matchAll(/<boltAction[^>]*\sfilePath="([^"]+)"/g)].map(([, filePath]) => filePath);
+}
+
+async function createProjectFromPrompt(
+  { prompt, template, provider, model }: { prompt: string; template?: string; provider?: string; model?: string },
+  context: AppMCPServerContext,
+) {
+  const bridge = WorkspaceBridge.getInstance();
+
+  // checked before the model is called, the project could not be opened anyway
+  bridge.assertConnected();
+
+  const providerInfo = provider ? PROVIDER_LIST.find(({ name }) => name === provider) : DEFAULT_PROVIDER;
+
+  if (!providerInfo) {
+    throw new Error(`Unknown provider ${provider}, use one of ${PROVIDER_LIST.map(({ name }) => name).join(', ')}`);
+  }
+
+  const withModel = (content: string) =>
+    `[Model: ${model ?? DEFAULT_MODEL}]\n\n[Provider: ${providerInfo.name}]\n\n${content}`;
+  const messages: Array<Omit<Message, 'id'>> = [{ role: 'user', content: withModel(prompt) }];
+
+  // the same messages the chat starts with when it picks a template
+  if (template) {
+    const templateMessages = await getTemplates(template, undefined, context.origin);
+
+    if (!templateMessages) {
+      throw new Error(
+        `Unknown template ${template}, use one of ${STARTER_TEMPLATES.map(({ name }) => name).join(', ')}`,
+      );
+    }
+
+    messages.push(
+      { role: 'assistant', content: templateMessages.assistantMessage },
+      { role: 'user', content: withModel(templateMessages.userMessage), annotations: ['hidden'] },
+    );
+  }
+
+  const result = await streamText({
+    messages,
+    env: context.env,
+    options: {},
+    apiKeys: context.apiKeys,
+    providerSettings: context.providerSettings,
+    chatMode: 'build',
+  });
+
+  const response = await result.text;
+
+  messages.push({ role: 'assistant', content: response });
+
+  const chat = await bridge.request('createChat', { description: prompt.slice(0, 80), messages }, REQUEST_TIMEOUT);
+
+  return { ...chat, files: [...new Set(messages.flatMap(({ content }) => getFilePaths(content)))] };
+}
+
+/**
+ * MCP server of the app, so other agents and editors can create projects with the configured providers and templates
+ * and work on the projects open in the app. Everything but the generation runs in the app tab that accepts requests.
+ */
+export function createAppMCPServer(context: AppMCPServerContext) {
+  const bridge = WorkspaceBridge.getInstance();
+  const server = new McpServer({ name: 'bolt', version: '1.0.0' });
+
+  server.registerTool(
+    'create_project_from_prompt',
+    {
+      description:
+        'Generate a new project from a prompt with one of the configured providers and open it as a new chat in the ' +
+        'app. Returns the chat id, its URL and the files written.',
+      inputSchema: {
+        prompt: z.string().describe('What to build'),
+        template: z
+          .string()
+          .optional()
+          .describe(`Starter template to begin with, one of ${STARTER_TEMPLATES.map(({ name }) => name).join(', ')}`),
+        provider: z.string().optional().describe(`Provider to generate with, defaults to ${DEFAULT_PROVIDER.name}`),
+        model: z.string().optional().describe(`Model of the provider, defaults to ${DEFAULT_MODEL}`),
+      },
+    },
+    (args) => runTool('create_project_from_prompt', () => createProjectFromPrompt(args, context)),
+  );
+
+  server.registerTool(
+    'apply_artifact',
+    {
+      description:
+        'Apply a <boltArtifact> with <boltAction> file, edit and shell actions to the project open in the app, the way ' +
+        'the app applies the answers of its model. Returns the status of each action.',
+      inputSchema: {
+        artifact: z.string().describe('The <boltArtifact id="..." title="...">...</boltArtifact> markup'),
+      },
+    },
+    ({ artifact }) => runTool('apply_artifact', () => bridge.request('applyArtifact', { artifact }, APPLY_TIMEOUT)),
+  );
+
+  server.registerTool(
+    'list_chats',
+    {
+      description: 'List the chats of the app, newest first. Each chat holds one project.',
+    },
+    () => runTool('list_chats', () => bridge.request('listChats', {}, REQUEST_TIMEOUT)),
+  );
+
+  server.registerTool(
+    'read_project_files',
+    {
+      description:
+        'Read the files of a project. Without a chat id the project open in the app is read, other chats are read ' +
+        'from the files saved with their last answer.',
+      inputSchema: {
+        chatId: z.string().optional().describe('Id of the chat, as returned by list_chats'),
+        paths: z.array(z.string()).optional().describe('Paths relative to the project root, all files when omitted'),
+      },
+    },
+    (args) => runTool('read_project_files', () => bridge.request('readProjectFiles', args, REQUEST_TIMEOUT)),
+  );
+
+  server.registerTool(
+    'deploy',
+    {
+      description:
+        'Build the project open in the app and deploy it with the Netlify or Vercel account connected in the app. ' +
+        'Returns the URL of the deployment.',
+      inputSchema: {
+        target: z.enum(['netlify', 'vercel']),
+      },
+    },
+    ({ target }) => runTool('deploy', () => bridge.request('deploy', { target }, DEPLOY_TIMEOUT)),
+  );
+
+  return server;
+}
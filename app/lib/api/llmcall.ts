@@ -0,0 +1,23 @@
+import Cookies from 'js-cookie';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+
+/**
+ * One-shot completion with the model selected in the chat
+ */
+export async function requestCompletion(system: string, message: string) {
+  const model = Cookies.get('selectedModel') || DEFAULT_MODEL;
+  const provider = PROVIDER_LIST.find((item) => item.name === Cookies.get('selectedProvider')) ?? DEFAULT_PROVIDER;
+
+  const response = await fetch('/api/llmcall', {
+    method: 'POST',
+    body: JSON.stringify({ system, message, model, provider }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Completion request failed: ${response.statusText}`);
+  }
+
+  const { text }: { text: string } = await response.json();
+
+  return text.trim();
+}
@@ -168,6 +168,18 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - edit: Small, targeted changes to an EXISTING file (add filePath attribute, content is one or more search/replace blocks)
+
+  Edit Action Rules:
+    - Prefer edit over file when changing a few lines of a large existing file
+    - Format each change as:
+      <<<<<<< SEARCH
+      exact lines currently in the file
+      =======
+      replacement lines
+      >>>>>>> REPLACE
+    - SEARCH must match the current file exactly and only once, include enough surrounding lines to be unique
+    - If an edit fails to apply, re-read the reported file content and retry with a corrected SEARCH block or use a file action
 
   File Action Rules:
     - Only include new/modified files
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { isWorkbenchTool, listDirectoryParameters, runCommandParameters } from './workbench-tools';
+
+describe('workbench tools', () => {
+  it('are told apart from MCP tools with the same name', () => {
+    expect(isWorkbenchTool('workbench_read_file')).toBe(true);
+    expect(isWorkbenchTool('read_file')).toBe(false);
+  });
+
+  it('fill in the defaults the model leaves out', () => {
+    expect(listDirectoryParameters.parse({})).toEqual({ path: '.', depth: 1 });
+    expect(runCommandParameters.parse({ command: 'npm test' })).toEqual({ command: 'npm test', timeoutSeconds: 60 });
+  });
+
+  it('reject a timeout longer than five minutes', () => {
+    expect(runCommandParameters.safeParse({ command: 'npm test', timeoutSeconds: 600 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Tools the model calls to inspect the project on demand. They are declared without `execute`: the workbench only
+ * exists in the browser, so the chat runs them there and sends the result back with the next step.
+ */
+export const WORKBENCH_TOOL_NAMES = {
+  READ_FILE: 'workbench_read_file',
+  LIST_DIRECTORY: 'workbench_list_directory',
+  SEARCH_FILES: 'workbench_search_files',
+  RUN_COMMAND: 'workbench_run_command',
+  READ_PREVIEW_CONSOLE: 'workbench_read_preview_console',
+} as const;
+
+export type WorkbenchToolName = (typeof WORKBENCH_TOOL_NAMES)[keyof typeof WORKBENCH_TOOL_NAMES];
+
+// the annotation the chat shows next to the tool calls, in place of an MCP server
+export const WORKBENCH_SERVER_NAME = 'workbench';
+
+export const readFileParameters = z.object({
+  path: z.string().describe('Path of the file, relative to the project root'),
+  startLine: z.number().int().positive().optional().describe('First line to return, 1-based'),
+  endLine: z.number().int().positive().optional().describe('Last line to return, inclusive'),
+});
+
+export const listDirectoryParameters = z.object({
+  path: z.string().default('.').describe('Path of the directory, relative to the project root'),
+  depth: z.number().int().min(1).max(5).default(1).describe('How many levels of subdirectories to list'),
+});
+
+export const searchFilesParameters = z.object({
+  query: z.string().describe('Text or regular expression to search for'),
+  isRegex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(false),
+  include: z.string().optional().describe('Glob of the files to search, e.g. "src/**/*.ts"'),
+});
+
+export const runCommandParameters = z.object({
+  command: z.string().describe('Shell command to run in the project root'),
+  timeoutSeconds: z.number().int().min(1).max(300).default(60),
+});
+
+export const readPreviewConsoleParameters = z.object({
+  limit: z.number().int().min(1).max(200).default(50).describe('Number of most recent messages to return'),
+  level: z.enum(['log', 'info', 'warn', 'error', 'debug']).optional().describe('Only return messages of this level'),
+});
+
+export const workbenchTools: ToolSet = {
+  [WORKBENCH_TOOL_NAMES.READ_FILE]: tool({
+    description: 'Read a file of the project, optionally only a range of its lines. The lines are numbered.',
+    parameters: readFileParameters,
+  }),
+  [WORKBENCH_TOOL_NAMES.LIST_DIRECTORY]: tool({
+    description: 'List the files and directories of a project directory. Directories end with a slash.',
+    parameters: listDirectoryParameters,
+  }),
+  [WORKBENCH_TOOL_NAMES.SEARCH_FILES]: tool({
+    description: 'Search the files of the project for text, returns the matching lines with their path and number.',
+    parameters: searchFilesParameters,
+  }),
+  [WORKBENCH_TOOL_NAMES.RUN_COMMAND]: tool({
+    description:
+      'Run a shell command in the project root and return its output and exit code, e.g. to run the tests or the ' +
+      'type checker. Do not start long running processes like dev servers with it, use a start action instead.',
+    parameters: runCommandParameters,
+  }),
+  [WORKBENCH_TOOL_NAMES.READ_PREVIEW_CONSOLE]: tool({
+    description: 'Read the most recent console messages of the preview of the running app.',
+    parameters: readPreviewConsoleParameters,
+  }),
+};
+
+export function isWorkbenchTool(toolName: string): toolName is WorkbenchToolName {
+  return toolName in workbenchTools;
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { lookupConnectedAccount } from './auth';
+
+const connections = vi.hoisted(() => ({
+  github: { token: '' },
+  gitlab: { token: '', gitlabUrl: 'https://gitlab.com' },
+}));
+
+vi.mock('~/lib/stores/githubConnection', () => ({
+  githubConnectionStore: { get: () => connections.github },
+}));
+
+vi.mock('~/lib/stores/gitlabConnection', () => ({
+  gitlabConnection: { get: () => connections.gitlab },
+}));
+
+describe('lookupConnectedAccount', () => {
+  beforeEach(() => {
+    connections.github = { token: '' };
+    connections.gitlab = { token: '', gitlabUrl: 'https://gitlab.com' };
+  });
+
+  it('uses the token of the account connected for the host', () => {
+    connections.github.token = 'ghp_token';
+    connections.gitlab = { token: 'glpat_token', gitlabUrl: 'https://git.example.com' };
+
+    expect(lookupConnectedAccount('https://github.com/me/app.git')).toEqual({
+      username: 'x-access-token',
+      password: 'ghp_token',
+    });
+    expect(lookupConnectedAccount('https://git.example.com/me/app.git')).toEqual({
+      username: 'oauth2',
+      password: 'glpat_token',
+    });
+  });
+
+  it('does not send tokens to other hosts', () => {
+    connections.github.token = 'ghp_token';
+    connections.gitlab.token = 'glpat_token';
+
+    expect(lookupConnectedAccount('https://bitbucket.org/me/app.git')).toBeNull();
+    expect(lookupConnectedAccount('https://git.example.com/me/app.git')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import type { AuthCallback, AuthSuccessCallback, GitAuth } from 'isomorphic-git';
+import Cookies from 'js-cookie';
+import { githubConnectionStore } from '~/lib/stores/githubConnection';
+import { gitlabConnection } from '~/lib/stores/gitlabConnection';
+
+export const lookupSavedPassword = (url: string) => {
+  const domain = url.split('/')[2];
+  const gitCreds = Cookies.get(`git:${domain}`);
+
+  if (!gitCreds) {
+    return null;
+  }
+
+  try {
+    const { username, password } = JSON.parse(gitCreds || '{}');
+    return { username, password };
+  } catch (error) {
+    console.log(`Failed to parse Git Cookie ${error}`);
+    return null;
+  }
+};
+
+export const saveGitAuth = (url: string, auth: GitAuth) => {
+  const domain = url.split('/')[2];
+  Cookies.set(`git:${domain}`, JSON.stringify(auth));
+};
+
+/**
+ * The token of the GitHub or GitLab account connected in the settings when it belongs to the host of the URL
+ */
+export const lookupConnectedAccount = (url: string): GitAuth | null => {
+  const host = new URL(url).host;
+  const github = githubConnectionStore.get();
+
+  if (host === 'github.com' && github.token) {
+    return { username: 'x-access-token', password: github.token };
+  }
+
+  const gitlab = gitlabConnection.get();
+
+  if (gitlab.token && host === new URL(gitlab.gitlabUrl || 'https://gitlab.com').host) {
+    return { username: 'oauth2', password: gitlab.token };
+  }
+
+  return null;
+};
+
+/**
+ * Uses the credentials saved for the host or the token of the connected GitHub or GitLab account, and asks for them
+ * otherwise
+ */
+export const onGitAuth: AuthCallback = (url) => {
+  const auth = lookupSavedPassword(url) ?? lookupConnectedAccount(url);
+
+  if (auth) {
+    return auth;
+  }
+
+  const domain = url.split('/')[2];
+
+  if (!confirm(`${domain} requires authentication. Would you like to enter your credentials?`)) {
+    return { cancel: true };
+  }
+
+  return {
+    username: prompt('Enter username') || '',
+    password: prompt('Enter password or personal access token') || '',
+  };
+};
+
+export const onGitAuthSuccess: AuthSuccessCallback = (url, auth) => saveGitAuth(url, auth);
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { hasConflictMarkers, parseConflicts, resolveConflicts } from './conflicts';
+
+const merged = `import a from 'a';
+<<<<<<< main
+const value = 1;
+=======
+const value = 2;
+>>>>>>> origin/main
+export default value;
+`;
+
+describe('parseConflicts', () => {
+  it('splits the file into text and conflicts', () => {
+    expect(parseConflicts(merged)).toEqual([
+      { type: 'text', content: "import a from 'a';\n" },
+      {
+        type: 'conflict',
+        ours: 'const value = 1;\n',
+        theirs: 'const value = 2;\n',
+        oursLabel: 'main',
+        theirsLabel: 'origin/main',
+      },
+      { type: 'text', content: 'export default value;\n' },
+    ]);
+  });
+
+  it('drops the base section of diff3 conflicts', () => {
+    const segments = parseConflicts('<<<<<<< ours\na\n||||||| base\nb\n=======\nc\n>>>>>>> theirs\n');
+
+    expect(segments).toEqual([
+      { type: 'conflict', ours: 'a\n', theirs: 'c\n', oursLabel: 'ours', theirsLabel: 'theirs' },
+    ]);
+  });
+
+  it('keeps incomplete conflicts as text', () => {
+    const content = '<<<<<<< ours\na\n=======\nb\n';
+
+    expect(parseConflicts(content)).toEqual([{ type: 'text', content }]);
+    expect(hasConflictMarkers(content)).toBe(false);
+    expect(hasConflictMarkers(merged)).toBe(true);
+  });
+});
+
+describe('resolveConflicts', () => {
+  const segments = parseConflicts(merged);
+
+  it('writes the chosen side of every conflict', () => {
+    expect(resolveConflicts(segments, ['theirs'])).toBe(
+      "import a from 'a';\nconst value = 2;\nexport default value;\n",
+    );
+    expect(resolveConflicts(segments, ['both'])).toBe(
+      "import a from 'a';\nconst value = 1;\nconst value = 2;\nexport default value;\n",
+    );
+  });
+
+  it('keeps our side of unresolved conflicts', () => {
+    expect(resolveConflicts(segments, [])).toBe("import a from 'a';\nconst value = 1;\nexport default value;\n");
+  });
+});
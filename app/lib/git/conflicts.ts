@@ -0,0 +1,105 @@
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+export type ConflictSegment =
+  | { type: 'text'; content: string }
+  | { type: 'conflict'; ours: string; theirs: string; oursLabel: string; theirsLabel: string };
+
+const OURS_MARKER = '<<<<<<<';
+const BASE_MARKER = '|||||||';
+const SEPARATOR = '=======';
+const THEIRS_MARKER = '>>>>>>>';
+
+export function hasConflictMarkers(content: string) {
+  return parseConflicts(content).some((segment) => segment.type === 'conflict');
+}
+
+function markerLabel(line: string, marker: string) {
+  return line.slice(marker.length).trim();
+}
+
+/**
+ * Splits a file written by a merge into the text both sides agree on and the conflicting regions.
+ * The base section of diff3 style conflicts is dropped, incomplete conflicts are kept as text.
+ */
+export function parseConflicts(content: string): ConflictSegment[] {
+  const segments: ConflictSegment[] = [];
+  const lines = content.split(/(?<=\n)/);
+  let text = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith(OURS_MARKER)) {
+      text += lines[i];
+      continue;
+    }
+
+    let ours = '';
+    let theirs = '';
+    let section: 'ours' | 'base' | 'theirs' = 'ours';
+    let end = -1;
+
+    for (let j = i + 1; j < lines.length; j++) {
+      const line = lines[j];
+
+      if (section !== 'theirs' && line.startsWith(BASE_MARKER)) {
+        section = 'base';
+      } else if (section !== 'theirs' && line.trimEnd() === SEPARATOR) {
+        section = 'theirs';
+      } else if (section === 'theirs' && line.startsWith(THEIRS_MARKER)) {
+        end = j;
+        break;
+      } else if (section === 'ours') {
+        ours += line;
+      } else if (section === 'theirs') {
+        theirs += line;
+      }
+    }
+
+    if (end === -1) {
+      text += lines[i];
+      continue;
+    }
+
+    if (text) {
+      segments.push({ type: 'text', content: text });
+      text = '';
+    }
+
+    segments.push({
+      type: 'conflict',
+      ours,
+      theirs,
+      oursLabel: markerLabel(lines[i], OURS_MARKER),
+      theirsLabel: markerLabel(lines[end], THEIRS_MARKER),
+    });
+    i = end;
+  }
+
+  if (text) {
+    segments.push({ type: 'text', content: text });
+  }
+
+  return segments;
+}
+
+/**
+ * Builds the resolved file, `resolutions` holds one entry per conflict. Unresolved conflicts keep our side.
+ */
+export function resolveConflicts(segments: ConflictSegment[], resolutions: Array<ConflictResolution | undefined>) {
+  let conflictIndex = 0;
+
+  return segments
+    .map((segment) => {
+      if (segment.type === 'text') {
+        return segment.content;
+      }
+
+      const resolution = resolutions[conflictIndex++] ?? 'ours';
+
+      if (resolution === 'both') {
+        return segment.ours + segment.theirs;
+      }
+
+      return resolution === 'theirs' ? segment.theirs : segment.ours;
+    })
+    .join('');
+}
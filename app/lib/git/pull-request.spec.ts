@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createFeatureBranchName, formatReviewTasks, parsePullRequestDraft } from './pull-request';
+
+describe('createFeatureBranchName', () => {
+  it('names the branch after the chat', () => {
+    expect(createFeatureBranchName('Add a dark mode toggle!', 0)).toBe('bolt/add-a-dark-mode-toggle-0');
+    expect(createFeatureBranchName(undefined, 36)).toBe('bolt/changes-10');
+  });
+});
+
+describe('parsePullRequestDraft', () => {
+  it('splits the title from the description', () => {
+    expect(parsePullRequestDraft('# Add dark mode\n\nAdds a toggle to the header.', 'Fallback')).toEqual({
+      title: 'Add dark mode',
+      body: 'Adds a toggle to the header.',
+    });
+  });
+
+  it('falls back to the given title', () => {
+    expect(parsePullRequestDraft('```\n```', 'Fallback')).toEqual({ title: 'Fallback', body: '' });
+  });
+});
+
+describe('formatReviewTasks', () => {
+  it('lists every comment as a task', () => {
+    const message = formatReviewTasks(
+      {
+        provider: 'gitlab',
+        repository: 'team/app',
+        number: 3,
+        url: 'https://gitlab.com/team/app/-/merge_requests/3',
+        branch: 'b',
+      },
+      [
+        { author: 'ana', body: 'Rename this\nplease', path: 'src/app.ts', line: 4 },
+        { author: 'bo', body: 'Looks good otherwise' },
+      ],
+    );
+
+    expect(message).toContain('merge request !3');
+    expect(message).toContain('- [ ] `src/app.ts:4` Rename this\n  please (@ana)');
+    expect(message).toContain('- [ ] Looks good otherwise (@bo)');
+  });
+});
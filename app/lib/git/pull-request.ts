@@ -0,0 +1,194 @@
+import type { Message } from 'ai';
+import { requestCompletion } from '~/lib/api/llmcall';
+import { getLocalStorage, setLocalStorage } from '~/lib/persistence/localStorage';
+import { GitLabApiService } from '~/lib/services/gitlabApiService';
+import { gitHubApiService } from '~/lib/services/githubApiService';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('PullRequest');
+
+// the model only needs the gist of long chats to describe the changes
+const MAX_TRANSCRIPT_LENGTH = 12_000;
+
+const PULL_REQUEST_PROMPT = `You write pull request descriptions. Given the transcript of a chat in which an assistant
+changed a project, reply with a title on the first line (imperative mood, at most 72 characters), a blank line and a
+markdown description summarizing what changed and why. Do not wrap the reply in quotes or code fences.`;
+
+export type PullRequestProvider = 'github' | 'gitlab';
+
+export interface PullRequestDraft {
+  title: string;
+  body: string;
+}
+
+/**
+ * Pull request (GitHub) or merge request (GitLab) opened for a chat
+ */
+export interface PullRequestReference {
+  provider: PullRequestProvider;
+
+  // `owner/name`, the full path of the project on GitLab
+  repository: string;
+  number: number;
+  url: string;
+  branch: string;
+}
+
+export interface ReviewComment {
+  author: string;
+  body: string;
+  path?: string;
+  line?: number;
+  url?: string;
+}
+
+/**
+ * Name of the branch the changes of a chat are pushed to
+ */
+export function createFeatureBranchName(description: string | undefined, now = Date.now()) {
+  const slug = (description ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+
+  return `bolt/${slug || 'changes'}-${now.toString(36)}`;
+}
+
+function toTranscript(messages: Message[]) {
+  const transcript = messages
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .map((message) => {
+      const content = message.content
+        .replace(MODEL_REGEX, '')
+        .replace(PROVIDER_REGEX, '')
+        .replace(/<boltArtifact\s+[^>]*title="([^"]*)"[^>]*>[\s\S]*?<\/boltArtifact>/g, '[changed files: $1]')
+        .replace(/<think>[\s\S]*?<\/think>/g, '')
+        .trim();
+
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n\n');
+
+  // the latest messages describe the final state best
+  return transcript.slice(-MAX_TRANSCRIPT_LENGTH);
+}
+
+export function parsePullRequestDraft(text: string, fallbackTitle: string): PullRequestDraft {
+  const lines = text
+    .replace(/^```\w*\n?|\n?```$/g, '')
+    .trim()
+    .split('\n');
+
+  const title = lines[0]
+    ?.replace(/^#+\s*/, '')
+    .replace(/^title:\s*/i, '')
+    .trim();
+
+  return {
+    title: title || fallbackTitle,
+    body: lines.slice(1).join('\n').trim(),
+  };
+}
+
+/**
+ * Asks the selected model for a title and description summarizing the chat, falls back to the chat description
+ */
+export async function generatePullRequestDraft(messages: Message[], fallbackTitle: string): Promise<PullRequestDraft> {
+  if (messages.length === 0) {
+    return { title: fallbackTitle, body: '' };
+  }
+
+  try {
+    return parsePullRequestDraft(await requestCompletion(PULL_REQUEST_PROMPT, toTranscript(messages)), fallbackTitle);
+  } catch (error) {
+    logger.error('Failed to generate the pull request description', error);
+    return { title: fallbackTitle, body: '' };
+  }
+}
+
+export function getPullRequest(provider: PullRequestProvider, chatId: string): PullRequestReference | null {
+  return getLocalStorage(`${provider}-pr-${chatId}`);
+}
+
+export function savePullRequest(chatId: string, reference: PullRequestReference) {
+  setLocalStorage(`${reference.provider}-pr-${chatId}`, reference);
+}
+
+async function fetchGitHubComments(reference: PullRequestReference): Promise<ReviewComment[]> {
+  const connection = getLocalStorage('github_connection');
+
+  if (!connection?.token) {
+    throw new Error('Please connect your GitHub account in Settings > Connections first');
+  }
+
+  gitHubApiService.configure({ token: connection.token, tokenType: connection.tokenType });
+
+  const [owner, repo] = reference.repository.split('/');
+  const [reviewComments, reviews, issueComments] = await Promise.all([
+    gitHubApiService.getPullRequestReviewComments(owner, repo, reference.number),
+    gitHubApiService.getPullRequestReviews(owner, repo, reference.number),
+    gitHubApiService.getIssueComments(owner, repo, reference.number),
+  ]);
+
+  return [...reviews, ...issueComments, ...reviewComments]
+    .filter((comment) => comment.body?.trim())
+    .map((comment) => ({
+      author: comment.user?.login ?? 'unknown',
+      body: comment.body.trim(),
+      path: 'path' in comment ? comment.path : undefined,
+      line: 'line' in comment ? (comment.line ?? undefined) : undefined,
+      url: comment.html_url,
+    }));
+}
+
+async function fetchGitLabComments(reference: PullRequestReference): Promise<ReviewComment[]> {
+  const connection = getLocalStorage('gitlab_connection');
+
+  if (!connection?.token) {
+    throw new Error('Please connect your GitLab account in Settings > Connections first');
+  }
+
+  const apiService = new GitLabApiService(connection.token, connection.gitlabUrl || 'https://gitlab.com');
+  const notes = await apiService.getMergeRequestNotes(reference.repository, reference.number);
+
+  return notes
+    .filter((note) => !note.system && !note.resolved && note.body.trim())
+    .map((note) => ({
+      author: note.author.username,
+      body: note.body.trim(),
+      path: note.position?.new_path,
+      line: note.position?.new_line ?? undefined,
+      url: `${reference.url}#note_${note.id}`,
+    }));
+}
+
+/**
+ * Comments left on the request, resolved GitLab threads are skipped
+ */
+export function fetchReviewComments(reference: PullRequestReference) {
+  return reference.provider === 'github' ? fetchGitHubComments(reference) : fetchGitLabComments(reference);
+}
+
+/**
+ * Review comments as a chat message asking to address them one task at a time
+ */
+export function formatReviewTasks(reference: PullRequestReference, comments: ReviewComment[]) {
+  const name =
+    reference.provider === 'github' ? `pull request #${reference.number}` : `merge request !${reference.number}`;
+
+  const tasks = comments.map((comment) => {
+    const location = comment.path ? ` \`${comment.path}${comment.line ? `:${comment.line}` : ''}\`` : '';
+    const body = comment.body.replace(/\n+/g, '\n  ');
+
+    return `- [ ]${location} ${body} (@${comment.author})`;
+  });
+
+  return [
+    `Address the review comments on ${name} (${reference.url}) as a list of tasks, one change per task:`,
+    '',
+    ...tasks,
+  ].join('\n');
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { toFileStatus } from './repository';
+
+describe('toFileStatus', () => {
+  it('skips unmodified files', () => {
+    expect(toFileStatus(['a.ts', 1, 1, 1])).toBeNull();
+  });
+
+  it('tells staged from unstaged changes', () => {
+    expect(toFileStatus(['a.ts', 0, 2, 0])).toEqual({
+      path: 'a.ts',
+      state: 'untracked',
+      staged: false,
+      unstaged: true,
+    });
+    expect(toFileStatus(['a.ts', 0, 2, 2])).toEqual({ path: 'a.ts', state: 'added', staged: true, unstaged: false });
+    expect(toFileStatus(['a.ts', 1, 2, 1])).toEqual({ path: 'a.ts', state: 'modified', staged: false, unstaged: true });
+    expect(toFileStatus(['a.ts', 1, 2, 3])).toEqual({ path: 'a.ts', state: 'modified', staged: true, unstaged: true });
+  });
+
+  it('reports deleted files', () => {
+    expect(toFileStatus(['a.ts', 1, 0, 1])).toEqual({ path: 'a.ts', state: 'deleted', staged: false, unstaged: true });
+    expect(toFileStatus(['a.ts', 1, 0, 0])).toEqual({ path: 'a.ts', state: 'deleted', staged: true, unstaged: false });
+  });
+});
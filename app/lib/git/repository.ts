@@ -0,0 +1,277 @@
+import git, { type PromiseFsClient } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { diffFiles } from '~/utils/diff';
+import { onGitAuth, onGitAuthSuccess } from './auth';
+
+/**
+ * A repository in the project filesystem
+ */
+export interface GitContext {
+  fs: PromiseFsClient;
+  dir: string;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export type GitFileState = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitFileStatus {
+  path: string;
+  state: GitFileState;
+
+  // the index differs from HEAD
+  staged: boolean;
+
+  // the working tree differs from the index
+  unstaged: boolean;
+}
+
+export interface PullResult {
+  // files left with conflict markers, empty when the pull merged cleanly
+  conflicts: string[];
+
+  // commit merged into the current branch, the merge commit needs it as second parent
+  mergeHead?: string;
+}
+
+export const GIT_REMOTE = 'origin';
+
+const CORS_PROXY = '/api/git-proxy';
+
+const decoder = new TextDecoder();
+
+/**
+ * Reads a row of `git.statusMatrix`, see https://isomorphic-git.org/docs/en/statusMatrix
+ */
+export function toFileStatus([path, head, workdir, stage]: [string, number, number, number]): GitFileStatus | null {
+  const staged = stage === 0 ? head === 1 : stage !== 1;
+  const unstaged = stage === 3 || (stage === 1 && workdir !== 1) || (stage === 0 && workdir !== 0);
+
+  if (!staged && !unstaged) {
+    return null;
+  }
+
+  let state: GitFileState = 'modified';
+
+  if (head === 0) {
+    state = stage === 0 ? 'untracked' : 'added';
+  } else if (workdir === 0 || stage === 0) {
+    state = 'deleted';
+  }
+
+  return { path, state, staged, unstaged };
+}
+
+export async function isRepository({ fs, dir }: GitContext) {
+  try {
+    await git.findRoot({ fs, filepath: dir });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function initRepository({ fs, dir }: GitContext, remoteUrl?: string) {
+  await git.init({ fs, dir, defaultBranch: 'main' });
+
+  if (remoteUrl) {
+    await git.addRemote({ fs, dir, remote: GIT_REMOTE, url: remoteUrl, force: true });
+  }
+}
+
+/**
+ * Recreates the repository of a project imported from a remote. The WebContainer keeps `.git` only while the page is
+ * open, chats store the files alone. The branch is fetched and checked out without touching the files, so the changes
+ * made since the import show up as unstaged.
+ */
+export async function restoreRepository({ fs, dir }: GitContext, gitUrl: string) {
+  const [remoteUrl, ref] = gitUrl.split('#');
+
+  await initRepository({ fs, dir }, remoteUrl);
+
+  const { defaultBranch, fetchHead } = await git.fetch({
+    fs,
+    http,
+    dir,
+    remote: GIT_REMOTE,
+    ref,
+    singleBranch: true,
+    depth: 1,
+    corsProxy: CORS_PROXY,
+    onAuth: onGitAuth,
+    onAuthSuccess: onGitAuthSuccess,
+  });
+
+  if (!fetchHead) {
+    throw new Error(`${remoteUrl} has no commits to restore`);
+  }
+
+  const branch = ref ?? defaultBranch?.replace(/^refs\/heads\//, '') ?? 'main';
+
+  await git.writeRef({ fs, dir, ref: `refs/heads/${branch}`, value: fetchHead, force: true });
+  await git.writeRef({ fs, dir, ref: 'HEAD', value: `refs/heads/${branch}`, symbolic: true, force: true });
+
+  // the new index is empty, matching it to HEAD leaves only the changes of the working tree
+  for (const [filepath, head] of await git.statusMatrix({ fs, dir })) {
+    if (head === 1) {
+      await git.resetIndex({ fs, dir, filepath });
+    }
+  }
+}
+
+export async function getRemoteUrl({ fs, dir }: GitContext): Promise<string | undefined> {
+  return (await git.getConfig({ fs, dir, path: `remote.${GIT_REMOTE}.url` })) ?? undefined;
+}
+
+export async function setRemoteUrl({ fs, dir }: GitContext, url: string) {
+  await git.addRemote({ fs, dir, remote: GIT_REMOTE, url, force: true });
+}
+
+export async function getStatus({ fs, dir }: GitContext): Promise<GitFileStatus[]> {
+  const matrix = await git.statusMatrix({ fs, dir });
+
+  return matrix.flatMap((row) => toFileStatus(row) ?? []);
+}
+
+export async function stageFile({ fs, dir }: GitContext, file: GitFileStatus) {
+  if (file.state === 'deleted' && file.unstaged) {
+    await git.remove({ fs, dir, filepath: file.path });
+  } else {
+    await git.add({ fs, dir, filepath: file.path });
+  }
+}
+
+export async function unstageFile({ fs, dir }: GitContext, path: string) {
+  await git.resetIndex({ fs, dir, filepath: path });
+}
+
+async function readBlobText(fs: PromiseFsClient, dir: string, oid?: string) {
+  if (!oid) {
+    return '';
+  }
+
+  const { blob } = await git.readBlob({ fs, dir, oid });
+
+  return blob.includes(0) ? undefined : decoder.decode(blob);
+}
+
+/**
+ * Unified diff of the index against HEAD, the changes the next commit records
+ */
+export async function getStagedDiff({ fs, dir }: GitContext): Promise<string> {
+  const changes: Array<{ path: string; headOid?: string; stageOid?: string }> = await git.walk({
+    fs,
+    dir,
+    trees: [git.TREE({ ref: 'HEAD' }), git.STAGE()],
+    map: async (path, [head, stage]) => {
+      if (path === '.' || (await head?.type()) === 'tree' || (await stage?.type()) === 'tree') {
+        return undefined;
+      }
+
+      const headOid = await head?.oid();
+      const stageOid = await stage?.oid();
+
+      return headOid === stageOid ? undefined : { path, headOid, stageOid };
+    },
+  });
+
+  const patches: string[] = [];
+
+  for (const { path, headOid, stageOid } of changes) {
+    const before = await readBlobText(fs, dir, headOid);
+    const after = await readBlobText(fs, dir, stageOid);
+    const header = `diff --git a/${path} b/${path}\n`;
+
+    if (before === undefined || after === undefined) {
+      patches.push(`${header}Binary files differ\n`);
+      continue;
+    }
+
+    patches.push(`${header}--- ${headOid ? `a/${path}` : '/dev/null'}\n+++ ${stageOid ? `b/${path}` : '/dev/null'}\n`);
+    patches.push(diffFiles(path, before, after) ?? '');
+  }
+
+  return patches.join('');
+}
+
+export async function commit({ fs, dir }: GitContext, message: string, author: GitAuthor, mergeHead?: string) {
+  const parent = mergeHead ? [await git.resolveRef({ fs, dir, ref: 'HEAD' }), mergeHead] : undefined;
+
+  return git.commit({ fs, dir, message, author, parent });
+}
+
+export async function getBranches({ fs, dir }: GitContext) {
+  const [branches, current] = await Promise.all([
+    git.listBranches({ fs, dir }),
+    git.currentBranch({ fs, dir, fullname: false }),
+  ]);
+
+  return { branches, current: current ?? undefined };
+}
+
+export async function createBranch({ fs, dir }: GitContext, name: string) {
+  await git.branch({ fs, dir, ref: name, checkout: true });
+}
+
+export async function checkoutBranch({ fs, dir }: GitContext, name: string) {
+  await git.checkout({ fs, dir, ref: name });
+}
+
+/**
+ * Fetches the branch and merges it into the local one. Conflicts are written into the files with markers
+ * instead of aborting the merge, so they can be resolved and committed.
+ */
+export async function pull({ fs, dir }: GitContext, branch: string, author: GitAuthor): Promise<PullResult> {
+  await git.fetch({
+    fs,
+    http,
+    dir,
+    remote: GIT_REMOTE,
+    ref: branch,
+    singleBranch: true,
+    corsProxy: CORS_PROXY,
+    onAuth: onGitAuth,
+    onAuthSuccess: onGitAuthSuccess,
+  });
+
+  const theirs = `${GIT_REMOTE}/${branch}`;
+
+  try {
+    const result = await git.merge({ fs, dir, ours: branch, theirs, author, abortOnConflict: false });
+
+    // the merge only moves the branch, checking it out brings the files up to date
+    if (!result.alreadyMerged) {
+      await git.checkout({ fs, dir, ref: branch });
+    }
+
+    return { conflicts: [] };
+  } catch (error) {
+    if (error instanceof git.Errors.MergeConflictError) {
+      const mergeHead = await git.resolveRef({ fs, dir, ref: `refs/remotes/${theirs}` });
+
+      return { conflicts: error.data.filepaths, mergeHead };
+    }
+
+    throw error;
+  }
+}
+
+export async function push({ fs, dir }: GitContext, branch: string) {
+  const result = await git.push({
+    fs,
+    http,
+    dir,
+    remote: GIT_REMOTE,
+    ref: branch,
+    corsProxy: CORS_PROXY,
+    onAuth: onGitAuth,
+    onAuthSuccess: onGitAuthSuccess,
+  });
+
+  if (!result.ok) {
+    throw new Error(result.error ?? 'The remote rejected the push');
+  }
+}
@@ -0,0 +1,67 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useRef } from 'react';
+import { fromActionAlert } from '~/lib/runtime/auto-fix';
+import { autoFixLoop } from '~/lib/stores/auto-fix';
+import { autoFixStore } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+
+interface UseAutoFixOptions {
+  isLoading: boolean;
+  sendMessage: (message: string) => Promise<boolean>;
+}
+
+// the dev server keeps running, its start action never completes
+function hasRunningActions() {
+  return Object.values(workbenchStore.artifacts.get()).some((artifact) =>
+    Object.values(artifact.runner.actions.get()).some(
+      (action) => action.type !== 'start' && (action.status === 'pending' || action.status === 'running'),
+    ),
+  );
+}
+
+/**
+ * Runs the auto-fix loop for the chat while it is enabled in the settings
+ */
+export function useAutoFix({ isLoading, sendMessage }: UseAutoFixOptions) {
+  const enabled = useStore(autoFixStore);
+  const isLoadingRef = useRef(isLoading);
+  const sendMessageRef = useRef(sendMessage);
+
+  isLoadingRef.current = isLoading;
+  sendMessageRef.current = sendMessage;
+
+  useEffect(() => {
+    if (!enabled) {
+      return undefined;
+    }
+
+    const detach = autoFixLoop.attach({
+      send: (message) => {
+        // the loop takes over the error the alert offers to fix
+        workbenchStore.clearAlert();
+
+        return sendMessageRef.current(message);
+      },
+      isBusy: () => isLoadingRef.current || hasRunningActions(),
+    });
+
+    const unlisten = workbenchStore.alert.listen((alert) => {
+      const error = alert ? fromActionAlert(alert) : undefined;
+
+      if (error) {
+        autoFixLoop.report(error);
+      }
+    });
+
+    return () => {
+      unlisten();
+      detach();
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      autoFixLoop.responseFinished();
+    }
+  }, [isLoading]);
+}
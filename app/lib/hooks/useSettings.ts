@@ -7,6 +7,10 @@ import {
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  fallbackChainStore,
+  indexContextSelectionStore,
+  reviewModeStore,
+  autoFixStore,
   tabConfigurationStore,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
@@ -15,10 +19,14 @@ import {
   updateContextOptimization,
   updateEventLogs,
   updatePromptId,
+  updateFallbackChain,
+  updateIndexContextSelection,
+  updateReviewMode,
+  updateAutoFix,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
-import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
+import type { IProviderSetting, ProviderInfo, IProviderConfig, FallbackModel } from '~/types/model';
 import type { TabWindowConfig } from '~/components/@settings/core/types';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
@@ -58,6 +66,14 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  fallbackChain: FallbackModel[];
+  setFallbackChain: (chain: FallbackModel[]) => void;
+  indexContextSelection: boolean;
+  enableIndexContextSelection: (enabled: boolean) => void;
+  reviewMode: boolean;
+  enableReviewMode: (enabled: boolean) => void;
+  autoFix: boolean;
+  enableAutoFix: (enabled: boolean) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -78,6 +94,10 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const fallbackChain = useStore(fallbackChainStore);
+  const indexContextSelection = useStore(indexContextSelectionStore);
+  const reviewMode = useStore(reviewModeStore);
+  const autoFix = useStore(autoFixStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -143,6 +163,26 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const setFallbackChain = useCallback((chain: FallbackModel[]) => {
+    updateFallbackChain(chain);
+    logStore.logSystem('Fallback chain updated', { chain });
+  }, []);
+
+  const enableIndexContextSelection = useCallback((enabled: boolean) => {
+    updateIndexContextSelection(enabled);
+    logStore.logSystem(`Index context selection ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const enableReviewMode = useCallback((enabled: boolean) => {
+    updateReviewMode(enabled);
+    logStore.logSystem(`Review mode ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const enableAutoFix = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -197,6 +237,14 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    fallbackChain,
+    setFallbackChain,
+    indexContextSelection,
+    enableIndexContextSelection,
+    reviewMode,
+    enableReviewMode,
+    autoFix,
+    enableAutoFix,
     setTheme,
     setLanguage,
     setNotifications,
@@ -0,0 +1,63 @@
+import type { Message } from 'ai';
+import { useEffect, useRef } from 'react';
+import { getResponseArtifact, parseTaskPlan, PLAN_TAG_OPEN } from '~/lib/runtime/task-plan';
+import { getEditedTaskIds, taskPlanRunner } from '~/lib/stores/task-plan';
+import type { PlanStepAnnotation } from '~/types/context';
+import type { PlanStepRequest } from '~/types/task-plan';
+
+interface UseTaskPlanOptions {
+  messages: Message[];
+  isLoading: boolean;
+  sendMessage: (message: string, planStep: PlanStepRequest) => void;
+}
+
+function getPlanStep(message: Message) {
+  return message.annotations?.find(
+    (annotation): annotation is PlanStepAnnotation =>
+      !!annotation && typeof annotation === 'object' && (annotation as PlanStepAnnotation).type === 'planStep',
+  );
+}
+
+/**
+ * Loads the plans proposed in the chat, links the responses of their steps and executes a plan the user started
+ */
+export function useTaskPlan({ messages, isLoading, sendMessage }: UseTaskPlanOptions) {
+  const sendMessageRef = useRef(sendMessage);
+  const wasLoadingRef = useRef(isLoading);
+
+  sendMessageRef.current = sendMessage;
+
+  useEffect(() => taskPlanRunner.attach({ send: (message, step) => sendMessageRef.current(message, step) }), []);
+
+  useEffect(() => {
+    messages.forEach((message, index) => {
+      if (message.role !== 'assistant') {
+        return;
+      }
+
+      if (message.content.includes(PLAN_TAG_OPEN)) {
+        const plan = parseTaskPlan(message.content);
+
+        if (plan) {
+          taskPlanRunner.load(message.id, plan, getEditedTaskIds(message.id));
+        }
+      }
+
+      const planStep = getPlanStep(message);
+
+      // a step counts as answered once its response is complete
+      if (planStep && !(isLoading && index === messages.length - 1)) {
+        taskPlanRunner.stepAnswered(planStep.planMessageId, planStep.taskId, {
+          messageId: message.id,
+          artifact: getResponseArtifact(message.content),
+        });
+      }
+    });
+
+    if (wasLoadingRef.current && !isLoading) {
+      taskPlanRunner.responseFinished();
+    }
+
+    wasLoadingRef.current = isLoading;
+  }, [messages, isLoading]);
+}
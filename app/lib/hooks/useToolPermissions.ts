@@ -0,0 +1,90 @@
+import type { Message } from 'ai';
+import { useEffect, useRef } from 'react';
+import { isWorkbenchTool } from '~/lib/common/workbench-tools';
+import { describeRule, evaluateToolPermission } from '~/lib/mcp/permissions';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { recordToolDecision, recordToolResult } from '~/lib/stores/mcpAudit';
+import type { ToolCallAnnotation } from '~/types/context';
+import { TOOL_EXECUTION_APPROVAL } from '~/utils/constants';
+
+interface UseToolPermissionsOptions {
+  messages: Message[];
+  isLoading: boolean;
+  addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
+}
+
+/**
+ * Answers the tool calls the permission policy allows or denies, leaving the rest to the approval UI, and completes
+ * the audit log with the results the server sends back
+ */
+export function useToolPermissions({ messages, isLoading, addToolResult }: UseToolPermissionsOptions) {
+  const permissions = useMCPStore((state) => state.settings.permissions);
+  const sessionAllowedTools = useMCPStore((state) => state.sessionAllowedTools);
+  const handledToolCalls = useRef(new Set<string>());
+
+  useEffect(() => {
+    const lastMessage = messages[messages.length - 1];
+
+    if (lastMessage?.role !== 'assistant' || !lastMessage.parts) {
+      return;
+    }
+
+    const annotations = (lastMessage.annotations ?? []).filter(
+      (annotation) =>
+        !!annotation && typeof annotation === 'object' && (annotation as ToolCallAnnotation).type === 'toolCall',
+    ) as ToolCallAnnotation[];
+
+    for (const part of lastMessage.parts) {
+      if (part.type !== 'tool-invocation') {
+        continue;
+      }
+
+      const { toolInvocation } = part;
+
+      if (toolInvocation.state === 'result') {
+        recordToolResult(toolInvocation.toolCallId, toolInvocation.result);
+        continue;
+      }
+
+      // results can only be added once the response has finished streaming, workbench tools are answered by the chat
+      if (
+        isLoading ||
+        toolInvocation.state !== 'call' ||
+        isWorkbenchTool(toolInvocation.toolName) ||
+        handledToolCalls.current.has(toolInvocation.toolCallId)
+      ) {
+        continue;
+      }
+
+      const annotation = annotations.find(({ toolCallId }) => toolCallId === toolInvocation.toolCallId);
+
+      if (!annotation) {
+        continue;
+      }
+
+      const call = {
+        toolCallId: toolInvocation.toolCallId,
+        serverName: annotation.serverName,
+        toolName: toolInvocation.toolName,
+        args: toolInvocation.args,
+      };
+      const decision = evaluateToolPermission(permissions, call, sessionAllowedTools);
+
+      if (decision.permission === 'ask') {
+        continue;
+      }
+
+      const reason = decision.rule ? describeRule(decision.rule) : `${decision.source} ${decision.permission}`;
+
+      handledToolCalls.current.add(call.toolCallId);
+
+      if (decision.permission === 'allow') {
+        recordToolDecision(call, 'auto-approved', reason);
+        addToolResult({ toolCallId: call.toolCallId, result: TOOL_EXECUTION_APPROVAL.APPROVE });
+      } else {
+        recordToolDecision(call, 'auto-denied', reason);
+        addToolResult({ toolCallId: call.toolCallId, result: TOOL_EXECUTION_APPROVAL.REJECT });
+      }
+    }
+  }, [messages, isLoading, permissions, sessionAllowedTools]);
+}
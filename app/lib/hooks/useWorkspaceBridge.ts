@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import { useNetlifyDeploy } from '~/components/deploy/NetlifyDeploy.client';
+import { useVercelDeploy } from '~/components/deploy/VercelDeploy.client';
+import { applyArtifact, createChat, listChats, readProjectFiles } from '~/lib/runtime/workspace-bridge';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { WorkspaceBridgeMethods, WorkspaceBridgeRequest } from '~/types/mcp-server';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('WorkspaceBridge');
+
+// the server answers a poll after 25 seconds without requests, failures back off before polling again
+const RETRY_DELAY = 5_000;
+
+/**
+ * Answers the requests the app's MCP server relays while "Accept requests from MCP clients" is enabled
+ */
+export function useWorkspaceBridge() {
+  const enabled = useMCPStore((state) => state.settings.acceptMCPRequests);
+  const serverToken = useMCPStore((state) => state.settings.mcpServerToken);
+  const { handleNetlifyDeploy } = useNetlifyDeploy();
+  const { handleVercelDeploy } = useVercelDeploy();
+
+  // the deploy handlers change with the connections, the poll loop reads the current ones
+  const deployRef = useRef({ netlify: handleNetlifyDeploy, vercel: handleVercelDeploy });
+  deployRef.current = { netlify: handleNetlifyDeploy, vercel: handleVercelDeploy };
+
+  useEffect(() => {
+    if (!enabled || !serverToken) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+
+    // issued by the server when the tab pairs, polls and answers are only accepted with it
+    let secret: string | undefined;
+
+    const register = async () => {
+      const response = await fetch('/api/mcp-bridge/register', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${serverToken}` },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Pairing with the MCP server failed with ${response.status}: ${response.statusText}`);
+      }
+
+      secret = ((await response.json()) as { secret: string }).secret;
+    };
+
+    const deploy = async ({ target }: WorkspaceBridgeMethods['deploy']['params']) => {
+      workbenchStore.clearDeployAlert();
+
+      // the deploy hooks report failures with a toast and return false
+      if (!(await deployRef.current[target]())) {
+        throw new Error(`Deploying to ${target} failed, the app shows the reason`);
+      }
+
+      return { url: workbenchStore.deployAlert.get()?.url };
+    };
+
+    const run = (request: WorkspaceBridgeRequest): Promise<unknown> => {
+      switch (request.method) {
+        case 'listChats':
+          return listChats(request.params);
+        case 'readProjectFiles':
+          return readProjectFiles(request.params);
+        case 'applyArtifact':
+          return applyArtifact(request.params);
+        case 'createChat':
+          return createChat(request.params);
+        case 'deploy':
+          return deploy(request.params);
+        default:
+          return Promise.reject(new Error(`Unknown request ${(request as WorkspaceBridgeRequest).method}`));
+      }
+    };
+
+    const handle = async (request: WorkspaceBridgeRequest) => {
+      logger.debug(`handling ${request.method} (${request.id})`);
+
+      let answer;
+
+      try {
+        answer = { id: request.id, result: await run(request) };
+      } catch (error) {
+        answer = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      await fetch('/api/mcp-bridge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+        body: JSON.stringify(answer),
+      });
+
+      // the new chat opens once the client knows about it
+      if (request.method === 'createChat' && 'result' in answer) {
+        window.location.href = (answer.result as WorkspaceBridgeMethods['createChat']['result']).url;
+      }
+    };
+
+    const poll = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          if (!secret) {
+            await register();
+          }
+
+          const response = await fetch('/api/mcp-bridge', {
+            headers: { Authorization: `Bearer ${secret}` },
+            signal: controller.signal,
+          });
+
+          // the server restarted or forgot the tab, pair again
+          if (response.status === 401) {
+            secret = undefined;
+            continue;
+          }
+
+          if (!response.ok) {
+            throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+          }
+
+          // requests are handled side by side, a deploy must not keep the others waiting
+          const requests = (await response.json()) as WorkspaceBridgeRequest[];
+
+          requests.forEach((request) => {
+            handle(request).catch((error) => logger.error(`Failed to answer ${request.method}`, error));
+          });
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          logger.error('Failed to poll for MCP requests', error);
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+        }
+      }
+    };
+
+    poll();
+
+    return () => controller.abort();
+  }, [enabled, serverToken]);
+}
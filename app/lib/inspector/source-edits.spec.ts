@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { ElementEditError, applyElementEdits, locateJsxElement, resolveSourceFilePath } from './source-edits';
+
+const APP = `export function App() {
+  return (
+    <main>
+      <h1 className="title">Hello</h1>
+      <button style={{ color: 'red' }} onClick={() => {}}>
+        Save
+      </button>
+      <p className={cn('a', active && 'b')}>{message}</p>
+    </main>
+  );
+}
+`;
+
+const source = (line: number, column: number) => ({ filePath: '/home/project/src/App.tsx', line, column });
+
+describe('locateJsxElement', () => {
+  it('finds the element starting at the location', () => {
+    const location = locateJsxElement(APP, source(5, 7));
+
+    expect(location).toMatchObject({ tagName: 'button', startLine: 5, endLine: 7 });
+  });
+
+  it('finds nothing outside of a tag on the line', () => {
+    expect(locateJsxElement(APP, source(4, 30))).toBeUndefined();
+    expect(locateJsxElement(APP, source(40, 1))).toBeUndefined();
+  });
+});
+
+describe('applyElementEdits', () => {
+  it('replaces the text and the class names', () => {
+    const result = applyElementEdits(APP, source(4, 7), { text: 'Welcome', className: 'title large' });
+
+    expect(result).toContain('<h1 className="title large">Welcome</h1>');
+  });
+
+  it('merges inline styles into the style object', () => {
+    const result = applyElementEdits(APP, source(5, 7), {
+      style: { color: '', 'font-size': '14px' },
+      className: 'btn',
+    });
+
+    expect(result).toContain(`<button className="btn" style={{ fontSize: "14px" }} onClick={() => {}}>`);
+    expect(result).toContain('        Save\n');
+  });
+
+  it('refuses a location that is not on a tag instead of editing another element', () => {
+    expect(() => applyElementEdits(APP, source(4, 30), { text: 'Hi' })).toThrow(ElementEditError);
+  });
+
+  it('refuses computed class names and text', () => {
+    expect(() => applyElementEdits(APP, source(8, 7), { className: 'c' })).toThrow(ElementEditError);
+    expect(() => applyElementEdits(APP, source(8, 7), { text: 'Hi' })).toThrow(ElementEditError);
+  });
+});
+
+describe('resolveSourceFilePath', () => {
+  const files: FileMap = {
+    '/home/project/src': { type: 'folder' },
+    '/home/project/src/App.tsx': { type: 'file', content: APP, isBinary: false },
+  };
+
+  it('matches absolute, root relative and foreign paths', () => {
+    expect(resolveSourceFilePath('/home/project/src/App.tsx', files)).toBe('/home/project/src/App.tsx');
+    expect(resolveSourceFilePath('/src/App.tsx?t=123', files)).toBe('/home/project/src/App.tsx');
+    expect(resolveSourceFilePath('/Users/me/app/src/App.tsx', files)).toBe('/home/project/src/App.tsx');
+    expect(resolveSourceFilePath('/Users/me/app/src/Other.tsx', files)).toBeUndefined();
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Maps an element selected in the preview back to the JSX that renders it and edits that JSX in place
+ */
+
+import ts from 'typescript';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+
+/**
+ * Where the preview says an element comes from: the `_debugSource` of React dev builds before React 19, or its
+ * `_debugStack` mapped back through the module's source map, see `source-map.ts`. Lines and columns are 1-based.
+ */
+export interface ElementSource {
+  filePath: string;
+  line: number;
+  column: number;
+}
+
+export interface JsxElementLocation {
+  tagName: string;
+
+  // offsets of the whole element in the file
+  start: number;
+  end: number;
+
+  // 1-based lines of the element
+  startLine: number;
+  endLine: number;
+}
+
+export interface ElementEdits {
+  text?: string;
+  className?: string;
+
+  /** inline styles by CSS property name, an empty value removes the property */
+  style?: Record<string, string>;
+}
+
+export class ElementEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ElementEditError';
+    Object.setPrototypeOf(this, ElementEditError.prototype);
+  }
+}
+
+type JsxTag = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+
+interface TextChange {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function parse(content: string, filePath: string) {
+  const scriptKind = /\.(jsx|js|mjs)$/.test(filePath) ? ts.ScriptKind.JSX : ts.ScriptKind.TSX;
+
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+/**
+ * Project file a source location points to. Dev servers report absolute paths of the machine they run on,
+ * root relative URLs or project relative paths, the file is matched by its longest known suffix.
+ */
+export function resolveSourceFilePath(sourcePath: string, files: FileMap): string | undefined {
+  const cleanPath = sourcePath.replace(/[?#].*$/, '').replace(/\\/g, '/');
+  const candidates = [cleanPath, `${WORK_DIR}/${cleanPath.replace(/^\/+/, '')}`];
+
+  for (const candidate of candidates) {
+    if (files[candidate]?.type === 'file') {
+      return candidate;
+    }
+  }
+
+  let best: string | undefined;
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file') {
+      continue;
+    }
+
+    const relativePath = filePath.slice(WORK_DIR.length);
+
+    if (cleanPath.endsWith(relativePath) && (!best || filePath.length > best.length)) {
+      best = filePath;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The tag the location points into. Another tag on the same line is never taken instead, editing it would change the
+ * wrong element.
+ */
+function findTag(sourceFile: ts.SourceFile, line: number, column: number): JsxTag | undefined {
+  let position: number;
+
+  try {
+    position = sourceFile.getPositionOfLineAndCharacter(line - 1, Math.max(column - 1, 0));
+  } catch {
+    // the file changed since the preview was built and is shorter now
+    return undefined;
+  }
+
+  let found: JsxTag | undefined;
+
+  const visit = (node: ts.Node) => {
+    // the location points at the `<` of the tag, some transforms point at the tag name or into its attributes
+    if (
+      (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+      node.getStart(sourceFile) <= position &&
+      position < node.getEnd()
+    ) {
+      // tags in attribute expressions lie inside the tag that holds them, the innermost one is meant
+      found = node;
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  return found;
+}
+
+function getElement(tag: JsxTag): ts.JsxElement | ts.JsxSelfClosingElement {
+  return ts.isJsxOpeningElement(tag) ? tag.parent : tag;
+}
+
+/**
+ * The JSX element that renders the selected element
+ */
+export function locateJsxElement(content: string, source: ElementSource): JsxElementLocation | undefined {
+  const sourceFile = parse(content, source.filePath);
+  const tag = findTag(sourceFile, source.line, source.column);
+
+  if (!tag) {
+    return undefined;
+  }
+
+  const element = getElement(tag);
+  const start = element.getStart(sourceFile);
+  const end = element.getEnd();
+
+  return {
+    tagName: tag.tagName.getText(sourceFile),
+    start,
+    end,
+    startLine: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+    endLine: sourceFile.getLineAndCharacterOfPosition(end).line + 1,
+  };
+}
+
+function findAttribute(tag: JsxTag, names: string[]) {
+  return tag.attributes.properties.find(
+    (property): property is ts.JsxAttribute => ts.isJsxAttribute(property) && names.includes(property.name.getText()),
+  );
+}
+
+function toCamelCase(property: string) {
+  return property.startsWith('--')
+    ? property
+    : property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function formatStyleProperty(name: string, value: string) {
+  const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+  return `${key}: ${JSON.stringify(value)}`;
+}
+
+function classNameChange(tag: JsxTag, sourceFile: ts.SourceFile, className: string): TextChange {
+  const attribute = findAttribute(tag, ['className', 'class']);
+  const value = JSON.stringify(className);
+
+  if (!attribute) {
+    const position = tag.tagName.getEnd();
+    return { start: position, end: position, text: ` className=${value}` };
+  }
+
+  const initializer = attribute.initializer;
+
+  if (initializer && ts.isStringLiteral(initializer)) {
+    return { start: initializer.getStart(sourceFile), end: initializer.getEnd(), text: value };
+  }
+
+  const expression = initializer && ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+
+  if (expression && (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression))) {
+    return { start: expression.getStart(sourceFile), end: expression.getEnd(), text: value };
+  }
+
+  throw new ElementEditError('The class names of this element are computed, edit them in the code or ask the chat');
+}
+
+function textChange(tag: JsxTag, sourceFile: ts.SourceFile, text: string): TextChange {
+  if (!ts.isJsxOpeningElement(tag)) {
+    throw new ElementEditError('This element has no text content in the code');
+  }
+
+  const children = tag.parent.children.filter((child) => !ts.isJsxText(child) || !child.containsOnlyTriviaWhiteSpaces);
+
+  if (children.length !== 1 || !ts.isJsxText(children[0])) {
+    throw new ElementEditError('The text of this element is computed or mixed with other elements');
+  }
+
+  const child = children[0];
+  const raw = child.getFullText(sourceFile);
+  const leading = raw.match(/^\s*/)?.[0] ?? '';
+  const trailing = raw.match(/\s*$/)?.[0] ?? '';
+
+  // characters with a meaning in JSX go through a string expression
+  const value = /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+
+  return { start: child.getFullStart() + leading.length, end: child.getEnd() - trailing.length, text: value };
+}
+
+function styleChange(tag: JsxTag, sourceFile: ts.SourceFile, style: Record<string, string>): TextChange | undefined {
+  const edits = new Map(Object.entries(style).map(([property, value]) => [toCamelCase(property), value]));
+  const attribute = findAttribute(tag, ['style']);
+
+  if (!attribute) {
+    const properties = [...edits].filter(([, value]) => value !== '');
+
+    if (properties.length === 0) {
+      return undefined;
+    }
+
+    const position = tag.tagName.getEnd();
+    const object = properties.map(([name, value]) => formatStyleProperty(name, value)).join(', ');
+
+    return { start: position, end: position, text: ` style={{ ${object} }}` };
+  }
+
+  const initializer = attribute.initializer;
+  const object =
+    initializer && ts.isJsxExpression(initializer) && initializer.expression ? initializer.expression : undefined;
+
+  if (!object || !ts.isObjectLiteralExpression(object)) {
+    throw new ElementEditError('The inline style of this element is computed, edit it in the code or ask the chat');
+  }
+
+  const properties: string[] = [];
+
+  for (const property of object.properties) {
+    const name =
+      ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+        ? property.name.text
+        : undefined;
+
+    if (name === undefined || !edits.has(name)) {
+      properties.push(property.getText(sourceFile));
+      continue;
+    }
+
+    const value = edits.get(name)!;
+    edits.delete(name);
+
+    if (value !== '') {
+      properties.push(formatStyleProperty(name, value));
+    }
+  }
+
+  for (const [name, value] of edits) {
+    if (value !== '') {
+      properties.push(formatStyleProperty(name, value));
+    }
+  }
+
+  return {
+    start: object.getStart(sourceFile),
+    end: object.getEnd(),
+    text: properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}',
+  };
+}
+
+/**
+ * Applies the edits made in the inspector to the JSX of the element.
+ * Throws an `ElementEditError` when the element or the edited part cannot be changed safely.
+ */
+export function applyElementEdits(content: string, source: ElementSource, edits: ElementEdits): string {
+  const sourceFile = parse(content, source.filePath);
+  const tag = findTag(sourceFile, source.line, source.column);
+
+  if (!tag) {
+    throw new ElementEditError(`No JSX element found at ${source.filePath}:${source.line}:${source.column}`);
+  }
+
+  const changes: TextChange[] = [];
+
+  if (edits.text !== undefined) {
+    changes.push(textChange(tag, sourceFile, edits.text));
+  }
+
+  if (edits.className !== undefined) {
+    changes.push(classNameChange(tag, sourceFile, edits.className));
+  }
+
+  if (edits.style) {
+    const change = styleChange(tag, sourceFile, edits.style);
+
+    if (change) {
+      changes.push(change);
+    }
+  }
+
+  // applied from the end so the offsets of the remaining changes stay valid, insertions keep their order
+  return changes
+    .map((change, index) => ({ ...change, index }))
+    .sort((a, b) => b.start - a.start || b.index - a.index)
+    .reduce((result, change) => result.slice(0, change.start) + change.text + result.slice(change.end), content);
+}
+
+/**
+ * Source of the element with its location, sent to the chat as focused context
+ */
+export function getElementSnippet(content: string, location: JsxElementLocation) {
+  const lines = content.split('\n').slice(location.startLine - 1, location.endLine);
+
+  return lines.join('\n');
+}
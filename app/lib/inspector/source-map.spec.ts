@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { originalPositionFor, resolveGeneratedSource, type RawSourceMap } from './source-map';
+
+// line 1 maps to 1:1 of App.tsx, line 2 to 2:1 and from column 5 on to 2:5
+const map: RawSourceMap = {
+  version: 3,
+  sources: ['App.tsx'],
+  mappings: 'AAAA;AACA,IAAI',
+};
+
+describe('originalPositionFor', () => {
+  it('maps to the closest segment at or before the column', () => {
+    expect(originalPositionFor(map, 1, 1)).toEqual({ source: 'App.tsx', line: 1, column: 1 });
+    expect(originalPositionFor(map, 2, 3)).toEqual({ source: 'App.tsx', line: 2, column: 1 });
+    expect(originalPositionFor(map, 2, 9)).toEqual({ source: 'App.tsx', line: 2, column: 5 });
+  });
+
+  it('returns undefined for unmapped lines', () => {
+    expect(originalPositionFor(map, 3, 1)).toBeUndefined();
+  });
+});
+
+describe('resolveGeneratedSource', () => {
+  it('resolves the source against the module url', () => {
+    const source = resolveGeneratedSource({ url: 'http://localhost:5173/src/App.tsx?t=1', line: 2, column: 6, map });
+
+    expect(source).toEqual({ filePath: '/src/App.tsx', line: 2, column: 5 });
+  });
+
+  it('keeps absolute source paths', () => {
+    const source = resolveGeneratedSource({
+      url: 'http://localhost:5173/src/App.tsx',
+      line: 1,
+      column: 1,
+      map: { ...map, sources: ['/home/project/src/App.tsx'] },
+    });
+
+    expect(source?.filePath).toBe('/home/project/src/App.tsx');
+  });
+});
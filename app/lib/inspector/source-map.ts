@@ -0,0 +1,118 @@
+/**
+ * Maps a position in a module the dev server transformed back to the file it was written in
+ */
+
+import type { ElementSource } from './source-edits';
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+/**
+ * Where the JSX call of an element runs in the transformed module, with the module's source map. Sent by the preview
+ * when the React dev build has no `_debugSource`, lines and columns are 1-based like in stack traces.
+ */
+export interface GeneratedSource {
+  url: string;
+  line: number;
+  column: number;
+  map: RawSourceMap;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeSegment(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const character of segment) {
+    const digit = BASE64.indexOf(character);
+
+    if (digit === -1) {
+      throw new Error(`Invalid source map mapping "${segment}"`);
+    }
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+/**
+ * The original position of a 1-based generated line and column: the closest mapped position at or before it on the
+ * same line, undefined when nothing on the line comes from a source
+ */
+export function originalPositionFor(
+  map: RawSourceMap,
+  line: number,
+  column: number,
+): { source: string; line: number; column: number } | undefined {
+  const lines = map.mappings.split(';');
+
+  // source, line and column are relative to the previous segment of the whole map, generated columns per line
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let found: { source: number; line: number; column: number } | undefined;
+
+  for (let index = 0; index < lines.length && index < line; index++) {
+    let generatedColumn = 0;
+
+    for (const segment of lines[index].split(',')) {
+      if (!segment) {
+        continue;
+      }
+
+      const values = decodeSegment(segment);
+      generatedColumn += values[0];
+
+      if (values.length < 4) {
+        continue;
+      }
+
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+
+      if (index === line - 1 && generatedColumn <= column - 1) {
+        found = { source: sourceIndex, line: sourceLine, column: sourceColumn };
+      }
+    }
+  }
+
+  if (!found || map.sources[found.source] === undefined) {
+    return undefined;
+  }
+
+  return { source: map.sources[found.source], line: found.line + 1, column: found.column + 1 };
+}
+
+/**
+ * Where the element was written, the source path is resolved against the module URL like the browser does
+ */
+export function resolveGeneratedSource(generated: GeneratedSource): ElementSource | undefined {
+  const position = originalPositionFor(generated.map, generated.line, generated.column);
+
+  if (!position) {
+    return undefined;
+  }
+
+  const root = generated.map.sourceRoot ? generated.map.sourceRoot.replace(/\/?$/, '/') : '';
+  const url = new URL(`${root}${position.source}`, generated.url);
+
+  // either the path on the dev server or an absolute file path, `resolveSourceFilePath` matches both
+  return { filePath: decodeURIComponent(url.pathname), line: position.line, column: position.column };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultPermissionPolicy,
+  describeRule,
+  evaluateToolPermission,
+  globToRegExp,
+  normalizeArgumentPath,
+  type MCPPermissionPolicy,
+} from './permissions';
+
+const policy: MCPPermissionPolicy = {
+  defaultPermission: 'ask',
+  rules: [
+    {
+      server: 'filesystem',
+      tool: 'read_file',
+      permission: 'allow',
+      conditions: [{ argument: 'path', pattern: '/workspace/**' }],
+    },
+    { server: 'filesystem', tool: 'delete_file', permission: 'deny' },
+    { server: 'search', tool: '*', permission: 'allow' },
+  ],
+};
+
+const call = (serverName: string, toolName: string, args: Record<string, unknown> = {}) => ({
+  serverName,
+  toolName,
+  args,
+});
+
+describe('globToRegExp', () => {
+  it('keeps single stars within a path segment', () => {
+    expect(globToRegExp('/src/*.ts').test('/src/app.ts')).toBe(true);
+    expect(globToRegExp('/src/*.ts').test('/src/lib/app.ts')).toBe(false);
+    expect(globToRegExp('/src/**').test('/src/lib/app.ts')).toBe(true);
+  });
+});
+
+describe('evaluateToolPermission', () => {
+  it('applies argument patterns', () => {
+    expect(evaluateToolPermission(policy, call('filesystem', 'read_file', { path: '/workspace/a.txt' }))).toMatchObject(
+      {
+        permission: 'allow',
+        source: 'rule',
+      },
+    );
+    expect(evaluateToolPermission(policy, call('filesystem', 'read_file', { path: '/etc/passwd' }))).toEqual({
+      permission: 'ask',
+      source: 'default',
+    });
+  });
+
+  it('does not let paths escape the allowed directory', () => {
+    const decision = evaluateToolPermission(
+      policy,
+      call('filesystem', 'read_file', { path: '/workspace/../etc/passwd' }),
+    );
+
+    expect(decision.permission).toBe('ask');
+  });
+
+  it('normalizes paths before matching deny rules', () => {
+    const denySsh: MCPPermissionPolicy = {
+      defaultPermission: 'allow',
+      rules: [
+        {
+          server: 'filesystem',
+          tool: 'read_file',
+          permission: 'deny',
+          conditions: [{ argument: 'path', pattern: '/home/me/.ssh/**' }],
+        },
+      ],
+    };
+    const read = (path: unknown) => evaluateToolPermission(denySsh, call('filesystem', 'read_file', { path }));
+
+    expect(read('/home/me/x/../.ssh/id_rsa').permission).toBe('deny');
+    expect(read('/home/me//.ssh/id_rsa').permission).toBe('deny');
+    expect(read('\\home\\me\\.ssh\\id_rsa').permission).toBe('deny');
+    expect(read('../../home/me/.ssh/id_rsa').permission).toBe('deny');
+    expect(read(['/home/me/.ssh/id_rsa']).permission).toBe('deny');
+    expect(read('/home/me/notes.txt').permission).toBe('allow');
+  });
+
+  it('lets deny rules win over session approvals', () => {
+    const session = ['filesystem/delete_file', 'filesystem/write_file'];
+
+    expect(evaluateToolPermission(policy, call('filesystem', 'delete_file'), session).permission).toBe('deny');
+    expect(evaluateToolPermission(policy, call('filesystem', 'write_file'), session)).toEqual({
+      permission: 'allow',
+      source: 'session',
+    });
+  });
+
+  it('lets the default policy run read-only workbench tools and ask for commands', () => {
+    expect(
+      evaluateToolPermission(defaultPermissionPolicy, call('workbench', 'workbench_read_file', { path: 'a.ts' }))
+        .permission,
+    ).toBe('allow');
+    expect(
+      evaluateToolPermission(defaultPermissionPolicy, call('workbench', 'workbench_run_command', { command: 'ls' }))
+        .permission,
+    ).toBe('ask');
+  });
+
+  it('matches every tool of a server', () => {
+    expect(evaluateToolPermission(policy, call('search', 'query')).permission).toBe('allow');
+  });
+});
+
+describe('normalizeArgumentPath', () => {
+  it('resolves dot segments and repeated separators', () => {
+    expect(normalizeArgumentPath('/a//b/./c/../d/')).toBe('/a/b/d/');
+    expect(normalizeArgumentPath('src\\lib\\..\\app.ts')).toBe('src/app.ts');
+    expect(normalizeArgumentPath('https://example.com//api/../v1')).toBe('https://example.com/v1');
+    expect(normalizeArgumentPath('/a/../../etc')).toBeUndefined();
+  });
+});
+
+describe('describeRule', () => {
+  it('reads like a sentence', () => {
+    expect(describeRule(policy.rules[0])).toBe('allow filesystem / read_file when path matches /workspace/**');
+  });
+});
@@ -0,0 +1,181 @@
+import { WORKBENCH_SERVER_NAME, WORKBENCH_TOOL_NAMES } from '~/lib/common/workbench-tools';
+
+export type ToolPermission = 'allow' | 'deny' | 'ask';
+
+/**
+ * Matches when the argument is a string matching the glob, `*` stays within a path segment and `**` crosses them
+ */
+export interface ToolArgumentCondition {
+  /** name of the argument, nested arguments are separated with dots */
+  argument: string;
+  pattern: string;
+}
+
+export interface ToolPermissionRule {
+  /** `*` matches every server */
+  server: string;
+
+  /** `*` matches every tool of the server */
+  tool: string;
+  permission: ToolPermission;
+
+  /** all of them have to match for the rule to apply */
+  conditions?: ToolArgumentCondition[];
+}
+
+export interface MCPPermissionPolicy {
+  defaultPermission: ToolPermission;
+  rules: ToolPermissionRule[];
+}
+
+export interface ToolCallDescription {
+  serverName: string;
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolPermissionDecision {
+  permission: ToolPermission;
+  source: 'rule' | 'session' | 'default';
+  rule?: ToolPermissionRule;
+}
+
+// the workbench tools that only read the project run without asking, running commands asks like every MCP tool
+const readOnlyWorkbenchTools = [
+  WORKBENCH_TOOL_NAMES.READ_FILE,
+  WORKBENCH_TOOL_NAMES.LIST_DIRECTORY,
+  WORKBENCH_TOOL_NAMES.SEARCH_FILES,
+  WORKBENCH_TOOL_NAMES.READ_PREVIEW_CONSOLE,
+];
+
+export const defaultPermissionPolicy: MCPPermissionPolicy = {
+  defaultPermission: 'ask',
+  rules: readOnlyWorkbenchTools.map((tool) => ({ server: WORKBENCH_SERVER_NAME, tool, permission: 'allow' })),
+};
+
+export function getSessionToolKey(serverName: string, toolName: string) {
+  return `${serverName}/${toolName}`;
+}
+
+export function globToRegExp(glob: string) {
+  let source = '';
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+
+    if (char === '*' && glob[index + 1] === '*') {
+      source += '.*';
+      index++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function getArgument(args: Record<string, unknown>, name: string) {
+  return name.split('.').reduce<unknown>((value, key) => {
+    return value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }, args);
+}
+
+/**
+ * Resolves `.` and `..` segments and repeated or backslash separators, so `/a//b/../c` is matched as `/a/c`. A URL
+ * keeps its `scheme://`. Returns `undefined` when `..` climbs above the start of the value
+ */
+export function normalizeArgumentPath(value: string) {
+  const scheme = value.match(/^[a-z][a-z\d+.-]*:\/\//i)?.[0] ?? '';
+  const rest = value.slice(scheme.length).replace(/\\/g, '/');
+  const segments: string[] = [];
+
+  for (const segment of rest.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return undefined;
+      }
+
+      segments.pop();
+      continue;
+    }
+
+    segments.push(segment);
+  }
+
+  const leading = rest.startsWith('/') ? '/' : '';
+  const trailing = segments.length > 0 && rest.endsWith('/') ? '/' : '';
+
+  return `${scheme}${leading}${segments.join('/')}${trailing}`;
+}
+
+/**
+ * A value that is not a string or can't be normalized only fails allow rules, deny and ask rules still apply to it
+ */
+function matchesCondition(
+  args: Record<string, unknown>,
+  { argument, pattern }: ToolArgumentCondition,
+  permission: ToolPermission,
+) {
+  const value = getArgument(args, argument);
+
+  if (value === undefined) {
+    return false;
+  }
+
+  const normalized = typeof value === 'string' ? normalizeArgumentPath(value) : undefined;
+
+  if (normalized === undefined) {
+    return permission !== 'allow';
+  }
+
+  return globToRegExp(pattern).test(normalized);
+}
+
+export function matchesRule(rule: ToolPermissionRule, call: ToolCallDescription) {
+  return (
+    (rule.server === '*' || rule.server === call.serverName) &&
+    (rule.tool === '*' || rule.tool === call.toolName) &&
+    (rule.conditions ?? []).every((condition) => matchesCondition(call.args, condition, rule.permission))
+  );
+}
+
+/**
+ * Deny rules always win, then tools allowed for the session, then the first matching rule and the default last
+ */
+export function evaluateToolPermission(
+  policy: MCPPermissionPolicy,
+  call: ToolCallDescription,
+  sessionAllowedTools: readonly string[] = [],
+): ToolPermissionDecision {
+  const matching = policy.rules.filter((rule) => matchesRule(rule, call));
+  const deny = matching.find((rule) => rule.permission === 'deny');
+
+  if (deny) {
+    return { permission: 'deny', source: 'rule', rule: deny };
+  }
+
+  if (sessionAllowedTools.includes(getSessionToolKey(call.serverName, call.toolName))) {
+    return { permission: 'allow', source: 'session' };
+  }
+
+  if (matching[0]) {
+    return { permission: matching[0].permission, source: 'rule', rule: matching[0] };
+  }
+
+  return { permission: policy.defaultPermission, source: 'default' };
+}
+
+export function describeRule(rule: ToolPermissionRule) {
+  const target = `${rule.server === '*' ? 'any server' : rule.server} / ${rule.tool === '*' ? 'any tool' : rule.tool}`;
+  const conditions = (rule.conditions ?? []).map(({ argument, pattern }) => `${argument} matches ${pattern}`);
+
+  return `${rule.permission} ${target}${conditions.length ? ` when ${conditions.join(' and ')}` : ''}`;
+}
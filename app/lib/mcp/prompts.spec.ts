@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parsePromptCommand, type PromptCommand } from './prompts';
+
+const commands: PromptCommand[] = [
+  {
+    serverName: 'github',
+    prompt: { name: 'review', arguments: [{ name: 'pr', required: true }] },
+  },
+  {
+    serverName: 'docs',
+    prompt: {
+      name: 'summarize',
+      arguments: [
+        { name: 'topic', required: true },
+        { name: 'style', required: false },
+      ],
+    },
+  },
+];
+
+describe('parsePromptCommand', () => {
+  it('passes the rest of the input as the only argument', () => {
+    expect(parsePromptCommand('/review 42 please', commands)).toMatchObject({
+      serverName: 'github',
+      args: { pr: '42 please' },
+      missingArguments: [],
+    });
+  });
+
+  it('parses key=value pairs with quoted values', () => {
+    expect(parsePromptCommand('/summarize topic="state machines" style=short', commands)).toMatchObject({
+      serverName: 'docs',
+      args: { topic: 'state machines', style: 'short' },
+      missingArguments: [],
+    });
+  });
+
+  it('reports the required arguments left out', () => {
+    expect(parsePromptCommand('/summarize style=short', commands)?.missingArguments).toEqual(['topic']);
+  });
+
+  it('ignores input that is not a known prompt', () => {
+    expect(parsePromptCommand('/unknown', commands)).toBeUndefined();
+    expect(parsePromptCommand('review 42', commands)).toBeUndefined();
+  });
+});
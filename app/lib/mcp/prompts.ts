@@ -0,0 +1,62 @@
+import type { MCPPrompt, MCPServerTools } from '~/lib/services/mcpService';
+
+export interface PromptCommand {
+  serverName: string;
+  prompt: MCPPrompt;
+}
+
+export interface ParsedPromptCommand extends PromptCommand {
+  args: Record<string, string>;
+
+  /** required arguments the input left out */
+  missingArguments: string[];
+}
+
+/**
+ * Prompt templates of the available servers, offered as slash commands in the chat input
+ */
+export function listPromptCommands(serverTools: MCPServerTools): PromptCommand[] {
+  return Object.entries(serverTools).flatMap(([serverName, server]) =>
+    server.status === 'available' ? server.prompts.map((prompt) => ({ serverName, prompt })) : [],
+  );
+}
+
+/**
+ * Parses `/name arguments`. A prompt with a single argument takes the rest of the input as it, otherwise the arguments
+ * are passed as `key=value` or `key="quoted value"` pairs
+ */
+export function parsePromptCommand(input: string, commands: PromptCommand[]): ParsedPromptCommand | undefined {
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, name, rest = ''] = match;
+  const command = commands.find(({ prompt }) => prompt.name === name);
+
+  if (!command) {
+    return undefined;
+  }
+
+  const declared = command.prompt.arguments ?? [];
+  const args: Record<string, string> = {};
+
+  if (declared.length === 1) {
+    if (rest.trim()) {
+      args[declared[0].name] = rest.trim();
+    }
+  } else {
+    for (const [, key, quoted, plain] of rest.matchAll(/([\w-]+)=(?:"([^"]*)"|(\S+))/g)) {
+      if (declared.some((argument) => argument.name === key)) {
+        args[key] = quoted ?? plain;
+      }
+    }
+  }
+
+  return {
+    ...command,
+    args,
+    missingArguments: declared.filter((argument) => argument.required && !args[argument.name]).map(({ name }) => name),
+  };
+}
@@ -4,9 +4,29 @@ import { LLMManager } from '../llm/manager';
 import { getExecutionCache } from './execution-cache';
 import type { ExecutionOptions, ExecutionResult, AgentMetrics } from './types';
 import { createScopedLogger } from '~/utils/logger';
+import { calculateCost, getCachedPromptTokens, getModelPricing } from '~/lib/modules/llm/pricing';
+import { recordUsage } from '~/lib/stores/usage';
 
 const logger = createScopedLogger('AgentExecutionManager');
 
+/**
+ * Persist usage and cost of an agent execution to the usage ledger
+ */
+function recordAgentUsage(
+  agent: string,
+  model: string,
+  usage: { promptTokens: number; completionTokens: number; cachedPromptTokens: number; latencyMs: number },
+) {
+  recordUsage({
+    source: 'agent',
+    provider: agent,
+    model,
+    ...usage,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+    cost: calculateCost(getModelPricing(agent, model), usage),
+  });
+}
+
 export class AgentExecutionManager {
   private static _instance: AgentExecutionManager;
   private llmManager: LLMManager;
@@ -109,6 +129,13 @@ export class AgentExecutionManager {
             outputTokens: result.usage?.completionTokens,
           });
 
+          recordAgentUsage(agent, model, {
+            promptTokens: result.usage?.promptTokens || 0,
+            completionTokens: result.usage?.completionTokens || 0,
+            cachedPromptTokens: getCachedPromptTokens(result.providerMetadata),
+            latencyMs: Date.now() - startTime,
+          });
+
           return {
             success: true,
             data: result.text,
@@ -152,15 +179,7 @@ export class AgentExecutionManager {
    * Stream execution for real-time response
    */
   async *stream(options: ExecutionOptions) {
-    const {
-      agent,
-      model,
-      prompt,
-      messages = [],
-      system,
-      temperature = 0.7,
-      maxTokens,
-    } = options;
+    const { agent, model, prompt, messages = [], system, temperature = 0.7, maxTokens } = options;
 
     const startTime = Date.now();
 
@@ -175,7 +194,7 @@ export class AgentExecutionManager {
         serverEnv: {} as Env,
       });
 
-      const { stream: textStream, usage } = await streamText({
+      const { textStream, usage, providerMetadata } = streamText({
         model: modelInstance,
         prompt: prompt || undefined,
         messages: messages.length > 0 ? messages : undefined,
@@ -194,9 +213,20 @@ export class AgentExecutionManager {
         };
       }
 
+      const { promptTokens, completionTokens } = await usage;
+
       this.recordMetrics(agent, model, {
         success: true,
         duration: Date.now() - startTime,
+        inputTokens: promptTokens,
+        outputTokens: completionTokens,
+      });
+
+      recordAgentUsage(agent, model, {
+        promptTokens,
+        completionTokens,
+        cachedPromptTokens: getCachedPromptTokens(await providerMetadata),
+        latencyMs: Date.now() - startTime,
       });
 
       yield {
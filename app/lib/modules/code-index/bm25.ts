@@ -0,0 +1,144 @@
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'be',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'how',
+  'i',
+  'if',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'please',
+  'that',
+  'the',
+  'this',
+  'to',
+  'we',
+  'with',
+  'you',
+]);
+
+/**
+ * Splits text into lowercase terms, breaking identifiers on camelCase, snake_case and kebab-case
+ * boundaries so `useChatHistory` matches a question about "chat history".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*|[0-9]+/g) ?? []) {
+    const parts = word.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+
+    for (const part of parts.toLowerCase().split(' ')) {
+      if (part.length > 1 && !STOP_WORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+
+  return terms;
+}
+
+interface Document {
+  length: number;
+  frequencies: Map<string, number>;
+}
+
+/**
+ * Okapi BM25 over a set of documents that can be added, replaced and removed one at a time.
+ */
+export class BM25Index {
+  #documents = new Map<string, Document>();
+  #documentFrequency = new Map<string, number>();
+  #totalLength = 0;
+
+  get size() {
+    return this.#documents.size;
+  }
+
+  set(id: string, terms: string[]) {
+    this.delete(id);
+
+    const frequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const term of frequencies.keys()) {
+      this.#documentFrequency.set(term, (this.#documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    this.#documents.set(id, { length: terms.length, frequencies });
+    this.#totalLength += terms.length;
+  }
+
+  delete(id: string) {
+    const document = this.#documents.get(id);
+
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.frequencies.keys()) {
+      const count = (this.#documentFrequency.get(term) ?? 1) - 1;
+
+      if (count > 0) {
+        this.#documentFrequency.set(term, count);
+      } else {
+        this.#documentFrequency.delete(term);
+      }
+    }
+
+    this.#documents.delete(id);
+    this.#totalLength -= document.length;
+  }
+
+  search(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    if (this.#documents.size === 0) {
+      return scores;
+    }
+
+    const averageLength = this.#totalLength / this.#documents.size || 1;
+
+    for (const term of new Set(terms)) {
+      const documentFrequency = this.#documentFrequency.get(term);
+
+      if (!documentFrequency) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.#documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      for (const [id, document] of this.#documents) {
+        const frequency = document.frequencies.get(term);
+
+        if (!frequency) {
+          continue;
+        }
+
+        const score = (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * document.length) / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './bm25';
+import { CodeIndex } from './code-index';
+import { extractImports, extractSymbols, resolveImport } from './symbols';
+
+describe('tokenize', () => {
+  it('should split identifiers and drop stop words', () => {
+    expect(tokenize('Fix the useChatHistory hook in chat_store-utils')).toEqual([
+      'fix',
+      'use',
+      'chat',
+      'history',
+      'hook',
+      'chat',
+      'store',
+      'utils',
+    ]);
+  });
+});
+
+describe('extractSymbols', () => {
+  it('should extract top level declarations of scripts', () => {
+    const content = [
+      'export interface User {}',
+      'export type Role = "admin" | "user";',
+      'export function formatUser(user: User) {',
+      '  const local = 1;',
+      '}',
+      'export const UserCard = ({ user }: Props) => null;',
+      'const MAX_USERS = 10;',
+      'export default class UserService {}',
+    ].join('\n');
+
+    expect(extractSymbols('/home/project/src/User.tsx', content)).toEqual([
+      { name: 'User', kind: 'interface', line: 1 },
+      { name: 'Role', kind: 'type', line: 2 },
+      { name: 'formatUser', kind: 'function', line: 3 },
+      { name: 'UserCard', kind: 'component', line: 6 },
+      { name: 'MAX_USERS', kind: 'variable', line: 7 },
+      { name: 'UserService', kind: 'class', line: 8 },
+    ]);
+  });
+
+  it('should extract python and css symbols', () => {
+    expect(extractSymbols('/app/main.py', 'class Api:\n    def get(self):\n        pass\nasync def main():\n')).toEqual(
+      [
+        { name: 'Api', kind: 'class', line: 1 },
+        { name: 'main', kind: 'function', line: 4 },
+      ],
+    );
+
+    expect(extractSymbols('/app/style.css', ':root {\n  --primary: red;\n}\n.card, #header .title {\n}')).toEqual([
+      { name: '--primary', kind: 'variable', line: 2 },
+      { name: 'card', kind: 'selector', line: 4 },
+      { name: 'header', kind: 'selector', line: 4 },
+      { name: 'title', kind: 'selector', line: 4 },
+    ]);
+  });
+});
+
+describe('resolveImport', () => {
+  const paths = new Set([
+    '/home/project/src/App.tsx',
+    '/home/project/src/lib/api.ts',
+    '/home/project/src/components/index.ts',
+    '/home/project/server/db.py',
+  ]);
+
+  it('should resolve relative and aliased specifiers', () => {
+    expect(resolveImport('/home/project/src/App.tsx', './lib/api', paths)).toBe('/home/project/src/lib/api.ts');
+    expect(resolveImport('/home/project/src/lib/api.ts', '../components', paths)).toBe(
+      '/home/project/src/components/index.ts',
+    );
+    expect(resolveImport('/home/project/src/App.tsx', '@/lib/api', paths)).toBe('/home/project/src/lib/api.ts');
+    expect(resolveImport('/home/project/src/App.tsx', 'react', paths)).toBeUndefined();
+  });
+
+  it('should resolve python modules', () => {
+    expect(resolveImport('/home/project/server/main.py', '.db', paths)).toBe('/home/project/server/db.py');
+    expect(resolveImport('/home/project/main.py', 'server.db', paths)).toBe('/home/project/server/db.py');
+  });
+
+  it('should collect the specifiers of a file', () => {
+    const content = "import React from 'react';\nimport { api } from './lib/api';\nexport * from './types';\n";
+
+    expect(extractImports('/home/project/src/App.tsx', content)).toEqual(['react', './lib/api', './types']);
+  });
+});
+
+describe('CodeIndex', () => {
+  function createIndex() {
+    const index = new CodeIndex();
+
+    index.updateFile(
+      '/home/project/src/components/LoginForm.tsx',
+      "import { authenticate } from '../lib/auth';\nexport function LoginForm() {\n  return null;\n}",
+    );
+    index.updateFile(
+      '/home/project/src/lib/auth.ts',
+      'export async function authenticate(email: string, password: string) {\n  return fetch("/session");\n}',
+    );
+    index.updateFile('/home/project/src/components/Footer.tsx', 'export function Footer() {\n  return null;\n}');
+
+    return index;
+  }
+
+  it('should rank files by path, symbols and content', () => {
+    const results = createIndex().search('The login form should show an error');
+
+    expect(results[0].path).toBe('/home/project/src/components/LoginForm.tsx');
+  });
+
+  it('should pass part of the score on to imported files', () => {
+    const results = createIndex().search('login form');
+
+    expect(results.map((result) => result.path)).toContain('/home/project/src/lib/auth.ts');
+    expect(results.map((result) => result.path)).not.toContain('/home/project/src/components/Footer.tsx');
+  });
+
+  it('should report symbols named in the query', () => {
+    const [result] = createIndex().search('why does authenticate fail');
+
+    expect(result.path).toBe('/home/project/src/lib/auth.ts');
+    expect(result.matchedSymbols).toEqual(['authenticate']);
+  });
+
+  it('should update and remove files incrementally', () => {
+    const index = createIndex();
+
+    index.updateFile('/home/project/src/components/Footer.tsx', 'export function Footer() {\n  // login link\n}');
+    expect(index.search('login').map((result) => result.path)).toContain('/home/project/src/components/Footer.tsx');
+
+    index.removeFile('/home/project/src/lib/auth.ts');
+    expect(index.getImports('/home/project/src/components/LoginForm.tsx')).toEqual([]);
+    expect(index.search('authenticate password').map((result) => result.path)).not.toContain(
+      '/home/project/src/lib/auth.ts',
+    );
+  });
+});
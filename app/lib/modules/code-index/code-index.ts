@@ -0,0 +1,169 @@
+import { BM25Index, tokenize } from './bm25';
+import { extractImports, extractSymbols, getCodeLanguage, resolveImport } from './symbols';
+import type { CodeIndexSearchOptions, IndexedFile, RankedFile } from './types';
+
+// only the head of very large files is ranked on, generated bundles and data files would drown the rest
+const MAX_CONTENT_LENGTH = 50_000;
+
+const PATH_WEIGHT = 3;
+const SYMBOL_WEIGHT = 2;
+
+// share of a file's score passed on to the files it imports and to the files importing it
+const IMPORT_BOOST = 0.3;
+const IMPORTER_BOOST = 0.15;
+const SYMBOL_MATCH_BOOST = 0.5;
+
+function repeat(terms: string[], times: number) {
+  return Array.from({ length: times }, () => terms).flat();
+}
+
+/**
+ * Local index of the project files used to rank them against a request: BM25 over the path, the
+ * extracted symbols and the content of each file, boosted along the import graph and by symbols named
+ * in the request. Files are added, replaced and removed one at a time as the project changes.
+ */
+export class CodeIndex {
+  #files = new Map<string, IndexedFile>();
+  #bm25 = new BM25Index();
+
+  // resolved import edges, rebuilt lazily after files changed
+  #imports = new Map<string, Set<string>>();
+  #importers = new Map<string, Set<string>>();
+  #graphDirty = false;
+
+  get size() {
+    return this.#files.size;
+  }
+
+  getFile(path: string) {
+    return this.#files.get(path);
+  }
+
+  updateFile(path: string, content: string) {
+    const head = content.slice(0, MAX_CONTENT_LENGTH);
+    const symbols = extractSymbols(path, head);
+
+    this.#files.set(path, {
+      path,
+      language: getCodeLanguage(path),
+      symbols,
+      imports: extractImports(path, head),
+    });
+
+    this.#bm25.set(path, [
+      ...repeat(tokenize(path), PATH_WEIGHT),
+      ...repeat(tokenize(symbols.map((symbol) => symbol.name).join(' ')), SYMBOL_WEIGHT),
+      ...tokenize(head),
+    ]);
+
+    this.#graphDirty = true;
+  }
+
+  removeFile(path: string) {
+    if (this.#files.delete(path)) {
+      this.#bm25.delete(path);
+      this.#graphDirty = true;
+    }
+  }
+
+  clear() {
+    for (const path of Array.from(this.#files.keys())) {
+      this.removeFile(path);
+    }
+  }
+
+  /**
+   * Files imported by the given file that are part of the index.
+   */
+  getImports(path: string): string[] {
+    this.#buildGraph();
+
+    return Array.from(this.#imports.get(path) ?? []);
+  }
+
+  /**
+   * Indexed files importing the given file.
+   */
+  getImporters(path: string): string[] {
+    this.#buildGraph();
+
+    return Array.from(this.#importers.get(path) ?? []);
+  }
+
+  search(query: string, options: CodeIndexSearchOptions = {}): RankedFile[] {
+    const { limit = 20 } = options;
+    const terms = tokenize(query);
+    const queryWords = new Set(query.toLowerCase().match(/[\w$-]+/g) ?? []);
+
+    const keywordScores = this.#bm25.search(terms);
+    const maxScore = Math.max(0, ...keywordScores.values());
+
+    if (maxScore === 0) {
+      return [];
+    }
+
+    this.#buildGraph();
+
+    const scores = new Map<string, number>();
+    const add = (path: string, score: number) => scores.set(path, (scores.get(path) ?? 0) + score);
+
+    for (const [path, score] of keywordScores) {
+      const normalized = score / maxScore;
+
+      add(path, normalized);
+      this.#imports.get(path)?.forEach((dependency) => add(dependency, normalized * IMPORT_BOOST));
+      this.#importers.get(path)?.forEach((dependent) => add(dependent, normalized * IMPORTER_BOOST));
+    }
+
+    const matchedSymbols = new Map<string, string[]>();
+
+    for (const file of this.#files.values()) {
+      const matches = file.symbols.filter((symbol) => queryWords.has(symbol.name.toLowerCase()));
+
+      if (matches.length > 0) {
+        matchedSymbols.set(
+          file.path,
+          matches.map((symbol) => symbol.name),
+        );
+        add(file.path, SYMBOL_MATCH_BOOST);
+      }
+    }
+
+    return Array.from(scores, ([path, score]) => ({ path, score, matchedSymbols: matchedSymbols.get(path) ?? [] }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit);
+  }
+
+  #buildGraph() {
+    if (!this.#graphDirty) {
+      return;
+    }
+
+    const paths = new Set(this.#files.keys());
+
+    this.#imports.clear();
+    this.#importers.clear();
+
+    for (const file of this.#files.values()) {
+      const resolved = new Set<string>();
+
+      for (const specifier of file.imports) {
+        const target = resolveImport(file.path, specifier, paths);
+
+        if (target && target !== file.path) {
+          resolved.add(target);
+
+          if (!this.#importers.has(target)) {
+            this.#importers.set(target, new Set());
+          }
+
+          this.#importers.get(target)!.add(file.path);
+        }
+      }
+
+      this.#imports.set(file.path, resolved);
+    }
+
+    this.#graphDirty = false;
+  }
+}
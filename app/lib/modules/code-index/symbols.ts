@@ -0,0 +1,268 @@
+import type { CodeLanguage, CodeSymbol, SymbolKind } from './types';
+
+const LANGUAGE_EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  mjs: 'typescript',
+  cjs: 'typescript',
+  vue: 'typescript',
+  svelte: 'typescript',
+  py: 'python',
+  css: 'css',
+  scss: 'css',
+  sass: 'css',
+  less: 'css',
+};
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+const STYLE_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+
+const TS_DECLARATIONS: Array<[RegExp, SymbolKind]> = [
+  [/^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, 'function'],
+  [/^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, 'class'],
+  [/^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/, 'interface'],
+  [/^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=/, 'type'],
+  [/^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/, 'enum'],
+];
+
+const TS_VARIABLE = /^(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(.*)$/;
+const TS_FUNCTION_VALUE =
+  /^(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]*)?=>|[A-Za-z_$][\w$]*\s*=>|(?:React\.)?(?:memo|forwardRef)\s*\()/;
+
+const TS_IMPORTS = [
+  /(?:^|\n)\s*import\s+(?:[\w*${},\s]+\s+from\s+)?['"]([^'"]+)['"]/g,
+  /(?:^|\n)\s*export\s+(?:\*|\{[^}]*\})\s*(?:as\s+\w+\s+)?from\s+['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+export function getCodeLanguage(path: string): CodeLanguage | undefined {
+  const extension = path.split('.').pop()?.toLowerCase();
+
+  return extension ? LANGUAGE_EXTENSIONS[extension] : undefined;
+}
+
+function isComponentFile(path: string) {
+  return /\.(?:tsx|jsx|vue|svelte)$/.test(path);
+}
+
+function extractScriptSymbols(path: string, lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const componentFile = isComponentFile(path);
+
+  lines.forEach((line, index) => {
+    // only top level declarations, members and locals are too noisy to rank on
+    if (/^\s/.test(line)) {
+      return;
+    }
+
+    for (const [pattern, kind] of TS_DECLARATIONS) {
+      const match = line.match(pattern);
+
+      if (match) {
+        const isComponent = kind === 'function' && componentFile && /^[A-Z]/.test(match[1]);
+        symbols.push({ name: match[1], kind: isComponent ? 'component' : kind, line: index + 1 });
+
+        return;
+      }
+    }
+
+    const variable = line.match(TS_VARIABLE);
+
+    if (variable) {
+      const [, name, value] = variable;
+      let kind: SymbolKind = 'variable';
+
+      if (TS_FUNCTION_VALUE.test(value.trim())) {
+        kind = componentFile && /^[A-Z]/.test(name) ? 'component' : 'function';
+      }
+
+      symbols.push({ name, kind, line: index + 1 });
+    }
+  });
+
+  return symbols;
+}
+
+function extractPythonSymbols(lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+
+  lines.forEach((line, index) => {
+    const definition = line.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+    const classDefinition = line.match(/^class\s+([A-Za-z_]\w*)/);
+    const constant = line.match(/^([A-Z_][A-Z0-9_]*)\s*(?::[^=]*)?=/);
+
+    if (definition) {
+      symbols.push({ name: definition[1], kind: 'function', line: index + 1 });
+    } else if (classDefinition) {
+      symbols.push({ name: classDefinition[1], kind: 'class', line: index + 1 });
+    } else if (constant) {
+      symbols.push({ name: constant[1], kind: 'variable', line: index + 1 });
+    }
+  });
+
+  return symbols;
+}
+
+function extractStyleSymbols(lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const seen = new Set<string>();
+
+  const add = (name: string, kind: SymbolKind, line: number) => {
+    if (!seen.has(`${kind}:${name}`)) {
+      seen.add(`${kind}:${name}`);
+      symbols.push({ name, kind, line });
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const selector = line.match(/^\s*([^{}@/;][^{};]*)\{/);
+
+    if (selector) {
+      for (const match of selector[1].matchAll(/[.#](-?[A-Za-z_][\w-]*)/g)) {
+        add(match[1], 'selector', index + 1);
+      }
+    }
+
+    for (const match of line.matchAll(/(--[\w-]+)\s*:/g)) {
+      add(match[1], 'variable', index + 1);
+    }
+
+    const keyframes = line.match(/@keyframes\s+([\w-]+)/);
+
+    if (keyframes) {
+      add(keyframes[1], 'variable', index + 1);
+    }
+  });
+
+  return symbols;
+}
+
+/**
+ * Extracts the top level declarations of a file with line based patterns. This is not a parser, it trades
+ * the odd missed declaration for being fast enough to run on every file change of a large project.
+ */
+export function extractSymbols(path: string, content: string): CodeSymbol[] {
+  const lines = content.split('\n');
+
+  switch (getCodeLanguage(path)) {
+    case 'typescript':
+      return extractScriptSymbols(path, lines);
+    case 'python':
+      return extractPythonSymbols(lines);
+    case 'css':
+      return extractStyleSymbols(lines);
+    default:
+      return [];
+  }
+}
+
+export function extractImports(path: string, content: string): string[] {
+  const imports = new Set<string>();
+
+  switch (getCodeLanguage(path)) {
+    case 'typescript': {
+      for (const pattern of TS_IMPORTS) {
+        for (const match of content.matchAll(pattern)) {
+          imports.add(match[1]);
+        }
+      }
+
+      break;
+    }
+    case 'python': {
+      for (const match of content.matchAll(/^from\s+(\.*[\w.]*)\s+import\b/gm)) {
+        imports.add(match[1]);
+      }
+
+      for (const match of content.matchAll(/^import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm)) {
+        match[1].split(',').forEach((name) => imports.add(name.trim()));
+      }
+
+      break;
+    }
+    case 'css': {
+      for (const match of content.matchAll(/@(?:import|use|forward)\s+(?:url\()?\s*['"]([^'"]+)['"]/g)) {
+        imports.add(match[1]);
+      }
+
+      break;
+    }
+  }
+
+  return Array.from(imports);
+}
+
+function normalizePath(path: string) {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return `${path.startsWith('/') ? '/' : ''}${segments.join('/')}`;
+}
+
+function dirname(path: string) {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function findWithExtensions(base: string, extensions: string[], paths: Set<string>) {
+  const candidates = [base, ...extensions.map((extension) => base + extension)];
+  candidates.push(...extensions.map((extension) => `${base}/index${extension}`));
+
+  return candidates.find((candidate) => paths.has(candidate));
+}
+
+/**
+ * Resolves an import specifier to one of the given paths. Relative specifiers are resolved against the
+ * importing file, `~/` and `@/` aliases and python modules by matching the end of the indexed paths since
+ * the index has no access to the project's bundler or interpreter configuration. Packages resolve to nothing.
+ */
+export function resolveImport(fromPath: string, specifier: string, paths: Set<string>): string | undefined {
+  const language = getCodeLanguage(fromPath);
+
+  if (language === 'python') {
+    const dots = specifier.match(/^\.*/)?.[0].length ?? 0;
+    const modulePath = specifier.slice(dots).replace(/\./g, '/');
+
+    if (dots > 0) {
+      let base = dirname(fromPath);
+
+      for (let i = 1; i < dots; i++) {
+        base = dirname(base);
+      }
+
+      return findWithExtensions(normalizePath(`${base}/${modulePath}`), ['.py', '/__init__.py'], paths);
+    }
+
+    const suffixes = [`/${modulePath}.py`, `/${modulePath}/__init__.py`];
+
+    return Array.from(paths).find((path) => suffixes.some((suffix) => path.endsWith(suffix)));
+  }
+
+  const extensions = language === 'css' ? STYLE_EXTENSIONS : [...SCRIPT_EXTENSIONS, ...STYLE_EXTENSIONS];
+
+  if (specifier.startsWith('.') || specifier.startsWith('/')) {
+    const base = specifier.startsWith('/') ? specifier : `${dirname(fromPath)}/${specifier}`;
+
+    return findWithExtensions(normalizePath(base), extensions, paths);
+  }
+
+  const alias = specifier.match(/^[~@]\/(.+)$/);
+
+  if (alias) {
+    const suffixes = [alias[1], ...extensions.map((extension) => `${alias[1]}${extension}`)].map(
+      (suffix) => `/${suffix}`,
+    );
+
+    return Array.from(paths).find((path) => suffixes.some((suffix) => path.endsWith(suffix)));
+  }
+
+  return undefined;
+}
@@ -0,0 +1,30 @@
+export type CodeLanguage = 'typescript' | 'python' | 'css';
+
+export type SymbolKind = 'function' | 'component' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'selector';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  line: number;
+}
+
+export interface IndexedFile {
+  path: string;
+  language?: CodeLanguage;
+  symbols: CodeSymbol[];
+
+  /** Import specifiers as written in the source, resolved against the indexed paths when the graph is built */
+  imports: string[];
+}
+
+export interface RankedFile {
+  path: string;
+  score: number;
+
+  /** Symbols of the file whose names appear in the query */
+  matchedSymbols: string[];
+}
+
+export interface CodeIndexSearchOptions {
+  limit?: number;
+}
@@ -3,6 +3,7 @@ import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LLMManager } from './manager';
+import { resolveProviderCredentials } from './credentials';
 
 export abstract class BaseProvider implements ProviderInfo {
   abstract name: string;
@@ -24,35 +25,14 @@ export abstract class BaseProvider implements ProviderInfo {
     defaultBaseUrlKey: string;
     defaultApiTokenKey: string;
   }) {
-    const { apiKeys, providerSettings, serverEnv, defaultBaseUrlKey, defaultApiTokenKey } = options;
-    let settingsBaseUrl = providerSettings?.baseUrl;
-    const manager = LLMManager.getInstance();
-
-    if (settingsBaseUrl && settingsBaseUrl.length == 0) {
-      settingsBaseUrl = undefined;
-    }
-
-    const baseUrlKey = this.config.baseUrlKey || defaultBaseUrlKey;
-    let baseUrl =
-      settingsBaseUrl ||
-      serverEnv?.[baseUrlKey] ||
-      process?.env?.[baseUrlKey] ||
-      manager.env?.[baseUrlKey] ||
-      this.config.baseUrl;
-
-    if (baseUrl && baseUrl.endsWith('/')) {
-      baseUrl = baseUrl.slice(0, -1);
-    }
-
-    const apiTokenKey = this.config.apiTokenKey || defaultApiTokenKey;
-    const apiKey =
-      apiKeys?.[this.name] || serverEnv?.[apiTokenKey] || process?.env?.[apiTokenKey] || manager.env?.[apiTokenKey];
-
-    return {
-      baseUrl,
-      apiKey,
-    };
+    return resolveProviderCredentials({
+      ...options,
+      providerName: this.name,
+      config: this.config,
+      managerEnv: LLMManager.getInstance().env,
+    });
   }
+
   getModelsFromCache(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { resolveProviderCredentials } from './credentials';
+import { readProviderSettingsExport } from './settings-export';
+
+describe('resolveProviderCredentials', () => {
+  const config = { baseUrlKey: 'TEST_PROVIDER_BASE_URL', apiTokenKey: 'TEST_PROVIDER_API_KEY' };
+
+  it('prefers user settings over the environments', () => {
+    const credentials = resolveProviderCredentials({
+      providerName: 'Test',
+      config,
+      apiKeys: { Test: 'cookie-key' },
+      providerSettings: { baseUrl: 'http://settings/' },
+      serverEnv: { TEST_PROVIDER_API_KEY: 'server-key', TEST_PROVIDER_BASE_URL: 'http://server' },
+    });
+
+    expect(credentials).toEqual({ apiKey: 'cookie-key', baseUrl: 'http://settings' });
+  });
+
+  it('falls back from the server env to the manager env and the provider default', () => {
+    const credentials = resolveProviderCredentials({
+      providerName: 'Test',
+      config: { ...config, baseUrl: 'http://default' },
+      serverEnv: { TEST_PROVIDER_API_KEY: 'server-key' },
+      managerEnv: { TEST_PROVIDER_API_KEY: 'manager-key', TEST_PROVIDER_BASE_URL: 'http://manager' },
+    });
+
+    expect(credentials).toEqual({ apiKey: 'server-key', baseUrl: 'http://manager' });
+    expect(resolveProviderCredentials({ providerName: 'Test', config: { baseUrl: 'http://default' } })).toEqual({
+      apiKey: undefined,
+      baseUrl: 'http://default',
+    });
+  });
+});
+
+describe('readProviderSettingsExport', () => {
+  it('reads the keys and provider settings of a settings export', () => {
+    const result = readProviderSettingsExport({
+      providers: {
+        apiKeys: JSON.stringify({ OpenAI: 'sk-test', Groq: '' }),
+        provider_settings: { Ollama: { name: 'Ollama', settings: { enabled: true, baseUrl: 'http://gpu:11434' } } },
+        selectedProvider: 'OpenAI',
+        selectedModel: 'gpt-4o',
+      },
+    });
+
+    expect(result).toEqual({
+      apiKeys: { OpenAI: 'sk-test' },
+      providerSettings: { Ollama: { enabled: true, baseUrl: 'http://gpu:11434' } },
+      selectedProvider: 'OpenAI',
+      selectedModel: 'gpt-4o',
+    });
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => readProviderSettingsExport('[]')).toThrow('Invalid settings export');
+  });
+});
@@ -0,0 +1,50 @@
+import type { IProviderSetting } from '~/types/model';
+import type { ProviderConfig } from './types';
+
+export interface ProviderCredentials {
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * Resolves the base url and API key of a provider. This is the one resolution order shared by the web app
+ * and the CLI, the first source that has a value wins:
+ *
+ * - base url: provider settings, server env, process env, manager env, provider default
+ * - API key: keys set by the user (cookie or CLI profile), server env, process env, manager env
+ */
+export function resolveProviderCredentials(options: {
+  providerName: string;
+  config: ProviderConfig;
+  apiKeys?: Record<string, string>;
+  providerSettings?: IProviderSetting;
+  serverEnv?: Record<string, string>;
+  managerEnv?: Record<string, string>;
+  defaultBaseUrlKey?: string;
+  defaultApiTokenKey?: string;
+}): ProviderCredentials {
+  const { providerName, config, apiKeys, providerSettings, serverEnv, managerEnv } = options;
+  const processEnv: Record<string, string | undefined> | undefined =
+    typeof process !== 'undefined' ? process.env : undefined;
+
+  const baseUrlKey = config.baseUrlKey || options.defaultBaseUrlKey || '';
+  let baseUrl =
+    providerSettings?.baseUrl ||
+    (baseUrlKey && (serverEnv?.[baseUrlKey] || processEnv?.[baseUrlKey] || managerEnv?.[baseUrlKey])) ||
+    config.baseUrl;
+
+  if (baseUrl && baseUrl.endsWith('/')) {
+    baseUrl = baseUrl.slice(0, -1);
+  }
+
+  const apiTokenKey = config.apiTokenKey || options.defaultApiTokenKey || '';
+  const apiKey =
+    apiKeys?.[providerName] ||
+    (apiTokenKey && (serverEnv?.[apiTokenKey] || processEnv?.[apiTokenKey] || managerEnv?.[apiTokenKey])) ||
+    undefined;
+
+  return {
+    baseUrl: baseUrl || undefined,
+    apiKey,
+  };
+}
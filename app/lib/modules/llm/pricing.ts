@@ -0,0 +1,55 @@
+import { LLMManager } from './manager';
+import type { ModelPricing } from './types';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens?: number;
+}
+
+/**
+ * Looks up the price table of a model, first among the static models of the provider and then in
+ * the last fetched model list, which carries the pricing of dynamic models such as OpenRouter's.
+ */
+export function getModelPricing(providerName: string, modelName: string): ModelPricing | undefined {
+  const manager = LLMManager.getInstance();
+  const provider = manager.getProvider(providerName);
+  const staticModel = provider?.staticModels.find((model) => model.name === modelName);
+
+  if (staticModel?.pricing) {
+    return staticModel.pricing;
+  }
+
+  return manager.getModelList().find((model) => model.provider === providerName && model.name === modelName)?.pricing;
+}
+
+/**
+ * Computes the cost of a request in USD, or undefined when the model has no pricing.
+ */
+export function calculateCost(pricing: ModelPricing | undefined, usage: TokenUsage): number | undefined {
+  if (!pricing) {
+    return undefined;
+  }
+
+  const cachedPromptTokens = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+  const uncachedPromptTokens = usage.promptTokens - cachedPromptTokens;
+
+  return (
+    (uncachedPromptTokens * pricing.input +
+      cachedPromptTokens * (pricing.cachedInput ?? pricing.input) +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Reads the number of prompt tokens served from cache out of the provider specific metadata.
+ */
+export function getCachedPromptTokens(providerMetadata: Record<string, Record<string, unknown>> | undefined): number {
+  const value =
+    providerMetadata?.openai?.cachedPromptTokens ??
+    providerMetadata?.anthropic?.cacheReadInputTokens ??
+    providerMetadata?.deepseek?.promptCacheHitTokens;
+
+  return typeof value === 'number' ? value : 0;
+}
@@ -23,6 +23,7 @@ export default class AnthropicProvider extends BaseProvider {
       provider: 'Anthropic',
       maxTokenAllowed: 200000,
       maxCompletionTokens: 128000,
+      pricing: { input: 3, output: 15, cachedInput: 0.3 },
     },
 
     // Claude 3 Haiku: 200k context, fastest and most cost-effective
@@ -32,6 +33,7 @@ export default class AnthropicProvider extends BaseProvider {
       provider: 'Anthropic',
       maxTokenAllowed: 200000,
       maxCompletionTokens: 128000,
+      pricing: { input: 0.25, output: 1.25, cachedInput: 0.03 },
     },
 
     // Claude Opus 4: 200k context, 32k output limit (latest flagship model)
@@ -41,6 +43,7 @@ export default class AnthropicProvider extends BaseProvider {
       provider: 'Anthropic',
       maxTokenAllowed: 200000,
       maxCompletionTokens: 32000,
+      pricing: { input: 15, output: 75, cachedInput: 1.5 },
     },
   ];
 
@@ -19,6 +19,7 @@ export default class DeepseekProvider extends BaseProvider {
       provider: 'Deepseek',
       maxTokenAllowed: 8000,
       maxCompletionTokens: 8192,
+      pricing: { input: 0.27, output: 1.1, cachedInput: 0.07 },
     },
     {
       name: 'deepseek-chat',
@@ -26,6 +27,7 @@ export default class DeepseekProvider extends BaseProvider {
       provider: 'Deepseek',
       maxTokenAllowed: 8000,
       maxCompletionTokens: 8192,
+      pricing: { input: 0.27, output: 1.1, cachedInput: 0.07 },
     },
     {
       name: 'deepseek-reasoner',
@@ -33,6 +35,7 @@ export default class DeepseekProvider extends BaseProvider {
       provider: 'Deepseek',
       maxTokenAllowed: 8000,
       maxCompletionTokens: 8192,
+      pricing: { input: 0.55, output: 2.19, cachedInput: 0.14 },
     },
   ];
 
@@ -23,6 +23,7 @@ export default class GoogleProvider extends BaseProvider {
       provider: 'Google',
       maxTokenAllowed: 2000000,
       maxCompletionTokens: 8192,
+      pricing: { input: 1.25, output: 5 },
     },
 
     // Gemini 1.5 Flash: 1M context, 8K output limit, fast and cost-effective
@@ -32,6 +33,7 @@ export default class GoogleProvider extends BaseProvider {
       provider: 'Google',
       maxTokenAllowed: 1000000,
       maxCompletionTokens: 8192,
+      pricing: { input: 0.075, output: 0.3 },
     },
   ];
 
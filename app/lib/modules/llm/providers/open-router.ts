@@ -36,6 +36,7 @@ export default class OpenRouterProvider extends BaseProvider {
       label: 'Claude 3.5 Sonnet',
       provider: 'OpenRouter',
       maxTokenAllowed: 200000,
+      pricing: { input: 3, output: 15 },
     },
 
     // GPT-4o via OpenRouter: 128k context
@@ -44,6 +45,7 @@ export default class OpenRouterProvider extends BaseProvider {
       label: 'GPT-4o',
       provider: 'OpenRouter',
       maxTokenAllowed: 128000,
+      pricing: { input: 2.5, output: 10 },
     },
   ];
 
@@ -76,6 +78,10 @@ export default class OpenRouterProvider extends BaseProvider {
             label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${finalContext >= 1000000 ? Math.floor(finalContext / 1000000) + 'M' : Math.floor(finalContext / 1000) + 'k'}`,
             provider: this.name,
             maxTokenAllowed: finalContext,
+            pricing: {
+              input: m.pricing.prompt * 1_000_000,
+              output: m.pricing.completion * 1_000_000,
+            },
           };
         });
     } catch (error) {
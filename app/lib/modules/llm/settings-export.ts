@@ -0,0 +1,76 @@
+import type { IProviderSetting } from '~/types/model';
+
+export interface ProviderSettingsExport {
+  apiKeys: Record<string, string>;
+  providerSettings: Record<string, IProviderSetting>;
+  selectedProvider?: string;
+  selectedModel?: string;
+}
+
+/**
+ * Cookies and localStorage items are exported as JSON strings, imports written by hand may contain the objects
+ */
+function parseValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the provider part of a settings export (`ImportExportService.exportSettings`), so the keys and
+ * provider settings configured in the web app can be reused, e.g. by a CLI profile.
+ * Older exports without the `providers` section are read from the raw cookies.
+ */
+export function readProviderSettingsExport(data: unknown): ProviderSettingsExport {
+  if (!isRecord(data)) {
+    throw new Error('Invalid settings export: expected a JSON object');
+  }
+
+  const raw = isRecord(data._raw) && isRecord(data._raw.cookies) ? data._raw.cookies : {};
+  const providers = isRecord(data.providers) ? data.providers : raw;
+
+  const apiKeys: Record<string, string> = {};
+  const parsedKeys = parseValue(providers.apiKeys);
+
+  if (isRecord(parsedKeys)) {
+    for (const [provider, key] of Object.entries(parsedKeys)) {
+      if (typeof key === 'string' && key.length > 0 && !provider.startsWith('_')) {
+        apiKeys[provider] = key;
+      }
+    }
+  }
+
+  const providerSettings: Record<string, IProviderSetting> = {};
+  const parsedSettings = parseValue(providers.provider_settings);
+
+  if (isRecord(parsedSettings)) {
+    for (const [provider, entry] of Object.entries(parsedSettings)) {
+      // the web app stores the whole provider entry, the settings are one of its fields
+      const settings = isRecord(entry) && isRecord(entry.settings) ? entry.settings : entry;
+
+      if (isRecord(settings)) {
+        providerSettings[provider] = settings as IProviderSetting;
+      }
+    }
+  }
+
+  const selectedProvider = parseValue(providers.selectedProvider);
+  const selectedModel = parseValue(providers.selectedModel);
+
+  return {
+    apiKeys,
+    providerSettings,
+    selectedProvider: typeof selectedProvider === 'string' ? selectedProvider : undefined,
+    selectedModel: typeof selectedModel === 'string' ? selectedModel : undefined,
+  };
+}
@@ -0,0 +1,111 @@
+import type { Message } from 'ai';
+import { atom } from 'nanostores';
+import { loadCheckpointFiles, pruneCheckpoints } from './checkpoints';
+import {
+  deleteSnapshot,
+  getCheckpoints,
+  getMessageTree,
+  getMessages,
+  setMessageTree,
+  setMessages,
+  setSnapshot,
+} from './db';
+import { getLatestLeafId, getParentPath, getPath, mergePath } from './message-tree';
+import type { MessageTree } from './types';
+
+/**
+ * Message tree of the currently opened chat.
+ */
+export const messageTreeStore = atom<MessageTree | undefined>(undefined);
+
+/**
+ * Loads the tree of a chat, chats stored before branching existed start with their messages as the only branch.
+ */
+export async function loadMessageTree(db: IDBDatabase, chatId: string, messages: Message[]) {
+  const tree = mergePath(await getMessageTree(db, chatId), chatId, messages);
+  messageTreeStore.set(tree);
+
+  return tree;
+}
+
+/**
+ * Adds the messages of the selected branch to the tree, called whenever the chat is stored.
+ */
+export async function storeBranch(db: IDBDatabase, chatId: string, messages: Message[]) {
+  const current = messageTreeStore.get();
+  const tree = mergePath(current?.chatId === chatId ? current : await getMessageTree(db, chatId), chatId, messages);
+
+  messageTreeStore.set(tree);
+  await setMessageTree(db, tree);
+}
+
+async function getTree(db: IDBDatabase, chatId: string) {
+  const current = messageTreeStore.get();
+
+  if (current?.chatId === chatId) {
+    return current;
+  }
+
+  const chat = await getMessages(db, chatId);
+
+  return mergePath(await getMessageTree(db, chatId), chatId, chat?.messages ?? []);
+}
+
+/**
+ * Makes the path the messages of the chat. The workspace of the branch is restored from the checkpoint
+ * of its last answer on the next load, branches without one replay their artifacts.
+ */
+async function selectPath(db: IDBDatabase, tree: MessageTree, path: Message[]) {
+  const chat = await getMessages(db, tree.chatId);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  // the tree is stored first, the messages of the branch that is left must not get lost
+  await setMessageTree(db, tree);
+
+  const checkpoints = await getCheckpoints(db, chat.id);
+  const checkpoint = path
+    .map((message) => checkpoints.find((item) => item.messageId === message.id))
+    .findLast((item) => item !== undefined);
+
+  await setMessages(db, chat.id, path, chat.urlId, chat.description, chat.timestamp, chat.metadata);
+
+  if (checkpoint) {
+    await setSnapshot(db, chat.id, {
+      chatIndex: checkpoint.messageId,
+      files: await loadCheckpointFiles(db, checkpoint),
+    });
+  } else {
+    await deleteSnapshot(db, chat.id);
+  }
+
+  await pruneCheckpoints(db, tree);
+
+  return chat.urlId ?? chat.id;
+}
+
+/**
+ * Selects the branch of a message, down to the newest message below it. Returns the id to navigate to.
+ */
+export async function switchBranch(db: IDBDatabase, chatId: string, messageId: string) {
+  const tree = await getTree(db, chatId);
+
+  return selectPath(db, tree, getPath(tree, getLatestLeafId(tree, messageId)));
+}
+
+/**
+ * Selects the path before a message, the next message sent becomes a sibling of it. Returns the id to
+ * navigate to.
+ */
+export async function branchFromMessage(db: IDBDatabase, chatId: string, messageId: string) {
+  const tree = await getTree(db, chatId);
+  const path = getParentPath(tree, messageId);
+
+  if (!path) {
+    throw new Error('Message not found');
+  }
+
+  return selectPath(db, tree, path);
+}
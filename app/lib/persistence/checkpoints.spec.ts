@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { collectCheckpointEntries, diffCheckpoints, getCheckpointId, hashContent } from './checkpoints';
+import type { Checkpoint, CheckpointEntry } from './types';
+
+function createCheckpoint(messageId: string, files: Record<string, CheckpointEntry>): Checkpoint {
+  return {
+    id: getCheckpointId('1', messageId),
+    chatId: '1',
+    messageId,
+    timestamp: new Date().toISOString(),
+    files,
+  };
+}
+
+describe('hashContent', () => {
+  it('should hash equal content to the same value', async () => {
+    const a = await hashContent('console.log(1);');
+    const b = await hashContent('console.log(1);');
+    const c = await hashContent('console.log(2);');
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('collectCheckpointEntries', () => {
+  it('should skip binary files whose content is not loaded', async () => {
+    const { entries, blobs } = await collectCheckpointEntries({
+      '/home/project/public': { type: 'folder' },
+      '/home/project/public/logo.png': { type: 'file', content: '', isBinary: true },
+      '/home/project/public/icon.png': { type: 'file', content: 'iVBORw0KGgo=', isBinary: true },
+      '/home/project/index.html': { type: 'file', content: '<html></html>', isBinary: false },
+    });
+
+    expect(Object.keys(entries).sort()).toEqual([
+      '/home/project/index.html',
+      '/home/project/public',
+      '/home/project/public/icon.png',
+    ]);
+    expect(entries['/home/project/public/icon.png']).toMatchObject({ type: 'file', isBinary: true });
+    expect(blobs.map((blob) => blob.content).sort()).toEqual(['<html></html>', 'iVBORw0KGgo=']);
+  });
+
+  it('should not return blobs for known hashes', async () => {
+    const known = new Set([await hashContent('a')]);
+    const { blobs } = await collectCheckpointEntries(
+      {
+        '/home/project/a.txt': { type: 'file', content: 'a', isBinary: false },
+        '/home/project/b.txt': { type: 'file', content: 'b', isBinary: false },
+      },
+      known,
+    );
+
+    expect(blobs.map((blob) => blob.content)).toEqual(['b']);
+  });
+});
+
+describe('diffCheckpoints', () => {
+  it('should list added, removed and modified files', () => {
+    const from = createCheckpoint('a', {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/index.ts': { type: 'file', hash: 'h1', isBinary: false },
+      '/home/project/src/old.ts': { type: 'file', hash: 'h2', isBinary: false },
+      '/home/project/package.json': { type: 'file', hash: 'h3', isBinary: false },
+    });
+    const to = createCheckpoint('b', {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/index.ts': { type: 'file', hash: 'h4', isBinary: false },
+      '/home/project/src/new.ts': { type: 'file', hash: 'h5', isBinary: false },
+      '/home/project/package.json': { type: 'file', hash: 'h3', isBinary: false },
+    });
+
+    expect(diffCheckpoints(from, to)).toEqual([
+      { path: '/home/project/src/index.ts', type: 'modified' },
+      { path: '/home/project/src/new.ts', type: 'added' },
+      { path: '/home/project/src/old.ts', type: 'removed' },
+    ]);
+  });
+
+  it('should return no changes for identical checkpoints', () => {
+    const files: Record<string, CheckpointEntry> = {
+      '/home/project/index.html': { type: 'file', hash: 'h1', isBinary: false },
+    };
+
+    expect(diffCheckpoints(createCheckpoint('a', files), createCheckpoint('b', files))).toEqual([]);
+  });
+});
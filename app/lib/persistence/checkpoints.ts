@@ -0,0 +1,255 @@
+import { atom } from 'nanostores';
+import type { FileMap } from '~/lib/stores/files';
+import { createScopedLogger } from '~/utils/logger';
+import {
+  deleteCheckpoints,
+  getCheckpoint,
+  getCheckpoints,
+  getFileBlobs,
+  getMessageTree,
+  getMessages,
+  pruneFileBlobs,
+  setCheckpoint,
+  setMessageTree,
+  setMessages,
+  setSnapshot,
+} from './db';
+import { mergePath } from './message-tree';
+import type { Checkpoint, CheckpointEntry, FileBlob, MessageTree } from './types';
+
+const logger = createScopedLogger('Checkpoints');
+
+const encoder = new TextEncoder();
+
+/**
+ * Checkpoints of the currently opened chat, oldest first.
+ */
+export const checkpointsStore = atom<Checkpoint[]>([]);
+
+export interface CheckpointFileChange {
+  path: string;
+  type: 'added' | 'removed' | 'modified';
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(content));
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function getCheckpointId(chatId: string, messageId: string) {
+  return `${chatId}:${messageId}`;
+}
+
+/**
+ * Loads the checkpoints of a chat, limited to the given messages when the chat has other branches.
+ */
+export async function loadCheckpoints(db: IDBDatabase, chatId: string, messageIds?: string[]) {
+  const checkpoints = (await getCheckpoints(db, chatId)).filter(
+    (checkpoint) => !messageIds || messageIds.includes(checkpoint.messageId),
+  );
+  checkpointsStore.set(checkpoints);
+
+  return checkpoints;
+}
+
+/**
+ * Hashes the files of a workspace into checkpoint entries and the blobs that are not in
+ * `knownHashes` yet. Binary files are only tracked when their content is loaded: the file
+ * watcher leaves it empty, and restoring that empty content would truncate the file.
+ */
+export async function collectCheckpointEntries(files: FileMap, knownHashes = new Set<string>()) {
+  const entries: Record<string, CheckpointEntry> = {};
+  const blobs: FileBlob[] = [];
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (!dirent) {
+      continue;
+    }
+
+    if (dirent.type === 'folder') {
+      entries[filePath] = { type: 'folder' };
+      continue;
+    }
+
+    if (dirent.isBinary && !dirent.content) {
+      continue;
+    }
+
+    const hash = await hashContent(dirent.content);
+
+    entries[filePath] = { type: 'file', hash, isBinary: dirent.isBinary };
+
+    if (!knownHashes.has(hash)) {
+      knownHashes.add(hash);
+      blobs.push({ hash, content: dirent.content });
+    }
+  }
+
+  return { entries, blobs };
+}
+
+/**
+ * Records the workspace as it looks after the given assistant message. Recording the same
+ * message twice replaces the previous checkpoint, unchanged files reuse their existing blobs.
+ */
+export async function recordCheckpoint(db: IDBDatabase, chatId: string, messageId: string, files: FileMap) {
+  const previous = checkpointsStore.get();
+  const knownHashes = new Set(
+    previous.flatMap((checkpoint) =>
+      Object.values(checkpoint.files).flatMap((entry) => (entry.type === 'file' ? [entry.hash] : [])),
+    ),
+  );
+
+  const { entries, blobs } = await collectCheckpointEntries(files, knownHashes);
+
+  const id = getCheckpointId(chatId, messageId);
+  const existing = previous.find((checkpoint) => checkpoint.id === id);
+
+  const checkpoint: Checkpoint = {
+    id,
+    chatId,
+    messageId,
+    timestamp: existing?.timestamp ?? new Date().toISOString(),
+    files: entries,
+  };
+
+  await setCheckpoint(db, checkpoint, blobs);
+
+  checkpointsStore.set(
+    existing
+      ? previous.map((item) => (item.id === id ? checkpoint : item))
+      : [...previous.filter((item) => item.chatId === chatId), checkpoint],
+  );
+
+  logger.debug(`Recorded checkpoint ${id} with ${blobs.length} new blob(s)`);
+
+  if (existing) {
+    // the replaced checkpoint may have been the only one referencing some blobs
+    pruneFileBlobs(db).catch((error) => logger.error('Failed to prune checkpoint blobs', error));
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Resolves the blobs of a checkpoint back into a `FileMap`.
+ */
+export async function loadCheckpointFiles(db: IDBDatabase, checkpoint: Checkpoint): Promise<FileMap> {
+  const hashes = Object.values(checkpoint.files).flatMap((entry) => (entry.type === 'file' ? [entry.hash] : []));
+  const blobs = await getFileBlobs(db, hashes);
+  const files: FileMap = {};
+
+  for (const [filePath, entry] of Object.entries(checkpoint.files)) {
+    if (entry.type === 'folder') {
+      files[filePath] = { type: 'folder' };
+      continue;
+    }
+
+    const content = blobs.get(entry.hash);
+
+    if (content === undefined) {
+      logger.warn(`Missing blob ${entry.hash} for ${filePath}`);
+      continue;
+    }
+
+    files[filePath] = { type: 'file', content, isBinary: entry.isBinary };
+  }
+
+  return files;
+}
+
+/**
+ * Lists the files that differ between two checkpoints by comparing blob hashes.
+ */
+export function diffCheckpoints(from: Checkpoint, to: Checkpoint): CheckpointFileChange[] {
+  const changes: CheckpointFileChange[] = [];
+  const paths = new Set([...Object.keys(from.files), ...Object.keys(to.files)]);
+
+  for (const filePath of paths) {
+    const before = from.files[filePath];
+    const after = to.files[filePath];
+
+    if (before?.type === 'folder' || after?.type === 'folder') {
+      continue;
+    }
+
+    if (!before && after) {
+      changes.push({ path: filePath, type: 'added' });
+    } else if (before && !after) {
+      changes.push({ path: filePath, type: 'removed' });
+    } else if (before && after && before.hash !== after.hash) {
+      changes.push({ path: filePath, type: 'modified' });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Truncates the chat right after the checkpoint's message and makes the checkpoint the
+ * chat snapshot, so the next load of the chat restores the workspace from it. The later
+ * messages and their checkpoints stay in the message tree as a branch.
+ */
+export async function rewindToCheckpoint(db: IDBDatabase, checkpointId: string) {
+  const checkpoint = await getCheckpoint(db, checkpointId);
+
+  if (!checkpoint) {
+    throw new Error('Checkpoint not found');
+  }
+
+  const chat = await getMessages(db, checkpoint.chatId);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const messageIndex = chat.messages.findIndex((message) => message.id === checkpoint.messageId);
+
+  if (messageIndex === -1) {
+    throw new Error('Message not found');
+  }
+
+  const files = await loadCheckpointFiles(db, checkpoint);
+  const messages = chat.messages.slice(0, messageIndex + 1);
+  const tree = mergePath(await getMessageTree(db, chat.id), chat.id, chat.messages);
+
+  await setMessageTree(db, tree);
+  await setMessages(db, chat.id, messages, chat.urlId, chat.description, chat.timestamp, chat.metadata);
+  await setSnapshot(db, chat.id, { chatIndex: checkpoint.messageId, files });
+  await pruneCheckpoints(db, tree);
+
+  await loadCheckpoints(
+    db,
+    chat.id,
+    messages.map((message) => message.id),
+  );
+
+  return chat.urlId ?? chat.id;
+}
+
+/**
+ * Removes the checkpoints of messages that are in no branch of the chat's tree anymore, then
+ * the blobs that no checkpoint of any chat references. Returns the number of pruned blobs.
+ */
+export async function pruneCheckpoints(db: IDBDatabase, tree: MessageTree) {
+  const messageIds = new Set(tree.nodes.map((node) => node.message.id));
+  const orphaned = (await getCheckpoints(db, tree.chatId)).filter(
+    (checkpoint) => !messageIds.has(checkpoint.messageId),
+  );
+
+  if (orphaned.length > 0) {
+    await deleteCheckpoints(
+      db,
+      orphaned.map((checkpoint) => checkpoint.id),
+    );
+  }
+
+  const pruned = await pruneFileBlobs(db);
+
+  logger.debug(`Pruned ${orphaned.length} checkpoint(s) and ${pruned} blob(s) of chat ${tree.chatId}`);
+
+  return pruned;
+}
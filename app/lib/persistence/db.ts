@@ -1,12 +1,27 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
-import type { Snapshot } from './types'; // Import Snapshot type
+import type {
+  Checkpoint,
+  FileBlob,
+  MessageTree,
+  MigrationLedger,
+  Snapshot,
+  ToolAuditRecord,
+  UsageRecord,
+} from './types'; // Import Snapshot type
+import { removeChatFromSearchIndex, scheduleChatIndexing } from './search-index';
 
 export interface IChatMetadata {
-  gitUrl: string;
+  gitUrl?: string;
   gitBranch?: string;
   netlifySiteId?: string;
+
+  /** folder on disk the chat runs its project from in the desktop app */
+  projectFolder?: string;
+
+  /** steps of the edited plans in their order, keyed by the message that proposed the plan */
+  taskPlans?: Record<string, string[]>;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -19,7 +34,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 2);
+    const request = indexedDB.open('boltHistory', 8);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +53,56 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        if (!db.objectStoreNames.contains('checkpoints')) {
+          const store = db.createObjectStore('checkpoints', { keyPath: 'id' });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('fileBlobs')) {
+          db.createObjectStore('fileBlobs', { keyPath: 'hash' });
+        }
+      }
+
+      if (oldVersion < 4) {
+        if (!db.objectStoreNames.contains('usage')) {
+          const store = db.createObjectStore('usage', { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+      }
+
+      if (oldVersion < 5) {
+        // inverted index over the messages of all chats, see search-index.ts
+        if (!db.objectStoreNames.contains('searchDocuments')) {
+          const store = db.createObjectStore('searchDocuments', { keyPath: ['chatId', 'messageId'] });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('searchTerms')) {
+          const store = db.createObjectStore('searchTerms', { keyPath: ['term', 'chatId', 'messageId'] });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+      }
+
+      if (oldVersion < 6) {
+        if (!db.objectStoreNames.contains('messageTrees')) {
+          db.createObjectStore('messageTrees', { keyPath: 'chatId' });
+        }
+      }
+
+      if (oldVersion < 7) {
+        if (!db.objectStoreNames.contains('migrationLedgers')) {
+          db.createObjectStore('migrationLedgers', { keyPath: 'chatId' });
+        }
+      }
+
+      if (oldVersion < 8) {
+        if (!db.objectStoreNames.contains('toolAudit')) {
+          const store = db.createObjectStore('toolAudit', { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -89,7 +154,17 @@ export async function setMessages(
       metadata,
     });
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      scheduleChatIndexing(db, {
+        id,
+        messages,
+        urlId,
+        description,
+        timestamp: timestamp ?? new Date().toISOString(),
+        metadata,
+      });
+      resolve();
+    };
     request.onerror = () => reject(request.error);
   });
 }
@@ -122,14 +197,36 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 }
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
+  removeChatFromSearchIndex(db, id).catch((error) =>
+    logger.error(`Failed to remove chat ${id} from the search index`, error),
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(
+      ['chats', 'snapshots', 'checkpoints', 'messageTrees', 'migrationLedgers'],
+      'readwrite',
+    ); // Add snapshots store to transaction
     const chatStore = transaction.objectStore('chats');
     const snapshotStore = transaction.objectStore('snapshots');
 
     const deleteChatRequest = chatStore.delete(id);
     const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
 
+    // checkpoints are removed with the chat, their blobs are pruned afterwards since they can be shared
+    const checkpointStore = transaction.objectStore('checkpoints');
+
+    checkpointStore.index('chatId').openKeyCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+
+      if (cursor) {
+        checkpointStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.objectStore('messageTrees').delete(id);
+    transaction.objectStore('migrationLedgers').delete(id);
+
     let chatDeleted = false;
     let snapshotDeleted = false;
 
@@ -164,6 +261,8 @@ export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
     };
     transaction.onerror = () => reject(transaction.error);
   });
+
+  pruneFileBlobs(db).catch((error) => logger.error('Failed to prune checkpoint blobs', error));
 }
 
 export async function getNextId(db: IDBDatabase): Promise<string> {
@@ -341,3 +440,250 @@ export async function deleteSnapshot(db: IDBDatabase, chatId: string): Promise<v
     };
   });
 }
+
+export async function getMessageTree(db: IDBDatabase, chatId: string): Promise<MessageTree | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('messageTrees', 'readonly');
+    const store = transaction.objectStore('messageTrees');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve(request.result as MessageTree | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setMessageTree(db: IDBDatabase, tree: MessageTree): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('messageTrees', 'readwrite');
+    const store = transaction.objectStore('messageTrees');
+    const request = store.put(tree);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getMigrationLedger(db: IDBDatabase, chatId: string): Promise<MigrationLedger | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('migrationLedgers', 'readonly');
+    const store = transaction.objectStore('migrationLedgers');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve(request.result as MigrationLedger | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setMigrationLedger(db: IDBDatabase, ledger: MigrationLedger): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('migrationLedgers', 'readwrite');
+    const store = transaction.objectStore('migrationLedgers');
+    const request = store.put(ledger);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCheckpoints(db: IDBDatabase, chatId: string): Promise<Checkpoint[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readonly');
+    const store = transaction.objectStore('checkpoints');
+    const request = store.index('chatId').getAll(IDBKeyRange.only(chatId));
+
+    request.onsuccess = () =>
+      resolve((request.result as Checkpoint[]).sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCheckpoint(db: IDBDatabase, id: string): Promise<Checkpoint | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readonly');
+    const store = transaction.objectStore('checkpoints');
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve(request.result as Checkpoint | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores a checkpoint together with the blobs it references in a single transaction.
+ * Blobs that already exist are left untouched, so identical content is only stored once.
+ */
+export async function setCheckpoint(db: IDBDatabase, checkpoint: Checkpoint, blobs: FileBlob[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['checkpoints', 'fileBlobs'], 'readwrite');
+    const blobStore = transaction.objectStore('fileBlobs');
+
+    for (const blob of blobs) {
+      const countRequest = blobStore.count(blob.hash);
+
+      countRequest.onsuccess = () => {
+        if (countRequest.result === 0) {
+          blobStore.put(blob);
+        }
+      };
+    }
+
+    transaction.objectStore('checkpoints').put(checkpoint);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteCheckpoints(db: IDBDatabase, ids: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readwrite');
+    const store = transaction.objectStore('checkpoints');
+
+    ids.forEach((id) => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getFileBlobs(db: IDBDatabase, hashes: string[]): Promise<Map<string, string>> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('fileBlobs', 'readonly');
+    const store = transaction.objectStore('fileBlobs');
+    const blobs = new Map<string, string>();
+
+    for (const hash of new Set(hashes)) {
+      const request = store.get(hash);
+
+      request.onsuccess = () => {
+        if (request.result) {
+          blobs.set(hash, (request.result as FileBlob).content);
+        }
+      };
+    }
+
+    transaction.oncomplete = () => resolve(blobs);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Removes blobs that are no longer referenced by any checkpoint.
+ */
+export async function pruneFileBlobs(db: IDBDatabase): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['checkpoints', 'fileBlobs'], 'readwrite');
+    const checkpointRequest = transaction.objectStore('checkpoints').getAll();
+    let pruned = 0;
+
+    checkpointRequest.onsuccess = () => {
+      const referenced = new Set<string>();
+
+      for (const checkpoint of checkpointRequest.result as Checkpoint[]) {
+        for (const entry of Object.values(checkpoint.files)) {
+          if (entry.type === 'file') {
+            referenced.add(entry.hash);
+          }
+        }
+      }
+
+      const blobStore = transaction.objectStore('fileBlobs');
+
+      blobStore.openKeyCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+
+        if (!cursor) {
+          return;
+        }
+
+        if (!referenced.has(cursor.key as string)) {
+          blobStore.delete(cursor.key);
+          pruned++;
+        }
+
+        cursor.continue();
+      };
+    };
+
+    transaction.oncomplete = () => resolve(pruned);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function addUsageRecord(db: IDBDatabase, record: UsageRecord): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const store = transaction.objectStore('usage');
+    const request = store.put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Returns the usage records ordered by timestamp, optionally only those recorded at or after `since` (ISO string).
+ */
+export async function getUsageRecords(db: IDBDatabase, since?: string): Promise<UsageRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readonly');
+    const index = transaction.objectStore('usage').index('timestamp');
+    const request = index.getAll(since ? IDBKeyRange.lowerBound(since) : undefined);
+
+    request.onsuccess = () => resolve(request.result as UsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function clearUsageRecords(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const request = transaction.objectStore('usage').clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function putToolAuditRecord(db: IDBDatabase, record: ToolAuditRecord): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('toolAudit', 'readwrite');
+    const request = transaction.objectStore('toolAudit').put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getToolAuditRecord(db: IDBDatabase, id: string): Promise<ToolAuditRecord | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('toolAudit', 'readonly');
+    const request = transaction.objectStore('toolAudit').get(id);
+
+    request.onsuccess = () => resolve(request.result as ToolAuditRecord | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Returns the audit records of tool calls ordered by timestamp.
+ */
+export async function getToolAuditRecords(db: IDBDatabase): Promise<ToolAuditRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('toolAudit', 'readonly');
+    const request = transaction.objectStore('toolAudit').index('timestamp').getAll();
+
+    request.onsuccess = () => resolve(request.result as ToolAuditRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function clearToolAuditRecords(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('toolAudit', 'readwrite');
+    const request = transaction.objectStore('toolAudit').clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,54 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { getLatestLeafId, getParentPath, getPath, getSiblingIds, mergePath } from './message-tree';
+
+function message(id: string, role: Message['role'] = 'user', content = id): Message {
+  return { id, role, content };
+}
+
+const first = [message('u1'), message('a1', 'assistant'), message('u2'), message('a2', 'assistant')];
+const edited = [message('u1'), message('a1', 'assistant'), message('u2b'), message('a2b', 'assistant')];
+
+describe('mergePath', () => {
+  it('keeps every branch and updates known messages in place', () => {
+    let tree = mergePath(undefined, '1', first);
+    tree = mergePath(tree, '1', [...edited.slice(0, 3), message('a2b', 'assistant', 'partial')]);
+    tree = mergePath(tree, '1', edited);
+
+    expect(tree.nodes.map((node) => [node.message.id, node.parentId])).toEqual([
+      ['u1', undefined],
+      ['a1', 'u1'],
+      ['u2', 'a1'],
+      ['a2', 'u2'],
+      ['u2b', 'a1'],
+      ['a2b', 'u2b'],
+    ]);
+    expect(tree.nodes[5].message.content).toBe('a2b');
+  });
+
+  it('starts over for another chat', () => {
+    expect(mergePath(mergePath(undefined, '1', first), '2', edited).nodes).toHaveLength(4);
+  });
+});
+
+describe('navigating the tree', () => {
+  const tree = mergePath(mergePath(undefined, '1', first), '1', edited);
+
+  it('lists the siblings of a message', () => {
+    expect(getSiblingIds(tree, 'u2b')).toEqual(['u2', 'u2b']);
+    expect(getSiblingIds(tree, 'u1')).toEqual(['u1']);
+    expect(getSiblingIds(tree, 'missing')).toEqual([]);
+  });
+
+  it('follows a branch down to its newest message', () => {
+    expect(getLatestLeafId(tree, 'u2')).toBe('a2');
+    expect(getLatestLeafId(tree, 'u1')).toBe('a2b');
+    expect(getPath(tree, 'a2').map((item) => item.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('returns the path a new sibling continues from', () => {
+    expect(getParentPath(tree, 'u2')?.map((item) => item.id)).toEqual(['u1', 'a1']);
+    expect(getParentPath(tree, 'u1')).toEqual([]);
+    expect(getParentPath(tree, 'missing')).toBeUndefined();
+  });
+});
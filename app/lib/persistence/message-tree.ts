@@ -0,0 +1,90 @@
+import type { Message } from 'ai';
+import type { MessageNode, MessageTree } from './types';
+
+/**
+ * Adds the path of a branch to the tree. Messages already in the tree are updated in place, e.g. while
+ * an answer streams, and keep their parent.
+ */
+export function mergePath(tree: MessageTree | undefined, chatId: string, path: Message[]): MessageTree {
+  const nodes = tree?.chatId === chatId ? [...tree.nodes] : [];
+  const indexes = new Map(nodes.map((node, index) => [node.message.id, index]));
+
+  path.forEach((message, index) => {
+    const existing = indexes.get(message.id);
+
+    if (existing !== undefined) {
+      nodes[existing] = { ...nodes[existing], message };
+      return;
+    }
+
+    indexes.set(message.id, nodes.length);
+    nodes.push({ message, parentId: path[index - 1]?.id });
+  });
+
+  return { chatId, nodes };
+}
+
+function findNode(tree: MessageTree, messageId: string): MessageNode | undefined {
+  return tree.nodes.find((node) => node.message.id === messageId);
+}
+
+/**
+ * Messages from the start of the chat down to the given message
+ */
+export function getPath(tree: MessageTree, messageId: string): Message[] {
+  const nodes = new Map(tree.nodes.map((node) => [node.message.id, node]));
+  const path: Message[] = [];
+  let node = nodes.get(messageId);
+
+  while (node && path.length < nodes.size) {
+    path.unshift(node.message);
+    node = node.parentId ? nodes.get(node.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Messages sharing the parent of the given message, including itself, oldest first
+ */
+export function getSiblingIds(tree: MessageTree, messageId: string): string[] {
+  const node = findNode(tree, messageId);
+
+  if (!node) {
+    return [];
+  }
+
+  return tree.nodes.filter((sibling) => sibling.parentId === node.parentId).map((sibling) => sibling.message.id);
+}
+
+/**
+ * The end of the branch below a message, following the newest child at every fork
+ */
+export function getLatestLeafId(tree: MessageTree, messageId: string): string {
+  let leafId = messageId;
+
+  for (let depth = 0; depth < tree.nodes.length; depth++) {
+    const child = tree.nodes.findLast((node) => node.parentId === leafId);
+
+    if (!child) {
+      break;
+    }
+
+    leafId = child.message.id;
+  }
+
+  return leafId;
+}
+
+/**
+ * The path a new sibling of the given message continues from
+ */
+export function getParentPath(tree: MessageTree, messageId: string): Message[] | undefined {
+  const node = findNode(tree, messageId);
+
+  if (!node) {
+    return undefined;
+  }
+
+  return node.parentId ? getPath(tree, node.parentId) : [];
+}
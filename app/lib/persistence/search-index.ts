@@ -0,0 +1,266 @@
+import { createScopedLogger } from '~/utils/logger';
+import {
+  buildSearchDocuments,
+  createSnippet,
+  getIndexTerms,
+  isEmptyQuery,
+  matchesQuery,
+  parseSearchQuery,
+  type SearchChat,
+  type SearchDocument,
+  type SearchSnippet,
+} from './search';
+
+const logger = createScopedLogger('SearchIndex');
+
+const DOCUMENTS = 'searchDocuments';
+const TERMS = 'searchTerms';
+
+// chats are saved while the answer streams, they are indexed once the saves settle
+const INDEX_DELAY = 1500;
+
+// bump to rebuild the index of existing chats after the document format changed
+const INDEX_VERSION = '1';
+const INDEX_VERSION_KEY = 'bolt_search_index_version';
+
+export interface SearchResult {
+  chatId: string;
+  urlId?: string;
+  description?: string;
+  messageId: string;
+  role: SearchDocument['role'];
+  timestamp: string;
+  provider?: string;
+  snippet: SearchSnippet;
+}
+
+const pendingChats = new Map<string, { chat: SearchChat; timer: ReturnType<typeof setTimeout> }>();
+
+function sameChatFields(a: SearchDocument, b: SearchDocument) {
+  return (
+    a.urlId === b.urlId &&
+    a.description === b.description &&
+    a.timestamp === b.timestamp &&
+    a.hasDeploy === b.hasDeploy &&
+    a.messageIndex === b.messageIndex &&
+    a.provider === b.provider
+  );
+}
+
+/**
+ * Brings the index of a chat up to date, only the messages that changed get new postings
+ */
+export async function indexChat(db: IDBDatabase, chat: SearchChat): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS, TERMS], 'readwrite');
+    const documentStore = transaction.objectStore(DOCUMENTS);
+    const termStore = transaction.objectStore(TERMS);
+    const request = documentStore.index('chatId').getAll(IDBKeyRange.only(chat.id));
+
+    const removePostings = (document: SearchDocument) => {
+      for (const term of document.terms) {
+        termStore.delete([term, document.chatId, document.messageId]);
+      }
+    };
+
+    request.onsuccess = () => {
+      const previous = new Map((request.result as SearchDocument[]).map((document) => [document.messageId, document]));
+
+      for (const document of buildSearchDocuments(chat)) {
+        const existing = previous.get(document.messageId);
+        previous.delete(document.messageId);
+
+        if (existing?.hash === document.hash) {
+          if (!sameChatFields(existing, document)) {
+            documentStore.put(document);
+          }
+
+          continue;
+        }
+
+        if (existing) {
+          removePostings(existing);
+        }
+
+        documentStore.put(document);
+
+        for (const term of document.terms) {
+          termStore.put({ term, chatId: document.chatId, messageId: document.messageId });
+        }
+      }
+
+      // messages that are gone, e.g. after a rewind
+      for (const document of previous.values()) {
+        removePostings(document);
+        documentStore.delete([document.chatId, document.messageId]);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function removeChatFromSearchIndex(db: IDBDatabase, chatId: string): Promise<void> {
+  const pending = pendingChats.get(chatId);
+
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingChats.delete(chatId);
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS, TERMS], 'readwrite');
+
+    for (const storeName of [DOCUMENTS, TERMS]) {
+      const store = transaction.objectStore(storeName);
+
+      store.index('chatId').openKeyCursor(IDBKeyRange.only(chatId)).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+
+        if (cursor) {
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Indexes the chat once it was not saved for a moment
+ */
+export function scheduleChatIndexing(db: IDBDatabase, chat: SearchChat) {
+  clearTimeout(pendingChats.get(chat.id)?.timer);
+
+  const timer = setTimeout(() => {
+    pendingChats.delete(chat.id);
+    indexChat(db, chat).catch((error) => logger.error(`Failed to index chat ${chat.id}`, error));
+  }, INDEX_DELAY);
+
+  pendingChats.set(chat.id, { chat, timer });
+}
+
+function getChat(db: IDBDatabase, id: IDBValidKey): Promise<SearchChat | undefined> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('chats', 'readonly').objectStore('chats').get(id);
+
+    request.onsuccess = () => resolve(request.result as SearchChat | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Indexes the chats saved before the index existed, one chat at a time
+ */
+export async function ensureSearchIndex(db: IDBDatabase) {
+  if (localStorage.getItem(INDEX_VERSION_KEY) === INDEX_VERSION) {
+    return;
+  }
+
+  const ids = await new Promise<IDBValidKey[]>((resolve, reject) => {
+    const request = db.transaction('chats', 'readonly').objectStore('chats').getAllKeys();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  for (const id of ids) {
+    const chat = await getChat(db, id);
+
+    if (chat?.messages) {
+      await indexChat(db, chat);
+    }
+  }
+
+  localStorage.setItem(INDEX_VERSION_KEY, INDEX_VERSION);
+  logger.info(`Indexed ${ids.length} chats for search`);
+}
+
+function getPostingKeys(db: IDBDatabase, term: string): Promise<Set<string>> {
+  return new Promise((resolve, reject) => {
+    // every term starting with the query term, so results show up while typing
+    const range = IDBKeyRange.bound([term], [`${term}\uffff`]);
+    const request = db.transaction(TERMS, 'readonly').objectStore(TERMS).getAllKeys(range);
+
+    request.onsuccess = () =>
+      resolve(new Set((request.result as string[][]).map(([, chatId, messageId]) => `${chatId}\u0000${messageId}`)));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getDocuments(db: IDBDatabase, keys?: string[]): Promise<SearchDocument[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DOCUMENTS, 'readonly');
+    const store = transaction.objectStore(DOCUMENTS);
+    const documents: SearchDocument[] = [];
+
+    if (!keys) {
+      const request = store.getAll();
+      request.onsuccess = () => documents.push(...(request.result as SearchDocument[]));
+    } else {
+      for (const key of keys) {
+        const request = store.get(key.split('\u0000'));
+
+        request.onsuccess = () => {
+          if (request.result) {
+            documents.push(request.result as SearchDocument);
+          }
+        };
+      }
+    }
+
+    transaction.oncomplete = () => resolve(documents);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Messages of all chats matching the query, newest chats first
+ */
+export async function searchChatHistory(
+  db: IDBDatabase,
+  input: string,
+  limit = 50,
+): Promise<{ results: SearchResult[]; error?: string }> {
+  const query = parseSearchQuery(input);
+
+  if (query.error || isEmptyQuery(query)) {
+    return { results: [], error: query.error };
+  }
+
+  const terms = getIndexTerms(query);
+  let candidates: string[] | undefined;
+
+  for (const term of terms) {
+    const keys = await getPostingKeys(db, term);
+    candidates = candidates ? candidates.filter((key) => keys.has(key)) : [...keys];
+
+    if (candidates.length === 0) {
+      return { results: [] };
+    }
+  }
+
+  // without terms only a scan of all messages can answer regular expressions and filters
+  const documents = await getDocuments(db, candidates);
+
+  const results = documents
+    .filter((document) => matchesQuery(document, query))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || a.messageIndex - b.messageIndex)
+    .slice(0, limit)
+    .map((document) => ({
+      chatId: document.chatId,
+      urlId: document.urlId,
+      description: document.description,
+      messageId: document.messageId,
+      role: document.role,
+      timestamp: document.timestamp,
+      provider: document.provider,
+      snippet: createSnippet(document, query),
+    }));
+
+  return { results };
+}
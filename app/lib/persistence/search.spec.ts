@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSearchDocuments,
+  createSnippet,
+  extractMessageContent,
+  getIndexTerms,
+  matchesQuery,
+  parseSearchQuery,
+  tokenize,
+} from './search';
+
+const chat = {
+  id: '1',
+  urlId: 'todo-app',
+  description: 'Todo app',
+  timestamp: '2024-06-10T12:00:00.000Z',
+  metadata: { gitUrl: '', netlifySiteId: 'site-1' },
+  messages: [
+    {
+      id: 'm1',
+      role: 'user' as const,
+      content: '[Model: claude-3-5-sonnet]\n\n[Provider: Anthropic]\n\nBuild a todo app',
+    },
+    {
+      id: 'm2',
+      role: 'assistant' as const,
+      content: [
+        'Here is the app.',
+        '<boltArtifact id="todo" title="Todo">',
+        '<boltAction type="file" filePath="src/App.tsx">export function App() { return useTodos(); }</boltAction>',
+        '</boltArtifact>',
+      ].join('\n'),
+    },
+  ],
+};
+
+describe('tokenize', () => {
+  it('splits on punctuation and drops short tokens', () => {
+    expect(tokenize('Fix the useEffect() in src/App.tsx, a bug')).toEqual([
+      'fix',
+      'the',
+      'useeffect',
+      'in',
+      'src',
+      'app',
+      'tsx',
+      'bug',
+    ]);
+  });
+});
+
+describe('extractMessageContent', () => {
+  it('separates prose, code and file paths', () => {
+    const content = extractMessageContent(chat.messages[1].content);
+
+    expect(content.text).toBe('Here is the app.');
+    expect(content.code).toContain('useTodos');
+    expect(content.filePaths).toEqual(['src/App.tsx']);
+  });
+});
+
+describe('buildSearchDocuments', () => {
+  it('carries the provider of the request over to the answer', () => {
+    const [request, answer] = buildSearchDocuments(chat);
+
+    expect(request).toMatchObject({ text: 'Build a todo app', provider: 'Anthropic', hasDeploy: true });
+    expect(answer).toMatchObject({ provider: 'Anthropic', filePaths: ['src/App.tsx'] });
+    expect(answer.terms).toContain('usetodos');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('reads phrases, regular expressions and filters', () => {
+    const query = parseSearchQuery(
+      '"todo app" /use\\w+/i provider:anthropic after:2024-06-01 has:deploy path:src hooks',
+    );
+
+    expect(query).toMatchObject({
+      terms: ['hooks'],
+      phrases: ['todo app'],
+      filters: { provider: 'anthropic', hasDeploy: true, path: 'src' },
+    });
+    expect(query.regex?.flags).toBe('i');
+    expect(query.filters.after?.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+    expect(getIndexTerms(query)).toEqual(['hooks', 'todo', 'app']);
+  });
+
+  it('reports invalid regular expressions and dates', () => {
+    expect(parseSearchQuery('/(/').error).toContain('Invalid regular expression');
+    expect(parseSearchQuery('before:yesterday').error).toBe('Invalid date: yesterday');
+  });
+
+  it('treats unknown filters as terms', () => {
+    expect(parseSearchQuery('localhost:5173').terms).toEqual(['localhost', '5173']);
+  });
+});
+
+describe('matchesQuery', () => {
+  const [request, answer] = buildSearchDocuments(chat);
+
+  it('applies the filters', () => {
+    expect(matchesQuery(answer, parseSearchQuery('has:code path:app.tsx'))).toBe(true);
+    expect(matchesQuery(request, parseSearchQuery('has:code'))).toBe(false);
+    expect(matchesQuery(request, parseSearchQuery('provider:openai'))).toBe(false);
+    expect(matchesQuery(request, parseSearchQuery('before:2024-06-01'))).toBe(false);
+  });
+
+  it('checks phrases and regular expressions', () => {
+    expect(matchesQuery(request, parseSearchQuery('"a todo app"'))).toBe(true);
+    expect(matchesQuery(request, parseSearchQuery('"app todo"'))).toBe(false);
+    expect(matchesQuery(answer, parseSearchQuery('/useTodos\\(\\)/'))).toBe(true);
+  });
+});
+
+describe('createSnippet', () => {
+  it('highlights the match, preferring the prose', () => {
+    const [request, answer] = buildSearchDocuments(chat);
+
+    expect(createSnippet(request, parseSearchQuery('todo'))).toEqual({
+      text: 'Build a todo app',
+      highlights: [[8, 12]],
+    });
+    expect(createSnippet(answer, parseSearchQuery('usetodos')).text).toContain('useTodos');
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Full-text search over the chat history. Matching is lexical: terms, quoted phrases and regular expressions, narrowed
+ * by filters. There is no semantic matching, it would need embeddings of every message from a provider.
+ */
+
+import type { Message } from 'ai';
+import type { IChatMetadata } from './db';
+
+/**
+ * One message of a chat as stored in the search index, with the chat fields the filters need
+ */
+export interface SearchDocument {
+  chatId: string;
+  messageId: string;
+  messageIndex: number;
+  urlId?: string;
+  description?: string;
+  role: Message['role'];
+
+  // prose of the message without artifacts, code blocks and model markers
+  text: string;
+
+  // code blocks and the content of file actions
+  code: string;
+  filePaths: string[];
+  provider?: string;
+  model?: string;
+
+  // ISO timestamp of the chat
+  timestamp: string;
+  hasDeploy: boolean;
+
+  // unique terms of the message, kept to remove its postings when it changes
+  terms: string[];
+
+  // cheap fingerprint of the message content, unchanged messages are not indexed again
+  hash: string;
+}
+
+export interface SearchFilters {
+  provider?: string;
+  after?: Date;
+  before?: Date;
+  hasDeploy?: boolean;
+  hasCode?: boolean;
+  path?: string;
+  role?: 'user' | 'assistant';
+}
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  regex?: RegExp;
+  filters: SearchFilters;
+
+  // why the query cannot run, e.g. an invalid regular expression
+  error?: string;
+}
+
+export interface SearchSnippet {
+  text: string;
+
+  // ranges of the snippet text that matched
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchChat {
+  id: string;
+  urlId?: string;
+  description?: string;
+  messages: Message[];
+  timestamp: string;
+  metadata?: IChatMetadata;
+}
+
+const MIN_TERM_LENGTH = 2;
+
+// a message full of generated code should not flood the index
+const MAX_TERMS_PER_MESSAGE = 3000;
+const MAX_CODE_LENGTH = 50_000;
+
+const SNIPPET_CONTEXT = 60;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_$]+/u)
+    .filter((token) => token.length >= MIN_TERM_LENGTH);
+}
+
+function hashContent(content: string) {
+  let hash = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    hash = (hash * 31 + content.charCodeAt(i)) | 0;
+  }
+
+  return `${content.length}:${hash}`;
+}
+
+function getMessageText(message: Message) {
+  if (typeof message.content === 'string' && message.content) {
+    return message.content;
+  }
+
+  return (message.parts ?? []).map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+/**
+ * Splits the raw content of a message into prose, code and the files it touches
+ */
+export function extractMessageContent(content: string) {
+  const filePaths = new Set<string>();
+  const code: string[] = [];
+
+  const provider = content.match(/\[Provider: ([^\]\n]+)\]/)?.[1];
+  const model = content.match(/\[Model: ([^\]\n]+)\]/)?.[1];
+
+  const text = content
+    .replace(/\[(Model|Provider): [^\]\n]+\]\n*/g, '')
+    .replace(/<div class=\\?"__boltThought__\\?">[\s\S]*?<\/div>/g, '')
+    .replace(/<boltAction\b([^>]*)>([\s\S]*?)(<\/boltAction>|$)/g, (_, attributes: string, body: string) => {
+      const filePath = attributes.match(/filePath="([^"]+)"/)?.[1];
+
+      if (filePath) {
+        filePaths.add(filePath);
+      }
+
+      code.push(body.trim());
+
+      return '';
+    })
+    .replace(/```[^\n]*\n([\s\S]*?)(```|$)/g, (_, body: string) => {
+      code.push(body.trim());
+      return '';
+    })
+    .replace(/<\/?boltArtifact[^>]*>/g, '')
+    .replace(/<div class=\\?"__bolt\w+__\\?"[^>]*>[\s\S]*?<\/div>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    text,
+    code: code.filter(Boolean).join('\n\n').slice(0, MAX_CODE_LENGTH),
+    filePaths: [...filePaths],
+    provider,
+    model,
+  };
+}
+
+/**
+ * The search documents of a chat, one per visible message
+ */
+export function buildSearchDocuments(chat: SearchChat): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  const hasDeploy = !!chat.metadata?.netlifySiteId;
+  let provider: string | undefined;
+  let model: string | undefined;
+
+  chat.messages.forEach((message, messageIndex) => {
+    if (message.annotations?.includes('hidden') || (message.role !== 'user' && message.role !== 'assistant')) {
+      return;
+    }
+
+    const raw = getMessageText(message);
+    const content = extractMessageContent(raw);
+
+    // the answer inherits the model of the request
+    provider = content.provider ?? provider;
+    model = content.model ?? model;
+
+    const terms = new Set([
+      ...tokenize(content.text),
+      ...tokenize(content.code),
+      ...content.filePaths.flatMap((filePath) => tokenize(filePath)),
+    ]);
+
+    documents.push({
+      chatId: chat.id,
+      messageId: message.id,
+      messageIndex,
+      urlId: chat.urlId,
+      description: chat.description,
+      role: message.role,
+      text: content.text,
+      code: content.code,
+      filePaths: content.filePaths,
+      provider,
+      model,
+      timestamp: chat.timestamp,
+      hasDeploy,
+      terms: [...terms].slice(0, MAX_TERMS_PER_MESSAGE),
+      hash: hashContent(raw),
+    });
+  });
+
+  return documents;
+}
+
+function parseDate(value: string) {
+  const date = new Date(value);
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parses a query like `"use client" provider:anthropic after:2024-05-01 has:deploy /fetch\(.*\)/i path:src`
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], phrases: [], filters: {} };
+  const pattern = /"([^"]*)"|\/((?:\\.|[^/\\])+)\/([gimsuy]*)|(\w+):(\S+)|(\S+)/g;
+
+  for (const match of input.matchAll(pattern)) {
+    const [, phrase, regexSource, regexFlags, filterName, filterValue, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        query.phrases.push(phrase.trim().toLowerCase());
+      }
+    } else if (regexSource !== undefined) {
+      try {
+        query.regex = new RegExp(regexSource, regexFlags.replace('g', ''));
+      } catch (error) {
+        query.error = `Invalid regular expression: ${error instanceof Error ? error.message : regexSource}`;
+      }
+    } else if (filterName !== undefined) {
+      const name = filterName.toLowerCase();
+      const value = filterValue.toLowerCase();
+
+      if (name === 'provider') {
+        query.filters.provider = value;
+      } else if (name === 'after' || name === 'before') {
+        const date = parseDate(filterValue);
+
+        if (!date) {
+          query.error = `Invalid date: ${filterValue}`;
+        } else {
+          query.filters[name] = date;
+        }
+      } else if (name === 'has' && (value === 'deploy' || value === 'code')) {
+        query.filters[value === 'deploy' ? 'hasDeploy' : 'hasCode'] = true;
+      } else if (name === 'path' || name === 'file') {
+        query.filters.path = value;
+      } else if (name === 'from' && (value === 'user' || value === 'assistant')) {
+        query.filters.role = value;
+      } else {
+        // not a known filter, e.g. `localhost:5173`
+        query.terms.push(...tokenize(match[0]));
+      }
+    } else if (word !== undefined) {
+      query.terms.push(...tokenize(word));
+    }
+  }
+
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery) {
+  return query.terms.length === 0 && query.phrases.length === 0 && !query.regex && !hasFilters(query.filters);
+}
+
+function hasFilters(filters: SearchFilters) {
+  return Object.values(filters).some((value) => value !== undefined);
+}
+
+/**
+ * Terms the inverted index can answer, phrases contribute their words
+ */
+export function getIndexTerms(query: SearchQuery) {
+  return [...new Set([...query.terms, ...query.phrases.flatMap((phrase) => tokenize(phrase))])];
+}
+
+function searchableText(document: SearchDocument) {
+  return [document.text, document.code, document.filePaths.join('\n')].join('\n');
+}
+
+/**
+ * Checks what the index cannot: filters, phrases and the regular expression
+ */
+export function matchesQuery(document: SearchDocument, query: SearchQuery) {
+  const { filters } = query;
+
+  if (filters.provider && !document.provider?.toLowerCase().includes(filters.provider)) {
+    return false;
+  }
+
+  const timestamp = new Date(document.timestamp).getTime();
+
+  if (
+    (filters.after && timestamp < filters.after.getTime()) ||
+    (filters.before && timestamp > filters.before.getTime())
+  ) {
+    return false;
+  }
+
+  if (
+    (filters.hasDeploy && !document.hasDeploy) ||
+    (filters.hasCode && !document.code) ||
+    (filters.role && document.role !== filters.role)
+  ) {
+    return false;
+  }
+
+  if (filters.path && !document.filePaths.some((filePath) => filePath.toLowerCase().includes(filters.path!))) {
+    return false;
+  }
+
+  const text = searchableText(document);
+  const lowerText = text.toLowerCase();
+
+  if (query.phrases.some((phrase) => !lowerText.includes(phrase))) {
+    return false;
+  }
+
+  return !query.regex || query.regex.test(text);
+}
+
+function findMatch(text: string, query: SearchQuery): [number, number] | undefined {
+  if (query.regex) {
+    const match = query.regex.exec(text);
+
+    if (match && match[0]) {
+      return [match.index, match.index + match[0].length];
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+
+  for (const needle of [...query.phrases, ...query.terms]) {
+    const index = lowerText.indexOf(needle);
+
+    if (index >= 0) {
+      return [index, index + needle.length];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Part of the message around the first match, the prose is preferred over code
+ */
+export function createSnippet(document: SearchDocument, query: SearchQuery): SearchSnippet {
+  for (const source of [document.text, document.code, document.filePaths.join(', ')]) {
+    const match = source ? findMatch(source, query) : undefined;
+
+    if (!match) {
+      continue;
+    }
+
+    const start = Math.max(match[0] - SNIPPET_CONTEXT, 0);
+    const end = Math.min(match[1] + SNIPPET_CONTEXT, source.length);
+    const prefix = start > 0 ? '...' : '';
+    const text = `${prefix}${source.slice(start, end).replace(/\s+/g, ' ')}${end < source.length ? '...' : ''}`;
+
+    // whitespace runs collapse, the match is searched again in the snippet
+    const highlight = findMatch(text, query);
+
+    return { text, highlights: highlight ? [highlight] : [] };
+  }
+
+  const text = (document.text || document.code).slice(0, SNIPPET_CONTEXT * 2).replace(/\s+/g, ' ');
+
+  return { text, highlights: [] };
+}
@@ -1,3 +1,4 @@
+import type { Message } from 'ai';
 import type { FileMap } from '~/lib/stores/files';
 
 export interface Snapshot {
@@ -5,3 +6,106 @@ export interface Snapshot {
   files: FileMap;
   summary?: string;
 }
+
+export type CheckpointEntry = { type: 'file'; hash: string; isBinary: boolean } | { type: 'folder' };
+
+/**
+ * Workspace state recorded after an AI turn. File contents are not stored inline,
+ * each file points to a content-addressed blob shared across checkpoints.
+ */
+export interface Checkpoint {
+  id: string;
+  chatId: string;
+  messageId: string;
+  timestamp: string;
+  label?: string;
+  files: Record<string, CheckpointEntry>;
+}
+
+export interface MessageNode {
+  message: Message;
+
+  /** undefined for the first message of the chat */
+  parentId?: string;
+}
+
+/**
+ * Every message of every branch of a chat. The `messages` of the chat are the path of the selected branch.
+ */
+export interface MessageTree {
+  chatId: string;
+
+  /** in the order the messages were first stored, so siblings keep their order */
+  nodes: MessageNode[];
+}
+
+export interface MigrationLedgerEntry {
+  version: string;
+  name: string;
+  filePath?: string;
+
+  /** hash of the migration file when it was applied, to notice later edits */
+  checksum: string;
+  projectId: string;
+  status: 'applied' | 'failed';
+  appliedAt: string;
+  error?: string;
+}
+
+/**
+ * Supabase migrations applied from a chat, in the order they were run.
+ */
+export interface MigrationLedger {
+  chatId: string;
+  entries: MigrationLedgerEntry[];
+}
+
+export interface FileBlob {
+  hash: string;
+  content: string;
+}
+
+/**
+ * One entry of the usage ledger, recorded for every completed LLM request.
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  source: 'chat' | 'agent';
+  chatId?: string;
+  messageId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+
+  /** USD, undefined when the model has no pricing */
+  cost?: number;
+}
+
+/**
+ * How a tool call was let through or stopped, `auto-*` decisions come from the MCP permission policy.
+ */
+export type ToolAuditDecision = 'approved' | 'rejected' | 'auto-approved' | 'auto-denied';
+
+/**
+ * One entry of the MCP audit log, recorded for every tool call the model makes.
+ */
+export interface ToolAuditRecord {
+  /** the id of the tool call */
+  id: string;
+  timestamp: string;
+  chatId?: string;
+  serverName: string;
+  toolName: string;
+  args: unknown;
+  decision: ToolAuditDecision;
+
+  /** the policy rule or session approval behind an automatic decision */
+  reason?: string;
+  status: 'pending' | 'success' | 'error' | 'denied';
+  result?: unknown;
+}
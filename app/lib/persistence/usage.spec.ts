@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageRecord } from './types';
+import { getBudgetPeriodStart, groupUsage, summarizeUsage } from './usage';
+
+function createRecord(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: Math.random().toString(36),
+    timestamp: '2025-01-15T10:00:00.000Z',
+    source: 'chat',
+    chatId: '1',
+    provider: 'OpenAI',
+    model: 'gpt-4o',
+    promptTokens: 1000,
+    completionTokens: 500,
+    cachedPromptTokens: 0,
+    totalTokens: 1500,
+    latencyMs: 2000,
+    cost: 0.01,
+    ...overrides,
+  };
+}
+
+describe('summarizeUsage', () => {
+  it('should sum tokens and cost and average the latency', () => {
+    const summary = summarizeUsage([
+      createRecord({ cost: 0.01, latencyMs: 1000 }),
+      createRecord({ cost: 0.03, latencyMs: 3000, cachedPromptTokens: 200 }),
+    ]);
+
+    expect(summary.requests).toBe(2);
+    expect(summary.totalTokens).toBe(3000);
+    expect(summary.cachedPromptTokens).toBe(200);
+    expect(summary.cost).toBeCloseTo(0.04);
+    expect(summary.averageLatencyMs).toBe(2000);
+  });
+
+  it('should count requests without pricing separately', () => {
+    const summary = summarizeUsage([createRecord({ cost: undefined }), createRecord({ cost: 0.02 })]);
+
+    expect(summary.cost).toBeCloseTo(0.02);
+    expect(summary.unpricedRequests).toBe(1);
+  });
+});
+
+describe('groupUsage', () => {
+  it('should group by key and sort by cost', () => {
+    const groups = groupUsage(
+      [
+        createRecord({ provider: 'OpenAI', cost: 0.01 }),
+        createRecord({ provider: 'Anthropic', cost: 0.05 }),
+        createRecord({ provider: 'OpenAI', cost: 0.02 }),
+      ],
+      (record) => record.provider,
+    );
+
+    expect(groups.map((group) => group.key)).toEqual(['Anthropic', 'OpenAI']);
+    expect(groups[1].summary.requests).toBe(2);
+    expect(groups[1].summary.cost).toBeCloseTo(0.03);
+  });
+});
+
+describe('getBudgetPeriodStart', () => {
+  it('should return the start of the day or month', () => {
+    const now = new Date(2025, 0, 15, 13, 30);
+
+    expect(getBudgetPeriodStart('daily', now)).toEqual(new Date(2025, 0, 15));
+    expect(getBudgetPeriodStart('monthly', now)).toEqual(new Date(2025, 0, 1));
+  });
+});
@@ -0,0 +1,97 @@
+import type { UsageRecord } from './types';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface UsageSummary {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens: number;
+  totalTokens: number;
+  cost: number;
+
+  /** Requests whose model had no pricing, their cost is missing from `cost` */
+  unpricedRequests: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageGroup {
+  key: string;
+  summary: UsageSummary;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    requests: records.length,
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedPromptTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+    averageLatencyMs: 0,
+  };
+
+  let totalLatency = 0;
+
+  for (const record of records) {
+    summary.promptTokens += record.promptTokens;
+    summary.completionTokens += record.completionTokens;
+    summary.cachedPromptTokens += record.cachedPromptTokens;
+    summary.totalTokens += record.totalTokens;
+    totalLatency += record.latencyMs;
+
+    if (record.cost === undefined) {
+      summary.unpricedRequests++;
+    } else {
+      summary.cost += record.cost;
+    }
+  }
+
+  if (records.length > 0) {
+    summary.averageLatencyMs = totalLatency / records.length;
+  }
+
+  return summary;
+}
+
+/**
+ * Groups the records by the given key and summarizes each group, most expensive first.
+ */
+export function groupUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string): UsageGroup[] {
+  const groups = new Map<string, UsageRecord[]>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    const group = groups.get(key);
+
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+
+  return Array.from(groups, ([key, items]) => ({ key, summary: summarizeUsage(items) })).sort(
+    (a, b) => b.summary.cost - a.summary.cost || b.summary.totalTokens - a.summary.totalTokens,
+  );
+}
+
+/**
+ * Local calendar day of a timestamp, formatted as YYYY-MM-DD.
+ */
+export function getUsageDay(timestamp: string) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function getBudgetPeriodStart(period: BudgetPeriod, now = new Date()) {
+  if (period === 'daily') {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
@@ -15,13 +15,17 @@ import {
   createChatFromMessages,
   getSnapshot,
   setSnapshot,
+  getMessageTree,
   type IChatMetadata,
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
 import type { Snapshot } from './types';
-import { webcontainer } from '~/lib/webcontainer';
+import { selectProjectRuntime, webcontainer } from '~/lib/webcontainer';
+import { takePendingProjectFolder } from '~/lib/webcontainer/native';
 import { detectProjectCommands, createCommandActionsString } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
+import { checkpointsStore, loadCheckpoints, recordCheckpoint } from './checkpoints';
+import { loadMessageTree, messageTreeStore, storeBranch } from './branches';
 
 export interface ChatHistoryItem {
   id: string;
@@ -39,6 +43,47 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+/*
+ * `storeMessageHistory` runs on every streamed chunk, so checkpoints are only recorded once the
+ * workspace has settled. The files are read when the timer fires, not when it is scheduled.
+ */
+const CHECKPOINT_DELAY = 2000;
+
+let pendingCheckpoint: { id: string; messageId: string; timeout: ReturnType<typeof setTimeout> } | undefined;
+
+/**
+ * Records the scheduled checkpoint right away, before the workspace switches to another chat
+ */
+function flushCheckpoint() {
+  const checkpoint = pendingCheckpoint;
+
+  if (!checkpoint) {
+    return;
+  }
+
+  clearTimeout(checkpoint.timeout);
+  pendingCheckpoint = undefined;
+
+  if (!db) {
+    return;
+  }
+
+  recordCheckpoint(db, checkpoint.id, checkpoint.messageId, workbenchStore.files.get()).catch((error) => {
+    console.error('Failed to record checkpoint:', error);
+  });
+}
+
+function scheduleCheckpoint(id: string, messageId: string) {
+  // the files still belong to the chat of the pending checkpoint
+  if (pendingCheckpoint && pendingCheckpoint.id !== id) {
+    flushCheckpoint();
+  }
+
+  clearTimeout(pendingCheckpoint?.timeout);
+  pendingCheckpoint = { id, messageId, timeout: setTimeout(flushCheckpoint, CHECKPOINT_DELAY) };
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -51,6 +96,7 @@ export function useChatHistory() {
 
   useEffect(() => {
     if (!db) {
+      selectProjectRuntime();
       setReady(true);
 
       if (persistenceEnabled) {
@@ -62,18 +108,31 @@ export function useChatHistory() {
       return;
     }
 
+    // the checkpoint of the previous chat is taken before its files are replaced
+    flushCheckpoint();
+
     if (mixedId) {
       Promise.all([
         getMessages(db, mixedId),
         getSnapshot(db, mixedId), // Fetch snapshot from DB
       ])
         .then(async ([storedMessages, snapshot]) => {
-          if (storedMessages && storedMessages.messages.length > 0) {
+          /*
+           * chats running from a local folder keep their files on disk, they take no snapshots and the workbench
+           * does not replay the file and command actions of their reloaded messages
+           */
+          const projectFolder = storedMessages?.metadata?.projectFolder;
+          selectProjectRuntime(projectFolder);
+
+          // a chat branching from its first message has no messages until the new prompt is sent
+          const hasBranches = !!storedMessages && !!(await getMessageTree(db, storedMessages.id))?.nodes.length;
+
+          if (storedMessages && (storedMessages.messages.length > 0 || hasBranches)) {
             /*
              * const snapshotStr = localStorage.getItem(`snapshot:${mixedId}`); // Remove localStorage usage
              * const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} }; // Use snapshot from DB
              */
-            const validSnapshot = snapshot || { chatIndex: '', files: {} }; // Ensure snapshot is not undefined
+            const validSnapshot = (!projectFolder && snapshot) || { chatIndex: '', files: {} }; // Ensure snapshot is not undefined
             const summary = validSnapshot.summary;
 
             const rewindId = searchParams.get('rewindTo');
@@ -170,6 +229,7 @@ ${value.content}
                  */
                 ...filteredMessages,
               ];
+
               restoreSnapshot(mixedId);
             }
 
@@ -179,6 +239,13 @@ ${value.content}
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
             chatMetadata.set(storedMessages.metadata);
+
+            await loadMessageTree(db, storedMessages.id, storedMessages.messages);
+            await loadCheckpoints(
+              db,
+              storedMessages.id,
+              storedMessages.messages.map((message) => message.id),
+            );
           } else {
             navigate('/', { replace: true });
           }
@@ -187,12 +254,20 @@ ${value.content}
         })
         .catch((error) => {
           console.error(error);
+          selectProjectRuntime();
 
           logStore.logError('Failed to load chat messages or snapshot', error); // Updated error message
           toast.error('Failed to load chat: ' + error.message); // More specific error
         });
     } else {
       // Handle case where there is no mixedId (e.g., new chat)
+      const projectFolder = takePendingProjectFolder();
+
+      chatMetadata.set(projectFolder ? { projectFolder } : undefined);
+
+      selectProjectRuntime(projectFolder);
+      checkpointsStore.set([]);
+      messageTreeStore.set(undefined);
       setReady(true);
     }
   }, [mixedId, db, navigate, searchParams]); // Added db, navigate, searchParams dependencies
@@ -201,7 +276,8 @@ ${value.content}
     async (chatIdx: string, files: FileMap, _chatId?: string | undefined, chatSummary?: string) => {
       const id = chatId.get();
 
-      if (!id || !db) {
+      // the files of a chat running from a local folder stay on disk
+      if (!id || !db || chatMetadata.get()?.projectFolder) {
         return;
       }
 
@@ -341,6 +417,14 @@ ${value.content}
         undefined,
         chatMetadata.get(),
       );
+
+      await storeBranch(db, finalChatId, [...archivedMessages, ...messages]);
+
+      const lastAssistantMessage = messages.findLast((message) => message.role === 'assistant');
+
+      if (lastAssistantMessage) {
+        scheduleCheckpoint(finalChatId, lastAssistantMessage.id);
+      }
     },
     duplicateCurrentChat: async (listItemId: string) => {
       if (!db || (!mixedId && !listItemId)) {
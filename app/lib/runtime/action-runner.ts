@@ -5,6 +5,8 @@ import type { ActionAlert, BoltAction, DeployAlert, FileHistory, SupabaseAction,
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
+import { applyEditHunks, EditHunkError, parseEditHunks } from './edit-hunks';
+import type { FileChangeStager } from './change-review';
 import type { BoltShell } from '~/utils/shell';
 
 const logger = createScopedLogger('ActionRunner');
@@ -29,8 +31,7 @@ export type ActionState = BaseActionState | FailedActionState;
 type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
 
 export type ActionStateUpdate =
-  | BaseActionUpdate
-  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
+  BaseActionUpdate | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
@@ -67,6 +68,7 @@ export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => BoltShell;
+  #stager?: FileChangeStager;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
@@ -80,15 +82,27 @@ export class ActionRunner {
     onAlert?: (alert: ActionAlert) => void,
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
     onDeployAlert?: (alert: DeployAlert) => void,
+    stager?: FileChangeStager,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
+    this.#stager = stager;
     this.onAlert = onAlert;
     this.onSupabaseAlert = onSupabaseAlert;
     this.onDeployAlert = onDeployAlert;
   }
 
-  addAction(data: ActionCallbackData) {
+  /**
+   * Whether file and edit actions are staged for review instead of being written to the project
+   */
+  get isReviewing() {
+    return this.#stager?.isEnabled() ?? false;
+  }
+
+  /**
+   * Adds an action to run, actions added as `executed` are shown as complete and never run
+   */
+  addAction(data: ActionCallbackData, executed = false) {
     const { actionId } = data;
 
     const actions = this.actions.get();
@@ -103,8 +117,8 @@ export class ActionRunner {
 
     this.actions.setKey(actionId, {
       ...data.action,
-      status: 'pending',
-      executed: false,
+      status: executed ? 'complete' : 'pending',
+      executed,
       abort: () => {
         abortController.abort();
         this.#updateAction(actionId, { status: 'aborted' });
@@ -112,6 +126,10 @@ export class ActionRunner {
       abortSignal: abortController.signal,
     });
 
+    if (executed) {
+      return;
+    }
+
     this.#currentExecutionPromise.then(() => {
       this.#updateAction(actionId, { status: 'running' });
     });
@@ -163,6 +181,20 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'edit': {
+          try {
+            await this.#runEditAction(action);
+          } catch (error: any) {
+            this.#updateAction(actionId, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Edit action failed',
+            });
+
+            // a failed edit must not block the remaining actions of the artifact
+            return;
+          }
+          break;
+        }
         case 'supabase': {
           try {
             await this.handleSupabaseAction(action as SupabaseAction);
@@ -316,6 +348,22 @@ export class ActionRunner {
     const webcontainer = await this.#webcontainer;
     const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
 
+    if (this.#stager?.isEnabled()) {
+      const fullPath = nodePath.join(webcontainer.workdir, relativePath);
+      let before: string | undefined;
+
+      try {
+        before = await webcontainer.fs.readFile(relativePath, 'utf-8');
+      } catch {
+        // new file
+      }
+
+      this.#stager.stage(fullPath, before, action.content);
+      logger.debug(`File staged for review ${relativePath}`);
+
+      return;
+    }
+
     let folder = nodePath.dirname(relativePath);
 
     // remove trailing slashes
@@ -338,6 +386,100 @@ export class ActionRunner {
     }
   }
 
+  async #runEditAction(action: ActionState) {
+    if (action.type !== 'edit') {
+      unreachable('Expected edit action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+    const fullPath = nodePath.join(webcontainer.workdir, relativePath);
+    const reviewing = this.#stager?.isEnabled() ?? false;
+
+    let original: string;
+
+    try {
+      // in review mode an earlier action of the artifact may have staged the file already
+      original =
+        (reviewing ? this.#stager?.getStagedContent(fullPath) : undefined) ??
+        (await webcontainer.fs.readFile(relativePath, 'utf-8'));
+    } catch (error) {
+      logger.error('Failed to read file for edit\n\n', error);
+
+      this.onAlert?.({
+        type: 'error',
+        title: 'Edit Failed',
+        description: `Cannot edit ${action.filePath} because the file does not exist`,
+        content: `The file \`${action.filePath}\` could not be read. Create it with a \`file\` action instead of an \`edit\` action.`,
+        source: 'edit',
+        filePath: action.filePath,
+      });
+
+      throw new Error(`File not found: ${action.filePath}`);
+    }
+
+    const hunks = parseEditHunks(action.content);
+
+    if (hunks.length === 0) {
+      this.onAlert?.({
+        type: 'error',
+        title: 'Edit Failed',
+        description: `No search/replace blocks or diff hunks found for ${action.filePath}`,
+        content: action.content,
+        source: 'edit',
+        filePath: action.filePath,
+      });
+
+      throw new Error(`Edit action for ${action.filePath} contains no hunks`);
+    }
+
+    let updated: string;
+
+    try {
+      updated = applyEditHunks(original, hunks);
+    } catch (error) {
+      if (!(error instanceof EditHunkError)) {
+        throw error;
+      }
+
+      this.onAlert?.({
+        type: 'error',
+        title: 'Edit Failed',
+        description: `${error.message} (${action.filePath})`,
+        content: this.#formatEditFailure(action.filePath, original, error),
+        source: 'edit',
+        filePath: action.filePath,
+      });
+
+      throw error;
+    }
+
+    if (reviewing) {
+      this.#stager?.stage(fullPath, original, updated);
+      logger.debug(`Staged ${hunks.length} hunk(s) for review in ${relativePath}`);
+
+      return;
+    }
+
+    await webcontainer.fs.writeFile(relativePath, updated);
+    logger.debug(`Applied ${hunks.length} hunk(s) to ${relativePath}`);
+  }
+
+  #formatEditFailure(filePath: string, original: string, error: EditHunkError) {
+    const maxFileLength = 8000;
+    const current = original.length > maxFileLength ? `${original.slice(0, maxFileLength)}\n... (truncated)` : original;
+
+    return [
+      `File: ${filePath}`,
+      `Hunk: #${error.hunkIndex + 1} (${error.reason})`,
+      '',
+      'Search block:',
+      error.hunk.search,
+      'Current file content:',
+      current,
+    ].join('\n');
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -478,6 +620,7 @@ export class ActionRunner {
           description: `Create migration file: ${filePath}`,
           content,
           source: 'supabase',
+          filePath,
         });
 
         // Only create the migration file
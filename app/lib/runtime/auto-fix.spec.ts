@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AutoFixLoop, getErrorFingerprint, isIgnoredError, type CapturedError } from './auto-fix';
+
+const typeError: CapturedError = {
+  source: 'preview',
+  title: 'Uncaught Exception',
+  message: "Cannot read properties of undefined (reading 'map')",
+};
+
+describe('getErrorFingerprint', () => {
+  it('ignores locations and cache busting queries', () => {
+    const first = getErrorFingerprint({ ...typeError, message: 'Failed at /src/App.tsx?t=1712:12:5' });
+    const second = getErrorFingerprint({ ...typeError, message: 'Failed at /src/App.tsx?t=1999:14:9' });
+
+    expect(first).toBe(second);
+  });
+
+  it('groups console and overlay errors with the preview', () => {
+    expect(getErrorFingerprint({ ...typeError, source: 'console' })).toBe(getErrorFingerprint(typeError));
+    expect(getErrorFingerprint({ ...typeError, source: 'terminal' })).not.toBe(getErrorFingerprint(typeError));
+  });
+});
+
+describe('isIgnoredError', () => {
+  it('skips dev tooling noise', () => {
+    expect(isIgnoredError({ ...typeError, source: 'console', message: 'Warning: Each child needs a key' })).toBe(true);
+    expect(isIgnoredError({ ...typeError, message: '  ' })).toBe(true);
+    expect(isIgnoredError(typeError)).toBe(false);
+  });
+});
+
+describe('AutoFixLoop', () => {
+  let busy = false;
+  let send: ReturnType<typeof vi.fn>;
+  let loop: AutoFixLoop;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    busy = false;
+    send = vi.fn(() => {
+      busy = true;
+      return Promise.resolve(true);
+    });
+    loop = new AutoFixLoop({ maxAttempts: 2, settleDelay: 100, verifyDelay: 1000 });
+    loop.attach({ send, isBusy: () => busy });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const finishResponse = () => {
+    busy = false;
+    loop.responseFinished();
+  };
+
+  it('sends the deduped errors of a burst as one fix request', () => {
+    loop.report(typeError);
+    loop.report(typeError);
+    loop.report({ source: 'terminal', title: 'Build Failed', message: 'exit code 1' });
+    vi.advanceTimersByTime(100);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toContain('Auto-fix attempt 1 of 2');
+    expect(send.mock.calls[0][0]).toContain('seen 2 times');
+    expect(send.mock.calls[0][0]).toContain('Build Failed');
+    expect(loop.status.get()).toMatchObject({ state: 'fixing', attempt: 1 });
+  });
+
+  it('counts the preview as fixed when it loads without errors', () => {
+    loop.report(typeError);
+    vi.advanceTimersByTime(100);
+    finishResponse();
+
+    loop.previewLoaded();
+    vi.advanceTimersByTime(100);
+
+    expect(loop.status.get()).toMatchObject({ state: 'fixed', attempt: 0 });
+  });
+
+  it('stops once the attempts are used up', () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      loop.report(typeError);
+      vi.advanceTimersByTime(100);
+      finishResponse();
+    }
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0]).toContain('still happening after the previous fix');
+    expect(loop.status.get()).toMatchObject({ state: 'exhausted', errors: [expect.objectContaining(typeError)] });
+
+    loop.report(typeError);
+    vi.advanceTimersByTime(1000);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the chat drops the fix request', async () => {
+    send.mockImplementation(() => Promise.resolve(false));
+
+    loop.report(typeError);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(loop.status.get()).toMatchObject({ state: 'exhausted', errors: [expect.objectContaining(typeError)] });
+
+    loop.reset();
+    expect(loop.status.get().state).toBe('idle');
+  });
+});
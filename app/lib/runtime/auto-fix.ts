@@ -0,0 +1,297 @@
+/**
+ * Opt-in loop that sends the runtime errors of the project back to the model: errors of the preview and failed
+ * commands are collected, deduped and sent as a fix request, until the preview runs cleanly or the attempts run out.
+ */
+
+import { atom, type WritableAtom } from 'nanostores';
+import type { ActionAlert } from '~/types/actions';
+
+export type CapturedErrorSource = 'preview' | 'console' | 'vite' | 'terminal';
+
+export interface CapturedError {
+  source: CapturedErrorSource;
+  title: string;
+  message: string;
+
+  // stack trace, code frame or command output
+  details?: string;
+}
+
+export interface CollectedError extends CapturedError {
+  fingerprint: string;
+  occurrences: number;
+}
+
+export type AutoFixState = 'idle' | 'collecting' | 'fixing' | 'verifying' | 'fixed' | 'exhausted' | 'stopped';
+
+export interface AutoFixStatus {
+  state: AutoFixState;
+  attempt: number;
+  maxAttempts: number;
+
+  // errors of the current attempt, or the ones left when the attempts ran out
+  errors: CollectedError[];
+}
+
+/**
+ * What the loop needs from the chat
+ */
+export interface AutoFixClient {
+  // resolves to false when the chat dropped the message, e.g. because the budget is exceeded
+  send(message: string): Promise<boolean>;
+
+  // true while the model responds or the actions of its response still run
+  isBusy(): boolean;
+}
+
+export interface AutoFixOptions {
+  maxAttempts?: number;
+
+  // quiet time before collected errors are sent, so the errors of one reload go out together
+  settleDelay?: number;
+
+  // how long the project has to stay free of errors after a fix before it counts as fixed
+  verifyDelay?: number;
+}
+
+const MAX_DETAILS_LENGTH = 2000;
+
+// console noise of dev tooling that is no runtime error of the project
+const IGNORED_MESSAGES = [
+  /^Warning: /,
+  /^\[vite\] (server connection lost|failed to connect to websocket)/i,
+  /^Download the React DevTools/,
+];
+
+/**
+ * Errors that differ only in line numbers, cache busting queries or ids are the same error
+ */
+export function getErrorFingerprint(error: CapturedError) {
+  const firstLine = error.message.split('\n')[0];
+  const normalized = firstLine
+    .replace(/\?[tv]=\w+/g, '')
+    .replace(/:\d+(:\d+)?/g, '')
+    .replace(/\b[0-9a-f]{8,}\b/gi, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return `${error.source === 'console' || error.source === 'vite' ? 'preview' : error.source}:${normalized}`;
+}
+
+export function isIgnoredError(error: CapturedError) {
+  return !error.message.trim() || IGNORED_MESSAGES.some((pattern) => pattern.test(error.message));
+}
+
+/**
+ * Runtime error of an action alert, alerts about failed edits are no runtime errors
+ */
+export function fromActionAlert(alert: ActionAlert): CapturedError | undefined {
+  if (alert.source !== 'preview' && alert.source !== 'terminal') {
+    return undefined;
+  }
+
+  return { source: alert.source, title: alert.title, message: alert.description, details: alert.content };
+}
+
+function truncate(text: string) {
+  return text.length > MAX_DETAILS_LENGTH ? `${text.slice(0, MAX_DETAILS_LENGTH)}\n...` : text;
+}
+
+export function formatAutoFixMessage(
+  errors: CollectedError[],
+  attempt: number,
+  maxAttempts: number,
+  persisting: Set<string> = new Set(),
+) {
+  const sections = errors.map((error) => {
+    const notes = [
+      error.occurrences > 1 ? `seen ${error.occurrences} times` : undefined,
+      persisting.has(error.fingerprint) ? 'still happening after the previous fix' : undefined,
+    ].filter(Boolean);
+    const heading = `**${error.title}** (${error.source}${notes.length > 0 ? `, ${notes.join(', ')}` : ''})`;
+    const body = [error.message, error.details].filter(Boolean).join('\n\n');
+
+    return `${heading}\n\`\`\`${error.source === 'terminal' ? 'sh' : 'js'}\n${truncate(body)}\n\`\`\``;
+  });
+
+  return [
+    `*Auto-fix attempt ${attempt} of ${maxAttempts}*`,
+    `The project reports ${errors.length === 1 ? 'this error' : 'these errors'} at runtime. Find the root cause and fix it, do not only silence the error.`,
+    ...sections,
+  ].join('\n\n');
+}
+
+export class AutoFixLoop {
+  status: WritableAtom<AutoFixStatus>;
+
+  #options: Required<AutoFixOptions>;
+  #client: AutoFixClient | undefined;
+  #pending = new Map<string, CollectedError>();
+
+  // fingerprints sent during the current run, to tell the model which errors survived its fix
+  #sent = new Set<string>();
+  #timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: AutoFixOptions = {}) {
+    this.#options = { maxAttempts: 3, settleDelay: 2000, verifyDelay: 8000, ...options };
+    this.status = atom<AutoFixStatus>({
+      state: 'idle',
+      attempt: 0,
+      maxAttempts: this.#options.maxAttempts,
+      errors: [],
+    });
+  }
+
+  attach(client: AutoFixClient) {
+    this.#client = client;
+
+    return () => {
+      if (this.#client === client) {
+        this.#client = undefined;
+        this.reset();
+      }
+    };
+  }
+
+  report(error: CapturedError) {
+    const { state } = this.status.get();
+
+    if (!this.#client || isIgnoredError(error) || state === 'exhausted' || state === 'stopped') {
+      return;
+    }
+
+    // the preview reloads while the model writes files, only failed commands of the response are kept
+    if (state === 'fixing' && error.source !== 'terminal') {
+      return;
+    }
+
+    const fingerprint = getErrorFingerprint(error);
+    const existing = this.#pending.get(fingerprint);
+
+    const occurrences = (existing?.occurrences ?? 0) + 1;
+
+    this.#pending.set(fingerprint, { ...(existing ?? error), fingerprint, occurrences });
+
+    if (state !== 'fixing') {
+      this.#update({ state: 'collecting' });
+      this.#schedule(this.#options.settleDelay, () => this.#dispatch());
+    }
+  }
+
+  /**
+   * The model finished the response of a fix request
+   */
+  responseFinished() {
+    if (this.status.get().state !== 'fixing') {
+      return;
+    }
+
+    this.#update({ state: 'verifying' });
+    this.#schedule(this.#options.verifyDelay, () => this.#verify());
+  }
+
+  /**
+   * The preview finished loading, it counts as clean when no error follows shortly
+   */
+  previewLoaded() {
+    if (this.status.get().state === 'verifying') {
+      this.#schedule(this.#options.settleDelay, () => this.#verify());
+    }
+  }
+
+  /**
+   * Starts over, e.g. when the user sends a message of their own
+   */
+  reset() {
+    this.#clear();
+    this.#update({ state: 'idle', attempt: 0, errors: [] });
+  }
+
+  /**
+   * Stops the current run, errors are ignored until the next reset
+   */
+  stop() {
+    this.#clear();
+    this.#update({ state: 'stopped', errors: [] });
+  }
+
+  #dispatch() {
+    if (this.#pending.size === 0) {
+      return;
+    }
+
+    if (this.#client?.isBusy()) {
+      this.#schedule(this.#options.settleDelay, () => this.#dispatch());
+      return;
+    }
+
+    const errors = [...this.#pending.values()];
+    const { attempt, maxAttempts } = this.status.get();
+
+    this.#pending.clear();
+
+    if (attempt >= maxAttempts) {
+      this.#update({ state: 'exhausted', errors });
+      return;
+    }
+
+    const message = formatAutoFixMessage(errors, attempt + 1, maxAttempts, this.#sent);
+
+    for (const error of errors) {
+      this.#sent.add(error.fingerprint);
+    }
+
+    this.#update({ state: 'fixing', attempt: attempt + 1, errors });
+    this.#client?.send(message).then(
+      (sent) => {
+        if (!sent) {
+          this.#sendFailed(errors);
+        }
+      },
+      () => this.#sendFailed(errors),
+    );
+  }
+
+  /**
+   * No response will finish the fix request, the loop gives up instead of waiting for it
+   */
+  #sendFailed(errors: CollectedError[]) {
+    if (this.status.get().state !== 'fixing') {
+      return;
+    }
+
+    this.#clear();
+    this.#update({ state: 'exhausted', errors });
+  }
+
+  #verify() {
+    if (this.#client?.isBusy()) {
+      this.#schedule(this.#options.verifyDelay, () => this.#verify());
+      return;
+    }
+
+    if (this.#pending.size > 0) {
+      this.#dispatch();
+      return;
+    }
+
+    this.#sent.clear();
+    this.#update({ state: 'fixed', attempt: 0, errors: [] });
+  }
+
+  #schedule(delay: number, callback: () => void) {
+    clearTimeout(this.#timer);
+    this.#timer = setTimeout(callback, delay);
+  }
+
+  #clear() {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    this.#pending.clear();
+    this.#sent.clear();
+  }
+
+  #update(status: Partial<AutoFixStatus>) {
+    this.status.set({ ...this.status.get(), ...status });
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { applyReviewDecisions, createStagedChange, formatRejectedChanges } from './change-review';
+
+const before = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', ''].join('\n');
+const after = before.replace('two', 'TWO').replace('ten', 'TEN');
+
+describe('applyReviewDecisions', () => {
+  it('splits distant changes into separate hunks', () => {
+    const change = createStagedChange('/home/project/a.txt', before, after);
+
+    expect(change.hunks).toHaveLength(2);
+    expect(change.hunks.every((hunk) => hunk.decision === 'pending')).toBe(true);
+  });
+
+  it('applies only the accepted hunks', () => {
+    const change = createStagedChange('/home/project/a.txt', before, after);
+    change.hunks[0].decision = 'accepted';
+    change.hunks[1].decision = 'rejected';
+
+    expect(applyReviewDecisions(change)).toBe(before.replace('two', 'TWO'));
+
+    change.hunks[0].decision = 'rejected';
+    change.hunks[1].decision = 'pending';
+
+    expect(applyReviewDecisions(change)).toBe(before.replace('ten', 'TEN'));
+  });
+
+  it('drops rejected new files', () => {
+    const change = createStagedChange('/home/project/new.txt', undefined, 'content\n');
+    change.hunks[0].decision = 'rejected';
+
+    expect(applyReviewDecisions(change)).toBeUndefined();
+  });
+});
+
+describe('formatRejectedChanges', () => {
+  it('describes the rejected hunks only', () => {
+    const change = createStagedChange('/home/project/a.txt', before, after);
+    change.hunks[1].decision = 'rejected';
+
+    const feedback = formatRejectedChanges([change]);
+
+    expect(feedback).toContain('<rejected_changes>');
+    expect(feedback).toContain('+TEN');
+    expect(feedback).not.toContain('+TWO');
+    expect(formatRejectedChanges([createStagedChange('/home/project/a.txt', before, after)])).toBeUndefined();
+  });
+});
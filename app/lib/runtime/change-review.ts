@@ -0,0 +1,135 @@
+import { structuredPatch } from 'diff';
+
+export type ReviewDecision = 'pending' | 'accepted' | 'rejected';
+
+export interface ReviewHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+
+  /** unified diff lines of the hunk, prefixed with ` `, `-` or `+` */
+  lines: string[];
+  decision: ReviewDecision;
+}
+
+export interface StagedFileChange {
+  filePath: string;
+
+  /** content of the file before the artifact touched it, `undefined` for new files */
+  before?: string;
+  after: string;
+  hunks: ReviewHunk[];
+}
+
+/**
+ * Receives the file changes of an artifact when review mode is on
+ */
+export interface FileChangeStager {
+  isEnabled(): boolean;
+  getStagedContent(filePath: string): string | undefined;
+  stage(filePath: string, before: string | undefined, after: string): void;
+}
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Splits the change of a file into hunks that can be accepted or rejected on their own
+ */
+export function createStagedChange(filePath: string, before: string | undefined, after: string): StagedFileChange {
+  const patch = structuredPatch(filePath, filePath, before ?? '', after, '', '', { context: CONTEXT_LINES });
+
+  return {
+    filePath,
+    before,
+    after,
+    hunks: patch.hunks.map((hunk) => ({
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+
+      // `\ No newline at end of file` markers are not content
+      lines: hunk.lines.filter((line) => !line.startsWith('\\')),
+      decision: 'pending',
+    })),
+  };
+}
+
+/**
+ * Content of the file with the accepted hunks applied, pending hunks count as accepted.
+ * Returns `undefined` when nothing of a new file was accepted.
+ */
+export function applyReviewDecisions(change: StagedFileChange): string | undefined {
+  const accepted = change.hunks.filter((hunk) => hunk.decision !== 'rejected');
+
+  if (accepted.length === change.hunks.length) {
+    return change.after;
+  }
+
+  if (accepted.length === 0) {
+    return change.before;
+  }
+
+  const beforeLines = (change.before ?? '').split('\n');
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of change.hunks) {
+    // hunks without old lines insert after `oldStart`, the others replace the lines starting at it
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    result.push(...beforeLines.slice(cursor, start));
+
+    const dropped = hunk.decision === 'rejected' ? '+' : '-';
+    result.push(...hunk.lines.filter((line) => line[0] !== dropped).map((line) => line.slice(1)));
+
+    cursor = start + hunk.oldLines;
+  }
+
+  result.push(...beforeLines.slice(cursor));
+
+  return result.join('\n');
+}
+
+export function hasPendingHunks(changes: StagedFileChange[]) {
+  return changes.some((change) => change.hunks.some((hunk) => hunk.decision === 'pending'));
+}
+
+/**
+ * Describes the rejected hunks for the model, so the next response does not propose them again
+ */
+export function formatRejectedChanges(changes: StagedFileChange[]): string | undefined {
+  const sections = changes
+    .map((change) => {
+      const rejected = change.hunks.filter((hunk) => hunk.decision === 'rejected');
+
+      if (rejected.length === 0) {
+        return undefined;
+      }
+
+      if (change.before === undefined) {
+        return `File: ${change.filePath}\nThe creation of this file was rejected.`;
+      }
+
+      const hunks = rejected.map(
+        (hunk) =>
+          `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n${hunk.lines.join('\n')}`,
+      );
+
+      return `File: ${change.filePath}\n${hunks.join('\n')}`;
+    })
+    .filter((section): section is string => section !== undefined);
+
+  if (sections.length === 0) {
+    return undefined;
+  }
+
+  return [
+    '<rejected_changes>',
+    'The user reviewed your last changes and rejected the following hunks, they were not applied to the project:',
+    '',
+    sections.join('\n\n'),
+    '</rejected_changes>',
+  ].join('\n');
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { applyEditHunks, EditHunkError, hasSearchReplaceBlocks, parseEditHunks } from './edit-hunks';
+
+const source = `import React from 'react';
+
+export function App() {
+  return <h1>Hello</h1>;
+}
+`;
+
+describe('parseEditHunks', () => {
+  it('should parse search/replace blocks', () => {
+    const hunks = parseEditHunks(`<<<<<<< SEARCH
+  return <h1>Hello</h1>;
+=======
+  return <h1>Hello world</h1>;
+>>>>>>> REPLACE`);
+
+    expect(hunks).toEqual([{ search: '  return <h1>Hello</h1>;\n', replace: '  return <h1>Hello world</h1>;\n' }]);
+  });
+
+  it('should parse unified diff hunks', () => {
+    const hunks = parseEditHunks(`@@ -3,3 +3,3 @@
+ export function App() {
+-  return <h1>Hello</h1>;
++  return <h1>Hi</h1>;
+ }`);
+
+    expect(hunks).toEqual([
+      {
+        search: 'export function App() {\n  return <h1>Hello</h1>;\n}\n',
+        replace: 'export function App() {\n  return <h1>Hi</h1>;\n}\n',
+      },
+    ]);
+  });
+
+  it('should ignore the trailing newline the message parser appends to the body', () => {
+    const hunks = parseEditHunks('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+
+    expect(hunks).toEqual([{ search: 'a\nb\nc\n', replace: 'a\nB\nc\n' }]);
+    expect(applyEditHunks('a\nb\nc\n', hunks)).toBe('a\nB\nc\n');
+  });
+
+  it('should accept search/replace markers of any supported length', () => {
+    const content = '<<<<< SEARCH  \nfoo\n=====\nbar\n>>>>>>>>> REPLACE\n';
+
+    expect(hasSearchReplaceBlocks(content)).toBe(true);
+    expect(parseEditHunks(content)).toEqual([{ search: 'foo\n', replace: 'bar\n' }]);
+  });
+
+  it('should return no hunks for plain content', () => {
+    expect(parseEditHunks('const a = 1;')).toEqual([]);
+  });
+});
+
+describe('applyEditHunks', () => {
+  it('should apply hunks in order', () => {
+    const result = applyEditHunks(source, [
+      { search: "import React from 'react';\n", replace: "import React, { useState } from 'react';\n" },
+      { search: '  return <h1>Hello</h1>;\n', replace: '  return <h1>Bye</h1>;\n' },
+    ]);
+
+    expect(result).toBe(`import React, { useState } from 'react';
+
+export function App() {
+  return <h1>Bye</h1>;
+}
+`);
+  });
+
+  it('should tolerate trailing whitespace differences', () => {
+    const result = applyEditHunks(source, [
+      { search: 'export function App() {  \n', replace: 'export default function App() {\n' },
+    ]);
+
+    expect(result).toContain('export default function App() {\n  return');
+  });
+
+  it('should throw when a hunk does not match', () => {
+    expect(() => applyEditHunks(source, [{ search: 'missing line\n', replace: '' }])).toThrowError(EditHunkError);
+  });
+
+  it('should throw when a hunk matches more than once', () => {
+    try {
+      applyEditHunks('a\nb\na\n', [{ search: 'a\n', replace: 'c\n' }]);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(EditHunkError);
+      expect((error as EditHunkError).reason).toBe('ambiguous');
+    }
+  });
+});
@@ -0,0 +1,243 @@
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const UNIFIED_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+export interface EditHunk {
+  /** the exact block of lines expected in the current file */
+  search: string;
+
+  /** the block of lines that replaces `search` */
+  replace: string;
+}
+
+export type EditHunkFailureReason = 'not_found' | 'ambiguous' | 'empty_search';
+
+export class EditHunkError extends Error {
+  readonly hunkIndex: number;
+  readonly hunk: EditHunk;
+  readonly reason: EditHunkFailureReason;
+
+  constructor(hunkIndex: number, hunk: EditHunk, reason: EditHunkFailureReason) {
+    const details: Record<EditHunkFailureReason, string> = {
+      not_found: 'the search block does not match the current file content',
+      ambiguous: 'the search block matches more than one location in the file',
+      empty_search: 'the search block is empty',
+    };
+
+    super(`Hunk #${hunkIndex + 1} could not be applied: ${details[reason]}`);
+
+    this.hunkIndex = hunkIndex;
+    this.hunk = hunk;
+    this.reason = reason;
+
+    Object.setPrototypeOf(this, EditHunkError.prototype);
+
+    this.name = 'EditHunkError';
+  }
+}
+
+/**
+ * Parses the body of an `edit` action into hunks. Two formats are supported:
+ *
+ * - Search/replace blocks delimited by `<<<<<<< SEARCH`, `=======` and `>>>>>>> REPLACE`.
+ * - Unified diff hunks starting with `@@ -a,b +c,d @@`. Line numbers are ignored, the
+ *   context and removed lines are used as the search block instead.
+ */
+export function parseEditHunks(content: string): EditHunk[] {
+  const lines = splitLines(content);
+
+  if (lines.some((line) => SEARCH_MARKER.test(line))) {
+    return parseSearchReplaceBlocks(lines);
+  }
+
+  if (lines.some((line) => UNIFIED_HUNK_HEADER.test(line))) {
+    return parseUnifiedDiff(lines);
+  }
+
+  return [];
+}
+
+/**
+ * Whether `content` holds at least one complete search/replace block, using the same
+ * markers as `parseEditHunks`.
+ */
+export function hasSearchReplaceBlocks(content: string) {
+  const lines = splitLines(content);
+
+  return lines.some((line) => SEARCH_MARKER.test(line)) && lines.some((line) => REPLACE_MARKER.test(line));
+}
+
+/**
+ * Whether `content` holds at least one unified diff hunk header.
+ */
+export function hasUnifiedDiffHunks(content: string) {
+  return splitLines(content).some((line) => UNIFIED_HUNK_HEADER.test(line));
+}
+
+/**
+ * Applies hunks sequentially to `source`. Every hunk must match exactly once, first
+ * verbatim and then ignoring trailing whitespace, otherwise an `EditHunkError` is thrown
+ * and the source is left untouched.
+ */
+export function applyEditHunks(source: string, hunks: EditHunk[]): string {
+  let result = source;
+
+  hunks.forEach((hunk, index) => {
+    if (hunk.search.trim() === '') {
+      throw new EditHunkError(index, hunk, 'empty_search');
+    }
+
+    const exact = findOccurrences(result, hunk.search);
+
+    if (exact.length === 1) {
+      result = result.slice(0, exact[0]) + hunk.replace + result.slice(exact[0] + hunk.search.length);
+      return;
+    }
+
+    if (exact.length > 1) {
+      throw new EditHunkError(index, hunk, 'ambiguous');
+    }
+
+    const range = findLooseMatch(result, hunk.search);
+
+    if (range === 'ambiguous') {
+      throw new EditHunkError(index, hunk, 'ambiguous');
+    }
+
+    if (!range) {
+      throw new EditHunkError(index, hunk, 'not_found');
+    }
+
+    result = result.slice(0, range.start) + hunk.replace + result.slice(range.end);
+  });
+
+  return result;
+}
+
+/**
+ * Splits the action body into lines. The message parser always terminates the body with
+ * a newline, the resulting empty last line is not part of any hunk.
+ */
+function splitLines(content: string) {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+function parseSearchReplaceBlocks(lines: string[]) {
+  const hunks: EditHunk[] = [];
+
+  let state: 'idle' | 'search' | 'replace' = 'idle';
+  let search: string[] = [];
+  let replace: string[] = [];
+
+  for (const line of lines) {
+    if (SEARCH_MARKER.test(line)) {
+      state = 'search';
+      search = [];
+      replace = [];
+    } else if (state === 'search' && DIVIDER_MARKER.test(line)) {
+      state = 'replace';
+    } else if (state === 'replace' && REPLACE_MARKER.test(line)) {
+      hunks.push({ search: joinBlock(search), replace: joinBlock(replace) });
+      state = 'idle';
+    } else if (state === 'search') {
+      search.push(line);
+    } else if (state === 'replace') {
+      replace.push(line);
+    }
+  }
+
+  return hunks;
+}
+
+function parseUnifiedDiff(lines: string[]) {
+  const hunks: EditHunk[] = [];
+
+  let search: string[] | undefined;
+  let replace: string[] = [];
+
+  const flush = () => {
+    if (search) {
+      hunks.push({ search: joinBlock(search), replace: joinBlock(replace) });
+    }
+  };
+
+  for (const line of lines) {
+    if (UNIFIED_HUNK_HEADER.test(line)) {
+      flush();
+      search = [];
+      replace = [];
+      continue;
+    }
+
+    if (!search || line.startsWith('\\ No newline')) {
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      search.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      replace.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      search.push(line.slice(1));
+      replace.push(line.slice(1));
+    }
+  }
+
+  flush();
+
+  return hunks;
+}
+
+function joinBlock(lines: string[]) {
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function findOccurrences(haystack: string, needle: string) {
+  const positions: number[] = [];
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    positions.push(index);
+    index = haystack.indexOf(needle, index + 1);
+  }
+
+  return positions;
+}
+
+/**
+ * Line based match that ignores trailing whitespace, which models frequently get wrong.
+ */
+function findLooseMatch(source: string, search: string): { start: number; end: number } | 'ambiguous' | undefined {
+  const sourceLines = source.split('\n');
+  const searchLines = search.replace(/\n$/, '').split('\n');
+  const normalize = (line: string) => line.trimEnd();
+
+  let match: { start: number; end: number } | undefined;
+
+  for (let i = 0; i + searchLines.length <= sourceLines.length; i++) {
+    const matches = searchLines.every((line, j) => normalize(line) === normalize(sourceLines[i + j]));
+
+    if (!matches) {
+      continue;
+    }
+
+    if (match) {
+      return 'ambiguous';
+    }
+
+    const start = sourceLines.slice(0, i).reduce((offset, line) => offset + line.length + 1, 0);
+    const matchedLength = sourceLines.slice(i, i + searchLines.length).join('\n').length;
+    const end = Math.min(source.length, start + matchedLength + 1);
+
+    match = { start, end };
+  }
+
+  return match;
+}
@@ -1,4 +1,5 @@
 import { createScopedLogger } from '~/utils/logger';
+import { hasSearchReplaceBlocks, hasUnifiedDiffHunks } from './edit-hunks';
 import { StreamingMessageParser, type StreamingMessageParserOptions } from './message-parser';
 
 const logger = createScopedLogger('EnhancedMessageParser');
@@ -158,11 +159,12 @@ export class EnhancedStreamingMessageParser extends StreamingMessageParser {
         // Mark as processed
         processed.add(blockHash);
 
-        // Generate artifact wrapper
+        // Generate artifact wrapper, diffs and search/replace blocks become surgical edits
         const artifactId = `artifact-${messageId}-${this._artifactCounter++}`;
-        const wrapped = this._wrapInArtifact(artifactId, filePath, content);
+        const actionType = this._isEditBlock(content, language) ? 'edit' : 'file';
+        const wrapped = this._wrapInArtifact(artifactId, filePath, content, actionType);
 
-        logger.debug(`Auto-wrapped code block as file: ${filePath}`);
+        logger.debug(`Auto-wrapped code block as ${actionType}: ${filePath}`);
 
         return wrapped;
       });
@@ -201,16 +203,29 @@ export class EnhancedStreamingMessageParser extends StreamingMessageParser {
     return enhanced;
   }
 
-  private _wrapInArtifact(artifactId: string, filePath: string, content: string): string {
+  private _wrapInArtifact(
+    artifactId: string,
+    filePath: string,
+    content: string,
+    actionType: 'file' | 'edit' = 'file',
+  ): string {
     const title = filePath.split('/').pop() || 'File';
 
     return `<boltArtifact id="${artifactId}" title="${title}" type="bundled">
-<boltAction type="file" filePath="${filePath}">
+<boltAction type="${actionType}" filePath="${filePath}">
 ${content}
 </boltAction>
 </boltArtifact>`;
   }
 
+  private _isEditBlock(content: string, language: string): boolean {
+    if (hasSearchReplaceBlocks(content)) {
+      return true;
+    }
+
+    return (language === 'diff' || language === 'patch') && hasUnifiedDiffHunks(content);
+  }
+
   private _wrapInShellAction(content: string, messageId: string): string {
     const artifactId = `artifact-${messageId}-${this._artifactCounter++}`;
 
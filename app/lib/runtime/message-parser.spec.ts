@@ -157,6 +157,36 @@ describe('StreamingMessageParser', () => {
       runTest(input, expected);
     });
   });
+
+  it('should parse edit actions with search/replace blocks', () => {
+    const onActionClose = vi.fn<ActionCallback>();
+    const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+
+    parser.parse(
+      'test_id',
+      '<boltArtifact title="Fix" id="fix"><boltAction type="edit" filePath="src/App.tsx">\n<<<<<<< SEARCH\n  return &lt;h1&gt;Hi&lt;/h1&gt;;\n=======\n  return &lt;h1&gt;Hello&lt;/h1&gt;;\n>>>>>>> REPLACE\n</boltAction></boltArtifact>',
+    );
+
+    expect(onActionClose).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: {
+          type: 'edit',
+          filePath: 'src/App.tsx',
+          content: '<<<<<<< SEARCH\n  return <h1>Hi</h1>;\n=======\n  return <h1>Hello</h1>;\n>>>>>>> REPLACE\n',
+        },
+      }),
+    );
+  });
+
+  it('should replace a complete plan with its checklist element', () => {
+    const parser = new StreamingMessageParser();
+    const plan = '<boltPlan title="Todo"><boltStep title="Scaffold">Create it.</boltStep></boltPlan>';
+
+    expect(parser.parse('test_id', `Plan:\n${plan.slice(0, 40)}`)).toBe('Plan:\n');
+    expect(parser.parse('test_id', `Plan:\n${plan}\nReady?`)).toBe(
+      '<div class="__boltPlan__" data-message-id="test_id"></div>\nReady?',
+    );
+  });
 });
 
 describe('EnhancedStreamingMessageParser', () => {
@@ -209,6 +239,31 @@ describe('EnhancedStreamingMessageParser', () => {
     );
   });
 
+  it('should turn diff code blocks into edit actions', () => {
+    const callbacks = {
+      onArtifactOpen: vi.fn(),
+      onArtifactClose: vi.fn(),
+      onActionOpen: vi.fn(),
+      onActionClose: vi.fn(),
+    };
+
+    const parser = new EnhancedStreamingMessageParser({
+      callbacks,
+    });
+
+    const input = 'src/index.js:\n\n```diff\n@@ -1,1 +1,1 @@\n-const a = 1;\n+const a = 2;\n```';
+    parser.parse('test_id', input);
+
+    expect(callbacks.onActionOpen).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: expect.objectContaining({
+          type: 'edit',
+          filePath: '/src/index.js',
+        }),
+      }),
+    );
+  });
+
   it('should not create actions for code blocks without context', () => {
     const callbacks = {
       onArtifactOpen: vi.fn(),
@@ -1,5 +1,14 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction, SupabaseAction } from '~/types/actions';
+import type {
+  ActionType,
+  BoltAction,
+  BoltActionData,
+  EditAction,
+  FileAction,
+  ShellAction,
+  SupabaseAction,
+} from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
+import { PLAN_TAG_CLOSE, PLAN_TAG_OPEN } from '~/lib/runtime/task-plan';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 
@@ -131,6 +140,19 @@ export class StreamingMessageParser {
         }
       }
 
+      if (!state.insideArtifact && input.startsWith(PLAN_TAG_OPEN, i)) {
+        const planEnd = input.indexOf(PLAN_TAG_CLOSE, i);
+
+        // the plan is rendered as a checklist once it is complete
+        if (planEnd === -1) {
+          break;
+        }
+
+        output += createPlanElement(messageId);
+        i = planEnd + PLAN_TAG_CLOSE.length;
+        continue;
+      }
+
       if (state.insideArtifact) {
         const currentArtifact = state.currentArtifact;
 
@@ -156,6 +178,9 @@ export class StreamingMessageParser {
               }
 
               content += '\n';
+            } else if ('type' in currentAction && currentAction.type === 'edit') {
+              // hunks are matched line by line, so keep the trailing newline and unescape tags
+              content = cleanEscapedTags(cleanoutMarkdownSyntax(content)) + '\n';
             }
 
             currentAction.content = content;
@@ -373,11 +398,20 @@ export class StreamingMessageParser {
       }
 
       (actionAttributes as FileAction).filePath = filePath;
+    } else if (actionType === 'edit') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath');
+
+      if (!filePath) {
+        logger.warn('Edit action requires a filePath');
+        throw new Error('Edit action requires a filePath');
+      }
+
+      (actionAttributes as EditAction).filePath = filePath;
     } else if (!['shell', 'start'].includes(actionType)) {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as FileAction | EditAction | ShellAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
@@ -414,3 +448,7 @@ function createQuickActionElement(props: Record<string, string>, label: string)
 function createQuickActionGroup(buttons: string[]) {
   return `<div class=\"__boltQuickAction__\" data-bolt-quick-action=\"true\">${buttons.join('')}</div>`;
 }
+
+function createPlanElement(messageId: string) {
+  return `<div class="__boltPlan__" data-message-id=${JSON.stringify(messageId)}></div>`;
+}
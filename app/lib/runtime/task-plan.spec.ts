@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getResponseArtifact, parseTaskPlan, TaskPlanRunner } from './task-plan';
+
+const planMessage = `Here is how I would build it.
+
+<boltPlan title="Todo app">
+  <boltStep title="Scaffold the project">
+    Create a Vite React project.
+    <file>package.json</file>
+    <command>npm install</command>
+  </boltStep>
+  <boltStep title="Add the todo list">
+    Render the todos.
+    <file>src/App.tsx</file>
+    <file>src/TodoList.tsx</file>
+  </boltStep>
+  <boltStep title="Persist the todos">
+    Save them to local storage.
+  </boltStep>
+</boltPlan>`;
+
+describe('parseTaskPlan', () => {
+  it('reads the steps with their files and commands', () => {
+    const plan = parseTaskPlan(planMessage);
+
+    expect(plan?.title).toBe('Todo app');
+    expect(plan?.tasks).toHaveLength(3);
+    expect(plan?.tasks[0]).toEqual({
+      id: 'step-1',
+      title: 'Scaffold the project',
+      description: 'Create a Vite React project.',
+      files: ['package.json'],
+      commands: ['npm install'],
+    });
+    expect(plan?.tasks[1].files).toEqual(['src/App.tsx', 'src/TodoList.tsx']);
+  });
+
+  it('waits for the plan to be complete', () => {
+    expect(parseTaskPlan(planMessage.slice(0, -20))).toBeUndefined();
+    expect(parseTaskPlan('<boltPlan title="Empty"></boltPlan>')).toBeUndefined();
+  });
+});
+
+describe('getResponseArtifact', () => {
+  it('links the first artifact of a response', () => {
+    expect(getResponseArtifact('Done.\n<boltArtifact id="todo-list" title="Todo list">')).toEqual({
+      id: 'todo-list',
+      title: 'Todo list',
+    });
+    expect(getResponseArtifact('No changes needed.')).toBeUndefined();
+  });
+});
+
+describe('TaskPlanRunner', () => {
+  let runner: TaskPlanRunner;
+  let send: ReturnType<typeof vi.fn>;
+
+  const plan = () => runner.plans.get().plan;
+
+  beforeEach(() => {
+    runner = new TaskPlanRunner();
+    send = vi.fn();
+    runner.attach({ send });
+    runner.load('plan', parseTaskPlan(planMessage)!);
+  });
+
+  it('executes the edited plan one step per response', () => {
+    runner.moveTask('plan', 'step-3', -1);
+    runner.removeTask('plan', 'step-2');
+    runner.start('plan');
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toContain('Plan step 1 of 2');
+    expect(send.mock.calls[0][1]).toEqual({
+      planMessageId: 'plan',
+      taskId: 'step-1',
+      index: 0,
+      total: 2,
+      title: 'Scaffold the project',
+    });
+
+    runner.stepAnswered('plan', 'step-1', { messageId: 'answer-1', artifact: { id: 'scaffold', title: 'Scaffold' } });
+    runner.responseFinished();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][1]).toMatchObject({ taskId: 'step-3', index: 1 });
+    expect(send.mock.calls[1][0]).toContain('Already done:\n- Scaffold the project');
+
+    runner.stepAnswered('plan', 'step-3', { messageId: 'answer-2' });
+    runner.responseFinished();
+
+    expect(plan().state).toBe('done');
+    expect(plan().tasks[0]).toMatchObject({ status: 'done', messageId: 'answer-1', artifact: { id: 'scaffold' } });
+  });
+
+  it('pauses on a step without answer and retries it on resume', () => {
+    runner.start('plan');
+    runner.responseFinished();
+
+    expect(plan().state).toBe('paused');
+    expect(plan().tasks[0].status).toBe('failed');
+
+    runner.start('plan');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][1]).toMatchObject({ taskId: 'step-1' });
+  });
+
+  it('locks the plan while it runs', () => {
+    runner.start('plan');
+    runner.removeTask('plan', 'step-2');
+
+    expect(plan().tasks).toHaveLength(3);
+  });
+
+  it('reports edits and restores the edited plan', () => {
+    const onTasksEdited = vi.fn();
+
+    runner.onTasksEdited = onTasksEdited;
+    runner.moveTask('plan', 'step-3', -1);
+    runner.removeTask('plan', 'step-1');
+
+    expect(onTasksEdited).toHaveBeenLastCalledWith('plan', ['step-3', 'step-2']);
+
+    const restored = new TaskPlanRunner();
+
+    restored.load('plan', parseTaskPlan(planMessage)!, onTasksEdited.mock.lastCall![1]);
+
+    expect(restored.plans.get().plan.tasks.map((task) => task.id)).toEqual(['step-3', 'step-2']);
+  });
+
+  it('restores the progress of a plan from the history', () => {
+    const restored = new TaskPlanRunner();
+
+    restored.load('plan', parseTaskPlan(planMessage)!);
+    restored.stepAnswered('plan', 'step-1', { messageId: 'answer-1' });
+
+    expect(restored.plans.get().plan.state).toBe('paused');
+    expect(restored.plans.get().plan.tasks.map((task) => task.status)).toEqual(['done', 'pending', 'pending']);
+  });
+});
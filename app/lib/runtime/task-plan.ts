@@ -0,0 +1,293 @@
+/**
+ * Plan mode: the model answers with a `<boltPlan>` of steps instead of actions, the user reorders and removes steps
+ * in the chat, and the plan is executed one step per build request, each response linked back to its task.
+ */
+
+import { map, type MapStore } from 'nanostores';
+import type { PlanStepRequest, PlanTask, PlanTaskStatus, TaskPlan } from '~/types/task-plan';
+
+export const PLAN_TAG_OPEN = '<boltPlan';
+export const PLAN_TAG_CLOSE = '</boltPlan>';
+
+export interface ParsedTaskPlan {
+  title: string;
+  tasks: Array<Pick<PlanTask, 'id' | 'title' | 'description' | 'files' | 'commands'>>;
+}
+
+export interface PlanTaskAnswer {
+  messageId: string;
+  artifact?: PlanTask['artifact'];
+}
+
+/**
+ * What the runner needs from the chat
+ */
+export interface TaskPlanClient {
+  send(message: string, step: PlanStepRequest): void;
+}
+
+function extractAttribute(tag: string, attributeName: string) {
+  return tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'))?.[1];
+}
+
+function extractElements(content: string, tagName: string) {
+  return [...content.matchAll(new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'g'))]
+    .map(([, text]) => text.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The complete `<boltPlan>` of a message, undefined while the plan is still streamed or when it has no steps
+ */
+export function parseTaskPlan(content: string): ParsedTaskPlan | undefined {
+  const match = /<boltPlan([^>]*)>([\s\S]*?)<\/boltPlan>/.exec(content);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, planAttributes, planContent] = match;
+  const steps = [...planContent.matchAll(/<boltStep([^>]*)>([\s\S]*?)<\/boltStep>/g)];
+
+  if (steps.length === 0) {
+    return undefined;
+  }
+
+  return {
+    title: extractAttribute(planAttributes, 'title') || 'Plan',
+    tasks: steps.map(([, stepAttributes, stepContent], index) => ({
+      id: `step-${index + 1}`,
+      title: extractAttribute(stepAttributes, 'title') || `Step ${index + 1}`,
+      description: stepContent.replace(/<(file|command)>[\s\S]*?<\/\1>/g, '').trim(),
+      files: extractElements(stepContent, 'file'),
+      commands: extractElements(stepContent, 'command'),
+    })),
+  };
+}
+
+/**
+ * The first artifact of a response, the one a plan task links to
+ */
+export function getResponseArtifact(content: string): PlanTask['artifact'] {
+  const tag = /<boltArtifact[^>]*>/.exec(content)?.[0];
+  const id = tag && extractAttribute(tag, 'id');
+
+  return id ? { id, title: extractAttribute(tag, 'title') || id } : undefined;
+}
+
+export function formatPlanStepMessage(plan: TaskPlan, task: PlanTask, index: number) {
+  const done = plan.tasks.filter((other) => other.status === 'done').map((other) => `- ${other.title}`);
+
+  return [
+    `*Plan step ${index + 1} of ${plan.tasks.length}: ${plan.title}*`,
+    `Implement this step of the plan: **${task.title}**`,
+    task.description,
+    task.files.length > 0 ? `Files: ${task.files.map((file) => `\`${file}\``).join(', ')}` : undefined,
+    task.commands.length > 0 ? `Commands: ${task.commands.map((command) => `\`${command}\``).join(', ')}` : undefined,
+    done.length > 0 ? `Already done:\n${done.join('\n')}` : undefined,
+    'Only implement this step, the remaining steps follow in the next messages.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export class TaskPlanRunner {
+  plans: MapStore<Record<string, TaskPlan>> = map({});
+
+  // called when the user reordered or removed steps, so the edited plan is restored with the chat
+  onTasksEdited?: (messageId: string, taskIds: string[]) => void;
+
+  #client: TaskPlanClient | undefined;
+
+  // message id of the plan being executed
+  #active: string | undefined;
+
+  attach(client: TaskPlanClient) {
+    this.#client = client;
+
+    return () => {
+      if (this.#client === client) {
+        this.stop();
+        this.#client = undefined;
+      }
+    };
+  }
+
+  /**
+   * Adds the plan a message proposed, plans already loaded keep their edits. `taskIds` are the steps the user kept,
+   * in their order, when the plan was edited before the chat was reloaded.
+   */
+  load(messageId: string, plan: ParsedTaskPlan, taskIds?: string[]) {
+    if (this.plans.get()[messageId]) {
+      return;
+    }
+
+    const tasks = taskIds
+      ? taskIds.flatMap((taskId) => plan.tasks.find((task) => task.id === taskId) ?? [])
+      : plan.tasks;
+
+    this.plans.setKey(messageId, {
+      messageId,
+      title: plan.title,
+      tasks: tasks.map((task) => ({ ...task, status: 'pending' })),
+      state: 'editing',
+    });
+  }
+
+  moveTask(messageId: string, taskId: string, offset: number) {
+    this.#edit(messageId, (tasks) => {
+      const from = tasks.findIndex((task) => task.id === taskId);
+      const to = from + offset;
+
+      // tasks that ran keep their place
+      if (from === -1 || to < 0 || to >= tasks.length || tasks[to].status === 'done') {
+        return tasks;
+      }
+
+      const reordered = [...tasks];
+      [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+
+      return reordered;
+    });
+  }
+
+  removeTask(messageId: string, taskId: string) {
+    this.#edit(messageId, (tasks) => tasks.filter((task) => task.id !== taskId));
+  }
+
+  /**
+   * Executes the pending and failed tasks of the plan in order
+   */
+  start(messageId: string) {
+    const plan = this.plans.get()[messageId];
+
+    if (!plan || !this.#client || (this.#active && this.#active !== messageId)) {
+      return;
+    }
+
+    this.#active = messageId;
+    this.#update(messageId, { state: 'running' });
+    this.#next();
+  }
+
+  /**
+   * Stops after the current response, the interrupted task is retried when the plan is resumed
+   */
+  stop() {
+    const messageId = this.#active;
+
+    if (!messageId) {
+      return;
+    }
+
+    this.#active = undefined;
+    this.#update(messageId, {
+      state: 'paused',
+      tasks: this.plans
+        .get()
+        [messageId].tasks.map((task) => (task.status === 'running' ? { ...task, status: 'failed' } : task)),
+    });
+  }
+
+  /**
+   * A response carries the annotation of a task, either the one just executed or one restored from the history
+   */
+  stepAnswered(planMessageId: string, taskId: string, answer: PlanTaskAnswer) {
+    const plan = this.plans.get()[planMessageId];
+    const task = plan?.tasks.find((other) => other.id === taskId);
+
+    if (!plan || !task || (task.messageId === answer.messageId && task.artifact?.id === answer.artifact?.id)) {
+      return;
+    }
+
+    // a stopped task stays failed, its response was cut off
+    const status: PlanTaskStatus = task.status === 'failed' ? 'failed' : 'done';
+    const tasks = plan.tasks.map((other) => (other.id === taskId ? { ...other, ...answer, status } : other));
+
+    this.#update(planMessageId, {
+      tasks,
+      state: plan.state === 'running' ? 'running' : getRestingState(tasks),
+    });
+  }
+
+  /**
+   * The model finished a response, the next task is sent unless the current one got no answer
+   */
+  responseFinished() {
+    const messageId = this.#active;
+    const plan = messageId ? this.plans.get()[messageId] : undefined;
+
+    if (!messageId || !plan || plan.state !== 'running') {
+      return;
+    }
+
+    if (plan.tasks.some((task) => task.status === 'running')) {
+      this.stop();
+      return;
+    }
+
+    this.#next();
+  }
+
+  #next() {
+    const messageId = this.#active;
+
+    if (!messageId) {
+      return;
+    }
+
+    const plan = this.plans.get()[messageId];
+    const index = plan.tasks.findIndex((task) => task.status === 'pending' || task.status === 'failed');
+
+    if (index === -1) {
+      this.#active = undefined;
+      this.#update(messageId, { state: 'done' });
+
+      return;
+    }
+
+    const task = plan.tasks[index];
+
+    this.#update(messageId, {
+      tasks: plan.tasks.map((other) => (other.id === task.id ? { ...other, status: 'running' } : other)),
+    });
+    this.#client?.send(formatPlanStepMessage(plan, task, index), {
+      planMessageId: messageId,
+      taskId: task.id,
+      index,
+      total: plan.tasks.length,
+      title: task.title,
+    });
+  }
+
+  #edit(messageId: string, edit: (tasks: PlanTask[]) => PlanTask[]) {
+    const plan = this.plans.get()[messageId];
+
+    if (!plan || plan.state === 'running') {
+      return;
+    }
+
+    const tasks = edit(plan.tasks);
+
+    if (tasks === plan.tasks) {
+      return;
+    }
+
+    this.#update(messageId, { tasks, state: getRestingState(tasks) });
+
+    const taskIds = tasks.map((task) => task.id);
+    this.onTasksEdited?.(messageId, taskIds);
+  }
+
+  #update(messageId: string, update: Partial<TaskPlan>) {
+    this.plans.setKey(messageId, { ...this.plans.get()[messageId], ...update });
+  }
+}
+
+function getRestingState(tasks: PlanTask[]): TaskPlan['state'] {
+  if (tasks.length > 0 && tasks.every((task) => task.status === 'done')) {
+    return 'done';
+  }
+
+  return tasks.some((task) => task.status !== 'pending') ? 'paused' : 'editing';
+}
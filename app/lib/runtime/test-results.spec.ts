@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { detectTestRunners, formatTestResultsMessage, parsePlaywrightReport, parseVitestReport } from './test-results';
+
+describe('detectTestRunners', () => {
+  it('reads the runners from the dependencies', () => {
+    const packageJson = JSON.stringify({ devDependencies: { vitest: '^2.0.0', '@playwright/test': '^1.45.0' } });
+
+    expect(detectTestRunners(packageJson)).toEqual(['vitest', 'playwright']);
+    expect(detectTestRunners('{ not json')).toEqual([]);
+  });
+});
+
+describe('parseVitestReport', () => {
+  it('normalizes assertions and files that failed to load', () => {
+    const result = parseVitestReport(
+      {
+        testResults: [
+          {
+            name: '/home/project/src/sum.test.ts',
+            status: 'failed',
+            startTime: 0,
+            endTime: 40,
+            assertionResults: [
+              { title: 'adds', ancestorTitles: ['sum'], fullName: 'sum adds', status: 'passed', duration: 3 },
+              {
+                title: 'rounds',
+                ancestorTitles: ['sum'],
+                status: 'failed',
+                duration: 5,
+                failureMessages: ['\x1b[31mAssertionError: expected 3 to be 4\x1b[39m'],
+              },
+              { title: 'later', status: 'pending' },
+            ],
+          },
+          { name: '/home/project/src/broken.test.ts', status: 'failed', message: 'SyntaxError: Unexpected token' },
+        ],
+      },
+      '/home/project',
+    );
+
+    expect(result).toMatchObject({ passed: 1, failed: 1, skipped: 1, duration: 40 });
+    expect(result.tests[1]).toMatchObject({
+      file: 'src/sum.test.ts',
+      name: 'sum > rounds',
+      error: 'AssertionError: expected 3 to be 4',
+    });
+    expect(result.error).toBe('src/broken.test.ts: SyntaxError: Unexpected token');
+  });
+});
+
+describe('parsePlaywrightReport', () => {
+  it('flattens nested suites', () => {
+    const result = parsePlaywrightReport({
+      config: { rootDir: '/Users/me/app/e2e' },
+      suites: [
+        {
+          title: 'home.spec.ts',
+          file: 'home.spec.ts',
+          suites: [
+            {
+              title: 'home',
+              specs: [
+                {
+                  title: 'shows the title',
+                  tests: [{ projectName: 'chromium', status: 'expected', results: [{ duration: 120 }] }],
+                },
+                {
+                  title: 'opens the menu',
+                  tests: [
+                    {
+                      projectName: 'chromium',
+                      status: 'unexpected',
+                      results: [{ duration: 300, error: { message: 'Timeout 5000ms exceeded' } }],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      stats: { duration: 900 },
+    });
+
+    expect(result).toMatchObject({ passed: 1, failed: 1, duration: 900 });
+    expect(result.tests[1]).toEqual({
+      file: 'home.spec.ts',
+      name: 'home > opens the menu [chromium]',
+      status: 'failed',
+      duration: 300,
+      error: 'Timeout 5000ms exceeded',
+    });
+  });
+});
+
+describe('formatTestResultsMessage', () => {
+  it('lists the failures for the model', () => {
+    const message = formatTestResultsMessage({
+      runner: 'vitest',
+      passed: 2,
+      failed: 1,
+      skipped: 0,
+      duration: 12,
+      tests: [{ file: 'src/sum.test.ts', name: 'sum > rounds', status: 'failed', duration: 5, error: 'expected 3' }],
+    });
+
+    expect(message).toContain(`data-results='{"runner":"vitest","passed":2,"failed":1,"skipped":0,"duration":12}'`);
+    expect(message).toContain('- `src/sum.test.ts` sum > rounds\n```\nexpected 3\n```');
+  });
+});
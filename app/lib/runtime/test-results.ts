@@ -0,0 +1,269 @@
+/**
+ * Commands of the test runners of the generated project and their JSON reports in one shape
+ */
+
+export type TestRunner = 'vitest' | 'playwright';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  // project relative path of the test file
+  file: string;
+  name: string;
+  status: TestStatus;
+  duration: number;
+  error?: string;
+}
+
+export interface TestRunResult {
+  runner: TestRunner;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  tests: TestCaseResult[];
+
+  // the run failed before any test reported, e.g. a syntax error in a test file
+  error?: string;
+}
+
+// what the result card in the chat shows
+export type TestResultsSummary = Pick<TestRunResult, 'runner' | 'passed' | 'failed' | 'skipped' | 'duration'>;
+
+export const TEST_RUNNER_PACKAGES: Record<TestRunner, string> = {
+  vitest: 'vitest',
+  playwright: '@playwright/test',
+};
+
+// inside node_modules so the report never shows up in the file tree of the project
+export const TEST_REPORT_PATH = 'node_modules/.cache/bolt/test-report.json';
+
+const MAX_ERROR_LENGTH = 1500;
+
+/**
+ * Test runners installed by the project, read from its package.json
+ */
+export function detectTestRunners(packageJson: string | undefined): TestRunner[] {
+  if (!packageJson) {
+    return [];
+  }
+
+  try {
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(packageJson);
+    const installed = { ...dependencies, ...devDependencies };
+
+    return (Object.keys(TEST_RUNNER_PACKAGES) as TestRunner[]).filter(
+      (runner) => TEST_RUNNER_PACKAGES[runner] in installed,
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function getTestCommand(runner: TestRunner): { command: string; args: string[]; env: Record<string, string> } {
+  if (runner === 'vitest') {
+    return {
+      command: 'npx',
+      args: ['vitest', 'run', '--reporter=default', '--reporter=json', `--outputFile.json=${TEST_REPORT_PATH}`],
+      env: { FORCE_COLOR: '0' },
+    };
+  }
+
+  return {
+    command: 'npx',
+    args: ['playwright', 'test', '--reporter=list,json'],
+    env: { FORCE_COLOR: '0', PLAYWRIGHT_JSON_OUTPUT_NAME: TEST_REPORT_PATH },
+  };
+}
+
+function toRelativePath(filePath: string, rootDir?: string) {
+  const normalized = filePath.replace(/\\/g, '/');
+  const root = rootDir?.replace(/\\/g, '/').replace(/\/?$/, '/');
+
+  return root && normalized.startsWith(root)
+    ? normalized.slice(root.length)
+    : normalized.replace(/^\/home\/project\//, '');
+}
+
+function cleanError(message: string | undefined) {
+  if (!message) {
+    return undefined;
+  }
+
+  const clean = message.replace(/\x1b\[[0-9;]*m/g, '').trim();
+
+  return clean.length > MAX_ERROR_LENGTH ? `${clean.slice(0, MAX_ERROR_LENGTH)}\n...` : clean;
+}
+
+function summarize(runner: TestRunner, tests: TestCaseResult[], duration: number, error?: string): TestRunResult {
+  return {
+    runner,
+    passed: tests.filter((test) => test.status === 'passed').length,
+    failed: tests.filter((test) => test.status === 'failed').length,
+    skipped: tests.filter((test) => test.status === 'skipped').length,
+    duration,
+    tests,
+    error,
+  };
+}
+
+interface VitestReport {
+  startTime?: number;
+  testResults?: Array<{
+    name: string;
+    status: string;
+    message?: string;
+    startTime?: number;
+    endTime?: number;
+    assertionResults?: Array<{
+      fullName?: string;
+      title: string;
+      ancestorTitles?: string[];
+      status: string;
+      duration?: number | null;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+/**
+ * Vitest writes the Jest compatible JSON report
+ */
+export function parseVitestReport(report: VitestReport, rootDir?: string): TestRunResult {
+  const tests: TestCaseResult[] = [];
+  const fileErrors: string[] = [];
+  let duration = 0;
+
+  for (const file of report.testResults ?? []) {
+    const filePath = toRelativePath(file.name, rootDir);
+    const assertions = file.assertionResults ?? [];
+
+    duration += Math.max((file.endTime ?? 0) - (file.startTime ?? 0), 0);
+
+    // a file that fails to load has no assertions, only a message
+    if (assertions.length === 0 && file.status === 'failed' && file.message) {
+      fileErrors.push(`${filePath}: ${cleanError(file.message)}`);
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      tests.push({
+        file: filePath,
+        name: assertion.fullName ?? [...(assertion.ancestorTitles ?? []), assertion.title].join(' > '),
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+        duration: assertion.duration ?? 0,
+        error: cleanError(assertion.failureMessages?.join('\n')),
+      });
+    }
+  }
+
+  return summarize('vitest', tests, duration, fileErrors.length > 0 ? fileErrors.join('\n') : undefined);
+}
+
+interface PlaywrightSuite {
+  title: string;
+  file?: string;
+  specs?: Array<{
+    title: string;
+    file?: string;
+    tests?: Array<{
+      projectName?: string;
+      status?: string;
+      results?: Array<{ status?: string; duration?: number; error?: { message?: string } }>;
+    }>;
+  }>;
+  suites?: PlaywrightSuite[];
+}
+
+interface PlaywrightReport {
+  config?: { rootDir?: string };
+  suites?: PlaywrightSuite[];
+  errors?: Array<{ message?: string }>;
+  stats?: { duration?: number };
+}
+
+export function parsePlaywrightReport(report: PlaywrightReport, rootDir?: string): TestRunResult {
+  const tests: TestCaseResult[] = [];
+  const root = rootDir ?? report.config?.rootDir;
+
+  const visit = (suite: PlaywrightSuite, titles: string[], file?: string) => {
+    const suiteFile = suite.file ?? file;
+
+    // the top level suites are the test files, their title is the file name
+    const suiteTitles = suite.file ? titles : [...titles, suite.title];
+
+    for (const spec of suite.specs ?? []) {
+      for (const test of spec.tests ?? []) {
+        const results = test.results ?? [];
+        const last = results[results.length - 1];
+        const status: TestStatus =
+          test.status === 'skipped'
+            ? 'skipped'
+            : test.status === 'expected' || test.status === 'flaky'
+              ? 'passed'
+              : 'failed';
+
+        tests.push({
+          file: toRelativePath(spec.file ?? suiteFile ?? '', root),
+          name:
+            [...suiteTitles, spec.title].filter(Boolean).join(' > ') +
+            (test.projectName ? ` [${test.projectName}]` : ''),
+          status,
+          duration: results.reduce((total, result) => total + (result.duration ?? 0), 0),
+          error: cleanError(last?.error?.message),
+        });
+      }
+    }
+
+    for (const child of suite.suites ?? []) {
+      visit(child, suiteTitles, suiteFile);
+    }
+  };
+
+  for (const suite of report.suites ?? []) {
+    visit(suite, []);
+  }
+
+  const errors = (report.errors ?? []).map((error) => cleanError(error.message)).filter(Boolean);
+
+  return summarize('playwright', tests, report.stats?.duration ?? 0, errors.length > 0 ? errors.join('\n') : undefined);
+}
+
+export function parseTestReport(runner: TestRunner, content: string, rootDir?: string): TestRunResult {
+  const report = JSON.parse(content);
+
+  return runner === 'vitest' ? parseVitestReport(report, rootDir) : parsePlaywrightReport(report, rootDir);
+}
+
+/**
+ * Results as a chat message: a card for the chat and the failures in plain text for the model
+ */
+export function formatTestResultsMessage(result: TestRunResult) {
+  const summary: TestResultsSummary = {
+    runner: result.runner,
+    passed: result.passed,
+    failed: result.failed,
+    skipped: result.skipped,
+    duration: result.duration,
+  };
+
+  const failures = result.tests
+    .filter((test) => test.status === 'failed')
+    .map((test) => `- \`${test.file}\` ${test.name}${test.error ? `\n\`\`\`\n${test.error}\n\`\`\`` : ''}`);
+
+  const lines = [
+    `<div class="__boltTestResults__" data-results='${JSON.stringify(summary)}'></div>`,
+    `*Test results* (${result.runner}): ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped`,
+  ];
+
+  if (result.error) {
+    lines.push(`The test run reported errors:\n\`\`\`\n${result.error}\n\`\`\``);
+  }
+
+  if (failures.length > 0) {
+    lines.push(`Failing tests:\n${failures.join('\n')}`);
+    lines.push('Fix the code under test, or the tests if they assert the wrong behavior, then run the tests again.');
+  }
+
+  return lines.join('\n\n');
+}
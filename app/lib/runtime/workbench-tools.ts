@@ -0,0 +1,356 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import type { z } from 'zod';
+import {
+  WORKBENCH_SERVER_NAME,
+  WORKBENCH_TOOL_NAMES,
+  listDirectoryParameters,
+  readFileParameters,
+  readPreviewConsoleParameters,
+  runCommandParameters,
+  searchFilesParameters,
+  type WorkbenchToolName,
+} from '~/lib/common/workbench-tools';
+import { describeRule, evaluateToolPermission, globToRegExp } from '~/lib/mcp/permissions';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { recordToolDecision, recordToolResult } from '~/lib/stores/mcpAudit';
+import { previewConsole } from '~/lib/stores/previewConsole';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { nativeProjectFolder, webcontainer } from '~/lib/webcontainer';
+import { performTextSearch, type TextSearchMatch } from '~/lib/webcontainer/search';
+import { TOOL_EXECUTION_APPROVAL, WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { path } from '~/utils/path';
+
+const logger = createScopedLogger('WorkbenchTools');
+
+// results go back to the model with the next step, large ones would crowd out the rest of its context
+const MAX_RESULT_LENGTH = 30_000;
+const MAX_DIRECTORY_ENTRIES = 500;
+const MAX_SEARCH_MATCHES = 200;
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', '.cache'];
+
+function truncateResult(result: string, maxLength = MAX_RESULT_LENGTH) {
+  if (result.length <= maxLength) {
+    return result;
+  }
+
+  return `${result.slice(0, maxLength)}\n... truncated ${result.length - maxLength} characters`;
+}
+
+/**
+ * Resolves a path the model passed against the project root, rejecting those outside of it
+ */
+function resolveProjectPath(filePath: string) {
+  const resolved = path.normalize(path.isAbsolute(filePath) ? filePath : path.join(WORK_DIR, filePath));
+
+  if (resolved !== WORK_DIR && !resolved.startsWith(`${WORK_DIR}/`)) {
+    throw new Error(`${filePath} is outside of the project`);
+  }
+
+  return resolved.replace(/\/$/, '');
+}
+
+function formatLines(content: string, startLine = 1, endLine?: number) {
+  const lines = content.split('\n');
+  const last = Math.min(endLine ?? lines.length, lines.length);
+  const width = String(last).length;
+
+  return lines
+    .slice(startLine - 1, last)
+    .map((line, index) => `${String(startLine + index).padStart(width)} | ${line}`)
+    .join('\n');
+}
+
+async function readFile(container: WebContainer, args: z.infer<typeof readFileParameters>) {
+  const content = await container.fs.readFile(resolveProjectPath(args.path), 'utf-8');
+
+  return truncateResult(formatLines(content, args.startLine, args.endLine));
+}
+
+async function listDirectory(container: WebContainer, args: z.infer<typeof listDirectoryParameters>) {
+  const root = resolveProjectPath(args.path);
+  const entries: string[] = [];
+
+  const walk = async (directory: string, level: number) => {
+    const dirents = await container.fs.readdir(directory, { withFileTypes: true });
+
+    for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entries.length >= MAX_DIRECTORY_ENTRIES) {
+        return;
+      }
+
+      const relativePath = path.relative(root, `${directory}/${dirent.name}`);
+
+      if (!dirent.isDirectory()) {
+        entries.push(relativePath);
+        continue;
+      }
+
+      entries.push(`${relativePath}/`);
+
+      if (level < args.depth && !IGNORED_DIRECTORIES.includes(dirent.name)) {
+        await walk(`${directory}/${dirent.name}`, level + 1);
+      }
+    }
+  };
+
+  await walk(root, 1);
+
+  if (entries.length === 0) {
+    return 'The directory is empty';
+  }
+
+  return entries.length >= MAX_DIRECTORY_ENTRIES
+    ? `${entries.join('\n')}\n... stopped after ${MAX_DIRECTORY_ENTRIES} entries, list a subdirectory instead`
+    : entries.join('\n');
+}
+
+// the native runtime has no search of its own, the files the workbench already mirrors are searched instead
+function searchWorkbenchFiles(args: z.infer<typeof searchFilesParameters>) {
+  const pattern = new RegExp(
+    args.isRegex ? args.query : args.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    args.caseSensitive ? '' : 'i',
+  );
+  const include = args.include ? globToRegExp(args.include) : undefined;
+  const matches: TextSearchMatch[] = [];
+
+  for (const [filePath, dirent] of Object.entries(workbenchStore.files.get())) {
+    const relativePath = path.relative(WORK_DIR, filePath);
+
+    if (dirent?.type !== 'file' || dirent.isBinary || (include && !include.test(relativePath))) {
+      continue;
+    }
+
+    dirent.content.split('\n').forEach((line, index) => {
+      const match = pattern.exec(line);
+
+      if (match && matches.length < MAX_SEARCH_MATCHES) {
+        matches.push({
+          path: relativePath,
+          lineNumber: index + 1,
+          previewText: line,
+          matchCharStart: match.index,
+          matchCharEnd: match.index + match[0].length,
+        });
+      }
+    });
+  }
+
+  return matches;
+}
+
+async function searchFiles(container: WebContainer, args: z.infer<typeof searchFilesParameters>) {
+  let matches: TextSearchMatch[] = [];
+
+  if (typeof container.internal?.textSearch === 'function') {
+    await performTextSearch(
+      container,
+      args.query,
+      {
+        homeDir: WORK_DIR,
+        includes: [args.include ?? '**/*.*'],
+        excludes: ['**/node_modules/**', '**/package-lock.json', '**/.git/**', '**/dist/**', '**/*.lock'],
+        gitignore: true,
+        requireGit: false,
+        globalIgnoreFiles: true,
+        ignoreSymlinks: false,
+        resultLimit: MAX_SEARCH_MATCHES,
+        isRegex: args.isRegex,
+        caseSensitive: args.caseSensitive,
+        isWordMatch: false,
+      },
+      (batch) => {
+        matches.push(...batch);
+      },
+    );
+  } else {
+    matches = searchWorkbenchFiles(args);
+  }
+
+  if (matches.length === 0) {
+    return `No matches for ${args.query}`;
+  }
+
+  return truncateResult(
+    matches
+      .slice(0, MAX_SEARCH_MATCHES)
+      .map(({ path, lineNumber, previewText }) => `${path}:${lineNumber}: ${previewText.trim()}`)
+      .join('\n'),
+  );
+}
+
+function getShellCommand(command: string): [string, string[]] {
+  if (!nativeProjectFolder.get()) {
+    return ['jsh', ['-c', command]];
+  }
+
+  return /Windows/.test(navigator.userAgent)
+    ? ['powershell.exe', ['-NoLogo', '-NonInteractive', '-Command', command]]
+    : ['bash', ['-c', command]];
+}
+
+async function runCommand(container: WebContainer, args: z.infer<typeof runCommandParameters>) {
+  const [command, commandArgs] = getShellCommand(args.command);
+  const process = await container.spawn(command, commandArgs, { cwd: WORK_DIR });
+  let output = '';
+
+  process.output
+    .pipeTo(
+      new WritableStream({
+        write: (data) => {
+          output += data.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+        },
+      }),
+    )
+    .catch(() => undefined);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const exitCode = await Promise.race([
+    process.exit,
+    new Promise<undefined>((resolve) => {
+      timeoutId = setTimeout(() => resolve(undefined), args.timeoutSeconds * 1000);
+    }),
+  ]);
+
+  clearTimeout(timeoutId);
+
+  if (exitCode === undefined) {
+    process.kill();
+
+    return truncateResult(`${output}\nThe command was stopped after ${args.timeoutSeconds} seconds`);
+  }
+
+  // the end of the output usually holds the summary or the error
+  const tail = output.length > MAX_RESULT_LENGTH ? `...\n${output.slice(-MAX_RESULT_LENGTH)}` : output;
+
+  return `Exit code ${exitCode}\n${tail}`;
+}
+
+function readPreviewConsole(args: z.infer<typeof readPreviewConsoleParameters>) {
+  const entries = previewConsole
+    .get()
+    .filter((entry) => !args.level || entry.level === args.level)
+    .slice(-args.limit);
+
+  if (entries.length === 0) {
+    return workbenchStore.previews.get().length === 0
+      ? 'No preview is running'
+      : 'The preview has not logged anything since it was opened';
+  }
+
+  return truncateResult(
+    entries.map(({ level, message, pathname }) => `[${level}]${pathname ? ` ${pathname}` : ''} ${message}`).join('\n'),
+  );
+}
+
+/**
+ * Runs a workbench tool call the model made and returns the text sent back to it, failures included so the model can
+ * correct the call
+ */
+export async function executeWorkbenchTool(toolName: WorkbenchToolName, args: unknown): Promise<string> {
+  try {
+    const container = await webcontainer;
+
+    switch (toolName) {
+      case WORKBENCH_TOOL_NAMES.READ_FILE:
+        return await readFile(container, readFileParameters.parse(args));
+      case WORKBENCH_TOOL_NAMES.LIST_DIRECTORY:
+        return await listDirectory(container, listDirectoryParameters.parse(args));
+      case WORKBENCH_TOOL_NAMES.SEARCH_FILES:
+        return await searchFiles(container, searchFilesParameters.parse(args));
+      case WORKBENCH_TOOL_NAMES.RUN_COMMAND:
+        return await runCommand(container, runCommandParameters.parse(args));
+      case WORKBENCH_TOOL_NAMES.READ_PREVIEW_CONSOLE:
+        return readPreviewConsole(readPreviewConsoleParameters.parse(args));
+      default:
+        return `Error: ${toolName} is not a workbench tool`;
+    }
+  } catch (error) {
+    logger.error(`Workbench tool ${toolName} failed`, error);
+
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Workbench tool calls waiting for the user to approve them, by tool call id
+ */
+export const pendingWorkbenchApprovals = atom<Record<string, WorkbenchToolName>>({});
+
+const approvalResolvers = new Map<string, (approved: boolean) => void>();
+
+function waitForApproval(toolCallId: string, toolName: WorkbenchToolName) {
+  return new Promise<boolean>((resolve) => {
+    approvalResolvers.set(toolCallId, resolve);
+    pendingWorkbenchApprovals.set({ ...pendingWorkbenchApprovals.get(), [toolCallId]: toolName });
+  });
+}
+
+/**
+ * Answers a workbench tool call the permission policy asked the user about
+ */
+export function answerWorkbenchToolCall(toolCallId: string, approved: boolean) {
+  const resolve = approvalResolvers.get(toolCallId);
+
+  if (!resolve) {
+    return;
+  }
+
+  approvalResolvers.delete(toolCallId);
+
+  const { [toolCallId]: _answered, ...pending } = pendingWorkbenchApprovals.get();
+  pendingWorkbenchApprovals.set(pending);
+
+  resolve(approved);
+}
+
+/**
+ * Rejects every call still waiting for an answer, e.g. when the chat is stopped
+ */
+export function rejectPendingWorkbenchToolCalls() {
+  for (const toolCallId of [...approvalResolvers.keys()]) {
+    answerWorkbenchToolCall(toolCallId, false);
+  }
+}
+
+/**
+ * Runs a workbench tool call the way MCP tool calls are run: the permission policy decides first, asking the user when
+ * needed, and the decision and result are written to the audit log. Denied calls return the reason to the model
+ */
+export async function runWorkbenchToolCall(toolCallId: string, toolName: WorkbenchToolName, args: unknown) {
+  const { settings, sessionAllowedTools } = useMCPStore.getState();
+  const call = { toolCallId, serverName: WORKBENCH_SERVER_NAME, toolName, args };
+  const decision = evaluateToolPermission(
+    settings.permissions,
+    { ...call, args: (args ?? {}) as Record<string, unknown> },
+    sessionAllowedTools,
+  );
+  const reason = decision.rule ? describeRule(decision.rule) : `${decision.source} ${decision.permission}`;
+
+  if (decision.permission === 'deny') {
+    recordToolDecision(call, 'auto-denied', reason);
+
+    return `Error: ${toolName} was denied by the tool permissions (${reason})`;
+  }
+
+  if (decision.permission === 'allow') {
+    recordToolDecision(call, 'auto-approved', reason);
+  } else {
+    const approved = await waitForApproval(toolCallId, toolName);
+
+    recordToolDecision(call, approved ? 'approved' : 'rejected');
+
+    if (!approved) {
+      return TOOL_EXECUTION_APPROVAL.REJECT;
+    }
+  }
+
+  const result = await executeWorkbenchTool(toolName, args);
+
+  recordToolResult(toolCallId, result);
+
+  return result;
+}
@@ -0,0 +1,145 @@
+import type { Message } from 'ai';
+import { chatId, createChatFromMessages, db, getAll, getMessages, getSnapshot } from '~/lib/persistence';
+import { EnhancedStreamingMessageParser } from '~/lib/runtime/enhanced-message-parser';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { WorkspaceBridgeMethods } from '~/types/mcp-server';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+
+type Handler<M extends keyof WorkspaceBridgeMethods> = (
+  params: WorkspaceBridgeMethods[M]['params'],
+) => Promise<WorkspaceBridgeMethods[M]['result']>;
+
+// answers travel back through the server to the MCP client, a whole project would not fit into its context
+const MAX_FILES_LENGTH = 200_000;
+
+function getDatabase() {
+  if (!db) {
+    throw new Error('Chat history is not available in this browser');
+  }
+
+  return db;
+}
+
+export const listChats: Handler<'listChats'> = async () => {
+  const chats = await getAll(getDatabase());
+  const openChatId = chatId.get();
+
+  return chats
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .map(({ id, urlId, description, timestamp }) => ({
+      id,
+      urlId,
+      description,
+      timestamp,
+      isOpen: id === openChatId,
+    }));
+};
+
+export const readProjectFiles: Handler<'readProjectFiles'> = async ({ chatId: requestedChatId, paths }) => {
+  let files: FileMap = workbenchStore.files.get();
+  let resolvedChatId = chatId.get();
+
+  if (requestedChatId) {
+    const chat = await getMessages(getDatabase(), requestedChatId);
+
+    if (!chat) {
+      throw new Error(`Chat ${requestedChatId} does not exist`);
+    }
+
+    resolvedChatId = chat.id;
+
+    if (chat.id !== chatId.get()) {
+      const snapshot = await getSnapshot(getDatabase(), chat.id);
+
+      if (!snapshot) {
+        throw new Error(`Chat ${requestedChatId} has no saved files yet, open it in the app first`);
+      }
+
+      files = snapshot.files;
+    }
+  }
+
+  const wanted = paths?.map((filePath) => path.join(WORK_DIR, filePath));
+  const result: Record<string, string> = {};
+  const omitted: string[] = [];
+  let length = 0;
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || (wanted && !wanted.includes(filePath))) {
+      continue;
+    }
+
+    const relativePath = path.relative(WORK_DIR, filePath);
+
+    if (dirent.isBinary || length + dirent.content.length > MAX_FILES_LENGTH) {
+      omitted.push(relativePath);
+      continue;
+    }
+
+    result[relativePath] = dirent.content;
+    length += dirent.content.length;
+  }
+
+  return { chatId: resolvedChatId, files: result, omitted };
+};
+
+export const applyArtifact: Handler<'applyArtifact'> = async ({ artifact }) => {
+  const actions: ActionCallbackData[] = [];
+
+  // the callbacks of the chat's parser, without streaming the file actions
+  const parser = new EnhancedStreamingMessageParser({
+    callbacks: {
+      onArtifactOpen: (data) => {
+        workbenchStore.showWorkbench.set(true);
+        workbenchStore.addArtifact(data);
+      },
+      onArtifactClose: (data) => {
+        workbenchStore.updateArtifact(data, { closed: true });
+      },
+      onActionClose: (data) => {
+        actions.push(data);
+        workbenchStore.addAction(data);
+        workbenchStore.runAction(data);
+      },
+    },
+  });
+
+  parser.parse(`mcp-${Date.now()}`, artifact);
+
+  if (actions.length === 0) {
+    throw new Error('The artifact has no actions, wrap them in <boltArtifact id="..." title="...">');
+  }
+
+  // the actions run one after the other in the execution queue, this resolves after the last of them
+  await new Promise<void>((resolve) => {
+    workbenchStore.addToExecutionQueue(async () => resolve());
+  });
+
+  return {
+    actions: actions.map(({ artifactId, actionId, action }) => {
+      const state = workbenchStore.artifacts.get()[artifactId]?.runner.actions.get()[actionId];
+
+      return {
+        type: action.type,
+        filePath: 'filePath' in action ? action.filePath : undefined,
+        content: action.type === 'shell' || action.type === 'start' ? action.content : undefined,
+        status: state?.status ?? 'pending',
+        error: state?.status === 'failed' ? state.error : undefined,
+      };
+    }),
+  };
+};
+
+export const createChat: Handler<'createChat'> = async ({ description, messages }) => {
+  const timestamp = Date.now();
+  const urlId = await createChatFromMessages(
+    getDatabase(),
+    description,
+    messages.map((message, index) => ({ ...message, id: `${timestamp}-${index}` }) as Message),
+  );
+
+  return { chatId: urlId, url: `${window.location.origin}/chat/${urlId}` };
+};
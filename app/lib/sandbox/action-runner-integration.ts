@@ -74,7 +74,7 @@ export class SandboxedActionRunner {
       }
 
       // Step 2: Validate command
-      const validationResult = validateCode(command, options.validationLevel);
+      const validationResult = await validateCode(command, options.validationLevel);
 
       if (!validationResult.isValid && options.validationLevel === 'strict') {
         logger.warn(`[${runId}] Command validation failed: ${validationResult.severity}`);
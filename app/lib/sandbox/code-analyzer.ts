@@ -0,0 +1,434 @@
+/**
+ * AST-based analysis behind the code validator
+ * Imports the TypeScript compiler, so it is only loaded by the validator worker, see `code-validator.ts`.
+ */
+
+import ts from 'typescript';
+import type { ExecutionLanguage, DangerousOperation, ValidationIssue, SourceLocation } from '~/types/sandbox';
+import { DANGEROUS_OPERATIONS } from '~/types/sandbox';
+
+export interface CodeAnalysis {
+  dangerousOperations: DangerousOperation[];
+  issues: ValidationIssue[];
+}
+
+type OperationCategory = keyof typeof DANGEROUS_OPERATIONS;
+
+/**
+ * What an identifier refers to: a module (or one of its members) or a global
+ */
+type Binding = { kind: 'module'; module: string; member?: string } | { kind: 'global'; name: string };
+
+const OPERATION_CATEGORIES = new Map<string, OperationCategory>(
+  (Object.keys(DANGEROUS_OPERATIONS) as OperationCategory[]).flatMap((category) =>
+    DANGEROUS_OPERATIONS[category].map((operation) => [operation, category] as const),
+  ),
+);
+
+// every call into these modules goes to the network
+const NETWORK_MODULES = new Set(['axios', 'got', 'node-fetch', 'undici', 'ws']);
+
+const GLOBAL_OBJECTS = new Set(['globalThis', 'global', 'window', 'self']);
+
+const TIMERS = new Set(['setTimeout', 'setInterval']);
+
+// modules loaded from a URL come from the network
+const REMOTE_MODULE = /^(?:https?:|data:|blob:|\/\/)/i;
+
+const OPERATION_DESCRIPTIONS: Record<OperationCategory, string> = {
+  FILE_DELETE: 'Deletes files from the filesystem',
+  PROCESS_EXEC: 'Executes external processes',
+  FILE_WRITE: 'Writes to filesystem',
+  NETWORK: 'Makes network requests',
+  EVAL: 'Executes dynamic code',
+  REQUIRE_DYNAMIC: 'Dynamically loads modules',
+};
+
+function normalizeModule(specifier: string) {
+  const name = specifier.replace(/^node:/, '');
+
+  return name === 'fs/promises' ? 'fs' : name;
+}
+
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAwaitExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node) ||
+    ts.isSatisfiesExpression(node)
+  ) {
+    return unwrapExpression(node.expression);
+  }
+
+  // indirect calls like `(0, eval)(code)`
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+    return unwrapExpression(node.right);
+  }
+
+  return node;
+}
+
+function isStringExpression(node: ts.Expression | undefined): boolean {
+  if (!node) {
+    return false;
+  }
+
+  const expression = unwrapExpression(node);
+
+  return (
+    ts.isStringLiteral(expression) ||
+    ts.isNoSubstitutionTemplateLiteral(expression) ||
+    ts.isTemplateExpression(expression) ||
+    (ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+      (isStringExpression(expression.left) || isStringExpression(expression.right)))
+  );
+}
+
+/**
+ * Parser based analysis: follows imports, `require` calls and aliases to the operations they end up calling,
+ * so `const { exec: run } = require('child_process')` is caught while a `setTimeout` callback is not.
+ *
+ * Identifiers are resolved by the type checker, scope by scope: a `fetch` parameter only shadows the global inside its
+ * function. Without the default library, globals resolve to no declaration at all.
+ */
+class AstCodeAnalyzer {
+  #code: string;
+  #sourceFile: ts.SourceFile;
+  #checker: ts.TypeChecker;
+  #bindings = new Map<ts.Symbol, Binding>();
+  #dangerousOperations: DangerousOperation[] = [];
+  #issues: ValidationIssue[] = [];
+
+  constructor(code: string, language: ExecutionLanguage) {
+    const fileName = language === 'typescript' ? '/sandbox.ts' : '/sandbox.js';
+
+    this.#code = code;
+    this.#sourceFile = ts.createSourceFile(
+      fileName,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JS,
+    );
+
+    const host: ts.CompilerHost = {
+      getSourceFile: (name) => (name === fileName ? this.#sourceFile : undefined),
+      getDefaultLibFileName: () => '/lib.d.ts',
+      writeFile: () => undefined,
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: (name) => name,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: (name) => name === fileName,
+      readFile: () => undefined,
+    };
+    const program = ts.createProgram([fileName], { noLib: true, noResolve: true, allowJs: true, types: [] }, host);
+
+    this.#checker = program.getTypeChecker();
+  }
+
+  analyze(): CodeAnalysis {
+    // the parser keeps syntax errors on the source file, they are not part of the public typings
+    const { parseDiagnostics } = this.#sourceFile as unknown as { parseDiagnostics: ts.DiagnosticWithLocation[] };
+
+    for (const diagnostic of parseDiagnostics) {
+      this.#issues.push({
+        type: 'syntax-error',
+        severity: 'error',
+        message: `Syntax error: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
+        location: this.#getRange(diagnostic.start, diagnostic.start + diagnostic.length),
+      });
+    }
+
+    this.#visit(this.#sourceFile);
+
+    if (this.#code.length > 1024 * 1024) {
+      // 1MB
+      this.#issues.push({
+        type: 'resource-limit',
+        severity: 'warning',
+        message: 'Code size exceeds 1MB - may impact execution performance',
+      });
+    }
+
+    return { dangerousOperations: this.#dangerousOperations, issues: this.#issues };
+  }
+
+  #visit(node: ts.Node) {
+    if (ts.isImportDeclaration(node)) {
+      this.#bindImport(node);
+    } else if (ts.isVariableDeclaration(node) && node.initializer) {
+      this.#bindVariable(node.name, node.initializer);
+    } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      this.#checkCall(node);
+    } else if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      if (ts.isElementAccessExpression(node) && !ts.isStringLiteralLike(node.argumentExpression)) {
+        const base = this.#resolve(node.expression);
+
+        // `globalThis['ev' + 'al']` reaches any global, including eval, Function and require
+        if (base?.kind === 'global' && GLOBAL_OBJECTS.has(base.name)) {
+          const operation = `${base.name}[]`;
+
+          this.#report(operation, 'EVAL', node);
+          this.#issues.push({
+            type: 'dangerous-operation',
+            severity: 'error',
+            message: `Computed access on ${base.name} detected - it can reach eval, Function or require`,
+            location: this.#getRange(node.getStart(), node.getEnd()),
+            suggestion: `Access globals of ${base.name} by their literal name`,
+          });
+        }
+      }
+
+      const binding = this.#resolve(node);
+
+      if (binding?.kind === 'global' && (binding.name === 'require.main' || binding.name === 'require.resolve')) {
+        this.#report(binding.name, 'REQUIRE_DYNAMIC', node);
+
+        // `require.resolve` itself is the finding, don't descend into its `require`
+        return;
+      }
+    }
+
+    ts.forEachChild(node, (child) => this.#visit(child));
+  }
+
+  #bindImport(node: ts.ImportDeclaration) {
+    const clause = node.importClause;
+
+    if (!clause || !ts.isStringLiteral(node.moduleSpecifier)) {
+      return;
+    }
+
+    const module = node.moduleSpecifier.text;
+
+    if (clause.name) {
+      this.#bind(clause.name, { kind: 'module', module });
+    }
+
+    if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+      this.#bind(clause.namedBindings.name, { kind: 'module', module });
+    } else if (clause.namedBindings) {
+      for (const element of clause.namedBindings.elements) {
+        const member = (element.propertyName ?? element.name).text;
+        this.#bind(element.name, {
+          kind: 'module',
+          module,
+          member: member === 'default' ? undefined : member,
+        });
+      }
+    }
+  }
+
+  #bindVariable(name: ts.BindingName, initializer: ts.Expression) {
+    const binding = this.#resolve(initializer);
+
+    if (!binding) {
+      return;
+    }
+
+    if (ts.isIdentifier(name)) {
+      this.#bind(name, binding);
+      return;
+    }
+
+    if (!ts.isObjectBindingPattern(name)) {
+      return;
+    }
+
+    for (const element of name.elements) {
+      const property = element.propertyName ?? element.name;
+
+      if (!ts.isIdentifier(element.name) || !(ts.isIdentifier(property) || ts.isStringLiteral(property))) {
+        continue;
+      }
+
+      const member = this.#member(binding, property.text);
+
+      if (member) {
+        this.#bind(element.name, member);
+      }
+    }
+  }
+
+  #bind(name: ts.Identifier, binding: Binding) {
+    const symbol = this.#checker.getSymbolAtLocation(name);
+
+    if (symbol) {
+      this.#bindings.set(symbol, binding);
+    }
+  }
+
+  /**
+   * Resolve an expression to the module member or global it refers to
+   */
+  #resolve(node: ts.Expression): Binding | undefined {
+    const expression = unwrapExpression(node);
+
+    if (ts.isIdentifier(expression)) {
+      const symbol = this.#checker.getSymbolAtLocation(expression);
+      const binding = symbol && this.#bindings.get(symbol);
+
+      if (binding) {
+        return binding;
+      }
+
+      // anything the code declares itself shadows the global of the same name in its scope
+      const isDeclared = symbol?.declarations?.some((declaration) => declaration.getSourceFile() === this.#sourceFile);
+
+      return isDeclared ? undefined : { kind: 'global', name: expression.text };
+    }
+
+    if (ts.isPropertyAccessExpression(expression)) {
+      const base = this.#resolve(expression.expression);
+
+      return base && this.#member(base, expression.name.text);
+    }
+
+    if (ts.isElementAccessExpression(expression) && ts.isStringLiteralLike(expression.argumentExpression)) {
+      const base = this.#resolve(expression.expression);
+
+      return base && this.#member(base, expression.argumentExpression.text);
+    }
+
+    if (ts.isCallExpression(expression)) {
+      const specifier = this.#getModuleSpecifier(expression);
+
+      return specifier === undefined ? undefined : { kind: 'module', module: specifier };
+    }
+
+    return undefined;
+  }
+
+  #member(base: Binding, name: string): Binding | undefined {
+    if (base.kind === 'module') {
+      // `fs.promises` has the same operations as `fs`
+      if (!base.member && normalizeModule(base.module) === 'fs' && name === 'promises') {
+        return base;
+      }
+
+      return { kind: 'module', module: base.module, member: base.member ? `${base.member}.${name}` : name };
+    }
+
+    if (GLOBAL_OBJECTS.has(base.name)) {
+      return { kind: 'global', name };
+    }
+
+    return { kind: 'global', name: `${base.name}.${name}` };
+  }
+
+  /**
+   * The module loaded by `require('x')` or `import('x')`, undefined for other calls
+   */
+  #getModuleSpecifier(node: ts.CallExpression): string | undefined {
+    const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+    const callee = isImport ? undefined : this.#resolve(node.expression);
+
+    if (!isImport && !(callee?.kind === 'global' && callee.name === 'require')) {
+      return undefined;
+    }
+
+    const [argument] = node.arguments;
+
+    return argument && ts.isStringLiteralLike(argument) ? argument.text : undefined;
+  }
+
+  #checkCall(node: ts.CallExpression | ts.NewExpression) {
+    const [argument] = node.arguments ?? [];
+
+    if (ts.isCallExpression(node)) {
+      const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const callee = isImport ? undefined : this.#resolve(node.expression);
+
+      if (isImport || (callee?.kind === 'global' && callee.name === 'require')) {
+        if (isImport && argument && ts.isStringLiteralLike(argument) && REMOTE_MODULE.test(argument.text)) {
+          this.#report('import', 'NETWORK', node);
+        }
+
+        if (argument && !ts.isStringLiteralLike(argument)) {
+          const operation = isImport ? 'import' : 'require';
+
+          this.#report(operation, 'REQUIRE_DYNAMIC', node);
+          this.#issues.push({
+            type: 'dangerous-operation',
+            severity: 'warning',
+            message: `Dynamic ${operation}() with a computed module name`,
+            location: this.#getRange(node.getStart(), node.getEnd()),
+            suggestion: 'Load modules by their literal name',
+          });
+        }
+
+        return;
+      }
+    }
+
+    const binding = this.#resolve(node.expression);
+
+    if (!binding) {
+      return;
+    }
+
+    const operation = binding.kind === 'module' ? this.#getModuleOperation(binding) : binding.name;
+    const category =
+      binding.kind === 'module' && NETWORK_MODULES.has(normalizeModule(binding.module))
+        ? 'NETWORK'
+        : OPERATION_CATEGORIES.get(operation);
+
+    // require.main and require.resolve are reported where they are accessed
+    if (!category || category === 'REQUIRE_DYNAMIC') {
+      return;
+    }
+
+    // timers only evaluate code when they are given a string instead of a callback
+    if (TIMERS.has(operation) && !isStringExpression(argument)) {
+      return;
+    }
+
+    this.#report(operation, category, node);
+
+    if (category === 'EVAL') {
+      this.#issues.push({
+        type: 'dangerous-operation',
+        severity: 'error',
+        message:
+          operation === 'Function'
+            ? 'Function constructor detected - can execute arbitrary code'
+            : `${operation}() detected - arbitrary code execution is not allowed`,
+        location: this.#getRange(node.getStart(), node.getEnd()),
+        suggestion:
+          operation === 'Function'
+            ? 'Use predefined functions or safer alternatives'
+            : 'Use JSON.parse() or other safe alternatives instead',
+      });
+    }
+  }
+
+  #getModuleOperation(binding: Extract<Binding, { kind: 'module' }>) {
+    const module = normalizeModule(binding.module);
+
+    return binding.member ? `${module}.${binding.member}` : module;
+  }
+
+  #report(operation: string, category: OperationCategory, node: ts.Node) {
+    this.#dangerousOperations.push({
+      operation,
+      category,
+      location: this.#getRange(node.getStart(), node.getEnd()),
+      description: `${OPERATION_DESCRIPTIONS[category]}: ${operation}`,
+    });
+  }
+
+  #getRange(start: number, end: number): SourceLocation {
+    const from = this.#sourceFile.getLineAndCharacterOfPosition(start);
+    const to = this.#sourceFile.getLineAndCharacterOfPosition(end);
+
+    return { line: from.line + 1, column: from.character, endLine: to.line + 1, endColumn: to.character };
+  }
+}
+
+export function analyzeCode(code: string, language: ExecutionLanguage): CodeAnalysis {
+  return new AstCodeAnalyzer(code, language).analyze();
+}
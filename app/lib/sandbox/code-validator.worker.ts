@@ -0,0 +1,26 @@
+/**
+ * Code Validator Worker - runs the AST analysis off the main thread
+ * The analysis needs the TypeScript compiler, which only this worker's chunk loads.
+ */
+
+import type { ExecutionLanguage } from '~/types/sandbox';
+import { analyzeCode, type CodeAnalysis } from './code-analyzer';
+
+export type CodeValidatorWorkerRequest = { id: number; code: string; language: ExecutionLanguage };
+
+export type CodeValidatorWorkerResponse = { id: number; analysis: CodeAnalysis } | { id: number; error: string };
+
+const scope = globalThis as any;
+
+scope.addEventListener('message', (event: MessageEvent<CodeValidatorWorkerRequest>) => {
+  const { id, code, language } = event.data;
+  let response: CodeValidatorWorkerResponse;
+
+  try {
+    response = { id, analysis: analyzeCode(code, language) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  scope.postMessage(response);
+});
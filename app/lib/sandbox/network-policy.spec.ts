@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { checkNetworkRequest, matchesDomain } from './network-policy';
+
+describe('matchesDomain', () => {
+  it('should match the domain and its subdomains', () => {
+    expect(matchesDomain('api.github.com', 'github.com')).toBe(true);
+    expect(matchesDomain('github.com', 'github.com')).toBe(true);
+    expect(matchesDomain('notgithub.com', 'github.com')).toBe(false);
+  });
+
+  it('should only match subdomains for wildcard entries', () => {
+    expect(matchesDomain('cdn.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+  });
+});
+
+describe('checkNetworkRequest', () => {
+  it('should block every request when the network is disabled', () => {
+    expect(checkNetworkRequest('https://github.com', { allowNetworkRequests: false }).allowed).toBe(false);
+  });
+
+  it('should honor the allowed domains', () => {
+    const policy = { allowNetworkRequests: true, whitelistedDomains: ['registry.npmjs.org'] };
+
+    expect(checkNetworkRequest('https://registry.npmjs.org/react', policy)).toEqual({ allowed: true });
+    expect(checkNetworkRequest('https://evil.test/upload', policy)).toEqual({
+      allowed: false,
+      reason: 'evil.test is not in the allowed domains',
+    });
+    expect(checkNetworkRequest('https://github.com', { allowNetworkRequests: true }).allowed).toBe(true);
+  });
+});
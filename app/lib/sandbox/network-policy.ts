@@ -0,0 +1,52 @@
+/**
+ * Network policy - decides which requests an execution may make
+ * Shared by the worker runtime and the request guard injected into WebContainer processes
+ */
+
+export interface NetworkPolicy {
+  allowNetworkRequests: boolean;
+  whitelistedDomains?: string[];
+}
+
+export interface NetworkDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Whether a hostname matches an allow-list entry. `example.com` also allows its subdomains,
+ * `*.example.com` allows the subdomains only.
+ */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  const host = hostname.toLowerCase();
+  const entry = domain.trim().toLowerCase();
+
+  if (entry.startsWith('*.')) {
+    return host.endsWith(entry.slice(1));
+  }
+
+  return host === entry || host.endsWith(`.${entry}`);
+}
+
+export function checkNetworkRequest(url: string, policy: NetworkPolicy): NetworkDecision {
+  if (!policy.allowNetworkRequests) {
+    return { allowed: false, reason: 'Network requests are disabled for this sandbox' };
+  }
+
+  let hostname: string;
+
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return { allowed: false, reason: `Invalid URL: ${url}` };
+  }
+
+  const domains = policy.whitelistedDomains ?? [];
+
+  // an empty allow-list with network enabled means any domain
+  if (domains.length === 0 || domains.some((domain) => matchesDomain(hostname, domain))) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, reason: `${hostname} is not in the allowed domains` };
+}
@@ -0,0 +1,463 @@
+/**
+ * Sandbox runtimes - the isolation boundaries executions run behind
+ * Plain JavaScript runs in a dedicated Web Worker, Node and TypeScript code in a WebContainer process.
+ * Both start from a copy of the project files and report the filesystem they ended with, the project is never written.
+ */
+
+import type { ExecutionLanguage, SandboxRunRequest, SandboxRunResult, SandboxRuntime } from '~/types/sandbox';
+import { webcontainer } from '~/lib/webcontainer';
+import { createScopedLogger } from '~/utils/logger';
+import { matchesDomain } from './network-policy';
+import { FilesystemLimitError } from './virtual-fs';
+import type { SandboxWorkerMessage } from './sandbox.worker';
+
+const logger = createScopedLogger('SandboxRuntime');
+
+const MEMORY_POLL_INTERVAL_MS = 1000;
+const RESULT_MARKER = '\u0000__SANDBOX_RESULT__';
+
+function timeoutResult(request: SandboxRunRequest, output: string, errors: string): SandboxRunResult {
+  return {
+    status: 'timeout',
+    exitCode: 124,
+    output,
+    errors: `${errors}Execution timeout after ${request.timeout}ms\n`,
+    files: request.files,
+    fileOperations: [],
+    networkRequests: [],
+  };
+}
+
+/**
+ * Memory used by the sandbox workers of the page, when the browser can measure it.
+ * Needs cross-origin isolation, which the app enables for the WebContainer anyway.
+ */
+async function measureSandboxMemory(): Promise<number | undefined> {
+  const measure = (performance as any).measureUserAgentSpecificMemory;
+
+  if (typeof measure !== 'function' || !globalThis.crossOriginIsolated) {
+    return undefined;
+  }
+
+  const result: { breakdown: Array<{ bytes: number; attribution: Array<{ url: string; scope: string }> }> } =
+    await measure.call(performance);
+
+  return result.breakdown
+    .filter((entry) =>
+      entry.attribution.some(
+        (attribution) =>
+          attribution.scope === 'DedicatedWorkerGlobalScope' && attribution.url.includes('sandbox.worker'),
+      ),
+    )
+    .reduce((total, entry) => total + entry.bytes, 0);
+}
+
+export class WorkerSandboxRuntime implements SandboxRuntime {
+  run(request: SandboxRunRequest, onOutput?: (chunk: string) => void): Promise<SandboxRunResult> {
+    return new Promise((resolve) => {
+      const worker = new Worker(new URL('./sandbox.worker.ts', import.meta.url), { type: 'module' });
+
+      let output = '';
+      let errors = '';
+      let settled = false;
+
+      const settle = (result: SandboxRunResult) => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        clearTimeout(timeoutId);
+        clearInterval(memoryIntervalId);
+        worker.terminate();
+        resolve(result);
+      };
+
+      // terminating the worker is what makes the timeout real: busy loops never get to check a flag
+      const timeoutId = setTimeout(() => settle(timeoutResult(request, output, errors)), request.timeout);
+
+      const memoryIntervalId = setInterval(async () => {
+        try {
+          const bytes = await measureSandboxMemory();
+
+          if (bytes !== undefined && bytes > request.memoryLimit * 1024 * 1024) {
+            settle({
+              status: 'aborted',
+              exitCode: 137,
+              output,
+              errors: `${errors}Memory limit of ${request.memoryLimit}MB exceeded\n`,
+              files: request.files,
+              fileOperations: [],
+              networkRequests: [],
+            });
+          }
+        } catch (error) {
+          logger.debug('Unable to measure sandbox memory', error);
+        }
+      }, MEMORY_POLL_INTERVAL_MS);
+
+      worker.addEventListener('message', (event: MessageEvent<SandboxWorkerMessage>) => {
+        const message = event.data;
+
+        if (message.type === 'output') {
+          if (message.stream === 'stdout') {
+            output += message.chunk;
+          } else {
+            errors += message.chunk;
+          }
+
+          onOutput?.(message.chunk);
+
+          return;
+        }
+
+        settle({ ...message.result, output, errors });
+      });
+
+      worker.addEventListener('error', (event) => {
+        event.preventDefault();
+        settle({
+          status: 'error',
+          exitCode: 1,
+          output,
+          errors: `${errors}${event.message || 'Sandbox worker failed'}\n`,
+          files: request.files,
+          fileOperations: [],
+          networkRequests: [],
+        });
+      });
+
+      worker.postMessage({ type: 'run', request });
+    });
+  }
+}
+
+/*
+ * Runs inside the WebContainer process, which shares its filesystem with the project: copies the overlay into a
+ * temporary directory outside of the project and confines writes and the working directory to it, guards fetch,
+ * http(s) and every socket with the allow-list, disables the modules that reach past these guards, runs the code
+ * and prints the resulting filesystem after the marker of this run on exit.
+ */
+const BOOTSTRAP = `
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const net = require('net');
+const http = require('http');
+const https = require('https');
+const Module = require('module');
+const { fileURLToPath } = require('url');
+const matchesDomain = ${matchesDomain.toString()};
+// the code may replace any of these, the result is printed with the originals
+const { readdirSync, readFileSync, writeFileSync, mkdirSync, writeSync } = fs;
+const stringify = JSON.stringify;
+const byteLength = Buffer.byteLength;
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => (input += chunk));
+process.stdin.on('end', () => {
+  const payload = JSON.parse(input);
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-'));
+  const entry = path.join(root, '.sandbox-entry.js');
+  const networkRequests = [];
+  const allowedHosts = new Set();
+  for (const [file, content] of Object.entries(payload.files)) {
+    const target = path.join(root, file);
+    mkdirSync(path.dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  const check = (url, method) => {
+    const hostname = new URL(url).hostname;
+    const domains = payload.whitelistedDomains;
+    const allowed = payload.allowNetworkRequests && (domains.length === 0 || domains.some((domain) => matchesDomain(hostname, domain)));
+    const request = { timestamp: Date.now(), method, url, blocked: !allowed };
+    if (!allowed) {
+      request.reason = payload.allowNetworkRequests ? hostname + ' is not in the allowed domains' : 'Network requests are disabled for this sandbox';
+    }
+    networkRequests.push(request);
+    if (!allowed) {
+      throw new Error('Network request blocked: ' + request.reason);
+    }
+    allowedHosts.add(hostname);
+  };
+  if (globalThis.fetch) {
+    const nativeFetch = globalThis.fetch;
+    globalThis.fetch = async (resource, init) => {
+      check(String(resource && resource.url ? resource.url : resource), (init && init.method) || 'GET');
+      return nativeFetch(resource, init);
+    };
+  }
+  for (const [mod, protocol] of [[http, 'http:'], [https, 'https:']]) {
+    const request = mod.request;
+    mod.request = function (options, ...rest) {
+      const url = typeof options === 'string' || options instanceof URL ? String(options) : protocol + '//' + (options.hostname || options.host || 'localhost') + (options.path || '/');
+      check(url, (options && options.method) || 'GET');
+      return request.call(this, options, ...rest);
+    };
+    mod.get = function (...args) {
+      const req = mod.request(...args);
+      req.end();
+      return req;
+    };
+  }
+  // every TCP connection goes through the socket, including the ones of net, tls, http2 and undici
+  const connect = net.Socket.prototype.connect;
+  net.Socket.prototype.connect = function (...args) {
+    const [first, second] = Array.isArray(args[0]) ? args[0] : args;
+    const options = typeof first === 'object' && first !== null ? first : { port: first, host: typeof second === 'string' ? second : undefined };
+    if (options.path || (typeof options.port === 'string' && !/^\\d+$/.test(options.port))) {
+      throw new Error('Network request blocked: local sockets are not available in the sandbox');
+    }
+    const host = options.host || options.hostname || 'localhost';
+    // the http(s) guard already checked and logged the host of its own connections
+    if (!allowedHosts.has(host)) {
+      check('tcp://' + (host.includes(':') ? '[' + host + ']' : host) + ':' + options.port, 'CONNECT');
+    }
+    return connect.apply(this, args);
+  };
+  // other processes, UDP and threads with fresh, unguarded modules reach past the guards
+  for (const name of ['child_process', 'dgram', 'worker_threads', 'cluster']) {
+    let mod;
+    try {
+      mod = require(name);
+    } catch {
+      continue;
+    }
+    for (const key of Object.keys(mod)) {
+      if (typeof mod[key] === 'function') {
+        mod[key] = () => {
+          throw new Error(name + ' is not available in the sandbox');
+        };
+      }
+    }
+  }
+  process.binding = process._linkedBinding = process.dlopen = () => {
+    throw new Error('Native bindings are not available in the sandbox');
+  };
+  const inside = (target) => {
+    // file descriptors were checked when they were opened
+    if (typeof target === 'number') {
+      return true;
+    }
+    const resolved = path.resolve(target instanceof URL ? fileURLToPath(target) : String(target));
+    return resolved === root || resolved.startsWith(root + path.sep);
+  };
+  const deny = (operation, target) => {
+    const error = new Error('EACCES: the sandbox cannot write outside of its directory, ' + operation + " '" + target + "'");
+    error.code = 'EACCES';
+    throw error;
+  };
+  // argument positions of the paths each operation writes to
+  const WRITES = { writeFile: [0], appendFile: [0], mkdir: [0], mkdtemp: [0], rm: [0], rmdir: [0], unlink: [0], rename: [0, 1], copyFile: [1], cp: [1], link: [1], truncate: [0], chmod: [0], chown: [0], lchown: [0], utimes: [0], lutimes: [0], createWriteStream: [0] };
+  for (const target of [fs, fs.promises]) {
+    for (const name of Object.keys(target)) {
+      const operation = name.replace(/Sync$/, '');
+      const original = target[name];
+      if (typeof original !== 'function' || !(operation in WRITES || operation === 'symlink' || operation === 'open')) {
+        continue;
+      }
+      target[name] = function (...args) {
+        if (operation === 'symlink') {
+          // a link pointing outside would let later writes through it escape
+          const linkTarget = path.resolve(path.dirname(path.resolve(String(args[1]))), String(args[0]));
+          if (!inside(args[1]) || !inside(linkTarget)) {
+            deny(name, args[1]);
+          }
+        } else if (operation === 'open') {
+          const flags = args[1];
+          const readOnly = flags === undefined || flags === null || flags === 'r' || flags === 'rs' || flags === 'sr' || flags === fs.constants.O_RDONLY || typeof flags === 'function';
+          if (!readOnly && !inside(args[0])) {
+            deny(name, args[0]);
+          }
+        } else {
+          for (const index of WRITES[operation]) {
+            if (args[index] !== undefined && !inside(args[index])) {
+              deny(name, args[index]);
+            }
+          }
+        }
+        return original.apply(this, args);
+      };
+    }
+  }
+  const chdir = process.chdir;
+  process.chdir = (directory) => {
+    if (!inside(directory)) {
+      throw new Error('The sandbox cannot leave its directory: ' + directory);
+    }
+    chdir(directory);
+  };
+  // import() of a builtin reads its named exports from this copy
+  if (Module.syncBuiltinESMExports) {
+    Module.syncBuiltinESMExports();
+  }
+  process.on('exit', () => {
+    const files = {};
+    let size = 0;
+    const walk = (dir) => {
+      for (const dirent of readdirSync(dir, { withFileTypes: true })) {
+        const full = path.join(dir, dirent.name);
+        if (dirent.isDirectory()) {
+          if (dirent.name !== 'node_modules') walk(full);
+        } else if (full !== entry) {
+          const content = readFileSync(full, 'utf8');
+          size += byteLength(content);
+          files[path.relative(root, full)] = content;
+        }
+      }
+    };
+    walk(root);
+    writeSync(1, '\\n' + payload.marker + stringify({ files, size, networkRequests }) + '\\n');
+  });
+  let code = payload.code;
+  if (payload.language === 'typescript') {
+    const ts = require(require.resolve('typescript', { paths: [payload.nodeModules] }));
+    code = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } }).outputText;
+  }
+  writeFileSync(entry, '(async () => {\\n' + code + '\\n})().catch((error) => { console.error(error); process.exitCode = 1; });');
+  Object.assign(process.env, payload.env, { NODE_PATH: payload.nodeModules });
+  Module._initPaths();
+  process.chdir(root);
+  require(entry);
+});
+`;
+
+export class WebContainerSandboxRuntime implements SandboxRuntime {
+  async run(request: SandboxRunRequest, onOutput?: (chunk: string) => void): Promise<SandboxRunResult> {
+    const container = await webcontainer;
+    const prefix = request.cwd.endsWith('/') ? request.cwd : `${request.cwd}/`;
+    const files = Object.fromEntries(
+      Object.entries(request.files)
+        .filter(([path]) => path.startsWith(prefix))
+        .map(([path, content]) => [path.slice(prefix.length), content]),
+    );
+
+    // unique per run, output of the code cannot forge the result without knowing it
+    const marker = `${RESULT_MARKER}${crypto.randomUUID()}\u0000`;
+
+    const sandboxProcess = await container.spawn(
+      'node',
+      [`--max-old-space-size=${request.memoryLimit}`, '-e', BOOTSTRAP],
+      {
+        env: { NODE_NO_WARNINGS: '1' },
+      },
+    );
+
+    let raw = '';
+    let emitted = 0;
+
+    // the resulting filesystem is printed after the marker, everything before it is the output of the execution
+    sandboxProcess.output.pipeTo(
+      new WritableStream({
+        write(chunk) {
+          raw += chunk;
+
+          const markerIndex = raw.indexOf(marker);
+          const end = markerIndex === -1 ? Math.max(emitted, raw.length - marker.length) : markerIndex;
+
+          if (end > emitted) {
+            onOutput?.(raw.slice(emitted, end));
+            emitted = end;
+          }
+        },
+      }),
+    );
+
+    const writer = sandboxProcess.input.getWriter();
+    await writer.write(
+      JSON.stringify({
+        code: request.code,
+        language: request.language,
+        files,
+        allowNetworkRequests: request.allowNetworkRequests,
+        whitelistedDomains: request.whitelistedDomains ?? [],
+        env: request.environmentVariables ?? {},
+        nodeModules: `${prefix}node_modules`,
+        marker,
+      }),
+    );
+    await writer.close();
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const exitCode = await Promise.race([
+      sandboxProcess.exit,
+      new Promise<undefined>((resolve) => {
+        timeoutId = setTimeout(() => resolve(undefined), request.timeout);
+      }),
+    ]);
+
+    clearTimeout(timeoutId);
+
+    if (exitCode === undefined) {
+      sandboxProcess.kill();
+      return timeoutResult(request, raw, '');
+    }
+
+    const markerIndex = raw.indexOf(marker);
+    const output = (markerIndex === -1 ? raw : raw.slice(0, markerIndex)).trimEnd();
+
+    if (markerIndex === -1) {
+      const outOfMemory = output.includes('heap out of memory');
+
+      return {
+        status: outOfMemory ? 'aborted' : 'error',
+        exitCode,
+        output,
+        errors: outOfMemory
+          ? `Memory limit of ${request.memoryLimit}MB exceeded`
+          : `Process exited with code ${exitCode}`,
+        files: request.files,
+        fileOperations: [],
+        networkRequests: [],
+      };
+    }
+
+    let state: { files: Record<string, string>; size: number; networkRequests: SandboxRunResult['networkRequests'] };
+
+    try {
+      state = JSON.parse(raw.slice(markerIndex + marker.length).trim());
+    } catch (error) {
+      logger.error('Unreadable sandbox result', error);
+
+      return {
+        status: 'error',
+        exitCode: 1,
+        output,
+        errors: 'The sandbox process printed an unreadable result',
+        files: request.files,
+        fileOperations: [],
+        networkRequests: [],
+      };
+    }
+
+    const limitBytes = request.filesystemLimit * 1024 * 1024;
+
+    // the process wrote to a real directory, so the filesystem limit can only be checked once it exited
+    if (state.size > limitBytes) {
+      return {
+        status: 'error',
+        exitCode: 1,
+        output,
+        errors: new FilesystemLimitError(limitBytes).message,
+        files: request.files,
+        fileOperations: [],
+        networkRequests: state.networkRequests,
+      };
+    }
+
+    return {
+      status: exitCode === 0 ? 'success' : 'error',
+      exitCode,
+      output,
+      errors: exitCode === 0 ? '' : `Process exited with code ${exitCode}`,
+      files: Object.fromEntries(Object.entries(state.files).map(([path, content]) => [`${prefix}${path}`, content])),
+      fileOperations: [],
+      networkRequests: state.networkRequests,
+    };
+  }
+}
+
+export function getSandboxRuntime(language: ExecutionLanguage): SandboxRuntime {
+  return language === 'javascript' ? new WorkerSandboxRuntime() : new WebContainerSandboxRuntime();
+}
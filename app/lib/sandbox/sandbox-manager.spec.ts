@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileChange, SandboxConfig, SandboxRunRequest } from '~/types/sandbox';
+import { SandboxManager } from './sandbox-manager';
+
+const config: SandboxConfig = {
+  id: 'sandbox-1',
+  executionType: 'playground',
+  language: 'javascript',
+  validationLevel: 'permissive',
+  timeout: 1000,
+  memoryLimit: 64,
+  filesystemLimit: 1,
+  allowNetworkRequests: false,
+};
+
+function createManager() {
+  const project: Record<string, string> = { '/home/project/a.txt': 'a' };
+  const applyChanges = vi.fn(async (changes: FileChange[]) => {
+    for (const change of changes) {
+      if (change.type === 'deleted') {
+        delete project[change.path];
+      } else {
+        project[change.path] = change.after ?? '';
+      }
+    }
+  });
+  const run = vi.fn(async (request: SandboxRunRequest) => ({
+    status: 'success' as const,
+    exitCode: 0,
+    output: 'ok\n',
+    errors: '',
+    files: { ...request.files, '/home/project/a.txt': 'changed', '/home/project/b.txt': 'b' },
+    fileOperations: [],
+    networkRequests: [],
+  }));
+
+  const manager = new SandboxManager(async () => ({
+    workspace: { cwd: '/home/project', getFiles: async () => ({ ...project }), applyChanges },
+    getRuntime: () => ({ run }),
+  }));
+
+  return { manager, project, run, applyChanges };
+}
+
+describe('SandboxManager', () => {
+  it('should run in the runtime and keep the changes for review', async () => {
+    const { manager, project, run } = createManager();
+    const session = manager.createSession(config);
+
+    const log = await manager.executeCode(session.id, config, 'console.log("ok")');
+
+    expect(run.mock.calls[0][0]).toMatchObject({ cwd: '/home/project', timeout: 1000, allowNetworkRequests: false });
+    expect(log.status).toBe('success');
+    expect(log.output).toBe('ok\n');
+    expect(manager.getSession(session.id)?.executionLogs).toEqual([log]);
+    expect(manager.getSnapshot(log.id)?.reviewStatus).toBe('pending');
+    expect(project['/home/project/a.txt']).toBe('a');
+  });
+
+  it('should apply reviewed changes and roll them back', async () => {
+    const { manager, project } = createManager();
+    const session = manager.createSession(config);
+    const log = await manager.executeCode(session.id, config, 'run()');
+
+    await manager.applyExecutionChanges(log.id, ['/home/project/b.txt']);
+
+    expect(project).toEqual({ '/home/project/a.txt': 'a', '/home/project/b.txt': 'b' });
+    expect(() => manager.discardExecutionChanges(log.id)).toThrow('already applied');
+
+    await manager.rollbackExecution(log.id);
+
+    expect(project).toEqual({ '/home/project/a.txt': 'a' });
+  });
+
+  it('should leave the project untouched when changes are discarded', async () => {
+    const { manager, applyChanges } = createManager();
+    const session = manager.createSession(config);
+    const log = await manager.executeCode(session.id, config, 'run()');
+
+    manager.discardExecutionChanges(log.id);
+    await manager.rollbackExecution(log.id);
+
+    expect(applyChanges).not.toHaveBeenCalled();
+  });
+});
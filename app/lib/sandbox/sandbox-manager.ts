@@ -6,22 +6,49 @@
 import { createScopedLogger } from '~/utils/logger';
 import type {
   SandboxConfig,
+  ExecutionLanguage,
   ExecutionLog,
   SandboxSession,
   ExecutionSnapshot,
-  FileChange,
+  SandboxRuntime,
+  SandboxWorkspace,
 } from '~/types/sandbox';
 import { SANDBOX_LIMITS } from '~/types/sandbox';
 import { CodeValidator, validateCode, requiresApproval } from './code-validator';
+import { computeFileChanges } from './virtual-fs';
 
 const logger = createScopedLogger('SandboxManager');
 
+/**
+ * Where executions run and which project they read from. The isolated runtimes need a browser,
+ * on the server executions fail instead of falling back to running unisolated.
+ */
+export interface SandboxEnvironment {
+  workspace: SandboxWorkspace;
+  getRuntime(language: ExecutionLanguage): SandboxRuntime;
+}
+
+async function loadBrowserEnvironment(): Promise<SandboxEnvironment> {
+  if (typeof window === 'undefined') {
+    throw new Error('Sandbox executions need the browser runtime and cannot run on the server');
+  }
+
+  const [{ getSandboxRuntime }, { projectWorkspace }] = await Promise.all([
+    import('./runtimes'),
+    import('./workspace'),
+  ]);
+
+  return { workspace: projectWorkspace, getRuntime: getSandboxRuntime };
+}
+
 interface QueuedExecution {
   id: string;
+  sessionId: string;
   config: SandboxConfig;
   code: string;
   priority: 'high' | 'normal' | 'low';
   timestamp: number;
+  onOutput?: (chunk: string) => void;
   resolve: (log: ExecutionLog) => void;
   reject: (error: Error) => void;
 }
@@ -31,8 +58,10 @@ export class SandboxManager {
   private executionQueue: QueuedExecution[] = [];
   private activeExecutions: Set<string> = new Set();
   private fileSnapshots: Map<string, ExecutionSnapshot> = new Map();
+  #loadEnvironment: () => Promise<SandboxEnvironment>;
 
-  constructor() {
+  constructor(loadEnvironment: () => Promise<SandboxEnvironment> = loadBrowserEnvironment) {
+    this.#loadEnvironment = loadEnvironment;
     this.startQueueProcessor();
   }
 
@@ -63,6 +92,7 @@ export class SandboxManager {
     config: SandboxConfig,
     code: string,
     priority: 'high' | 'normal' | 'low' = 'normal',
+    onOutput?: (chunk: string) => void,
   ): Promise<ExecutionLog> {
     const session = this.sessions.get(sessionId);
 
@@ -77,10 +107,12 @@ export class SandboxManager {
     return new Promise((resolve, reject) => {
       const execution: QueuedExecution = {
         id: `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        sessionId,
         config,
         code,
         priority,
         timestamp: Date.now(),
+        onOutput,
         resolve,
         reject,
       };
@@ -125,16 +157,16 @@ export class SandboxManager {
    * Process a single execution
    */
   private async processExecution(execution: QueuedExecution) {
-    const { id, config, code } = execution;
+    const { id, sessionId, config, code, onOutput } = execution;
 
     try {
       this.activeExecutions.add(id);
 
       // Create execution log
-      const log = await this.runExecution(config, code);
+      const log = await this.runExecution(sessionId, config, code, onOutput);
 
       // Update session
-      const session = this.sessions.get(config.id);
+      const session = this.sessions.get(sessionId);
       if (session) {
         session.executionLogs.push(log);
         session.status = log.status === 'error' || log.status === 'timeout' ? 'failed' : 'completed';
@@ -151,7 +183,12 @@ export class SandboxManager {
   /**
    * Run code execution with validation and timeout
    */
-  private async runExecution(config: SandboxConfig, code: string): Promise<ExecutionLog> {
+  private async runExecution(
+    sessionId: string,
+    config: SandboxConfig,
+    code: string,
+    onOutput?: (chunk: string) => void,
+  ): Promise<ExecutionLog> {
     const startTime = Date.now();
     const logId = `log-${startTime}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -173,12 +210,12 @@ export class SandboxManager {
     try {
       // Step 1: Validate code
       logger.debug(`Validating code for ${logId}`);
-      const validationResult = validateCode(code, config.validationLevel);
+      const validationResult = await validateCode(code, config.validationLevel, config.language);
       executionLog.validationResult = validationResult;
 
       if (!validationResult.isValid) {
         executionLog.status = 'error';
-        executionLog.errors = `Code validation failed:\n${new CodeValidator(code, config.validationLevel).getSummary(validationResult)}`;
+        executionLog.errors = `Code validation failed:\n${new CodeValidator(code, config.validationLevel, config.language).getSummary(validationResult)}`;
         executionLog.endTime = Date.now();
         executionLog.duration = executionLog.endTime - startTime;
         return executionLog;
@@ -189,7 +226,7 @@ export class SandboxManager {
 
       // Step 2: Check if approval is required
       if (requiresApproval(validationResult)) {
-        const session = this.sessions.get(config.id);
+        const session = this.sessions.get(sessionId);
         if (session) {
           session.approvalRequired = true;
         }
@@ -203,38 +240,53 @@ export class SandboxManager {
         return executionLog;
       }
 
-      // Step 3: Create file snapshot before execution
-      logger.debug(`Creating snapshot for ${logId}`);
-      const beforeSnapshot = await this.createSnapshot(config.workspaceId || 'default');
+      // Step 3: Seed the sandbox overlay with a copy of the project
+      const { workspace, getRuntime } = await this.#loadEnvironment();
+      const beforeState = { files: await workspace.getFiles(), timestamp: Date.now() };
 
-      // Step 4: Execute code (simulated - would connect to WebContainer)
+      // Step 4: Execute code in the isolated runtime
       logger.debug(`Executing code for ${logId}`);
-      const executionResult = await this.simulateExecution(config, code);
-
-      executionLog.status = executionResult.status;
-      executionLog.output = executionResult.output;
-      executionLog.errors = executionResult.errors;
-      executionLog.exitCode = executionResult.exitCode;
-
-      // Step 5: Create snapshot after execution and compute changes
-      logger.debug(`Creating post-execution snapshot for ${logId}`);
-      const afterSnapshot = await this.createSnapshot(config.workspaceId || 'default');
-
-      const changes = this.computeChanges(beforeSnapshot, afterSnapshot);
-      const snapshot: ExecutionSnapshot = {
-        beforeState: beforeSnapshot,
-        afterState: afterSnapshot,
-        changes,
-      };
-
-      executionLog.fileOperations = changes.map((c) => ({
-        timestamp: Date.now(),
-        operation: c.type === 'created' ? 'write' : c.type === 'modified' ? 'write' : 'delete',
-        path: c.path,
-        size: c.size,
-      }));
+      executionLog.status = 'running';
+
+      const result = await getRuntime(config.language).run(
+        {
+          code,
+          language: config.language,
+          files: beforeState.files,
+          cwd: workspace.cwd,
+          timeout: config.timeout || SANDBOX_LIMITS.TIMEOUT_MS,
+          memoryLimit: config.memoryLimit || SANDBOX_LIMITS.MEMORY_MB,
+          filesystemLimit: config.filesystemLimit || SANDBOX_LIMITS.FILESYSTEM_MB,
+          allowNetworkRequests: config.allowNetworkRequests,
+          whitelistedDomains: config.whitelistedDomains,
+          environmentVariables: config.environmentVariables,
+        },
+        onOutput,
+      );
 
-      this.fileSnapshots.set(logId, snapshot);
+      executionLog.status = result.status;
+      executionLog.output = result.output;
+      executionLog.errors = result.errors;
+      executionLog.exitCode = result.exitCode;
+      executionLog.networkRequests = result.networkRequests;
+
+      // Step 5: Keep the changes made inside the sandbox for review, nothing is applied yet
+      const afterState = { files: result.files, timestamp: Date.now() };
+      const changes = computeFileChanges(beforeState.files, afterState.files);
+
+      executionLog.fileOperations =
+        result.fileOperations.length > 0
+          ? result.fileOperations
+          : changes.map((c) => ({
+              timestamp: afterState.timestamp,
+              operation: c.type === 'deleted' ? 'delete' : 'write',
+              path: c.path,
+              size: c.size,
+            }));
+
+      if (changes.length > 0) {
+        this.fileSnapshots.set(logId, { beforeState, afterState, changes, reviewStatus: 'pending' });
+      }
     } catch (error) {
       executionLog.status = 'error';
       executionLog.errors = error instanceof Error ? error.message : String(error);
@@ -246,109 +298,6 @@ export class SandboxManager {
     return executionLog;
   }
 
-  /**
-   * Simulate code execution (would integrate with WebContainer)
-   */
-  private async simulateExecution(
-    config: SandboxConfig,
-    code: string,
-  ): Promise<{
-    status: ExecutionLog['status'];
-    output: string;
-    errors: string;
-    exitCode?: number;
-  }> {
-    // This is a placeholder - would be replaced with actual WebContainer execution
-    return new Promise((resolve) => {
-      const timeout = config.timeout || SANDBOX_LIMITS.TIMEOUT_MS;
-
-      const timeoutId = setTimeout(() => {
-        resolve({
-          status: 'timeout',
-          output: '',
-          errors: `Execution timeout after ${timeout}ms`,
-          exitCode: 124,
-        });
-      }, timeout);
-
-      try {
-        // Simulate execution with try-catch for common JS errors
-        eval(code);
-
-        clearTimeout(timeoutId);
-        resolve({
-          status: 'success',
-          output: 'Execution completed',
-          errors: '',
-          exitCode: 0,
-        });
-      } catch (error) {
-        clearTimeout(timeoutId);
-        resolve({
-          status: 'error',
-          output: '',
-          errors: error instanceof Error ? error.message : String(error),
-          exitCode: 1,
-        });
-      }
-    });
-  }
-
-  /**
-   * Create filesystem snapshot
-   */
-  private async createSnapshot(workspaceId: string): Promise<ExecutionSnapshot['beforeState']> {
-    // Placeholder - would read actual filesystem from WebContainer
-    return {
-      files: {},
-      timestamp: Date.now(),
-    };
-  }
-
-  /**
-   * Compute file changes between snapshots
-   */
-  private computeChanges(before: ExecutionSnapshot['beforeState'], after: ExecutionSnapshot['afterState']): FileChange[] {
-    const changes: FileChange[] = [];
-
-    // Find modified and created files
-    Object.keys(after.files).forEach((path) => {
-      const afterContent = after.files[path];
-      const beforeContent = before.files[path];
-
-      if (!beforeContent) {
-        changes.push({
-          path,
-          type: 'created',
-          after: afterContent,
-          size: afterContent.length,
-        });
-      } else if (beforeContent !== afterContent) {
-        changes.push({
-          path,
-          type: 'modified',
-          before: beforeContent,
-          after: afterContent,
-          size: afterContent.length,
-        });
-      }
-    });
-
-    // Find deleted files
-    Object.keys(before.files).forEach((path) => {
-      if (!after.files[path]) {
-        changes.push({
-          path,
-          type: 'deleted',
-          before: before.files[path],
-          size: 0,
-        });
-      }
-    });
-
-    return changes;
-  }
-
   /**
    * Approve pending execution
    */
@@ -404,6 +353,32 @@ export class SandboxManager {
     return this.fileSnapshots.get(logId);
   }
 
+  /**
+   * Apply the reviewed changes of an execution to the project, optionally only some of its paths
+   */
+  async applyExecutionChanges(logId: string, paths?: string[]): Promise<void> {
+    const snapshot = this.#getPendingSnapshot(logId);
+    const changes = paths ? snapshot.changes.filter((change) => paths.includes(change.path)) : snapshot.changes;
+    const { workspace } = await this.#loadEnvironment();
+
+    await workspace.applyChanges(changes);
+
+    snapshot.changes = changes;
+    snapshot.reviewStatus = 'applied';
+
+    logger.debug(`Applied ${changes.length} changes of execution: ${logId}`);
+  }
+
+  /**
+   * Drop the changes of an execution without touching the project
+   */
+  discardExecutionChanges(logId: string): void {
+    const snapshot = this.#getPendingSnapshot(logId);
+    snapshot.reviewStatus = 'discarded';
+
+    logger.debug(`Discarded changes of execution: ${logId}`);
+  }
+
   /**
    * Rollback to pre-execution state
    */
@@ -414,12 +389,40 @@ export class SandboxManager {
       throw new Error(`Snapshot not found for execution: ${logId}`);
     }
 
-    // Would restore files from snapshot.beforeState
     logger.debug(`Rolling back execution: ${logId}`);
 
+    // only applied changes reached the project, pending ones just get dropped
+    if (snapshot.reviewStatus === 'applied') {
+      const { workspace } = await this.#loadEnvironment();
+
+      await workspace.applyChanges(
+        snapshot.changes.map((change) => ({
+          path: change.path,
+          type: change.type === 'created' ? 'deleted' : change.type === 'deleted' ? 'created' : 'modified',
+          before: change.after,
+          after: change.before,
+          size: change.before?.length ?? 0,
+        })),
+      );
+    }
+
     this.fileSnapshots.delete(logId);
   }
 
+  #getPendingSnapshot(logId: string): ExecutionSnapshot {
+    const snapshot = this.fileSnapshots.get(logId);
+
+    if (!snapshot) {
+      throw new Error(`Snapshot not found for execution: ${logId}`);
+    }
+
+    if (snapshot.reviewStatus !== 'pending') {
+      throw new Error(`Changes of execution ${logId} were already ${snapshot.reviewStatus}`);
+    }
+
+    return snapshot;
+  }
+
   /**
    * Get queue status
    */
@@ -0,0 +1,379 @@
+/**
+ * Sandbox Worker - runs one JavaScript execution in a dedicated Web Worker
+ * The worker is the isolation boundary: it has no access to the DOM or the app state, its filesystem is an
+ * in-memory overlay, network access goes through the allow-list and the main thread terminates it on timeout.
+ */
+
+import type { NetworkRequest, SandboxRunRequest, SandboxRunResult } from '~/types/sandbox';
+import { checkNetworkRequest } from './network-policy';
+import { normalizeSandboxPath, VirtualFileSystem } from './virtual-fs';
+
+export type SandboxWorkerMessage =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; chunk: string }
+  | { type: 'result'; result: Omit<SandboxRunResult, 'output' | 'errors'> };
+
+class ProcessExit {
+  constructor(readonly code: number) {}
+}
+
+const scope = globalThis as any;
+const post = scope.postMessage.bind(scope) as (message: SandboxWorkerMessage) => void;
+const nativeFetch = scope.fetch.bind(scope) as typeof fetch;
+const nativeSetTimeout = scope.setTimeout.bind(scope) as typeof setTimeout;
+const nativeClearTimeout = scope.clearTimeout.bind(scope) as typeof clearTimeout;
+const nativeSetInterval = scope.setInterval.bind(scope) as typeof setInterval;
+const nativeClearInterval = scope.clearInterval.bind(scope) as typeof clearInterval;
+const asyncFunction = Object.getPrototypeOf(async () => undefined).constructor as FunctionConstructor;
+
+/*
+ * `import()` loads modules with the browser's loader, past the guarded fetch, and cannot be replaced like a global.
+ * The sandbox only provides `require`, so code that contains it is refused, comments between the keyword and its
+ * parenthesis included. String contents may trip this too, failing closed is the point.
+ */
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+/*
+ * Globals that would reach past the sandbox: the network outside of the guarded fetch, nested workers
+ * that start with a fresh global scope, the origin storage the app keeps its chats in, messages to the
+ * main thread that would forge output or the result, and evaluation of strings that could hide `import()`.
+ */
+const BLOCKED_GLOBALS = [
+  'postMessage',
+  'eval',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'WebTransport',
+  'Worker',
+  'SharedWorker',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'BroadcastChannel',
+];
+
+function replaceGlobal(name: string, value: unknown) {
+  // the property may live on any prototype of the global scope, e.g. fetch on WorkerGlobalScope.prototype
+  for (let target = scope; target; target = Object.getPrototypeOf(target)) {
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      try {
+        Object.defineProperty(target, name, { value, configurable: false, writable: false });
+      } catch {
+        // non configurable properties keep their value, the own property defined below shadows them
+      }
+    }
+  }
+
+  try {
+    Object.defineProperty(scope, name, { value, configurable: false, writable: false });
+  } catch {
+    scope[name] = value;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`;
+  }
+
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function createPathModule(cwd: string) {
+  return {
+    sep: '/',
+    resolve: (...paths: string[]) => paths.reduce((resolved, path) => normalizeSandboxPath(path, resolved), cwd),
+    join: (...paths: string[]) => paths.join('/').replace(/\/+/g, '/'),
+    dirname: (path: string) => path.slice(0, path.lastIndexOf('/')) || '/',
+    basename: (path: string, extension?: string) => {
+      const name = path.slice(path.lastIndexOf('/') + 1);
+
+      return extension && name.endsWith(extension) ? name.slice(0, -extension.length) : name;
+    },
+    extname: (path: string) => {
+      const name = path.slice(path.lastIndexOf('/') + 1);
+      const index = name.lastIndexOf('.');
+
+      return index > 0 ? name.slice(index) : '';
+    },
+  };
+}
+
+function createFsModule(vfs: VirtualFileSystem) {
+  const fs = {
+    existsSync: (path: string) => vfs.exists(path),
+    readFileSync: (path: string) => vfs.readFile(path),
+    writeFileSync: (path: string, content: unknown) => vfs.writeFile(path, String(content)),
+    appendFileSync: (path: string, content: unknown) => vfs.writeFile(path, String(content), true),
+    unlinkSync: (path: string) => vfs.deleteFile(path),
+    rmSync: (path: string, options?: { force?: boolean }) => {
+      if (options?.force && !vfs.exists(path)) {
+        return;
+      }
+
+      vfs.deleteFile(path);
+    },
+    mkdirSync: (path: string) => vfs.mkdir(path),
+    readdirSync: (path: string) => vfs.readdir(path),
+    statSync: (path: string) => {
+      if (!vfs.exists(path)) {
+        throw new Error(`ENOENT: no such file or directory, stat '${path}'`);
+      }
+
+      const isDirectory = vfs.isDirectory(path);
+
+      return { isDirectory: () => isDirectory, isFile: () => !isDirectory };
+    },
+  };
+
+  const promises = Object.fromEntries(
+    Object.entries({
+      readFile: fs.readFileSync,
+      writeFile: fs.writeFileSync,
+      appendFile: fs.appendFileSync,
+      unlink: fs.unlinkSync,
+      rm: fs.rmSync,
+      mkdir: fs.mkdirSync,
+      readdir: fs.readdirSync,
+      stat: fs.statSync,
+    }).map(([name, method]) => [name, async (...args: any[]) => (method as (...args: any[]) => unknown)(...args)]),
+  );
+
+  return { ...fs, promises };
+}
+
+async function run(request: SandboxRunRequest) {
+  const vfs = new VirtualFileSystem(request.files, {
+    cwd: request.cwd,
+    limitBytes: request.filesystemLimit * 1024 * 1024,
+  });
+  const networkRequests: NetworkRequest[] = [];
+
+  const finish = (status: SandboxRunResult['status'], exitCode: number) => {
+    post({
+      type: 'result',
+      result: { status, exitCode, files: vfs.toRecord(), fileOperations: vfs.operations, networkRequests },
+    });
+  };
+
+  const write =
+    (stream: 'stdout' | 'stderr') =>
+    (...args: unknown[]) => {
+      post({ type: 'output', stream, chunk: `${args.map(formatValue).join(' ')}\n` });
+    };
+
+  const sandboxConsole = {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    warn: write('stderr'),
+    error: write('stderr'),
+  };
+
+  const fail = (error: unknown) => {
+    if (error instanceof ProcessExit) {
+      finish(error.code === 0 ? 'success' : 'error', error.code);
+      return;
+    }
+
+    sandboxConsole.error(error);
+    finish('error', 1);
+  };
+
+  replaceGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), scope.location.href).href;
+    const decision = checkNetworkRequest(url, request);
+    const entry: NetworkRequest = {
+      timestamp: Date.now(),
+      method: init?.method ?? (input instanceof Request ? input.method : 'GET'),
+      url,
+      blocked: !decision.allowed,
+      ...(decision.reason && { reason: decision.reason }),
+    };
+
+    networkRequests.push(entry);
+
+    if (!decision.allowed) {
+      throw new TypeError(`Network request blocked: ${decision.reason}`);
+    }
+
+    const response = await nativeFetch(input, init);
+    entry.status = response.status;
+
+    return response;
+  });
+
+  for (const name of BLOCKED_GLOBALS) {
+    replaceGlobal(name, () => {
+      throw new Error(`${name} is not available in the sandbox`);
+    });
+  }
+
+  // `(() => {}).constructor` is `Function` too, it evaluates strings like eval does
+  const blockedConstructor = () => {
+    throw new Error('Function constructors are not available in the sandbox');
+  };
+
+  const generators = [
+    function* () {
+      yield;
+    },
+    async function* () {
+      yield;
+    },
+  ];
+
+  for (const fn of [blockedConstructor, run, ...generators]) {
+    const prototype = Object.getPrototypeOf(fn);
+
+    Object.defineProperty(prototype, 'constructor', {
+      value: blockedConstructor,
+      configurable: false,
+      writable: false,
+    });
+  }
+
+  replaceGlobal('Function', blockedConstructor);
+
+  // like a node process, the execution lasts until the pending timers ran
+  const timers = new Set<unknown>();
+  let settled = false;
+  let mainDone = false;
+
+  const checkIdle = () => {
+    if (mainDone && timers.size === 0 && !settled) {
+      settled = true;
+      finish('success', 0);
+    }
+  };
+
+  const guard = (callback: () => void) => {
+    try {
+      callback();
+    } catch (error) {
+      if (!settled) {
+        settled = true;
+        fail(error);
+      }
+    }
+  };
+
+  replaceGlobal('setTimeout', (handler: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const id: unknown = nativeSetTimeout(() => {
+      timers.delete(id);
+      guard(() => handler(...args));
+      checkIdle();
+    }, delay);
+
+    timers.add(id);
+
+    return id;
+  });
+  replaceGlobal('clearTimeout', (id: ReturnType<typeof setTimeout>) => {
+    timers.delete(id);
+    nativeClearTimeout(id);
+    checkIdle();
+  });
+  replaceGlobal('setInterval', (handler: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const id = nativeSetInterval(() => guard(() => handler(...args)), delay);
+    timers.add(id);
+
+    return id;
+  });
+  replaceGlobal('clearInterval', (id: ReturnType<typeof setInterval>) => {
+    timers.delete(id);
+    nativeClearInterval(id);
+    checkIdle();
+  });
+
+  scope.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+    event.preventDefault();
+    guard(() => {
+      throw event.reason;
+    });
+  });
+
+  const modules: Record<string, unknown> = {
+    fs: createFsModule(vfs),
+    'fs/promises': createFsModule(vfs).promises,
+    path: createPathModule(request.cwd),
+  };
+
+  const sandboxRequire = (name: string) => {
+    const module = modules[name.replace(/^node:/, '')];
+
+    if (!module) {
+      throw new Error(`Cannot find module '${name}' in the sandbox`);
+    }
+
+    return module;
+  };
+
+  const sandboxProcess = {
+    env: { ...request.environmentVariables },
+    argv: ['node', 'sandbox.js'],
+    platform: 'sandbox',
+    cwd: () => request.cwd,
+    exit: (code = 0) => {
+      throw new ProcessExit(code);
+    },
+  };
+
+  const module = { exports: {} };
+
+  if (DYNAMIC_IMPORT.test(request.code)) {
+    settled = true;
+    fail(new Error('import() is not available in the sandbox, load modules with require()'));
+
+    return;
+  }
+
+  try {
+    const execute = new asyncFunction(
+      'require',
+      'process',
+      'console',
+      'module',
+      'exports',
+      '__filename',
+      '__dirname',
+      request.code,
+    );
+
+    await execute(
+      sandboxRequire,
+      sandboxProcess,
+      sandboxConsole,
+      module,
+      module.exports,
+      `${request.cwd}/sandbox.js`,
+      request.cwd,
+    );
+
+    mainDone = true;
+    checkIdle();
+  } catch (error) {
+    if (!settled) {
+      settled = true;
+      fail(error);
+    }
+  }
+}
+
+scope.addEventListener(
+  'message',
+  (event: MessageEvent<{ type: 'run'; request: SandboxRunRequest }>) => {
+    if (event.data?.type === 'run') {
+      run(event.data.request);
+    }
+  },
+  { once: true },
+);
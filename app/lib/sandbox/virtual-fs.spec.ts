@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { computeFileChanges, FilesystemLimitError, VirtualFileSystem } from './virtual-fs';
+
+describe('VirtualFileSystem', () => {
+  const files = { '/home/project/src/index.js': 'console.log(1);' };
+
+  it('should resolve paths against the working directory', () => {
+    const vfs = new VirtualFileSystem(files, { cwd: '/home/project', limitBytes: 1024 });
+
+    expect(vfs.readFile('./src/../src/index.js')).toBe('console.log(1);');
+    expect(vfs.readdir('.')).toEqual(['src']);
+    expect(vfs.isDirectory('src')).toBe(true);
+  });
+
+  it('should keep writes in the overlay and record them', () => {
+    const vfs = new VirtualFileSystem(files, { cwd: '/home/project', limitBytes: 1024 });
+
+    vfs.writeFile('out/result.txt', 'done');
+    vfs.deleteFile('src/index.js');
+
+    expect(vfs.toRecord()).toEqual({ '/home/project/out/result.txt': 'done' });
+    expect(files['/home/project/src/index.js']).toBe('console.log(1);');
+    expect(vfs.operations.map((operation) => operation.operation)).toEqual(['write', 'delete']);
+  });
+
+  it('should reject writes over the filesystem limit', () => {
+    const vfs = new VirtualFileSystem(files, { cwd: '/home/project', limitBytes: 20 });
+
+    expect(() => vfs.writeFile('big.txt', 'x'.repeat(10))).toThrow(FilesystemLimitError);
+    expect(vfs.exists('big.txt')).toBe(false);
+    expect(vfs.operations[0].error).toBe('ENOSPC');
+  });
+});
+
+describe('computeFileChanges', () => {
+  it('should report created, modified and deleted files', () => {
+    expect(computeFileChanges({ '/a': '1', '/b': '2', '/c': '' }, { '/a': '1', '/b': '3', '/d': '4' })).toEqual([
+      { path: '/b', type: 'modified', before: '2', after: '3', size: 1 },
+      { path: '/d', type: 'created', after: '4', size: 1 },
+      { path: '/c', type: 'deleted', before: '', size: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Virtual filesystem overlay for sandboxed executions
+ * Seeded with a copy of the project files, writes stay in memory and are bounded by the filesystem limit
+ */
+
+import type { FileChange, FileOperation } from '~/types/sandbox';
+
+const encoder = new TextEncoder();
+
+export class FilesystemLimitError extends Error {
+  constructor(limitBytes: number) {
+    super(`ENOSPC: sandbox filesystem limit of ${Math.round(limitBytes / 1024 / 1024)}MB exceeded`);
+    Object.setPrototypeOf(this, FilesystemLimitError.prototype);
+    this.name = 'FilesystemLimitError';
+  }
+}
+
+function byteLength(content: string) {
+  return encoder.encode(content).length;
+}
+
+export function normalizeSandboxPath(path: string, cwd: string) {
+  const absolute = path.startsWith('/') ? path : `${cwd}/${path}`;
+  const segments: string[] = [];
+
+  for (const segment of absolute.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return `/${segments.join('/')}`;
+}
+
+export class VirtualFileSystem {
+  readonly operations: FileOperation[] = [];
+
+  #files: Map<string, string>;
+  #directories = new Set<string>();
+  #size = 0;
+  #limitBytes: number;
+  #cwd: string;
+
+  constructor(files: Record<string, string>, options: { cwd: string; limitBytes: number }) {
+    this.#files = new Map(Object.entries(files));
+    this.#cwd = options.cwd;
+    this.#limitBytes = options.limitBytes;
+
+    for (const [path, content] of this.#files) {
+      this.#size += byteLength(content);
+      this.#addParents(path);
+    }
+  }
+
+  get size() {
+    return this.#size;
+  }
+
+  resolve(path: string) {
+    return normalizeSandboxPath(path, this.#cwd);
+  }
+
+  exists(path: string) {
+    const resolved = this.resolve(path);
+
+    return this.#files.has(resolved) || this.#directories.has(resolved);
+  }
+
+  isDirectory(path: string) {
+    return this.#directories.has(this.resolve(path));
+  }
+
+  readFile(path: string): string {
+    const resolved = this.resolve(path);
+    const content = this.#files.get(resolved);
+
+    if (content === undefined) {
+      this.#record('read', resolved, undefined, 'ENOENT');
+      throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+    }
+
+    this.#record('read', resolved, content.length);
+
+    return content;
+  }
+
+  writeFile(path: string, content: string, append = false) {
+    const resolved = this.resolve(path);
+    const previous = this.#files.get(resolved);
+    const next = append && previous !== undefined ? previous + content : content;
+    const size = this.#size - (previous === undefined ? 0 : byteLength(previous)) + byteLength(next);
+
+    if (size > this.#limitBytes) {
+      this.#record('write', resolved, next.length, 'ENOSPC');
+      throw new FilesystemLimitError(this.#limitBytes);
+    }
+
+    this.#files.set(resolved, next);
+    this.#size = size;
+    this.#addParents(resolved);
+    this.#record('write', resolved, next.length);
+  }
+
+  deleteFile(path: string) {
+    const resolved = this.resolve(path);
+    const content = this.#files.get(resolved);
+
+    if (content === undefined) {
+      this.#record('delete', resolved, undefined, 'ENOENT');
+      throw new Error(`ENOENT: no such file or directory, unlink '${path}'`);
+    }
+
+    this.#files.delete(resolved);
+    this.#size -= byteLength(content);
+    this.#record('delete', resolved);
+  }
+
+  mkdir(path: string) {
+    const resolved = this.resolve(path);
+
+    this.#addParents(`${resolved}/_`);
+    this.#record('mkdir', resolved);
+  }
+
+  readdir(path: string): string[] {
+    const resolved = this.resolve(path);
+    const prefix = resolved === '/' ? '/' : `${resolved}/`;
+    const entries = new Set<string>();
+
+    for (const entry of [...this.#files.keys(), ...this.#directories]) {
+      if (entry.startsWith(prefix)) {
+        entries.add(entry.slice(prefix.length).split('/')[0]);
+      }
+    }
+
+    return Array.from(entries).sort();
+  }
+
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(this.#files);
+  }
+
+  #addParents(path: string) {
+    let parent = path.slice(0, path.lastIndexOf('/'));
+
+    while (parent && !this.#directories.has(parent)) {
+      this.#directories.add(parent);
+      parent = parent.slice(0, parent.lastIndexOf('/'));
+    }
+  }
+
+  #record(operation: FileOperation['operation'], path: string, size?: number, error?: string) {
+    this.operations.push({ timestamp: Date.now(), operation, path, size, ...(error && { error }) });
+  }
+}
+
+/**
+ * Compute file changes between two states of the filesystem
+ */
+export function computeFileChanges(before: Record<string, string>, after: Record<string, string>): FileChange[] {
+  const changes: FileChange[] = [];
+
+  Object.keys(after).forEach((path) => {
+    const afterContent = after[path];
+    const beforeContent = before[path];
+
+    if (beforeContent === undefined) {
+      changes.push({ path, type: 'created', after: afterContent, size: afterContent.length });
+    } else if (beforeContent !== afterContent) {
+      changes.push({ path, type: 'modified', before: beforeContent, after: afterContent, size: afterContent.length });
+    }
+  });
+
+  Object.keys(before).forEach((path) => {
+    if (after[path] === undefined) {
+      changes.push({ path, type: 'deleted', before: before[path], size: 0 });
+    }
+  });
+
+  return changes;
+}
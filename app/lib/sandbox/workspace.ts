@@ -0,0 +1,34 @@
+/**
+ * Sandbox workspace backed by the workbench: executions read the project files from it
+ * and reviewed changes are written back through the files store
+ */
+
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { SandboxWorkspace } from '~/types/sandbox';
+import { WORK_DIR } from '~/utils/constants';
+
+export const projectWorkspace: SandboxWorkspace = {
+  cwd: WORK_DIR,
+
+  async getFiles() {
+    const files: Record<string, string> = {};
+
+    for (const [path, dirent] of Object.entries(workbenchStore.files.get())) {
+      if (dirent?.type === 'file' && !dirent.isBinary) {
+        files[path] = dirent.content;
+      }
+    }
+
+    return files;
+  },
+
+  async applyChanges(changes) {
+    for (const change of changes) {
+      if (change.type === 'deleted') {
+        await workbenchStore.deleteFile(change.path);
+      } else {
+        await workbenchStore.writeFile(change.path, change.after ?? '');
+      }
+    }
+  },
+};
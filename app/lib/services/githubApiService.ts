@@ -5,6 +5,9 @@ import type {
   GitHubOrganization,
   GitHubStats,
   GitHubLanguageStats,
+  GitHubPullRequest,
+  GitHubPullRequestComment,
+  GitHubPullRequestReview,
 } from '~/types/GitHub';
 
 export interface GitHubApiServiceConfig {
@@ -130,6 +133,47 @@ export class GitHubApiServiceClass {
     return this._makeRequestInternal<GitHubBranch[]>(`/repos/${owner}/${repo}/branches`);
   }
 
+  /**
+   * Open a pull request from `head` into `base`
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    pullRequest: { title: string; body: string; head: string; base: string },
+  ): Promise<GitHubPullRequest> {
+    return this._makeRequestInternal<GitHubPullRequest>(`/repos/${owner}/${repo}/pulls`, {
+      method: 'POST',
+      body: JSON.stringify(pullRequest),
+    });
+  }
+
+  /**
+   * Get the comments on the diff of a pull request
+   */
+  async getPullRequestReviewComments(owner: string, repo: string, number: number): Promise<GitHubPullRequestComment[]> {
+    return this._makeRequestInternal<GitHubPullRequestComment[]>(
+      `/repos/${owner}/${repo}/pulls/${number}/comments?per_page=100`,
+    );
+  }
+
+  /**
+   * Get the reviews of a pull request, their body is the summary written when submitting the review
+   */
+  async getPullRequestReviews(owner: string, repo: string, number: number): Promise<GitHubPullRequestReview[]> {
+    return this._makeRequestInternal<GitHubPullRequestReview[]>(
+      `/repos/${owner}/${repo}/pulls/${number}/reviews?per_page=100`,
+    );
+  }
+
+  /**
+   * Get the comments in the conversation of an issue or pull request
+   */
+  async getIssueComments(owner: string, repo: string, number: number): Promise<GitHubPullRequestComment[]> {
+    return this._makeRequestInternal<GitHubPullRequestComment[]>(
+      `/repos/${owner}/${repo}/issues/${number}/comments?per_page=100`,
+    );
+  }
+
   /**
    * Get contributors count using Link header pagination info
    */
@@ -5,6 +5,8 @@ import type {
   GitLabGroupInfo,
   GitLabProjectResponse,
   GitLabCommitRequest,
+  GitLabMergeRequest,
+  GitLabNote,
 } from '~/types/GitLab';
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -380,6 +382,46 @@ export class GitLabApiService {
     return await response.json();
   }
 
+  async createMergeRequest(
+    projectId: number,
+    mergeRequest: { source_branch: string; target_branch: string; title: string; description: string },
+  ): Promise<GitLabMergeRequest> {
+    const response = await this._request(`/projects/${projectId}/merge_requests`, {
+      method: 'POST',
+      body: JSON.stringify({ ...mergeRequest, remove_source_branch: true }),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Failed to create merge request: ${response.status} ${response.statusText}`;
+
+      try {
+        const errorData = (await response.json()) as { message?: string | string[] };
+
+        if (errorData.message) {
+          errorMessage = `Failed to create merge request: ${errorData.message}`;
+        }
+      } catch {
+        // If JSON parsing fails, keep the default error message
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    return await response.json();
+  }
+
+  async getMergeRequestNotes(project: number | string, mergeRequestIid: number): Promise<GitLabNote[]> {
+    const response = await this._request(
+      `/projects/${encodeURIComponent(project)}/merge_requests/${mergeRequestIid}/notes?per_page=100&sort=asc`,
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch merge request notes: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
   async getFile(projectId: number, filePath: string, ref: string): Promise<Response> {
     return this._request(`/projects/${projectId}/repository/files/${encodeURIComponent(filePath)}?ref=${ref}`);
   }
@@ -462,7 +504,7 @@ export class GitLabApiService {
     return project;
   }
 
-  async updateProjectWithFiles(projectId: number, files: Record<string, string>): Promise<void> {
+  async updateProjectWithFiles(projectId: number, files: Record<string, string>, branch = 'main'): Promise<void> {
     if (Object.keys(files).length === 0) {
       return;
     }
@@ -475,7 +517,7 @@ export class GitLabApiService {
     }));
 
     const commitRequest: GitLabCommitRequest = {
-      branch: 'main',
+      branch,
       commit_message: 'Update from Bolt.diy',
       actions,
     };
@@ -492,7 +534,7 @@ export class GitLabApiService {
         }));
 
         const updateCommitRequest: GitLabCommitRequest = {
-          branch: 'main',
+          branch,
           commit_message: 'Update from Bolt.diy',
           actions: updateActions,
         };
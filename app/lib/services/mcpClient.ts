@@ -0,0 +1,153 @@
+import { jsonSchema, tool, type ToolSet } from 'ai';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ResourceUpdatedNotificationSchema,
+  type GetPromptResult,
+  type Prompt,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+
+export type MCPResource = Pick<Resource, 'uri' | 'name' | 'description' | 'mimeType'>;
+export type MCPPrompt = Pick<Prompt, 'name' | 'description' | 'arguments'>;
+
+/**
+ * Connection to one MCP server. Besides the tools it reads the resources and prompt templates the server exposes and
+ * follows the resources it is subscribed to.
+ */
+export type MCPClient = {
+  tools: () => Promise<ToolSet>;
+  resources: () => Promise<MCPResource[]>;
+  prompts: () => Promise<MCPPrompt[]>;
+  readResource: (uri: string) => Promise<ReadResourceResult>;
+  getPrompt: (name: string, args?: Record<string, string>) => Promise<GetPromptResult>;
+
+  /** resolves with false when the server does not report changes of its resources */
+  subscribeResource: (uri: string) => Promise<boolean>;
+  unsubscribeResource: (uri: string) => Promise<void>;
+  onResourceUpdated: (listener: (uri: string) => void) => void;
+  close: () => Promise<void>;
+} & {
+  serverName: string;
+};
+
+// servers page long lists, this bounds the number of requests for a single list
+const MAX_PAGES = 20;
+
+async function listAll<T>(list: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>) {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await list(cursor);
+
+    items.push(...result.items);
+    cursor = result.nextCursor;
+
+    if (!cursor) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+export async function createMCPClient(serverName: string, transport: Transport): Promise<MCPClient> {
+  const client = new Client({ name: 'bolt', version: '1.0.0' });
+  const listeners = new Set<(uri: string) => void>();
+
+  await client.connect(transport);
+
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    listeners.forEach((listener) => listener(notification.params.uri));
+  });
+
+  const capabilities = client.getServerCapabilities() ?? {};
+
+  return {
+    serverName,
+
+    // the same tool set the AI SDK client creates, the parameters keep the JSON schema the server sent
+    tools: async () => {
+      if (!capabilities.tools) {
+        return {};
+      }
+
+      const tools = await listAll(async (cursor) => {
+        const { tools, nextCursor } = await client.listTools({ cursor });
+        return { items: tools, nextCursor };
+      });
+
+      return Object.fromEntries(
+        tools.map(({ name, description, inputSchema }) => [
+          name,
+          tool({
+            description,
+            parameters: jsonSchema<Record<string, unknown>>({
+              ...inputSchema,
+              properties: inputSchema.properties ?? {},
+              additionalProperties: false,
+            }),
+            execute: (args, { abortSignal }) =>
+              client.callTool({ name, arguments: args }, undefined, { signal: abortSignal }),
+          }),
+        ]),
+      );
+    },
+
+    resources: async () => {
+      if (!capabilities.resources) {
+        return [];
+      }
+
+      const resources = await listAll(async (cursor) => {
+        const { resources, nextCursor } = await client.listResources({ cursor });
+        return { items: resources, nextCursor };
+      });
+
+      return resources.map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+    },
+
+    prompts: async () => {
+      if (!capabilities.prompts) {
+        return [];
+      }
+
+      const prompts = await listAll(async (cursor) => {
+        const { prompts, nextCursor } = await client.listPrompts({ cursor });
+        return { items: prompts, nextCursor };
+      });
+
+      return prompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+    },
+
+    readResource: (uri) => client.readResource({ uri }),
+    getPrompt: (name, args) => client.getPrompt({ name, arguments: args }),
+
+    subscribeResource: async (uri) => {
+      if (!capabilities.resources?.subscribe) {
+        return false;
+      }
+
+      await client.subscribeResource({ uri });
+
+      return true;
+    },
+
+    unsubscribeResource: async (uri) => {
+      if (capabilities.resources?.subscribe) {
+        await client.unsubscribeResource({ uri });
+      }
+    },
+
+    onResourceUpdated: (listener) => {
+      listeners.add(listener);
+    },
+
+    close: async () => {
+      listeners.clear();
+      await client.close();
+    },
+  };
+}
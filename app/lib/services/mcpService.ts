@@ -1,14 +1,10 @@
-import {
-  experimental_createMCPClient,
-  type ToolSet,
-  type Message,
-  type DataStreamWriter,
-  convertToCoreMessages,
-  formatDataStreamPart,
-} from 'ai';
-import { Experimental_StdioMCPTransport } from 'ai/mcp-stdio';
+import { type ToolSet, type Message, type DataStreamWriter, convertToCoreMessages, formatDataStreamPart } from 'ai';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { createMCPClient, type MCPClient, type MCPPrompt, type MCPResource } from '~/lib/services/mcpClient';
 import type { ToolCallAnnotation } from '~/types/context';
 import {
   TOOL_EXECUTION_APPROVAL,
@@ -71,12 +67,7 @@ export const mcpConfigSchema = z.object({
 });
 export type MCPConfig = z.infer<typeof mcpConfigSchema>;
 
-export type MCPClient = {
-  tools: () => Promise<ToolSet>;
-  close: () => Promise<void>;
-} & {
-  serverName: string;
-};
+export type { MCPClient, MCPPrompt, MCPResource };
 
 export type ToolCall = {
   type: 'tool-call';
@@ -90,6 +81,8 @@ export type MCPServerTools = Record<string, MCPServer>;
 export type MCPServerAvailable = {
   status: 'available';
   tools: ToolSet;
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
   client: MCPClient;
   config: MCPServerConfig;
 };
@@ -101,12 +94,68 @@ export type MCPServerUnavailable = {
 };
 export type MCPServer = MCPServerAvailable | MCPServerUnavailable;
 
+/**
+ * A resource attached to the chat as context
+ */
+export type MCPResourceReference = {
+  serverName: string;
+  uri: string;
+};
+
+export type MCPResourceContent = MCPResourceReference & {
+  text: string;
+  updatedAt: number;
+};
+
+// attached resources end up in the system prompt, a large one would crowd out the project files
+const MAX_RESOURCE_LENGTH = 50_000;
+
+function getResourceKey({ serverName, uri }: MCPResourceReference) {
+  return `${serverName}\n${uri}`;
+}
+
+function formatResourceContents({ contents }: ReadResourceResult) {
+  const text = contents
+    .map((content) =>
+      'text' in content && typeof content.text === 'string'
+        ? content.text
+        : `[binary content${content.mimeType ? ` of type ${content.mimeType}` : ''}]`,
+    )
+    .join('\n\n');
+
+  return text.length > MAX_RESOURCE_LENGTH ? `${text.slice(0, MAX_RESOURCE_LENGTH)}\n... truncated` : text;
+}
+
+/**
+ * Joins the text of the prompt messages, the user sends the expanded prompt as one message
+ */
+export function formatPromptMessages({ messages }: GetPromptResult) {
+  return messages
+    .map(({ content }) => {
+      switch (content.type) {
+        case 'text':
+          return content.text;
+        case 'resource':
+          return 'text' in content.resource && typeof content.resource.text === 'string'
+            ? content.resource.text
+            : `[binary resource ${content.resource.uri}]`;
+        default:
+          return `[${content.type} content]`;
+      }
+    })
+    .join('\n\n');
+}
+
 export class MCPService {
   private static _instance: MCPService;
   private _tools: ToolSet = {};
   private _toolsWithoutExecute: ToolSet = {};
   private _mcpToolsPerServer: MCPServerTools = {};
   private _toolNamesToServerNames = new Map<string, string>();
+  private _resourceCache = new Map<string, MCPResourceContent>();
+
+  // whether the server reports changes of a resource, only those are served from the cache
+  private _resourceSubscriptions = new Map<string, Promise<boolean>>();
   private _config: MCPConfig = {
     mcpServers: {},
   };
@@ -174,25 +223,27 @@ export class MCPService {
   ): Promise<MCPClient> {
     logger.debug(`Creating Streamable-HTTP client for ${serverName} with URL: ${config.url}`);
 
-    const client = await experimental_createMCPClient({
-      transport: new StreamableHTTPClientTransport(new URL(config.url), {
+    return createMCPClient(
+      serverName,
+      new StreamableHTTPClientTransport(new URL(config.url), {
         requestInit: {
           headers: config.headers,
         },
       }),
-    });
-
-    return Object.assign(client, { serverName });
+    );
   }
 
   private async _createSSEClient(serverName: string, config: SSEServerConfig): Promise<MCPClient> {
     logger.debug(`Creating SSE client for ${serverName} with URL: ${config.url}`);
 
-    const client = await experimental_createMCPClient({
-      transport: config,
-    });
-
-    return Object.assign(client, { serverName });
+    return createMCPClient(
+      serverName,
+      new SSEClientTransport(new URL(config.url), {
+        requestInit: {
+          headers: config.headers,
+        },
+      }),
+    );
   }
 
   private async _createStdioClient(serverName: string, config: STDIOServerConfig): Promise<MCPClient> {
@@ -200,9 +251,10 @@ export class MCPService {
       `Creating STDIO client for '${serverName}' with command: '${config.command}' ${config.args?.join(' ') || ''}`,
     );
 
-    const client = await experimental_createMCPClient({ transport: new Experimental_StdioMCPTransport(config) });
-
-    return Object.assign(client, { serverName });
+    return createMCPClient(
+      serverName,
+      new StdioClientTransport({ command: config.command, args: config.args, cwd: config.cwd, env: config.env }),
+    );
   }
 
   private _registerTools(serverName: string, tools: ToolSet) {
@@ -223,14 +275,37 @@ export class MCPService {
 
   private async _createMCPClient(serverName: string, serverConfig: MCPServerConfig): Promise<MCPClient> {
     const validatedConfig = this._validateServerConfig(serverName, serverConfig);
+    let client: MCPClient;
 
     if (validatedConfig.type === 'stdio') {
-      return await this._createStdioClient(serverName, serverConfig as STDIOServerConfig);
+      client = await this._createStdioClient(serverName, serverConfig as STDIOServerConfig);
     } else if (validatedConfig.type === 'sse') {
-      return await this._createSSEClient(serverName, serverConfig as SSEServerConfig);
+      client = await this._createSSEClient(serverName, serverConfig as SSEServerConfig);
     } else {
-      return await this._createStreamableHTTPClient(serverName, serverConfig as StreamableHTTPServerConfig);
+      client = await this._createStreamableHTTPClient(serverName, serverConfig as StreamableHTTPServerConfig);
     }
+
+    client.onResourceUpdated((uri) => {
+      this._refreshResource({ serverName, uri });
+    });
+
+    return client;
+  }
+
+  // resources and prompts are optional, a server without them is still available for its tools
+  private async _listResourcesAndPrompts(serverName: string, client: MCPClient) {
+    const [resources, prompts] = await Promise.all([
+      client.resources().catch((error) => {
+        logger.error(`Failed to get resources from server ${serverName}:`, error);
+        return [];
+      }),
+      client.prompts().catch((error) => {
+        logger.error(`Failed to get prompts from server ${serverName}:`, error);
+        return [];
+      }),
+    ]);
+
+    return { resources, prompts };
   }
 
   private async _createClients() {
@@ -251,6 +326,7 @@ export class MCPService {
             status: 'available',
             client,
             tools,
+            ...(await this._listResourcesAndPrompts(serverName, client)),
             config,
           };
         } catch (error) {
@@ -300,6 +376,7 @@ export class MCPService {
             status: 'available',
             client,
             tools,
+            ...(await this._listResourcesAndPrompts(serverName, client)),
             config: server.config,
           };
         } catch (error) {
@@ -349,6 +426,108 @@ export class MCPService {
     this._toolsWithoutExecute = {};
     this._mcpToolsPerServer = {};
     this._toolNamesToServerNames.clear();
+    this._resourceCache.clear();
+    this._resourceSubscriptions.clear();
+  }
+
+  private _getClient(serverName: string) {
+    const server = this._mcpToolsPerServer[serverName];
+
+    if (server?.status !== 'available') {
+      throw new Error(`MCP server "${serverName}" is not available`);
+    }
+
+    return server.client;
+  }
+
+  private _subscribeResource(reference: MCPResourceReference): Promise<boolean> {
+    const key = getResourceKey(reference);
+    let subscription = this._resourceSubscriptions.get(key);
+
+    if (!subscription) {
+      subscription = this._getClient(reference.serverName)
+        .subscribeResource(reference.uri)
+        .catch((error) => {
+          this._resourceSubscriptions.delete(key);
+          logger.error(`Failed to subscribe to resource "${reference.uri}" of ${reference.serverName}:`, error);
+
+          return false;
+        });
+      this._resourceSubscriptions.set(key, subscription);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Reads a resource and subscribes to it. Only the content of subscribed resources is cached, the subscription keeps
+   * it current while the resource is attached to a chat.
+   */
+  async readResource(reference: MCPResourceReference): Promise<MCPResourceContent> {
+    const client = this._getClient(reference.serverName);
+    const key = getResourceKey(reference);
+
+    const resource: MCPResourceContent = {
+      ...reference,
+      text: formatResourceContents(await client.readResource(reference.uri)),
+      updatedAt: Date.now(),
+    };
+
+    if (await this._subscribeResource(reference)) {
+      this._resourceCache.set(key, resource);
+    }
+
+    return resource;
+  }
+
+  /**
+   * Unsubscribes from a resource that is no longer attached and drops its cached content
+   */
+  async releaseResource(reference: MCPResourceReference) {
+    const key = getResourceKey(reference);
+    const subscription = this._resourceSubscriptions.get(key);
+
+    this._resourceCache.delete(key);
+    this._resourceSubscriptions.delete(key);
+
+    if (subscription && (await subscription)) {
+      await this._getClient(reference.serverName).unsubscribeResource(reference.uri);
+    }
+  }
+
+  private _refreshResource(reference: MCPResourceReference) {
+    if (!this._resourceCache.has(getResourceKey(reference))) {
+      return;
+    }
+
+    logger.debug(`resource "${reference.uri}" of ${reference.serverName} changed, reading it again`);
+
+    this.readResource(reference).catch((error) => {
+      logger.error(`Failed to refresh resource "${reference.uri}" of ${reference.serverName}:`, error);
+    });
+  }
+
+  /**
+   * The contents of the resources attached to a chat, from the cache the subscriptions keep current. Resources of
+   * servers without subscriptions are read again for every message.
+   */
+  async getResourceContents(references: MCPResourceReference[]): Promise<MCPResourceContent[]> {
+    const resources = await Promise.all(
+      references.map(async (reference) => {
+        try {
+          return this._resourceCache.get(getResourceKey(reference)) ?? (await this.readResource(reference));
+        } catch (error) {
+          logger.error(`Failed to read resource "${reference.uri}" of ${reference.serverName}:`, error);
+          return undefined;
+        }
+      }),
+    );
+
+    return resources.filter((resource): resource is MCPResourceContent => !!resource);
+  }
+
+  async getPrompt(serverName: string, name: string, args?: Record<string, string>) {
+    return formatPromptMessages(await this._getClient(serverName).getPrompt(name, args));
   }
 
   isValidToolName(toolName: string): boolean {
@@ -0,0 +1,7 @@
+import { AutoFixLoop } from '~/lib/runtime/auto-fix';
+
+export const autoFixLoop: AutoFixLoop = import.meta.hot?.data.autoFixLoop ?? new AutoFixLoop();
+
+if (import.meta.hot) {
+  import.meta.hot.data.autoFixLoop = autoFixLoop;
+}
@@ -1,7 +1,10 @@
-import { map } from 'nanostores';
+import { atom, map } from 'nanostores';
 
 export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
 });
+
+// message queued by the workbench, the chat sends it once it is not busy
+export const pendingChatMessage = atom<string | undefined>(undefined);
@@ -0,0 +1,63 @@
+import { CodeIndex } from '~/lib/modules/code-index/code-index';
+import type { RankedFile } from '~/lib/modules/code-index/types';
+import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { debounce } from '~/utils/debounce';
+
+// how many ranked files are sent along with a chat request for the context selection to choose from
+export const CONTEXT_CANDIDATE_LIMIT = 30;
+
+const MAX_FILE_SIZE = 512 * 1024;
+const EXCLUDED_PATHS = [
+  /\/node_modules\//,
+  /\/\.git\//,
+  /\/(?:dist|build|\.next|coverage|\.cache)\//,
+  /lock\.(?:json|yml|yaml)$/,
+];
+
+const isBrowser = typeof window !== 'undefined';
+
+export const codeIndex = new CodeIndex();
+
+// content each path was last indexed with, a file is only re-indexed when its content changed
+const indexedContent = new Map<string, string>();
+
+function isIndexable(path: string, content: string) {
+  return content.length <= MAX_FILE_SIZE && !EXCLUDED_PATHS.some((pattern) => pattern.test(path));
+}
+
+export function syncCodeIndex(files: FileMap = workbenchStore.files.get()) {
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary || !isIndexable(path, dirent.content)) {
+      continue;
+    }
+
+    if (indexedContent.get(path) !== dirent.content) {
+      codeIndex.updateFile(path, dirent.content);
+      indexedContent.set(path, dirent.content);
+    }
+  }
+
+  for (const path of Array.from(indexedContent.keys())) {
+    const dirent = files[path];
+
+    if (dirent?.type !== 'file' || dirent.isBinary || !isIndexable(path, dirent.content)) {
+      codeIndex.removeFile(path);
+      indexedContent.delete(path);
+    }
+  }
+}
+
+/**
+ * Ranks the project files against a request, best match first. Pending file changes are indexed first
+ * so the ranking never lags behind the editor.
+ */
+export function rankContextFiles(query: string, limit = CONTEXT_CANDIDATE_LIMIT): RankedFile[] {
+  syncCodeIndex();
+
+  return codeIndex.search(query, { limit });
+}
+
+if (isBrowser) {
+  workbenchStore.files.subscribe(debounce((files: FileMap) => syncCodeIndex(files), 500));
+}
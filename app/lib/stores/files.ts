@@ -920,6 +920,82 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Replaces the workspace with the given file map, e.g. when restoring a checkpoint.
+   * Files that are not part of `files` are removed, all others are written back. Binary
+   * files whose content was never loaded are not tracked by checkpoints, so they are left
+   * as they are instead of being removed or overwritten with empty content.
+   */
+  async restoreFiles(files: FileMap) {
+    const webcontainer = await this.#webcontainer;
+    const currentFiles = this.files.get();
+
+    try {
+      for (const [filePath, dirent] of Object.entries(currentFiles)) {
+        if (dirent?.type !== 'file' || files[filePath] || (dirent.isBinary && !dirent.content)) {
+          continue;
+        }
+
+        await webcontainer.fs.rm(path.relative(webcontainer.workdir, filePath), { force: true });
+
+        this.files.setKey(filePath, undefined);
+        this.#size--;
+        this.#modifiedFiles.delete(filePath);
+      }
+
+      for (const [folderPath, dirent] of Object.entries(files)) {
+        if (dirent?.type === 'folder') {
+          await webcontainer.fs.mkdir(path.relative(webcontainer.workdir, folderPath), { recursive: true });
+          this.#deletedPaths.delete(folderPath);
+        }
+      }
+
+      for (const [filePath, dirent] of Object.entries(files)) {
+        if (dirent?.type !== 'file') {
+          continue;
+        }
+
+        // older checkpoints stored binary files with the empty content of the file watcher
+        if (dirent.isBinary && !dirent.content) {
+          continue;
+        }
+
+        const relativePath = path.relative(webcontainer.workdir, filePath);
+        const dirPath = path.dirname(relativePath);
+
+        if (dirPath !== '.') {
+          await webcontainer.fs.mkdir(dirPath, { recursive: true });
+        }
+
+        await webcontainer.fs.writeFile(
+          relativePath,
+          dirent.isBinary ? Buffer.from(dirent.content, 'base64') : dirent.content,
+        );
+
+        if (!currentFiles[filePath]) {
+          this.#size++;
+        }
+
+        const currentFile = currentFiles[filePath];
+
+        this.files.setKey(filePath, {
+          type: 'file',
+          content: dirent.content,
+          isBinary: dirent.isBinary,
+          isLocked: currentFile?.type === 'file' ? currentFile.isLocked : false,
+        });
+        this.#deletedPaths.delete(filePath);
+      }
+
+      this.#persistDeletedPaths();
+
+      logger.info(`Restored ${Object.keys(files).length} files and folders`);
+    } catch (error) {
+      logger.error('Failed to restore files\n\n', error);
+      throw error;
+    }
+  }
+
   // method to persist deleted paths to localStorage
   #persistDeletedPaths() {
     try {
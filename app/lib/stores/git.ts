@@ -0,0 +1,306 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import { requestCompletion } from '~/lib/api/llmcall';
+import { hasConflictMarkers } from '~/lib/git/conflicts';
+import { createGitFs } from '~/lib/git/fs';
+import {
+  checkoutBranch,
+  commit,
+  createBranch,
+  getBranches,
+  getRemoteUrl,
+  getStagedDiff,
+  getStatus,
+  initRepository,
+  isRepository,
+  pull,
+  push,
+  restoreRepository,
+  setRemoteUrl,
+  stageFile,
+  unstageFile,
+  type GitAuthor,
+  type GitContext,
+  type GitFileStatus,
+} from '~/lib/git/repository';
+import { webcontainer } from '~/lib/webcontainer';
+import { createScopedLogger } from '~/utils/logger';
+import { githubConnectionStore } from './githubConnection';
+import { gitlabConnection } from './gitlabConnection';
+
+const logger = createScopedLogger('GitStore');
+
+// the model only needs the gist of large diffs to name a commit
+const MAX_SUGGESTION_DIFF_LENGTH = 12_000;
+
+const COMMIT_MESSAGE_PROMPT = `You write git commit messages. Given a unified diff, reply with a commit message only:
+a subject line in the imperative mood of at most 72 characters, optionally followed by a blank line and a short body
+explaining why. Do not wrap the message in quotes or code fences.`;
+
+export type GitOperation = 'refresh' | 'commit' | 'branch' | 'pull' | 'push' | 'suggest';
+
+export interface GitMergeState {
+  branch: string;
+  mergeHead: string;
+
+  // files that still contain conflict markers
+  conflicts: string[];
+}
+
+/**
+ * Git repository of the project in the WebContainer, backing the Git panel of the workbench
+ */
+export class GitStore {
+  #webcontainer: Promise<WebContainer>;
+  #context: GitContext | undefined;
+
+  isRepository = atom(false);
+  files = atom<GitFileStatus[]>([]);
+  stagedDiff = atom('');
+  branches = atom<string[]>([]);
+  currentBranch = atom<string | undefined>(undefined);
+  remoteUrl = atom<string | undefined>(undefined);
+  merge = atom<GitMergeState | undefined>(undefined);
+
+  // operation in progress, the panel disables the other actions meanwhile
+  pending = atom<GitOperation | undefined>(undefined);
+  error = atom<string | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  async #getContext(): Promise<GitContext> {
+    if (!this.#context) {
+      const container = await this.#webcontainer;
+      this.#context = { fs: createGitFs(container), dir: container.workdir };
+    }
+
+    return this.#context;
+  }
+
+  async #run<T>(operation: GitOperation, task: (context: GitContext) => Promise<T>): Promise<T | undefined> {
+    if (this.pending.get()) {
+      return undefined;
+    }
+
+    this.pending.set(operation);
+    this.error.set(undefined);
+
+    try {
+      return await task(await this.#getContext());
+    } catch (error) {
+      logger.error(`Git ${operation} failed`, error);
+      this.error.set(error instanceof Error ? error.message : String(error));
+
+      return undefined;
+    } finally {
+      this.pending.set(undefined);
+    }
+  }
+
+  async #load(context: GitContext) {
+    const isRepo = await isRepository(context);
+    this.isRepository.set(isRepo);
+
+    if (!isRepo) {
+      this.files.set([]);
+      this.stagedDiff.set('');
+
+      return;
+    }
+
+    const [files, { branches, current }, remoteUrl, stagedDiff] = await Promise.all([
+      getStatus(context),
+      getBranches(context),
+      getRemoteUrl(context),
+      getStagedDiff(context),
+    ]);
+
+    this.files.set(files);
+    this.branches.set(branches);
+    this.currentBranch.set(current);
+    this.remoteUrl.set(remoteUrl);
+    this.stagedDiff.set(stagedDiff);
+  }
+
+  refresh() {
+    return this.#run('refresh', (context) => this.#load(context));
+  }
+
+  init(remoteUrl?: string) {
+    return this.#run('refresh', async (context) => {
+      await initRepository(context, remoteUrl?.trim() || undefined);
+      await this.#load(context);
+    });
+  }
+
+  /**
+   * Fetches the repository a chat was imported from again, the WebContainer loses `.git` when the chat is reloaded
+   */
+  restore(gitUrl: string) {
+    return this.#run('pull', async (context) => {
+      await restoreRepository(context, gitUrl);
+      await this.#load(context);
+    });
+  }
+
+  setRemote(url: string) {
+    return this.#run('refresh', async (context) => {
+      await setRemoteUrl(context, url.trim());
+      this.remoteUrl.set(url.trim());
+    });
+  }
+
+  stage(files: GitFileStatus[]) {
+    return this.#run('refresh', async (context) => {
+      for (const file of files) {
+        await stageFile(context, file);
+      }
+
+      await this.#load(context);
+    });
+  }
+
+  unstage(paths: string[]) {
+    return this.#run('refresh', async (context) => {
+      for (const path of paths) {
+        await unstageFile(context, path);
+      }
+
+      await this.#load(context);
+    });
+  }
+
+  /**
+   * Commits the staged changes, concluding a merge when one is in progress
+   */
+  commit(message: string) {
+    return this.#run('commit', async (context) => {
+      const merge = this.merge.get();
+
+      if (merge && merge.conflicts.length > 0) {
+        throw new Error('Resolve the merge conflicts before committing');
+      }
+
+      const oid = await commit(context, message, getCommitAuthor(), merge?.mergeHead);
+      this.merge.set(undefined);
+      await this.#load(context);
+
+      return oid;
+    });
+  }
+
+  createBranch(name: string) {
+    return this.#run('branch', async (context) => {
+      await createBranch(context, name.trim());
+      await this.#load(context);
+    });
+  }
+
+  checkout(name: string) {
+    return this.#run('branch', async (context) => {
+      await checkoutBranch(context, name);
+      await this.#load(context);
+    });
+  }
+
+  pull() {
+    return this.#run('pull', async (context) => {
+      const branch = this.#requireBranch();
+      const files = await getStatus(context);
+
+      if (files.some((file) => file.state !== 'untracked')) {
+        throw new Error('Commit your changes before pulling');
+      }
+
+      const { conflicts, mergeHead } = await pull(context, branch, getCommitAuthor());
+
+      if (mergeHead && conflicts.length > 0) {
+        this.merge.set({ branch, mergeHead, conflicts });
+      }
+
+      await this.#load(context);
+
+      return conflicts;
+    });
+  }
+
+  push() {
+    return this.#run('push', async (context) => {
+      if (this.merge.get()) {
+        throw new Error('Commit the merge before pushing');
+      }
+
+      await push(context, this.#requireBranch());
+    });
+  }
+
+  /**
+   * Writes the resolved content of a conflicted file and stages it
+   */
+  resolveConflict(path: string, content: string) {
+    return this.#run('refresh', async (context) => {
+      if (hasConflictMarkers(content)) {
+        throw new Error(`${path} still contains conflict markers`);
+      }
+
+      await context.fs.promises.writeFile(`${context.dir}/${path}`, content, { encoding: 'utf8' });
+      await stageFile(context, { path, state: 'modified', staged: false, unstaged: true });
+
+      const merge = this.merge.get();
+
+      if (merge) {
+        this.merge.set({ ...merge, conflicts: merge.conflicts.filter((conflict) => conflict !== path) });
+      }
+
+      await this.#load(context);
+    });
+  }
+
+  /**
+   * Asks the selected model for a commit message describing the staged changes
+   */
+  suggestCommitMessage() {
+    return this.#run('suggest', async (context) => {
+      const diff = await getStagedDiff(context);
+
+      if (!diff) {
+        throw new Error('Stage changes to get a commit message suggestion');
+      }
+
+      return requestCompletion(COMMIT_MESSAGE_PROMPT, diff.slice(0, MAX_SUGGESTION_DIFF_LENGTH));
+    });
+  }
+
+  #requireBranch() {
+    const branch = this.currentBranch.get();
+
+    if (!branch) {
+      throw new Error('Check out a branch first');
+    }
+
+    return branch;
+  }
+}
+
+/**
+ * Commits are authored by the connected GitHub or GitLab account
+ */
+function getCommitAuthor(): GitAuthor {
+  const github = githubConnectionStore.get().user;
+
+  if (github) {
+    return { name: github.name || github.login, email: `${github.login}@users.noreply.github.com` };
+  }
+
+  const gitlab = gitlabConnection.get().user;
+
+  if (gitlab) {
+    return { name: gitlab.name || gitlab.username, email: `${gitlab.username}@users.noreply.gitlab.com` };
+  }
+
+  return { name: 'bolt.diy', email: 'bolt.diy@users.noreply.github.com' };
+}
+
+export const gitStore = new GitStore(webcontainer);
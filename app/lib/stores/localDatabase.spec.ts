@@ -0,0 +1,129 @@
+import type { WebContainer } from '@webcontainer/api';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LOCAL_DATABASE_PORT } from '~/lib/supabase/local-database';
+import { LocalDatabaseStore } from './localDatabase';
+
+vi.mock('~/lib/webcontainer', () => ({ webcontainer: new Promise(() => undefined) }));
+
+type PortListener = (port: number, type: 'open' | 'close', url: string) => void;
+
+function createContainer({ installed = true } = {}) {
+  const listeners = new Set<PortListener>();
+  const processes: Array<{ args: string[]; env?: Record<string, string>; exit: (code: number) => void; kill: any }> =
+    [];
+
+  const container = {
+    fs: {
+      mkdir: vi.fn(async () => undefined),
+      writeFile: vi.fn(async () => undefined),
+      readFile: vi.fn(async () => {
+        if (!installed) {
+          throw new Error('ENOENT');
+        }
+
+        return '{}';
+      }),
+    },
+    on: (_event: 'port', listener: PortListener) => {
+      listeners.add(listener);
+
+      return () => listeners.delete(listener);
+    },
+    spawn: vi.fn(async (command: string, args: string[], options?: { env?: Record<string, string> }) => {
+      let exit!: (code: number) => void;
+      const exited = new Promise<number>((resolve) => (exit = resolve));
+      const process = { args, env: options?.env, exit, kill: vi.fn(() => exit(143)) };
+
+      processes.push(process);
+
+      // the install finishes right away, the server runs until it is killed
+      if (command === 'npm') {
+        exit(0);
+      }
+
+      return {
+        output: new ReadableStream<string>({ start: (controller) => controller.close() }),
+        exit: exited,
+        kill: process.kill,
+      };
+    }),
+  };
+
+  return {
+    container,
+    processes,
+    openPort: (port: number, url: string) => listeners.forEach((listener) => listener(port, 'open', url)),
+  };
+}
+
+async function startStore(installed = true) {
+  const fake = createContainer({ installed });
+  const store = new LocalDatabaseStore(Promise.resolve(fake.container as unknown as WebContainer));
+  const started = store.start();
+
+  await vi.waitFor(() => expect(fake.processes.at(-1)?.args).toEqual(['server.mjs']));
+  fake.openPort(LOCAL_DATABASE_PORT, 'http://localhost:54380');
+
+  return { ...fake, store, url: await started };
+}
+
+describe('LocalDatabaseStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('starts the server with a fresh token and queries it with that token', async () => {
+    const fetchMock = vi.fn(async () => Response.json([{ id: 1 }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { store, processes, url } = await startStore();
+    const token = processes[0].env?.LOCAL_DATABASE_TOKEN;
+
+    expect(url).toBe('http://localhost:54380');
+    expect(store.status.get()).toBe('running');
+    expect(token).toMatch(/^[0-9a-f-]{36}$/);
+
+    await expect(store.query('select 1 as id')).resolves.toEqual([{ id: 1 }]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: `Bearer ${token}` }) }),
+    );
+  });
+
+  it('installs PGlite before the first start', async () => {
+    const { container } = await startStore(false);
+
+    expect(container.spawn).toHaveBeenCalledTimes(2);
+    expect(container.spawn.mock.calls[0].slice(0, 2)).toEqual(['npm', ['install', '--no-audit', '--no-fund']]);
+  });
+
+  it('stops the server and issues a new token on the next start', async () => {
+    const { store, container, processes, openPort } = await startStore();
+
+    store.stop();
+
+    expect(processes[0].kill).toHaveBeenCalled();
+    expect(store.status.get()).toBe('stopped');
+    expect(store.url.get()).toBeUndefined();
+
+    const restarted = store.start();
+
+    await vi.waitFor(() => expect(container.spawn).toHaveBeenCalledTimes(2));
+    openPort(LOCAL_DATABASE_PORT, 'http://localhost:54380');
+    await restarted;
+
+    expect(processes[1].env?.LOCAL_DATABASE_TOKEN).not.toBe(processes[0].env?.LOCAL_DATABASE_TOKEN);
+  });
+
+  it('reports a server that exits before it listens', async () => {
+    const { container, processes } = createContainer();
+    const store = new LocalDatabaseStore(Promise.resolve(container as unknown as WebContainer));
+    const started = store.start();
+
+    await vi.waitFor(() => expect(processes).toHaveLength(1));
+    processes[0].exit(1);
+
+    await expect(started).rejects.toThrow('exited with code 1');
+    expect(store.status.get()).toBe('error');
+  });
+});
@@ -0,0 +1,181 @@
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import {
+  LOCAL_DATABASE_DIR,
+  LOCAL_DATABASE_PACKAGE_JSON,
+  LOCAL_DATABASE_PORT,
+  LOCAL_DATABASE_SERVER,
+} from '~/lib/supabase/local-database';
+import { webcontainer } from '~/lib/webcontainer';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('LocalDatabase');
+
+export type LocalDatabaseStatus = 'stopped' | 'installing' | 'starting' | 'running' | 'error';
+
+// the end of the output explains why the server did not come up
+const MAX_OUTPUT_TAIL = 2000;
+
+/**
+ * Runs the local database server in the project runtime, the WebContainer or the native runtime of the desktop app
+ */
+export class LocalDatabaseStore {
+  #webcontainer: Promise<WebContainer>;
+  #process: WebContainerProcess | undefined;
+  #output = '';
+  #ready: Promise<string> | undefined;
+
+  // issued on every start, the server refuses requests without it
+  #token: string | undefined;
+
+  status = atom<LocalDatabaseStatus>('stopped');
+  url = atom<string | undefined>(undefined);
+  error = atom<string | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  /**
+   * Installs PGlite on first use and starts the server, resolves with the URL the app reaches it at
+   */
+  start() {
+    if (!this.#ready) {
+      this.#ready = this.#start().catch((error) => {
+        this.#ready = undefined;
+        throw error;
+      });
+    }
+
+    return this.#ready;
+  }
+
+  async #start() {
+    this.error.set(undefined);
+
+    try {
+      const container = await this.#webcontainer;
+
+      await container.fs.mkdir(LOCAL_DATABASE_DIR, { recursive: true });
+      await container.fs.writeFile(`${LOCAL_DATABASE_DIR}/package.json`, LOCAL_DATABASE_PACKAGE_JSON);
+      await container.fs.writeFile(`${LOCAL_DATABASE_DIR}/server.mjs`, LOCAL_DATABASE_SERVER);
+
+      const installed = await container.fs
+        .readFile(`${LOCAL_DATABASE_DIR}/node_modules/@electric-sql/pglite/package.json`, 'utf-8')
+        .then(() => true)
+        .catch(() => false);
+
+      if (!installed) {
+        this.status.set('installing');
+
+        const install = await container.spawn('npm', ['install', '--no-audit', '--no-fund'], {
+          cwd: LOCAL_DATABASE_DIR,
+        });
+        const exitCode = await this.#collectOutput(install).exit;
+
+        if (exitCode !== 0) {
+          throw new Error(
+            `Installing PGlite failed with exit code ${exitCode}:\n${this.#output.slice(-MAX_OUTPUT_TAIL)}`,
+          );
+        }
+      }
+
+      this.status.set('starting');
+
+      const token = crypto.randomUUID();
+
+      const url = new Promise<string>((resolve) => {
+        const unsubscribe = container.on('port', (port, type, url) => {
+          if (port === LOCAL_DATABASE_PORT && type === 'open') {
+            unsubscribe();
+            resolve(url);
+          }
+        });
+      });
+
+      const origin = globalThis.location?.origin;
+      const process = await container.spawn('node', ['server.mjs'], {
+        cwd: LOCAL_DATABASE_DIR,
+        env: {
+          PGDATA: './pgdata',
+          LOCAL_DATABASE_TOKEN: token,
+          ...(origin && { LOCAL_DATABASE_ORIGIN: origin }),
+        },
+      });
+      this.#process = this.#collectOutput(process);
+
+      const exited = process.exit.then((exitCode) => {
+        throw new Error(`The local database exited with code ${exitCode}:\n${this.#output.slice(-MAX_OUTPUT_TAIL)}`);
+      });
+
+      const baseUrl = await Promise.race([url, exited]);
+
+      // a later exit, a crash or `stop`, leaves the database unavailable
+      exited.catch((error) => {
+        if (this.#process === process) {
+          logger.error('The local database stopped', error);
+          this.#reset(error);
+        }
+      });
+
+      this.#token = token;
+      this.url.set(baseUrl);
+      this.status.set('running');
+
+      return baseUrl;
+    } catch (error) {
+      logger.error('Failed to start the local database', error);
+      this.#reset(error);
+      throw error;
+    }
+  }
+
+  #collectOutput(process: WebContainerProcess) {
+    this.#output = '';
+
+    process.output.pipeTo(
+      new WritableStream({
+        write: (data) => {
+          this.#output = (this.#output + data.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')).slice(-MAX_OUTPUT_TAIL);
+        },
+      }),
+    );
+
+    return process;
+  }
+
+  #reset(error?: unknown) {
+    this.#process = undefined;
+    this.#token = undefined;
+    this.#ready = undefined;
+    this.url.set(undefined);
+    this.status.set(error ? 'error' : 'stopped');
+    this.error.set(error ? (error instanceof Error ? error.message : String(error)) : undefined);
+  }
+
+  stop() {
+    const process = this.#process;
+
+    this.#reset();
+    process?.kill();
+  }
+
+  async query<T = unknown>(query: string): Promise<T> {
+    const url = await this.start();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.#token}` },
+      body: JSON.stringify({ query }),
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as any;
+      throw new Error(`Local database query failed: ${errorData.error?.message || response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+export const localDatabaseStore = new LocalDatabaseStore(webcontainer);
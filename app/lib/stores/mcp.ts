@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { defaultPermissionPolicy, getSessionToolKey, type MCPPermissionPolicy } from '~/lib/mcp/permissions';
 import type { MCPConfig, MCPServerTools } from '~/lib/services/mcpService';
 
 const MCP_SETTINGS_KEY = 'mcp_settings';
@@ -7,6 +8,16 @@ const isBrowser = typeof window !== 'undefined';
 type MCPSettings = {
   mcpConfig: MCPConfig;
   maxLLMSteps: number;
+  permissions: MCPPermissionPolicy;
+
+  /** offers the model the built-in tools that read the project, search it and run commands in it */
+  enableWorkbenchTools: boolean;
+
+  /** answers the requests of the app's MCP server in this tab, see `useWorkspaceBridge` */
+  acceptMCPRequests: boolean;
+
+  /** the server's `MCP_SERVER_TOKEN`, the tab pairs with the server using it before it accepts requests */
+  mcpServerToken: string;
 };
 
 const defaultSettings = {
@@ -14,6 +25,10 @@ const defaultSettings = {
   mcpConfig: {
     mcpServers: {},
   },
+  permissions: defaultPermissionPolicy,
+  enableWorkbenchTools: true,
+  acceptMCPRequests: false,
+  mcpServerToken: '',
 } satisfies MCPSettings;
 
 type Store = {
@@ -22,12 +37,17 @@ type Store = {
   serverTools: MCPServerTools;
   error: string | null;
   isUpdatingConfig: boolean;
+
+  /** tools approved with "always allow" until the page is reloaded, keyed by `getSessionToolKey` */
+  sessionAllowedTools: string[];
 };
 
 type Actions = {
   initialize: () => Promise<void>;
   updateSettings: (settings: MCPSettings) => Promise<void>;
   checkServersAvailabilities: () => Promise<void>;
+  updatePermissions: (permissions: MCPPermissionPolicy) => void;
+  allowToolForSession: (serverName: string, toolName: string) => void;
 };
 
 export const useMCPStore = create<Store & Actions>((set, get) => ({
@@ -36,6 +56,7 @@ export const useMCPStore = create<Store & Actions>((set, get) => ({
   serverTools: {},
   error: null,
   isUpdatingConfig: false,
+  sessionAllowedTools: [],
   initialize: async () => {
     if (get().isInitialized) {
       return;
@@ -46,7 +67,8 @@ export const useMCPStore = create<Store & Actions>((set, get) => ({
 
       if (savedConfig) {
         try {
-          const settings = JSON.parse(savedConfig) as MCPSettings;
+          // settings saved before permissions existed fall back to asking for every call
+          const settings = { ...defaultSettings, ...JSON.parse(savedConfig) } as MCPSettings;
           const serverTools = await updateServerConfig(settings.mcpConfig);
           set(() => ({ settings, serverTools }));
         } catch (error) {
@@ -96,6 +118,22 @@ export const useMCPStore = create<Store & Actions>((set, get) => ({
 
     set(() => ({ serverTools }));
   },
+  updatePermissions: (permissions: MCPPermissionPolicy) => {
+    const settings = { ...get().settings, permissions };
+
+    if (isBrowser) {
+      localStorage.setItem(MCP_SETTINGS_KEY, JSON.stringify(settings));
+    }
+
+    set(() => ({ settings }));
+  },
+  allowToolForSession: (serverName: string, toolName: string) => {
+    const key = getSessionToolKey(serverName, toolName);
+
+    if (!get().sessionAllowedTools.includes(key)) {
+      set((state) => ({ sessionAllowedTools: [...state.sessionAllowedTools, key] }));
+    }
+  },
 }));
 
 async function updateServerConfig(config: MCPConfig) {
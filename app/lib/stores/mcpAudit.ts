@@ -0,0 +1,116 @@
+import { atom } from 'nanostores';
+import {
+  chatId,
+  clearToolAuditRecords,
+  getToolAuditRecords,
+  openDatabase,
+  putToolAuditRecord,
+} from '~/lib/persistence';
+import type { ToolAuditDecision, ToolAuditRecord } from '~/lib/persistence/types';
+import { TOOL_EXECUTION_APPROVAL, TOOL_EXECUTION_ERROR, TOOL_NO_EXECUTE_FUNCTION } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('MCPAudit');
+
+const isBrowser = typeof window !== 'undefined';
+
+export interface AuditedToolCall {
+  toolCallId: string;
+  serverName: string;
+  toolName: string;
+  args: unknown;
+}
+
+/**
+ * Audit log of MCP tool calls, newest first.
+ */
+export const toolAuditRecords = atom<ToolAuditRecord[]>([]);
+
+// approved calls waiting for the server to send back their result
+const pendingRecords = new Map<string, ToolAuditRecord>();
+
+let databasePromise: Promise<IDBDatabase | undefined> | undefined;
+
+function getAuditDatabase() {
+  if (!isBrowser) {
+    return Promise.resolve(undefined);
+  }
+
+  databasePromise ??= openDatabase();
+
+  return databasePromise;
+}
+
+async function saveRecord(record: ToolAuditRecord) {
+  toolAuditRecords.set([record, ...toolAuditRecords.get().filter(({ id }) => id !== record.id)]);
+
+  const db = await getAuditDatabase();
+
+  if (db) {
+    await putToolAuditRecord(db, record);
+  }
+}
+
+export function recordToolDecision(call: AuditedToolCall, decision: ToolAuditDecision, reason?: string) {
+  const approved = decision === 'approved' || decision === 'auto-approved';
+
+  const record: ToolAuditRecord = {
+    id: call.toolCallId,
+    timestamp: new Date().toISOString(),
+    chatId: chatId.get(),
+    serverName: call.serverName,
+    toolName: call.toolName,
+    args: call.args,
+    decision,
+    reason,
+    status: approved ? 'pending' : 'denied',
+  };
+
+  if (approved) {
+    pendingRecords.set(record.id, record);
+  }
+
+  saveRecord(record).catch((error) => logger.error('Failed to record tool decision', error));
+}
+
+/**
+ * Completes the record of an approved call once its result replaces the approval in the message.
+ */
+export function recordToolResult(toolCallId: string, result: unknown) {
+  const pending = pendingRecords.get(toolCallId);
+
+  if (!pending || result === TOOL_EXECUTION_APPROVAL.APPROVE) {
+    return;
+  }
+
+  pendingRecords.delete(toolCallId);
+
+  const failed =
+    result === TOOL_EXECUTION_ERROR ||
+    result === TOOL_NO_EXECUTE_FUNCTION ||
+    (!!result && typeof result === 'object' && (result as { isError?: boolean }).isError === true);
+
+  saveRecord({ ...pending, status: failed ? 'error' : 'success', result }).catch((error) =>
+    logger.error('Failed to record tool result', error),
+  );
+}
+
+export async function loadToolAuditRecords() {
+  const db = await getAuditDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  toolAuditRecords.set((await getToolAuditRecords(db)).reverse());
+}
+
+export async function clearToolAudit() {
+  const db = await getAuditDatabase();
+
+  if (db) {
+    await clearToolAuditRecords(db);
+  }
+
+  toolAuditRecords.set([]);
+}
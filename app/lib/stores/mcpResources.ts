@@ -0,0 +1,81 @@
+import { atom } from 'nanostores';
+import { chatId } from '~/lib/persistence';
+import type { ParsedPromptCommand } from '~/lib/mcp/prompts';
+import type { MCPResource, MCPResourceContent, MCPResourceReference } from '~/lib/services/mcpService';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('MCPResources');
+
+export type AttachedMCPResource = MCPResourceReference & Pick<MCPResource, 'name' | 'mimeType'>;
+
+/**
+ * MCP resources attached to the current chat. They stay attached for the following messages, the server sends their
+ * current content along with each of them.
+ */
+export const attachedMCPResources = atom<AttachedMCPResource[]>([]);
+
+// resources belong to the chat they were attached in
+chatId.listen(() => {
+  attachedMCPResources.get().forEach(releaseMCPResource);
+  attachedMCPResources.set([]);
+});
+
+async function postJSON<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = (await response.json()) as T & { error?: string };
+
+  if (!response.ok) {
+    throw new Error(data.error ?? `Server responded with ${response.status}: ${response.statusText}`);
+  }
+
+  return data;
+}
+
+/**
+ * Reads the resource once, so it fails here rather than silently when the message is sent
+ */
+export async function attachMCPResource(resource: AttachedMCPResource) {
+  const isAttached = attachedMCPResources
+    .get()
+    .some(({ serverName, uri }) => serverName === resource.serverName && uri === resource.uri);
+
+  if (isAttached) {
+    return;
+  }
+
+  await postJSON<MCPResourceContent>('/api/mcp-read-resource', { serverName: resource.serverName, uri: resource.uri });
+
+  attachedMCPResources.set([...attachedMCPResources.get(), resource]);
+}
+
+// the server stops following the resource and forgets its cached content
+function releaseMCPResource({ serverName, uri }: MCPResourceReference) {
+  postJSON('/api/mcp-release-resource', { serverName, uri }).catch((error) =>
+    logger.error(`Failed to release resource "${uri}" of ${serverName}`, error),
+  );
+}
+
+export function detachMCPResource({ serverName, uri }: MCPResourceReference) {
+  attachedMCPResources.set(
+    attachedMCPResources.get().filter((resource) => resource.serverName !== serverName || resource.uri !== uri),
+  );
+  releaseMCPResource({ serverName, uri });
+}
+
+/**
+ * Fetches the messages of a prompt template, joined into the text sent in place of the slash command
+ */
+export async function expandMCPPrompt({ serverName, prompt, args }: ParsedPromptCommand) {
+  const { text } = await postJSON<{ text: string }>('/api/mcp-get-prompt', {
+    serverName,
+    name: prompt.name,
+    arguments: args,
+  });
+
+  return text;
+}
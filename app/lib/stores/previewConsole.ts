@@ -0,0 +1,22 @@
+import { atom } from 'nanostores';
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface PreviewConsoleEntry {
+  level: PreviewConsoleLevel;
+  message: string;
+  pathname?: string;
+  timestamp: number;
+}
+
+// a chatty app would otherwise grow the buffer without bounds
+const MAX_ENTRIES = 500;
+
+/**
+ * Console output of the preview, reported by the inspector script
+ */
+export const previewConsole = atom<PreviewConsoleEntry[]>([]);
+
+export function addPreviewConsoleEntry(entry: Omit<PreviewConsoleEntry, 'timestamp'>) {
+  previewConsole.set([...previewConsole.get(), { ...entry, timestamp: Date.now() }].slice(-MAX_ENTRIES));
+}
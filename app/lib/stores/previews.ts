@@ -1,5 +1,6 @@
 import type { WebContainer } from '@webcontainer/api';
 import { atom } from 'nanostores';
+import { LOCAL_DATABASE_PORT } from '~/lib/supabase/local-database';
 
 // Extend Window interface to include our custom property
 declare global {
@@ -180,6 +181,11 @@ export class PreviewsStore {
 
     // Listen for port events
     webcontainer.on('port', (port, type, url) => {
+      // the local database is an API for the project, not a page to preview
+      if (port === LOCAL_DATABASE_PORT) {
+        return;
+      }
+
       let previewInfo = this.#availablePreviews.get(port);
 
       if (type === 'close' && previewInfo) {
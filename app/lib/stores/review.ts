@@ -0,0 +1,110 @@
+import { map, type MapStore } from 'nanostores';
+import {
+  applyReviewDecisions,
+  createStagedChange,
+  formatRejectedChanges,
+  type ReviewDecision,
+  type StagedFileChange,
+} from '~/lib/runtime/change-review';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ReviewStore');
+
+/**
+ * Changeset of the file actions staged in review mode, keyed by the absolute file path.
+ * Nothing is written to the project until the reviewed changes are committed.
+ */
+export class ReviewStore {
+  changes: MapStore<Record<string, StagedFileChange | undefined>> = import.meta.hot?.data.stagedChanges ?? map({});
+
+  // rejected hunks of the last commit, sent to the model with the next message
+  #rejectedChanges: StagedFileChange[] = [];
+
+  constructor() {
+    if (import.meta.hot) {
+      import.meta.hot.data.stagedChanges = this.changes;
+    }
+  }
+
+  getStagedContent(filePath: string): string | undefined {
+    return this.changes.get()[filePath]?.after;
+  }
+
+  /**
+   * Stages the new content of a file. A file written several times keeps the content it had before the first write.
+   */
+  stage(filePath: string, before: string | undefined, after: string) {
+    const existing = this.changes.get()[filePath];
+    const original = existing ? existing.before : before;
+
+    if (original === after) {
+      this.changes.setKey(filePath, undefined);
+      return;
+    }
+
+    this.changes.setKey(filePath, createStagedChange(filePath, original, after));
+  }
+
+  setHunkDecision(filePath: string, hunkIndex: number, decision: ReviewDecision) {
+    const change = this.changes.get()[filePath];
+
+    if (!change) {
+      return;
+    }
+
+    this.changes.setKey(filePath, {
+      ...change,
+      hunks: change.hunks.map((hunk, index) => (index === hunkIndex ? { ...hunk, decision } : hunk)),
+    });
+  }
+
+  setFileDecision(filePath: string, decision: ReviewDecision) {
+    const change = this.changes.get()[filePath];
+
+    if (!change) {
+      return;
+    }
+
+    this.changes.setKey(filePath, { ...change, hunks: change.hunks.map((hunk) => ({ ...hunk, decision })) });
+  }
+
+  setAllDecisions(decision: ReviewDecision) {
+    for (const filePath of Object.keys(this.changes.get())) {
+      this.setFileDecision(filePath, decision);
+    }
+  }
+
+  /**
+   * Writes the accepted hunks of every staged file, pending hunks are accepted as well
+   */
+  async commit(writeFile: (filePath: string, content: string) => Promise<void>) {
+    const changes = Object.values(this.changes.get()).filter((change): change is StagedFileChange => !!change);
+
+    for (const change of changes) {
+      const content = applyReviewDecisions(change);
+
+      if (content === undefined || content === change.before) {
+        continue;
+      }
+
+      try {
+        await writeFile(change.filePath, content);
+      } catch (error) {
+        logger.error(`Failed to write reviewed changes of ${change.filePath}`, error);
+      }
+    }
+
+    this.#rejectedChanges = [...this.#rejectedChanges, ...changes];
+    this.changes.set({});
+  }
+
+  /**
+   * Feedback about the rejected hunks for the next message, cleared once taken
+   */
+  takeFeedback(): string | undefined {
+    const feedback = formatRejectedChanges(this.#rejectedChanges);
+    this.#rejectedChanges = [];
+
+    return feedback;
+  }
+}
@@ -1,6 +1,6 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { FallbackModel, IProviderConfig } from '~/types/model';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import { toggleTheme } from './theme';
@@ -258,8 +258,26 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  FALLBACK_CHAIN: 'fallbackChain',
+  INDEX_CONTEXT_SELECTION: 'indexContextSelection',
+  REVIEW_MODE: 'reviewMode',
+  AUTO_FIX: 'autoFix',
 } as const;
 
+const getStoredFallbackChain = (): FallbackModel[] => {
+  if (!isBrowser) {
+    return [];
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.FALLBACK_CHAIN) || '[]');
+
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
 // Initialize settings from localStorage or defaults
 const getInitialSettings = () => {
   const getStoredBoolean = (key: string, defaultValue: boolean): boolean => {
@@ -287,6 +305,10 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    fallbackChain: getStoredFallbackChain(),
+    indexContextSelection: getStoredBoolean(SETTINGS_KEYS.INDEX_CONTEXT_SELECTION, false),
+    reviewMode: getStoredBoolean(SETTINGS_KEYS.REVIEW_MODE, false),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
   };
 };
 
@@ -298,6 +320,16 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const fallbackChainStore = atom<FallbackModel[]>(initialSettings.fallbackChain);
+
+// picks context files straight from the code index instead of asking the model to choose among the ranked files
+export const indexContextSelectionStore = atom<boolean>(initialSettings.indexContextSelection);
+
+// stages the file changes of the model for review instead of writing them straight to the project
+export const reviewModeStore = atom<boolean>(initialSettings.reviewMode);
+
+// sends the errors of the preview and the build back to the model until the project runs cleanly
+export const autoFixStore = atom<boolean>(initialSettings.autoFix);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -325,6 +357,26 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateFallbackChain = (chain: FallbackModel[]) => {
+  fallbackChainStore.set(chain);
+  localStorage.setItem(SETTINGS_KEYS.FALLBACK_CHAIN, JSON.stringify(chain));
+};
+
+export const updateIndexContextSelection = (enabled: boolean) => {
+  indexContextSelectionStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.INDEX_CONTEXT_SELECTION, JSON.stringify(enabled));
+};
+
+export const updateReviewMode = (enabled: boolean) => {
+  reviewModeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.REVIEW_MODE, JSON.stringify(enabled));
+};
+
+export const updateAutoFix = (enabled: boolean) => {
+  autoFixStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
@@ -349,8 +401,15 @@ const getInitialTabConfiguration = (): TabWindowConfig => {
     }
 
     // Ensure proper typing of loaded configuration
+    const userTabs: UserTabConfig[] = parsed.userTabs.filter(
+      (tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user',
+    );
+
+    // Tabs added after the configuration was saved are appended with their defaults
+    const missingTabs = defaultConfig.userTabs.filter((tab) => !userTabs.some((saved) => saved.id === tab.id));
+
     return {
-      userTabs: parsed.userTabs.filter((tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user'),
+      userTabs: [...userTabs, ...missingTabs],
     };
   } catch (error) {
     console.warn('Failed to parse tab configuration:', error);
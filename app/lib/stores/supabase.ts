@@ -82,6 +82,20 @@ if (savedCredentials && !initialState.credentials) {
 
 export const supabaseConnection = atom<SupabaseConnectionState>(initialState);
 
+export type SupabaseBackend = 'remote' | 'local';
+
+/**
+ * Where database actions run, the selected Supabase project or the local database of the project runtime
+ */
+export const supabaseBackend = atom<SupabaseBackend>(
+  storage?.getItem('supabase_backend') === 'local' ? 'local' : 'remote',
+);
+
+export function setSupabaseBackend(backend: SupabaseBackend) {
+  supabaseBackend.set(backend);
+  storage?.setItem('supabase_backend', backend);
+}
+
 export const isConnecting = atom(false);
 export const isFetchingStats = atom(false);
 export const isFetchingApiKeys = atom(false);
@@ -0,0 +1,303 @@
+import { atom } from 'nanostores';
+import { chatId, db, getMigrationLedger, setMigrationLedger } from '~/lib/persistence';
+import { hashContent } from '~/lib/persistence/checkpoints';
+import type { MigrationLedgerEntry } from '~/lib/persistence/types';
+import {
+  APPLIED_MIGRATIONS_QUERY,
+  detectMigrationDrift,
+  getMigrationFiles,
+  getTransactionStatements,
+  recordMigrationSql,
+  wrapInTransaction,
+  type MigrationDrift,
+  type MigrationFile,
+} from '~/lib/supabase/migrations';
+import { LOCAL_PROJECT_ID } from '~/lib/supabase/local-database';
+import { SCHEMA_INTROSPECTION_QUERY, parseDatabaseSchema, type DatabaseSchema } from '~/lib/supabase/schema';
+import { localDatabaseStore } from '~/lib/stores/localDatabase';
+import { supabaseBackend, supabaseConnection, type SupabaseBackend } from '~/lib/stores/supabase';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('SupabaseDatabase');
+
+export const databaseSchema = atom<DatabaseSchema | undefined>(undefined);
+export const isIntrospecting = atom(false);
+export const migrationLedger = atom<MigrationLedgerEntry[]>([]);
+export const migrationDrift = atom<MigrationDrift[] | undefined>(undefined);
+export const isCheckingDrift = atom(false);
+
+if (!import.meta.env.SSR) {
+  chatId.subscribe((id) => {
+    loadMigrationLedger(id);
+  });
+
+  // the schema is sent with every chat message, so it follows the selected project
+  let introspectedProjectId: string | undefined;
+
+  const onDatabaseChange = () => {
+    const projectId = getProjectId();
+
+    if (projectId === introspectedProjectId) {
+      return;
+    }
+
+    introspectedProjectId = projectId;
+    databaseSchema.set(undefined);
+    migrationDrift.set(undefined);
+
+    // the local database is only introspected once it runs, starting it installs PGlite
+    if (projectId && (projectId !== LOCAL_PROJECT_ID || localDatabaseStore.status.get() === 'running')) {
+      fetchDatabaseSchema().catch(() => undefined);
+    }
+  };
+
+  supabaseConnection.subscribe(onDatabaseChange);
+  supabaseBackend.subscribe(onDatabaseChange);
+
+  localDatabaseStore.status.listen((status) => {
+    if (status !== 'running') {
+      if (supabaseBackend.get() === 'local') {
+        databaseSchema.set(undefined);
+      }
+
+      return;
+    }
+
+    // the local database starts empty in a fresh runtime, it gets back the migrations this chat applied to it
+    syncMigrations('local')
+      .catch((error) => logger.error('Failed to restore the local database', error))
+      .then(() => (supabaseBackend.get() === 'local' ? fetchDatabaseSchema() : undefined))
+      .catch(() => undefined);
+  });
+}
+
+/**
+ * Id of the database the backend runs against, the ledger records migrations by it
+ */
+export function getProjectId(backend = supabaseBackend.get()) {
+  if (backend === 'local') {
+    return LOCAL_PROJECT_ID;
+  }
+
+  const { token, selectedProjectId } = supabaseConnection.get();
+
+  return token ? selectedProjectId : undefined;
+}
+
+export async function executeSupabaseQuery<T = unknown>(query: string, backend = supabaseBackend.get()): Promise<T> {
+  if (backend === 'local') {
+    return localDatabaseStore.query<T>(query);
+  }
+
+  const { token, selectedProjectId } = supabaseConnection.get();
+
+  if (!token || !selectedProjectId) {
+    throw new Error('Connect to Supabase and select a project first');
+  }
+
+  const response = await fetch('/api/supabase/query', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ projectId: selectedProjectId, query }),
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as any;
+    throw new Error(`Supabase query failed: ${errorData.error?.message || response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Reads the tables, columns, RLS policies and functions of the selected database
+ */
+export async function fetchDatabaseSchema() {
+  isIntrospecting.set(true);
+
+  try {
+    const schema = parseDatabaseSchema(await executeSupabaseQuery(SCHEMA_INTROSPECTION_QUERY));
+    databaseSchema.set(schema);
+
+    return schema;
+  } catch (error) {
+    logger.error('Failed to introspect the database schema', error);
+    databaseSchema.set(undefined);
+    throw error;
+  } finally {
+    isIntrospecting.set(false);
+  }
+}
+
+/**
+ * Runs the SQL in a transaction that is rolled back, errors surface without changing the database
+ */
+export async function dryRunSql(sql: string) {
+  await executeSupabaseQuery(wrapInTransaction(sql, false));
+}
+
+async function recordLedgerEntry(entry: MigrationLedgerEntry) {
+  const id = chatId.get();
+  const ledger = migrationLedger.get();
+
+  // re-applying the same migration to the same database, when it is restored or promoted again, is not news
+  const known = ledger.some(
+    ({ version, projectId, checksum, status }) =>
+      status === 'applied' &&
+      entry.status === 'applied' &&
+      version === entry.version &&
+      projectId === entry.projectId &&
+      checksum === entry.checksum,
+  );
+
+  if (known) {
+    return;
+  }
+
+  const entries = [...ledger, entry];
+
+  migrationLedger.set(entries);
+
+  if (db && id) {
+    await setMigrationLedger(db, { chatId: id, entries }).catch((error) =>
+      logger.error('Failed to save the migration ledger', error),
+    );
+  }
+}
+
+/**
+ * Applies the SQL atomically. When it comes from a migration file the migration is recorded in the database and in
+ * the ledger of the chat, failures are recorded too so the ledger shows what was attempted
+ */
+export async function applySql(sql: string, migration?: MigrationFile, backend = supabaseBackend.get()) {
+  try {
+    // the migration is recorded in the same transaction, after the statements of the script itself
+    const script = migration ? [...getTransactionStatements(sql), recordMigrationSql(migration)].join(';\n') : sql;
+
+    await executeSupabaseQuery(wrapInTransaction(script, true), backend);
+  } catch (error) {
+    if (migration) {
+      await recordLedgerEntry(await createLedgerEntry(migration, backend, error));
+    }
+
+    throw error;
+  }
+
+  if (migration) {
+    await recordLedgerEntry(await createLedgerEntry(migration, backend));
+  }
+
+  // the schema sent with the next message should include the change
+  if (backend === supabaseBackend.get()) {
+    fetchDatabaseSchema().catch(() => undefined);
+  }
+}
+
+async function createLedgerEntry(
+  migration: MigrationFile,
+  backend: SupabaseBackend,
+  error?: unknown,
+): Promise<MigrationLedgerEntry> {
+  return {
+    version: migration.version,
+    name: migration.name,
+    filePath: migration.path,
+    checksum: await hashContent(migration.content),
+    projectId: getProjectId(backend) ?? '',
+    status: error ? 'failed' : 'applied',
+    appliedAt: new Date().toISOString(),
+    error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+  };
+}
+
+export async function loadMigrationLedger(id: string | undefined) {
+  migrationLedger.set([]);
+  migrationDrift.set(undefined);
+
+  if (!db || !id) {
+    return;
+  }
+
+  try {
+    const ledger = await getMigrationLedger(db, id);
+
+    if (chatId.get() === id) {
+      migrationLedger.set(ledger?.entries ?? []);
+    }
+  } catch (error) {
+    logger.error('Failed to load the migration ledger', error);
+  }
+}
+
+async function fetchAppliedMigrations(backend: SupabaseBackend) {
+  try {
+    return await executeSupabaseQuery<Array<{ version: string; name: string | null }>>(
+      APPLIED_MIGRATIONS_QUERY,
+      backend,
+    );
+  } catch (error) {
+    // the table only exists once a migration has been recorded
+    if (error instanceof Error && error.message.includes('does not exist')) {
+      return [];
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Applies the migrations this chat applied to any database that the database of the backend is missing, in the
+ * order they were first applied. Restores a fresh local database and promotes local work to the Supabase project
+ */
+export async function syncMigrations(backend: SupabaseBackend) {
+  const migrations = getMigrationFiles(workbenchStore.files.get());
+  const applied = new Set((await fetchAppliedMigrations(backend)).map(({ version }) => version));
+  const versions = new Set(
+    migrationLedger
+      .get()
+      .filter((entry) => entry.status === 'applied')
+      .map((entry) => entry.version),
+  );
+
+  const missing = [...versions]
+    .filter((version) => !applied.has(version))
+    .map((version) => migrations.find((migration) => migration.version === version))
+    .filter((migration): migration is MigrationFile => migration !== undefined);
+
+  for (const migration of missing) {
+    await applySql(migration.content, migration, backend);
+  }
+
+  return missing;
+}
+
+/**
+ * Compares the migration files of the project with the migrations applied to the selected database
+ */
+export async function checkMigrationDrift() {
+  isCheckingDrift.set(true);
+
+  try {
+    const migrations = getMigrationFiles(workbenchStore.files.get());
+    const projectId = getProjectId();
+    const ledger = migrationLedger.get().filter((entry) => entry.projectId === projectId);
+    const remote = await fetchAppliedMigrations(supabaseBackend.get());
+
+    const checksums: Record<string, string> = {};
+
+    for (const migration of migrations) {
+      checksums[migration.version] = await hashContent(migration.content);
+    }
+
+    const drift = detectMigrationDrift(migrations, checksums, remote, ledger);
+    migrationDrift.set(drift);
+
+    return drift;
+  } finally {
+    isCheckingDrift.set(false);
+  }
+}
@@ -0,0 +1,30 @@
+import { chatId, chatMetadata, db, updateChatMetadata } from '~/lib/persistence';
+import { TaskPlanRunner } from '~/lib/runtime/task-plan';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('TaskPlan');
+
+export const taskPlanRunner: TaskPlanRunner = import.meta.hot?.data.taskPlanRunner ?? new TaskPlanRunner();
+
+if (import.meta.hot) {
+  import.meta.hot.data.taskPlanRunner = taskPlanRunner;
+}
+
+// the plan is parsed from its message again on reload, the edits are kept with the chat
+taskPlanRunner.onTasksEdited = (messageId, taskIds) => {
+  const metadata = { ...chatMetadata.get(), taskPlans: { ...chatMetadata.get()?.taskPlans, [messageId]: taskIds } };
+  const id = chatId.get();
+
+  chatMetadata.set(metadata);
+
+  if (db && id) {
+    updateChatMetadata(db, id, metadata).catch((error) => logger.error('Failed to save the edited plan', error));
+  }
+};
+
+/**
+ * Steps of a plan the user edited before the chat was reloaded
+ */
+export function getEditedTaskIds(messageId: string) {
+  return chatMetadata.get()?.taskPlans?.[messageId];
+}
@@ -0,0 +1,152 @@
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import {
+  TEST_REPORT_PATH,
+  formatTestResultsMessage,
+  getTestCommand,
+  parseTestReport,
+  type TestRunResult,
+  type TestRunner,
+} from '~/lib/runtime/test-results';
+import { nativeProjectFolder, webcontainer } from '~/lib/webcontainer';
+import { createScopedLogger } from '~/utils/logger';
+import { pendingChatMessage } from './chat';
+
+const logger = createScopedLogger('TestsStore');
+
+export type TestRunStatus = 'idle' | 'running' | 'passed' | 'failed' | 'error';
+
+// the panel keeps the end of long outputs
+const MAX_OUTPUT_LENGTH = 100_000;
+
+// output sent to the model when a run produced no report
+const MAX_OUTPUT_TAIL = 3000;
+
+const GENERATE_INSTRUCTIONS: Record<TestRunner, string> = {
+  vitest: [
+    'Write Vitest tests for the current project that cover its main logic and components.',
+    'Add `vitest` to the devDependencies, with `jsdom` and `@testing-library/react` when components are tested,',
+    'configure the test environment and add a `"test": "vitest run"` script to package.json.',
+    'Put the tests next to the code they test and keep them independent of the network.',
+  ].join(' '),
+  playwright: [
+    'Write Playwright end-to-end tests for the current project that cover its main user flows.',
+    'Add `@playwright/test` to the devDependencies, a `playwright.config.ts` whose `webServer` starts the dev server,',
+    'put the tests in an `e2e` folder and run `npx playwright install chromium` after installing the dependencies.',
+  ].join(' '),
+};
+
+/**
+ * Runs the tests of the project in its runtime, the WebContainer or the native runtime of the desktop app
+ */
+export class TestsStore {
+  #webcontainer: Promise<WebContainer>;
+  #process: WebContainerProcess | undefined;
+
+  status = atom<TestRunStatus>('idle');
+  output = atom('');
+  result = atom<TestRunResult | undefined>(undefined);
+
+  // why the tests could not run at all
+  error = atom<string | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  /**
+   * Playwright starts real browsers, which only the native runtime can do
+   */
+  canRun(runner: TestRunner) {
+    return runner === 'vitest' || !!nativeProjectFolder.get();
+  }
+
+  async run(runner: TestRunner) {
+    if (this.status.get() === 'running') {
+      return;
+    }
+
+    this.output.set('');
+    this.result.set(undefined);
+    this.error.set(undefined);
+
+    if (!this.canRun(runner)) {
+      this.error.set(
+        'Playwright needs a real browser, which the WebContainer cannot start. Open the project from a local folder in the desktop app to run end-to-end tests.',
+      );
+      this.status.set('error');
+
+      return;
+    }
+
+    this.status.set('running');
+
+    try {
+      const container = await this.#webcontainer;
+      const { command, args, env } = getTestCommand(runner);
+
+      // a stale report of an earlier run must not pass for the result of this one
+      await container.fs.rm(TEST_REPORT_PATH, { force: true }).catch(() => undefined);
+
+      const process = await container.spawn(command, args, { env });
+      this.#process = process;
+
+      process.output.pipeTo(
+        new WritableStream({
+          write: (data) => {
+            const output = this.output.get() + data.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+            this.output.set(output.length > MAX_OUTPUT_LENGTH ? output.slice(-MAX_OUTPUT_LENGTH) : output);
+          },
+        }),
+      );
+
+      const exitCode = await process.exit;
+      const report = await container.fs.readFile(TEST_REPORT_PATH, 'utf-8').catch(() => undefined);
+
+      const result: TestRunResult = report
+        ? parseTestReport(runner, report, container.workdir)
+        : {
+            runner,
+            passed: 0,
+            failed: 0,
+            skipped: 0,
+            duration: 0,
+            tests: [],
+            error: `The test run exited with code ${exitCode} without a report:\n${this.output.get().slice(-MAX_OUTPUT_TAIL)}`,
+          };
+
+      this.result.set(result);
+      this.status.set(result.failed > 0 || result.error ? 'failed' : 'passed');
+    } catch (error) {
+      logger.error('Failed to run the tests', error);
+      this.error.set(error instanceof Error ? error.message : String(error));
+      this.status.set('error');
+    } finally {
+      this.#process = undefined;
+    }
+  }
+
+  stop() {
+    this.#process?.kill();
+  }
+
+  /**
+   * Asks the model to write tests for the project
+   */
+  requestTests(runner: TestRunner) {
+    pendingChatMessage.set(GENERATE_INSTRUCTIONS[runner]);
+  }
+
+  /**
+   * Sends the results of the last run to the chat, so the model can fix what failed
+   */
+  sendResultsToChat() {
+    const result = this.result.get();
+
+    if (result) {
+      pendingChatMessage.set(formatTestResultsMessage(result));
+    }
+  }
+}
+
+export const testsStore = new TestsStore(webcontainer);
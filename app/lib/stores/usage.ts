@@ -0,0 +1,143 @@
+import { atom } from 'nanostores';
+import { generateId } from 'ai';
+import { toast } from 'react-toastify';
+import { addUsageRecord, getUsageRecords, openDatabase } from '~/lib/persistence/db';
+import type { UsageRecord } from '~/lib/persistence/types';
+import { getBudgetPeriodStart, type BudgetPeriod } from '~/lib/persistence/usage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('UsageStore');
+
+const USAGE_BUDGET_KEY = 'bolt_usage_budget';
+const isBrowser = typeof window !== 'undefined';
+
+/**
+ * Spending limits in USD. Crossing the soft limit warns, reaching the hard limit blocks new chat requests.
+ */
+export interface UsageBudget {
+  period: BudgetPeriod;
+  softLimit?: number;
+  hardLimit?: number;
+}
+
+export interface BudgetStatus {
+  spent: number;
+  softExceeded: boolean;
+  hardExceeded: boolean;
+}
+
+const defaultBudget: UsageBudget = { period: 'monthly' };
+
+function getInitialBudget(): UsageBudget {
+  if (!isBrowser) {
+    return defaultBudget;
+  }
+
+  try {
+    const saved = localStorage.getItem(USAGE_BUDGET_KEY);
+
+    return saved ? { ...defaultBudget, ...JSON.parse(saved) } : defaultBudget;
+  } catch (error) {
+    console.warn('Failed to parse usage budget:', error);
+    return defaultBudget;
+  }
+}
+
+export const usageBudgetStore = atom<UsageBudget>(getInitialBudget());
+
+/**
+ * Cost recorded in the current budget period.
+ */
+export const usageSpendStore = atom<number>(0);
+
+let databasePromise: Promise<IDBDatabase | undefined> | undefined;
+
+export function getUsageDatabase() {
+  if (!isBrowser) {
+    return Promise.resolve(undefined);
+  }
+
+  databasePromise ??= openDatabase();
+
+  return databasePromise;
+}
+
+export function getBudgetStatus(spent = usageSpendStore.get()): BudgetStatus {
+  const { softLimit, hardLimit } = usageBudgetStore.get();
+
+  return {
+    spent,
+    softExceeded: softLimit !== undefined && spent >= softLimit,
+    hardExceeded: hardLimit !== undefined && spent >= hardLimit,
+  };
+}
+
+export async function refreshUsageSpend() {
+  const db = await getUsageDatabase();
+
+  if (!db) {
+    return usageSpendStore.get();
+  }
+
+  const since = getBudgetPeriodStart(usageBudgetStore.get().period).toISOString();
+  const records = await getUsageRecords(db, since);
+  const spent = records.reduce((total, record) => total + (record.cost ?? 0), 0);
+
+  usageSpendStore.set(spent);
+
+  return spent;
+}
+
+/**
+ * Refreshes the spend of the current period before checking it, so a period that rolled
+ * over while the app was open is not reported as exceeded.
+ */
+export async function checkUsageBudget(): Promise<BudgetStatus> {
+  try {
+    return getBudgetStatus(await refreshUsageSpend());
+  } catch (error) {
+    logger.error('Failed to check usage budget', error);
+    return getBudgetStatus();
+  }
+}
+
+export function updateUsageBudget(updates: Partial<UsageBudget>) {
+  usageBudgetStore.set({ ...usageBudgetStore.get(), ...updates });
+
+  if (isBrowser) {
+    localStorage.setItem(USAGE_BUDGET_KEY, JSON.stringify(usageBudgetStore.get()));
+  }
+
+  refreshUsageSpend().catch((error) => logger.error('Failed to refresh usage spend', error));
+}
+
+export async function recordUsage(entry: Omit<UsageRecord, 'id' | 'timestamp'>) {
+  const db = await getUsageDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const record: UsageRecord = { ...entry, id: generateId(), timestamp: new Date().toISOString() };
+
+  try {
+    await addUsageRecord(db, record);
+
+    const before = getBudgetStatus();
+    const after = getBudgetStatus(await refreshUsageSpend());
+
+    if (after.hardExceeded && !before.hardExceeded) {
+      toast.error(
+        `Usage budget of $${usageBudgetStore.get().hardLimit?.toFixed(2)} reached. New requests are blocked.`,
+      );
+    } else if (after.softExceeded && !before.softExceeded) {
+      toast.warning(`Usage has passed the soft budget of $${usageBudgetStore.get().softLimit?.toFixed(2)}.`);
+    }
+  } catch (error) {
+    logger.error('Failed to record usage', error);
+  }
+}
+
+if (isBrowser) {
+  refreshUsageSpend().catch((error) => logger.error('Failed to load usage spend', error));
+}
@@ -2,12 +2,14 @@ import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from '
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { ActionRunner } from '~/lib/runtime/action-runner';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
-import { webcontainer } from '~/lib/webcontainer';
+import { nativeProjectFolder, webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
 import { EditorStore } from './editor';
 import { FilesStore, type FileMap } from './files';
 import { PreviewsStore } from './previews';
+import { ReviewStore } from './review';
+import { reviewModeStore } from './settings';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
@@ -18,6 +20,7 @@ import { description } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
+import type { ReviewDecision } from '~/lib/runtime/change-review';
 
 const { saveAs } = fileSaver;
 
@@ -33,13 +36,14 @@ export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
 
 type Artifacts = MapStore<Record<string, ArtifactState>>;
 
-export type WorkbenchViewType = 'code' | 'diff' | 'preview';
+export type WorkbenchViewType = 'code' | 'diff' | 'tests' | 'git' | 'preview';
 
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #reviewStore = new ReviewStore();
 
   #reloadedMessages = new Set<string>();
 
@@ -103,6 +107,10 @@ export class WorkbenchStore {
     return this.#getArtifact(this.artifactIdList[0]);
   }
 
+  get stagedChanges() {
+    return this.#reviewStore.changes;
+  }
+
   get filesCount(): number {
     return this.#filesStore.filesCount;
   }
@@ -368,6 +376,18 @@ export class WorkbenchStore {
     }
   }
 
+  /**
+   * Write a file to the project without selecting it, creating it when it doesn't exist yet
+   */
+  async writeFile(filePath: string, content: string) {
+    if (this.#filesStore.getFile(filePath)) {
+      await this.#filesStore.saveFile(filePath, content);
+      return;
+    }
+
+    await this.#filesStore.createFile(filePath, content);
+  }
+
   async createFolder(folderPath: string) {
     try {
       return await this.#filesStore.createFolder(folderPath);
@@ -505,6 +525,12 @@ export class WorkbenchStore {
 
           this.deployAlert.set(alert);
         },
+        {
+          // messages of a reloaded chat were reviewed when they were generated
+          isEnabled: () => reviewModeStore.get() && !this.#reloadedMessages.has(messageId),
+          getStagedContent: (filePath) => this.#reviewStore.getStagedContent(filePath),
+          stage: (filePath, before, after) => this.#reviewStore.stage(filePath, before, after),
+        },
       ),
     });
   }
@@ -536,7 +562,19 @@ export class WorkbenchStore {
       unreachable('Artifact not found');
     }
 
-    return artifact.runner.addAction(data);
+    return artifact.runner.addAction(data, this.#isAppliedOnDisk(data));
+  }
+
+  /**
+   * A chat running from a local folder works on the files on disk, the file and command actions of its reloaded
+   * messages already ran there and replaying them would overwrite later changes and restart its processes.
+   */
+  #isAppliedOnDisk({ messageId, action }: ActionCallbackData) {
+    return (
+      !!nativeProjectFolder.get() &&
+      this.#reloadedMessages.has(messageId) &&
+      ['file', 'edit', 'shell', 'start', 'build'].includes(action.type)
+    );
   }
 
   runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -561,7 +599,16 @@ export class WorkbenchStore {
       return;
     }
 
-    if (data.action.type === 'file') {
+    if ((data.action.type === 'file' || data.action.type === 'edit') && artifact.runner.isReviewing) {
+      // staged changes are shown once the action is complete, nothing is written while it streams
+      if (!isStreaming) {
+        await artifact.runner.runAction(data);
+
+        if (this.currentView.value !== 'diff') {
+          this.currentView.set('diff');
+        }
+      }
+    } else if (data.action.type === 'file') {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
 
@@ -595,6 +642,20 @@ export class WorkbenchStore {
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
       }
+    } else if (data.action.type === 'edit') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
+      }
+
+      // hunks are applied against the file on disk, the watcher then syncs the editor document
+      await artifact.runner.runAction(data);
     } else {
       await artifact.runner.runAction(data);
     }
@@ -609,6 +670,41 @@ export class WorkbenchStore {
     return artifacts[id];
   }
 
+  setHunkDecision(filePath: string, hunkIndex: number, decision: ReviewDecision) {
+    this.#reviewStore.setHunkDecision(filePath, hunkIndex, decision);
+  }
+
+  setFileDecision(filePath: string, decision: ReviewDecision) {
+    this.#reviewStore.setFileDecision(filePath, decision);
+  }
+
+  /**
+   * Writes the accepted hunks of the staged changes to the project, the rejected ones are kept as feedback
+   */
+  async applyReviewedChanges() {
+    await this.#reviewStore.commit((filePath, content) => this.writeFile(filePath, content));
+
+    // like regular file actions, the applied changes come from the model and not from the user
+    this.resetAllFileModifications();
+  }
+
+  async discardStagedChanges() {
+    this.#reviewStore.setAllDecisions('rejected');
+    await this.#reviewStore.commit(async () => undefined);
+  }
+
+  /**
+   * Description of the hunks rejected since the last message, cleared once taken
+   */
+  takeReviewFeedback() {
+    return this.#reviewStore.takeFeedback();
+  }
+
+  async restoreFiles(files: FileMap) {
+    await this.#filesStore.restoreFiles(files);
+    this.resetAllFileModifications();
+  }
+
   async downloadZip() {
     const zip = new JSZip();
     const files = this.files.get();
@@ -0,0 +1,88 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalDatabaseHandler, LOCAL_DATABASE_SERVER } from './local-database';
+
+const TOKEN = 'test-token';
+const ORIGIN = 'http://localhost:5173';
+
+let server: Server | undefined;
+
+async function startServer(exec: (query: string) => Promise<Array<{ rows: unknown[] }>>) {
+  server = createServer(createLocalDatabaseHandler({ exec }, { token: TOKEN, origin: ORIGIN }));
+
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+
+  return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+}
+
+function query(url: string, sql: string, headers: Record<string, string> = { Authorization: `Bearer ${TOKEN}` }) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ query: sql }),
+  });
+}
+
+describe('local database server', () => {
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('answers with the rows of the last statement', async () => {
+    const exec = vi.fn(async () => [{ rows: [] }, { rows: [{ id: 1 }] }]);
+    const url = await startServer(exec);
+
+    const response = await query(url, 'insert into todos default values; select 1 as id;');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([{ id: 1 }]);
+    expect(exec).toHaveBeenCalledWith('insert into todos default values; select 1 as id;');
+  });
+
+  it('refuses requests without the token of this start', async () => {
+    const exec = vi.fn(async () => [{ rows: [] }]);
+    const url = await startServer(exec);
+
+    expect((await query(url, 'select 1', {})).status).toBe(401);
+    expect((await query(url, 'select 1', { Authorization: 'Bearer other-token' })).status).toBe(401);
+    expect(exec).not.toHaveBeenCalled();
+  });
+
+  it('rolls back and reports the error of a failed statement', async () => {
+    const exec = vi.fn(async (sql: string) => {
+      if (sql === 'rollback') {
+        return [];
+      }
+
+      throw new Error('relation "todos" does not exist');
+    });
+    const url = await startServer(exec);
+
+    const response = await query(url, 'select * from todos');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { message: 'relation "todos" does not exist' } });
+    expect(exec).toHaveBeenLastCalledWith('rollback');
+  });
+
+  it('only sends CORS headers to the app origin', async () => {
+    const url = await startServer(async () => [{ rows: [] }]);
+
+    const app = await fetch(url, { method: 'OPTIONS', headers: { Origin: ORIGIN } });
+    const other = await fetch(url, { method: 'OPTIONS', headers: { Origin: 'https://evil.example' } });
+
+    expect(app.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('listens on the loopback interface and refuses to start without a token', () => {
+    expect(LOCAL_DATABASE_SERVER).toContain("'127.0.0.1'");
+    expect(LOCAL_DATABASE_SERVER).toContain('process.exit(1)');
+    expect(LOCAL_DATABASE_SERVER).not.toContain("'Access-Control-Allow-Origin': '*'");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Offline stand-in for a Supabase project: PGlite, Postgres compiled to WebAssembly, runs in the project runtime
+ * behind a small HTTP server that takes the same `{ query }` requests as `/api/supabase/query`
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// past the ports of `supabase start` (54320-54329), so both can run on the same machine
+export const LOCAL_DATABASE_PORT = 54380;
+
+// inside node_modules so the server never shows up in the file tree of the project
+export const LOCAL_DATABASE_DIR = 'node_modules/.cache/bolt/local-database';
+
+// stands in for the project id in the migration ledger
+export const LOCAL_PROJECT_ID = 'local';
+
+export const LOCAL_DATABASE_URL = `http://localhost:${LOCAL_DATABASE_PORT}`;
+
+const PGLITE_VERSION = '^0.2.17';
+
+/**
+ * The parts of a Supabase database that generated migrations rely on: the API roles and the `auth` schema with its
+ * helper functions, which read the claims of the caller from the `request.jwt.claims` setting like PostgREST sets them
+ */
+export const SUPABASE_COMPATIBILITY_SQL = `
+do $$
+begin
+  if not exists (select from pg_roles where rolname = 'anon') then
+    create role anon nologin noinherit;
+  end if;
+  if not exists (select from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin noinherit;
+  end if;
+  if not exists (select from pg_roles where rolname = 'service_role') then
+    create role service_role nologin noinherit bypassrls;
+  end if;
+end
+$$;
+
+create schema if not exists auth;
+create schema if not exists extensions;
+
+create table if not exists auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text unique,
+  raw_user_meta_data jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create or replace function auth.jwt() returns jsonb language sql stable as $$
+  select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+
+create or replace function auth.uid() returns uuid language sql stable as $$
+  select nullif(auth.jwt() ->> 'sub', '')::uuid
+$$;
+
+create or replace function auth.role() returns text language sql stable as $$
+  select coalesce(auth.jwt() ->> 'role', 'anon')
+$$;
+
+create or replace function auth.email() returns text language sql stable as $$
+  select auth.jwt() ->> 'email'
+$$;
+
+grant usage on schema public, auth to anon, authenticated, service_role;
+`;
+
+export const LOCAL_DATABASE_PACKAGE_JSON = JSON.stringify(
+  {
+    name: 'bolt-local-database',
+    private: true,
+    type: 'module',
+    dependencies: { '@electric-sql/pglite': PGLITE_VERSION },
+  },
+  null,
+  2,
+);
+
+/**
+ * Handles the requests of the local database server. It is inlined into the server source, so it may only use its
+ * arguments and globals.
+ *
+ * Every request needs the token the server was started with. Browsers only get CORS headers for the app's origin.
+ */
+export function createLocalDatabaseHandler(
+  db: { exec: (query: string) => Promise<Array<{ rows: unknown[] }>> },
+  options: { token: string; origin?: string },
+) {
+  const expected = `Bearer ${options.token}`;
+
+  // compares in constant time so the answer time does not leak how much of a guess was right
+  const isAuthorized = (header: string | undefined) => {
+    if (typeof header !== 'string' || header.length !== expected.length) {
+      return false;
+    }
+
+    let difference = 0;
+
+    for (let i = 0; i < expected.length; i++) {
+      difference |= header.charCodeAt(i) ^ expected.charCodeAt(i);
+    }
+
+    return difference === 0;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', Vary: 'Origin' };
+
+    if (options.origin && req.headers.origin === options.origin) {
+      headers['Access-Control-Allow-Origin'] = options.origin;
+      headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
+      headers['Access-Control-Allow-Methods'] = 'POST, OPTIONS';
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, headers).end();
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization)) {
+      res.writeHead(401, headers).end(JSON.stringify({ error: { message: 'Unauthorized' } }));
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res
+        .writeHead(405, headers)
+        .end(JSON.stringify({ error: { message: 'Send the SQL as POST { "query": "..." }' } }));
+      return;
+    }
+
+    let body = '';
+
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    try {
+      const { query } = JSON.parse(body);
+      const results = await db.exec(query);
+
+      res.writeHead(200, headers).end(JSON.stringify(results.at(-1)?.rows ?? []));
+    } catch (error) {
+      // a failed statement leaves an explicit transaction open and aborted
+      await db.exec('rollback').catch(() => undefined);
+      res.writeHead(400, headers).end(JSON.stringify({ error: { message: (error as Error).message } }));
+    }
+  };
+}
+
+/**
+ * Answers like the Supabase Management API: the rows of the last statement, or `{ error: { message } }`. Listens on
+ * the loopback interface only, `LOCAL_DATABASE_TOKEN` and `LOCAL_DATABASE_ORIGIN` come from `LocalDatabaseStore`.
+ */
+export const LOCAL_DATABASE_SERVER = `import http from 'node:http';
+import { PGlite } from '@electric-sql/pglite';
+
+const token = process.env.LOCAL_DATABASE_TOKEN;
+
+if (!token) {
+  console.error('LOCAL_DATABASE_TOKEN is not set, refusing to serve the database without it');
+  process.exit(1);
+}
+
+const db = new PGlite(process.env.PGDATA);
+
+await db.exec(${JSON.stringify(SUPABASE_COMPATIBILITY_SQL)});
+
+const createLocalDatabaseHandler = ${createLocalDatabaseHandler.toString()};
+
+http
+  .createServer(createLocalDatabaseHandler(db, { token, origin: process.env.LOCAL_DATABASE_ORIGIN }))
+  .listen(${LOCAL_DATABASE_PORT}, '127.0.0.1', () => console.log('Local database listening on ${LOCAL_DATABASE_URL}'));
+`;
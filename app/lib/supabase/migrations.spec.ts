@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectMigrationDrift,
+  findDestructiveStatements,
+  parseMigrationFileName,
+  splitSqlStatements,
+  wrapInTransaction,
+  type MigrationFile,
+} from './migrations';
+import type { MigrationLedgerEntry } from '~/lib/persistence/types';
+
+describe('parseMigrationFileName', () => {
+  it('reads the version and name of the file', () => {
+    expect(parseMigrationFileName('/home/project/supabase/migrations/20240101120000_create_users.sql')).toEqual({
+      version: '20240101120000',
+      name: 'create_users',
+    });
+    expect(parseMigrationFileName('/supabase/migrations/create_users.sql')).toEqual({
+      version: 'create_users',
+      name: 'create_users',
+    });
+    expect(parseMigrationFileName('/supabase/seed.txt')).toBeUndefined();
+  });
+});
+
+describe('splitSqlStatements', () => {
+  it('ignores semicolons in strings, comments and function bodies', () => {
+    const sql = `-- create; the table
+create table notes (body text default 'a;b');
+create function touch() returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;`;
+
+    const statements = splitSqlStatements(sql);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toBe("create table notes (body text default 'a;b')");
+    expect(statements[1]).toContain('return new;\nend;\n$$ language plpgsql');
+  });
+});
+
+describe('findDestructiveStatements', () => {
+  it('flags statements that lose data', () => {
+    const sql = `
+      create table notes (id int);
+      drop table todos;
+      alter table notes alter column id type bigint;
+      delete from notes;
+      delete from notes where id = 1;
+      truncate notes;
+    `;
+
+    expect(findDestructiveStatements(sql).map(({ reason }) => reason)).toEqual([
+      'drops',
+      'changes the type of',
+      'deletes every row of',
+      'empties',
+    ]);
+  });
+});
+
+describe('wrapInTransaction', () => {
+  it('rolls a dry run back', () => {
+    expect(wrapInTransaction('drop table a; drop table b;', false)).toBe(
+      'begin;\ndrop table a;\ndrop table b;\nrollback;',
+    );
+  });
+
+  it('drops the transaction the script opens itself', () => {
+    expect(wrapInTransaction('BEGIN;\nDROP TABLE users;\nCOMMIT;', false)).toBe('begin;\nDROP TABLE users;\nrollback;');
+    expect(wrapInTransaction('start transaction; drop table a; end;', false)).toBe('begin;\ndrop table a;\nrollback;');
+  });
+
+  it('rejects transaction control that would end the transaction early', () => {
+    expect(() => wrapInTransaction('drop table a; commit; drop table b;', false)).toThrow(
+      /controls its own transaction/,
+    );
+    expect(() => wrapInTransaction('begin; drop table a; rollback; begin; drop table b; commit;', false)).toThrow(
+      /controls its own transaction/,
+    );
+    expect(() => wrapInTransaction('savepoint s; drop table a; release savepoint s;', false)).toThrow(
+      /controls its own transaction/,
+    );
+  });
+
+  it('rejects statements that cannot run in a transaction', () => {
+    expect(() => wrapInTransaction('create index concurrently idx on a (b);', false)).toThrow(/inside a transaction/);
+    expect(() => wrapInTransaction('vacuum full a;', false)).toThrow(/inside a transaction/);
+  });
+});
+
+describe('detectMigrationDrift', () => {
+  const file = (version: string, name: string): MigrationFile => ({
+    path: `/home/project/supabase/migrations/${version}_${name}.sql`,
+    version,
+    name,
+    content: '',
+  });
+
+  const entry = (version: string, checksum: string): MigrationLedgerEntry => ({
+    version,
+    name: version,
+    checksum,
+    projectId: 'p',
+    status: 'applied',
+    appliedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  it('compares the files with the applied migrations', () => {
+    const drift = detectMigrationDrift(
+      [file('1', 'a'), file('2', 'b'), file('3', 'c')],
+      { '1': 'x', '2': 'changed', '3': 'z' },
+      [{ version: '0', name: 'old' }, { version: '1' }, { version: '2' }],
+      [entry('1', 'x'), entry('2', 'y')],
+    );
+
+    expect(drift.map(({ version, status }) => [version, status])).toEqual([
+      ['0', 'remote-only'],
+      ['1', 'applied'],
+      ['2', 'modified'],
+      ['3', 'pending'],
+    ]);
+  });
+});
@@ -0,0 +1,296 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { MigrationLedgerEntry } from '~/lib/persistence/types';
+import { WORK_DIR } from '~/utils/constants';
+
+export const MIGRATIONS_DIR = `${WORK_DIR}/supabase/migrations`;
+
+/**
+ * Table the Supabase CLI records applied migrations in, migrations applied from here are recorded the same way
+ */
+export const APPLIED_MIGRATIONS_QUERY = `
+select version, name from supabase_migrations.schema_migrations order by version;
+`;
+
+export interface MigrationFile {
+  path: string;
+  version: string;
+  name: string;
+  content: string;
+}
+
+export type MigrationDriftStatus = 'applied' | 'pending' | 'modified' | 'remote-only';
+
+export interface MigrationDrift {
+  version: string;
+  name: string;
+  status: MigrationDriftStatus;
+  path?: string;
+}
+
+/**
+ * `supabase/migrations/20240101120000_create_users.sql` → version `20240101120000`, name `create_users`. Files
+ * without a timestamp use their name as version
+ */
+export function parseMigrationFileName(path: string) {
+  const match = path.match(/(?:^|\/)(?:(\d+)_)?([^/]+)\.sql$/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  return { version: match[1] ?? match[2], name: match[2] };
+}
+
+export function getMigrationFiles(files: FileMap): MigrationFile[] {
+  const migrations: MigrationFile[] = [];
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary || !path.startsWith(`${MIGRATIONS_DIR}/`)) {
+      continue;
+    }
+
+    const parsed = parseMigrationFileName(path);
+
+    if (parsed) {
+      migrations.push({ path, ...parsed, content: dirent.content });
+    }
+  }
+
+  return migrations.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+function normalizeSql(sql: string) {
+  return sql.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The migration file the SQL of an alert was written to, the alert content can differ in whitespace
+ */
+export function findMigrationForSql(migrations: MigrationFile[], sql: string, path?: string) {
+  // actions name the file relative to the project, `/supabase/migrations/create_users.sql`
+  const fileName = path?.split('/').pop();
+
+  if (fileName) {
+    const byPath = migrations.find((migration) => migration.path.split('/').pop() === fileName);
+
+    if (byPath) {
+      return byPath;
+    }
+  }
+
+  const normalized = normalizeSql(sql);
+
+  return migrations.find((migration) => normalizeSql(migration.content) === normalized);
+}
+
+/**
+ * Splits a script on top level semicolons, skipping those in quotes, comments and dollar quoted bodies
+ */
+export function splitSqlStatements(sql: string) {
+  const statements: string[] = [];
+  let current = '';
+  let index = 0;
+
+  while (index < sql.length) {
+    const rest = sql.slice(index);
+    const char = sql[index];
+
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', index);
+      index = end === -1 ? sql.length : end + 1;
+      current += '\n';
+      continue;
+    }
+
+    if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', index + 2);
+      index = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    const dollarTag = rest.match(/^\$[A-Za-z_]*\$/)?.[0];
+
+    if (dollarTag) {
+      const end = sql.indexOf(dollarTag, index + dollarTag.length);
+      const stop = end === -1 ? sql.length : end + dollarTag.length;
+      current += sql.slice(index, stop);
+      index = stop;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let end = index + 1;
+
+      while (end < sql.length) {
+        if (sql[end] === char && sql[end + 1] === char) {
+          end += 2;
+        } else if (sql[end] === char) {
+          break;
+        } else {
+          end++;
+        }
+      }
+
+      current += sql.slice(index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      if (current.trim()) {
+        statements.push(current.trim());
+      }
+
+      current = '';
+      index++;
+      continue;
+    }
+
+    current += char;
+    index++;
+  }
+
+  if (current.trim()) {
+    statements.push(current.trim());
+  }
+
+  return statements;
+}
+
+const destructivePatterns: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /^drop\s+(table|schema|column|view|materialized\s+view|function|type|policy|index)\b/i, reason: 'drops' },
+  { pattern: /^alter\s+table\b[\s\S]*\bdrop\s+(column|constraint)\b/i, reason: 'drops' },
+  {
+    pattern: /^alter\s+table\b[\s\S]*\balter\s+(column\s+)?\S+\s+(set\s+data\s+)?type\b/i,
+    reason: 'changes the type of',
+  },
+  { pattern: /^truncate\b/i, reason: 'empties' },
+];
+
+export interface DestructiveStatement {
+  statement: string;
+  reason: string;
+}
+
+/**
+ * Statements that lose data once committed, they are dry-run before being applied
+ */
+export function findDestructiveStatements(sql: string): DestructiveStatement[] {
+  return splitSqlStatements(sql).flatMap((statement) => {
+    if (/^delete\s+from\b/i.test(statement) && !/\bwhere\b/i.test(statement)) {
+      return [{ statement, reason: 'deletes every row of' }];
+    }
+
+    const match = destructivePatterns.find(({ pattern }) => pattern.test(statement));
+
+    return match ? [{ statement, reason: match.reason }] : [];
+  });
+}
+
+const transactionStartPattern = /^(begin|start\s+transaction)\b/i;
+const transactionEndPattern = /^(commit|end)\b/i;
+const transactionControlPattern =
+  /^(begin|start\s+transaction|commit|end|rollback|abort|savepoint|release|prepare\s+transaction)\b/i;
+const nonTransactionalPatterns = [
+  /^vacuum\b/i,
+  /^(create|drop)\s+(database|tablespace)\b/i,
+  /^(create|drop|reindex)\b[\s\S]*\bconcurrently\b/i,
+  /^alter\s+system\b/i,
+];
+
+/**
+ * The statements of a script that runs inside a transaction opened by this app. A `begin … commit` pair around the
+ * whole script is dropped, any other transaction control would end that transaction early and is rejected, as are
+ * statements Postgres refuses to run in a transaction block
+ */
+export function getTransactionStatements(sql: string) {
+  const statements = splitSqlStatements(sql);
+
+  if (
+    statements.length >= 2 &&
+    transactionStartPattern.test(statements[0]) &&
+    transactionEndPattern.test(statements[statements.length - 1])
+  ) {
+    statements.shift();
+    statements.pop();
+  }
+
+  for (const statement of statements) {
+    if (transactionControlPattern.test(statement)) {
+      throw new Error(`The SQL controls its own transaction and can't be run atomically: ${statement}`);
+    }
+
+    if (nonTransactionalPatterns.some((pattern) => pattern.test(statement))) {
+      throw new Error(`The SQL can't run inside a transaction: ${statement}`);
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Runs the script atomically, a dry run rolls the transaction back so errors surface without changing the database
+ */
+export function wrapInTransaction(sql: string, commit: boolean) {
+  const statements = getTransactionStatements(sql);
+
+  return ['begin', ...statements, commit ? 'commit' : 'rollback'].join(';\n') + ';';
+}
+
+function quoteLiteral(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Records the migration in the table the Supabase CLI uses, so `supabase db push` and this app agree on
+ * what has been applied
+ */
+export function recordMigrationSql(migration: Pick<MigrationFile, 'version' | 'name' | 'content'>) {
+  const statements = splitSqlStatements(migration.content).map(quoteLiteral).join(', ');
+
+  return [
+    'create schema if not exists supabase_migrations',
+    'create table if not exists supabase_migrations.schema_migrations (version text primary key, statements text[], name text)',
+    `insert into supabase_migrations.schema_migrations (version, statements, name) values (${quoteLiteral(
+      migration.version,
+    )}, array[${statements}]::text[], ${quoteLiteral(migration.name)}) on conflict (version) do nothing`,
+  ].join(';\n');
+}
+
+/**
+ * Compares the migration files of the project with the versions applied to the database. A file applied from
+ * this chat whose content changed since is `modified`, checksums map a version to the hash of its current file
+ */
+export function detectMigrationDrift(
+  migrations: MigrationFile[],
+  checksums: Record<string, string>,
+  remote: Array<{ version: string; name?: string | null }>,
+  ledger: MigrationLedgerEntry[],
+): MigrationDrift[] {
+  const remoteVersions = new Set(remote.map(({ version }) => version));
+  const applied = new Map(
+    ledger.filter((entry) => entry.status === 'applied').map((entry) => [entry.version, entry] as const),
+  );
+
+  const drift: MigrationDrift[] = migrations.map(({ version, name, path }) => {
+    if (!remoteVersions.has(version)) {
+      return { version, name, path, status: 'pending' };
+    }
+
+    const entry = applied.get(version);
+    const modified = entry !== undefined && checksums[version] !== undefined && entry.checksum !== checksums[version];
+
+    return { version, name, path, status: modified ? 'modified' : 'applied' };
+  });
+
+  const localVersions = new Set(migrations.map(({ version }) => version));
+
+  for (const { version, name } of remote) {
+    if (!localVersions.has(version)) {
+      drift.push({ version, name: name ?? '', status: 'remote-only' });
+    }
+  }
+
+  return drift.sort((a, b) => a.version.localeCompare(b.version));
+}
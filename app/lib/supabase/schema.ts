@@ -0,0 +1,127 @@
+export interface DatabaseColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+}
+
+export interface DatabasePolicy {
+  name: string;
+  command: string;
+  roles: string[];
+  using: string | null;
+  check: string | null;
+}
+
+export interface DatabaseTable {
+  name: string;
+  rls: boolean;
+  columns: DatabaseColumn[];
+  policies: DatabasePolicy[];
+}
+
+export interface DatabaseFunction {
+  name: string;
+  arguments: string;
+  returns: string;
+}
+
+/**
+ * The `public` schema of the connected project, the part the generated app works with
+ */
+export interface DatabaseSchema {
+  tables: DatabaseTable[];
+  functions: DatabaseFunction[];
+}
+
+/**
+ * Reads the whole schema in a single round trip, the result is one row with a `schema` column
+ */
+export const SCHEMA_INTROSPECTION_QUERY = `
+select json_build_object(
+  'tables', coalesce((
+    select json_agg(json_build_object(
+      'name', c.relname,
+      'rls', c.relrowsecurity,
+      'columns', (
+        select coalesce(json_agg(json_build_object(
+          'name', a.attname,
+          'type', format_type(a.atttypid, a.atttypmod),
+          'nullable', not a.attnotnull,
+          'default', pg_get_expr(d.adbin, d.adrelid)
+        ) order by a.attnum), '[]'::json)
+        from pg_attribute a
+        left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+        where a.attrelid = c.oid and a.attnum > 0 and not a.attisdropped
+      ),
+      'policies', (
+        select coalesce(json_agg(json_build_object(
+          'name', p.policyname,
+          'command', p.cmd,
+          'roles', p.roles,
+          'using', p.qual,
+          'check', p.with_check
+        ) order by p.policyname), '[]'::json)
+        from pg_policies p
+        where p.schemaname = n.nspname and p.tablename = c.relname
+      )
+    ) order by c.relname)
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+    where n.nspname = 'public' and c.relkind in ('r', 'p')
+  ), '[]'::json),
+  'functions', coalesce((
+    select json_agg(json_build_object(
+      'name', p.proname,
+      'arguments', pg_get_function_arguments(p.oid),
+      'returns', pg_get_function_result(p.oid)
+    ) order by p.proname)
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.prokind = 'f'
+  ), '[]'::json)
+) as schema;
+`;
+
+export function parseDatabaseSchema(rows: unknown): DatabaseSchema {
+  const schema = Array.isArray(rows)
+    ? (rows[0] as { schema?: Partial<DatabaseSchema> } | undefined)?.schema
+    : undefined;
+
+  return {
+    tables: schema?.tables ?? [],
+    functions: schema?.functions ?? [],
+  };
+}
+
+/**
+ * Compact, SQL-like description of the schema for the system prompt
+ */
+export function formatSchemaContext(schema: DatabaseSchema) {
+  const lines: string[] = [];
+
+  for (const table of schema.tables) {
+    lines.push(`table public.${table.name}${table.rls ? ' (RLS enabled)' : ' (RLS disabled)'}`);
+
+    for (const column of table.columns) {
+      const constraints = [column.nullable ? '' : 'not null', column.default ? `default ${column.default}` : '']
+        .filter(Boolean)
+        .join(' ');
+
+      lines.push(`  ${column.name} ${column.type}${constraints ? ` ${constraints}` : ''}`);
+    }
+
+    for (const policy of table.policies) {
+      const using = policy.using ? ` using (${policy.using})` : '';
+      const check = policy.check ? ` with check (${policy.check})` : '';
+
+      lines.push(`  policy "${policy.name}" for ${policy.command} to ${policy.roles.join(', ')}${using}${check}`);
+    }
+  }
+
+  for (const fn of schema.functions) {
+    lines.push(`function public.${fn.name}(${fn.arguments}) returns ${fn.returns}`);
+  }
+
+  return lines.join('\n');
+}
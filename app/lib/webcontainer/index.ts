@@ -1,6 +1,9 @@
 import { WebContainer } from '@webcontainer/api';
+import { atom, type WritableAtom } from 'nanostores';
 import { WORK_DIR_NAME } from '~/utils/constants';
+import { withResolvers } from '~/utils/promises';
 import { cleanStackTrace } from '~/utils/stacktrace';
+import { bootNativeContainer, isNativeRuntimeAvailable } from './native';
 
 interface WebContainerContext {
   loaded: boolean;
@@ -14,52 +17,89 @@ if (import.meta.hot) {
   import.meta.hot.data.webcontainerContext = webcontainerContext;
 }
 
+/**
+ * Folder on disk the project of the current chat runs from, `undefined` when it runs in the WebContainer
+ */
+export const nativeProjectFolder: WritableAtom<string | undefined> =
+  import.meta.hot?.data.nativeProjectFolder ?? atom<string | undefined>(undefined);
+
+/*
+ * In the desktop app every chat picks its runtime, booting waits until the chat history
+ * knows whether the chat runs from a local folder.
+ */
+const runtimeSelection = import.meta.hot?.data.runtimeSelection ?? withResolvers<string | undefined>();
+
+export function selectProjectRuntime(folder?: string) {
+  if (!isNativeRuntimeAvailable()) {
+    return;
+  }
+
+  runtimeSelection.resolve(folder);
+}
+
 export let webcontainer: Promise<WebContainer> = new Promise(() => {
   // noop for ssr
 });
 
+function bootWebContainer() {
+  return Promise.resolve()
+    .then(() => {
+      return WebContainer.boot({
+        coep: 'credentialless',
+        workdirName: WORK_DIR_NAME,
+        forwardPreviewErrors: true, // Enable error forwarding from iframes
+      });
+    })
+    .then(async (webcontainer) => {
+      webcontainerContext.loaded = true;
+
+      const { workbenchStore } = await import('~/lib/stores/workbench');
+
+      const response = await fetch('/inspector-script.js');
+      const inspectorScript = await response.text();
+      await webcontainer.setPreviewScript(inspectorScript);
+
+      // Listen for preview errors
+      webcontainer.on('preview-message', (message) => {
+        console.log('WebContainer preview message:', message);
+
+        // Handle both uncaught exceptions and unhandled promise rejections
+        if (message.type === 'PREVIEW_UNCAUGHT_EXCEPTION' || message.type === 'PREVIEW_UNHANDLED_REJECTION') {
+          const isPromise = message.type === 'PREVIEW_UNHANDLED_REJECTION';
+          const title = isPromise ? 'Unhandled Promise Rejection' : 'Uncaught Exception';
+          workbenchStore.actionAlert.set({
+            type: 'preview',
+            title,
+            description: 'message' in message ? message.message : 'Unknown error',
+            content: `Error occurred at ${message.pathname}${message.search}${message.hash}\nPort: ${message.port}\n\nStack trace:\n${cleanStackTrace(message.stack || '')}`,
+            source: 'preview',
+          });
+        }
+      });
+
+      return webcontainer;
+    });
+}
+
 if (!import.meta.env.SSR) {
   webcontainer =
     import.meta.hot?.data.webcontainer ??
-    Promise.resolve()
-      .then(() => {
-        return WebContainer.boot({
-          coep: 'credentialless',
-          workdirName: WORK_DIR_NAME,
-          forwardPreviewErrors: true, // Enable error forwarding from iframes
-        });
-      })
-      .then(async (webcontainer) => {
-        webcontainerContext.loaded = true;
-
-        const { workbenchStore } = await import('~/lib/stores/workbench');
-
-        const response = await fetch('/inspector-script.js');
-        const inspectorScript = await response.text();
-        await webcontainer.setPreviewScript(inspectorScript);
-
-        // Listen for preview errors
-        webcontainer.on('preview-message', (message) => {
-          console.log('WebContainer preview message:', message);
-
-          // Handle both uncaught exceptions and unhandled promise rejections
-          if (message.type === 'PREVIEW_UNCAUGHT_EXCEPTION' || message.type === 'PREVIEW_UNHANDLED_REJECTION') {
-            const isPromise = message.type === 'PREVIEW_UNHANDLED_REJECTION';
-            const title = isPromise ? 'Unhandled Promise Rejection' : 'Uncaught Exception';
-            workbenchStore.actionAlert.set({
-              type: 'preview',
-              title,
-              description: 'message' in message ? message.message : 'Unknown error',
-              content: `Error occurred at ${message.pathname}${message.search}${message.hash}\nPort: ${message.port}\n\nStack trace:\n${cleanStackTrace(message.stack || '')}`,
-              source: 'preview',
-            });
+    (isNativeRuntimeAvailable()
+      ? runtimeSelection.promise.then((folder: string | undefined) => {
+          if (!folder) {
+            return bootWebContainer();
           }
-        });
 
-        return webcontainer;
-      });
+          nativeProjectFolder.set(folder);
+          webcontainerContext.loaded = true;
+
+          return bootNativeContainer(folder);
+        })
+      : bootWebContainer());
 
   if (import.meta.hot) {
     import.meta.hot.data.webcontainer = webcontainer;
+    import.meta.hot.data.runtimeSelection = runtimeSelection;
+    import.meta.hot.data.nativeProjectFolder = nativeProjectFolder;
   }
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NativeContainer, type NativeRuntimeBridge } from './native';
+
+function createBridge() {
+  const listeners = new Map<string, (...args: any[]) => void>();
+  const invoke = vi.fn(async (_channel: string, ..._args: unknown[]): Promise<any> => undefined);
+
+  const bridge: NativeRuntimeBridge = {
+    invoke: invoke as NativeRuntimeBridge['invoke'],
+    on(channel, listener) {
+      listeners.set(channel, listener);
+      return () => listeners.delete(channel);
+    },
+  };
+
+  return { bridge, invoke, emit: (channel: string, ...args: unknown[]) => listeners.get(channel)?.(...args) };
+}
+
+describe('NativeContainer', () => {
+  it('addresses files relative to the project folder', async () => {
+    const { bridge, invoke } = createBridge();
+    const container = new NativeContainer(bridge, '/Users/me/app');
+
+    await container.fs.writeFile('/home/project/src/index.ts', 'export {};', { encoding: 'utf8' });
+    await container.fs.readFile('package.json', 'utf-8');
+
+    expect(invoke).toHaveBeenCalledWith('runtime:fs:writeFile', 'src/index.ts', 'export {};', 'utf8');
+    expect(invoke).toHaveBeenCalledWith('runtime:fs:readFile', 'package.json', 'utf-8');
+  });
+
+  it('reports watch events with their WebContainer path', () => {
+    const { bridge, emit } = createBridge();
+    const container = new NativeContainer(bridge, '/Users/me/app');
+    const callback = vi.fn();
+
+    container.internal.watchPaths({ include: ['/home/project/**'] }, callback);
+    emit('runtime:watch-events', 'watch-0', [{ type: 'add_file', path: 'src/index.ts', mtime: 1 }]);
+
+    expect(callback).toHaveBeenCalledWith([{ type: 'add_file', path: '/home/project/src/index.ts', mtime: 1, ino: 0 }]);
+  });
+
+  it('streams the output and exit code of spawned processes', async () => {
+    const { bridge, emit } = createBridge();
+    const container = new NativeContainer(bridge, '/Users/me/app');
+
+    const process = await container.spawn('npm', ['run', 'build']);
+    emit('runtime:process-output', 'process-0', 'built in 1s\n');
+    emit('runtime:process-exit', 'process-0', 0);
+
+    const reader = process.output.getReader();
+
+    expect(await reader.read()).toEqual({ value: 'built in 1s\n', done: false });
+    expect(await reader.read()).toEqual({ value: undefined, done: true });
+    expect(await process.exit).toBe(0);
+  });
+});
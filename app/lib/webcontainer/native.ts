@@ -0,0 +1,270 @@
+import type { PathWatcherEvent, WatchPathsOptions, WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { path } from '~/utils/path';
+
+const logger = createScopedLogger('NativeRuntime');
+
+/**
+ * IPC bridge exposed by the Electron preload script, only present in the desktop app
+ */
+export interface NativeRuntimeBridge {
+  invoke<T = unknown>(channel: string, ...args: unknown[]): Promise<T>;
+  on(channel: string, listener: (...args: any[]) => void): () => void;
+}
+
+declare global {
+  interface Window {
+    nativeRuntime?: NativeRuntimeBridge;
+  }
+}
+
+interface NativeDirent {
+  name: string;
+  isFile: boolean;
+  isDirectory: boolean;
+}
+
+interface NativeWatchEvent {
+  type: PathWatcherEvent['type'];
+  path: string;
+  mtime: number;
+  buffer?: Uint8Array;
+}
+
+interface SpawnOptions {
+  cwd?: string;
+  env?: Record<string, string | number | boolean>;
+  terminal?: { cols: number; rows: number };
+}
+
+type ContainerEvent = 'port' | 'server-ready' | 'preview-message' | 'error';
+
+export function getNativeRuntimeBridge(): NativeRuntimeBridge | undefined {
+  return typeof window === 'undefined' ? undefined : window.nativeRuntime;
+}
+
+export function isNativeRuntimeAvailable() {
+  return getNativeRuntimeBridge() !== undefined;
+}
+
+/**
+ * Opens the folder picker of the desktop app, resolves with the chosen folder
+ */
+export async function selectNativeProjectFolder(): Promise<string | undefined> {
+  const bridge = getNativeRuntimeBridge();
+
+  if (!bridge) {
+    throw new Error('Local project folders are only available in the desktop app');
+  }
+
+  return bridge.invoke<string | undefined>('runtime:select-folder');
+}
+
+const PENDING_FOLDER_KEY = 'bolt_pending_project_folder';
+
+/**
+ * Starts a new chat running from the folder. The runtime is chosen when the page boots, so the page is reloaded.
+ */
+export function startChatInFolder(folder: string) {
+  sessionStorage.setItem(PENDING_FOLDER_KEY, folder);
+  window.location.href = '/';
+}
+
+/**
+ * Folder chosen for the new chat of this page load, if any
+ */
+export function takePendingProjectFolder(): string | undefined {
+  const folder = sessionStorage.getItem(PENDING_FOLDER_KEY) ?? undefined;
+  sessionStorage.removeItem(PENDING_FOLDER_KEY);
+
+  return folder;
+}
+
+// the app addresses files by their WebContainer path, the main process resolves them inside the project folder
+function toProjectPath(filePath: string) {
+  const relativePath = path.isAbsolute(filePath) ? path.relative(WORK_DIR, filePath) : filePath;
+
+  return relativePath || '.';
+}
+
+/**
+ * Runs a project from a folder on disk through the Electron main process. Implements the part of the
+ * WebContainer API the stores and the action runner use, so the rest of the app does not tell the difference.
+ */
+export class NativeContainer {
+  readonly workdir = WORK_DIR;
+  readonly folder: string;
+
+  #bridge: NativeRuntimeBridge;
+  #nextId = 0;
+  #processes = new Map<
+    string,
+    { output: ReadableStreamDefaultController<string>; exit: (code: number) => void; closed: boolean }
+  >();
+  #watchers = new Map<string, (events: PathWatcherEvent[]) => void>();
+
+  constructor(bridge: NativeRuntimeBridge, folder: string) {
+    this.#bridge = bridge;
+    this.folder = folder;
+
+    bridge.on('runtime:process-output', (processId: string, data: string) => {
+      const process = this.#processes.get(processId);
+
+      if (process && !process.closed) {
+        process.output.enqueue(data);
+      }
+    });
+
+    bridge.on('runtime:process-exit', (processId: string, code: number) => {
+      const process = this.#processes.get(processId);
+
+      if (!process) {
+        return;
+      }
+
+      this.#processes.delete(processId);
+
+      if (!process.closed) {
+        process.closed = true;
+        process.output.close();
+      }
+
+      process.exit(code);
+    });
+
+    bridge.on('runtime:watch-events', (watchId: string, events: NativeWatchEvent[]) => {
+      this.#watchers.get(watchId)?.(
+        events.map((event) => ({ ...event, path: path.join(WORK_DIR, event.path), ino: 0 })),
+      );
+    });
+  }
+
+  fs = {
+    readFile: (filePath: string, encoding?: string | null) =>
+      this.#bridge.invoke<string | Uint8Array>('runtime:fs:readFile', toProjectPath(filePath), encoding ?? undefined),
+
+    writeFile: (filePath: string, data: string | Uint8Array, options?: string | { encoding?: string | null }) => {
+      const encoding = typeof options === 'string' ? options : (options?.encoding ?? undefined);
+
+      return this.#bridge.invoke<void>('runtime:fs:writeFile', toProjectPath(filePath), data, encoding);
+    },
+
+    mkdir: (dirPath: string, options?: { recursive?: boolean }) =>
+      this.#bridge.invoke<void>('runtime:fs:mkdir', toProjectPath(dirPath), options?.recursive),
+
+    readdir: async (dirPath: string, options?: { withFileTypes?: boolean }) => {
+      const entries = await this.#bridge.invoke<NativeDirent[]>('runtime:fs:readdir', toProjectPath(dirPath));
+
+      if (!options?.withFileTypes) {
+        return entries.map((entry) => entry.name);
+      }
+
+      return entries.map((entry) => ({
+        name: entry.name,
+        isFile: () => entry.isFile,
+        isDirectory: () => entry.isDirectory,
+      }));
+    },
+
+    rm: (filePath: string, options?: { recursive?: boolean; force?: boolean }) =>
+      this.#bridge.invoke<void>('runtime:fs:rm', toProjectPath(filePath), options ?? {}),
+  };
+
+  internal = {
+    watchPaths: (options: WatchPathsOptions, callback: (events: PathWatcherEvent[]) => void) => {
+      const watchId = `watch-${this.#nextId++}`;
+      this.#watchers.set(watchId, callback);
+
+      this.#bridge
+        .invoke('runtime:watch', watchId, { exclude: options.exclude, includeContent: options.includeContent })
+        .catch((error) => logger.error('Failed to watch the project folder', error));
+
+      return () => {
+        this.#watchers.delete(watchId);
+        this.#bridge.invoke('runtime:unwatch', watchId).catch(() => undefined);
+      };
+    },
+  };
+
+  async spawn(command: string, args: string[] = [], options: SpawnOptions = {}): Promise<WebContainerProcess> {
+    const processId = `process-${this.#nextId++}`;
+    let exit!: (code: number) => void;
+    const exitPromise = new Promise<number>((resolve) => (exit = resolve));
+
+    const output = new ReadableStream<string>({
+      start: (controller) => {
+        this.#processes.set(processId, { output: controller, exit, closed: false });
+      },
+    });
+
+    const bridge = this.#bridge;
+    const input = new WritableStream<string>({
+      write(data) {
+        return bridge.invoke('runtime:process-input', processId, data);
+      },
+      close() {
+        return bridge.invoke('runtime:process-close-input', processId);
+      },
+    });
+
+    try {
+      await bridge.invoke('runtime:spawn', {
+        processId,
+        command,
+        args,
+        cwd: options.cwd ? toProjectPath(options.cwd) : undefined,
+        env: options.env,
+        terminal: options.terminal,
+      });
+    } catch (error) {
+      this.#processes.delete(processId);
+      throw error;
+    }
+
+    return {
+      input,
+      output,
+      exit: exitPromise,
+      kill: () => {
+        bridge.invoke('runtime:process-kill', processId).catch(() => undefined);
+      },
+      resize: ({ cols, rows }: { cols: number; rows: number }) => {
+        bridge.invoke('runtime:process-resize', processId, cols, rows).catch(() => undefined);
+      },
+    } as WebContainerProcess;
+  }
+
+  on(event: ContainerEvent, listener: (...args: any[]) => void) {
+    switch (event) {
+      case 'port':
+        return this.#bridge.on('runtime:port', listener);
+      case 'server-ready':
+        return this.#bridge.on('runtime:server-ready', listener);
+      default:
+        // previews of native projects are plain pages, they do not forward messages or errors
+        return () => undefined;
+    }
+  }
+
+  async setPreviewScript() {
+    // the inspector script is injected by the WebContainer preview proxy, native previews run without it
+  }
+}
+
+/**
+ * Attaches the folder to the window and returns a container running against it
+ */
+export async function bootNativeContainer(folder: string): Promise<WebContainer> {
+  const bridge = getNativeRuntimeBridge();
+
+  if (!bridge) {
+    throw new Error('Local project folders are only available in the desktop app');
+  }
+
+  await bridge.invoke('runtime:attach', folder);
+  logger.info(`Running the project from ${folder}`);
+
+  // the app only uses the part of the WebContainer API the native container implements
+  return new NativeContainer(bridge, folder) as unknown as WebContainer;
+}
@@ -4,16 +4,27 @@ import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/l
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import type { FallbackModel, IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
+import type {
+  ContextAnnotation,
+  ModelAnnotation,
+  PlanStepAnnotation,
+  ProgressAnnotation,
+  ToolCallAnnotation,
+  UsageAnnotation,
+} from '~/types/context';
 import { WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
 import type { DesignScheme } from '~/types/design-scheme';
-import { MCPService } from '~/lib/services/mcpService';
+import type { ChatMode, PlanStepRequest } from '~/types/task-plan';
+import { MCPService, type MCPResourceReference } from '~/lib/services/mcpService';
+import { WORKBENCH_SERVER_NAME, isWorkbenchTool, workbenchTools } from '~/lib/common/workbench-tools';
 import { StreamRecoveryManager } from '~/lib/.server/llm/stream-recovery';
+import { calculateCost, getCachedPromptTokens, getModelPricing } from '~/lib/modules/llm/pricing';
+import { getFallbackErrorMessage, resolveFallbackChain, shouldFallback } from '~/lib/.server/llm/fallback';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -39,6 +50,41 @@ function parseCookies(cookieHeader: string): Record<string, string> {
   return cookies;
 }
 
+function getStreamErrorMessage(error: any) {
+  // Provide more specific error messages for common issues
+  const errorMessage = error.message || 'Unknown error';
+
+  if (errorMessage.includes('model') && errorMessage.includes('not found')) {
+    return 'Custom error: Invalid model selected. Please check that the model name is correct and available.';
+  }
+
+  if (errorMessage.includes('Invalid JSON response')) {
+    return 'Custom error: The AI service returned an invalid response. This may be due to an invalid model name, API rate limiting, or server issues. Try selecting a different model or check your API key.';
+  }
+
+  if (
+    errorMessage.includes('API key') ||
+    errorMessage.includes('unauthorized') ||
+    errorMessage.includes('authentication')
+  ) {
+    return 'Custom error: Invalid or missing API key. Please check your API key configuration.';
+  }
+
+  if (errorMessage.includes('token') && errorMessage.includes('limit')) {
+    return 'Custom error: Token limit exceeded. The conversation is too long for the selected model. Try using a model with larger context window or start a new conversation.';
+  }
+
+  if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+    return 'Custom error: API rate limit exceeded. Please wait a moment before trying again.';
+  }
+
+  if (errorMessage.includes('network') || errorMessage.includes('timeout')) {
+    return 'Custom error: Network error. Please check your internet connection and try again.';
+  }
+
+  return `Custom error: ${errorMessage}`;
+}
+
 async function chatAction({ context, request }: ActionFunctionArgs) {
   const streamRecovery = new StreamRecoveryManager({
     timeout: 45000,
@@ -48,24 +94,68 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     },
   });
 
-  const { messages, files, promptId, contextOptimization, supabase, chatMode, designScheme, maxLLMSteps } =
-    await request.json<{
-      messages: Messages;
-      files: any;
-      promptId?: string;
-      contextOptimization: boolean;
-      chatMode: 'discuss' | 'build';
-      designScheme?: DesignScheme;
-      supabase?: {
-        isConnected: boolean;
-        hasSelectedProject: boolean;
-        credentials?: {
-          anonKey?: string;
-          supabaseUrl?: string;
-        };
+  const {
+    messages,
+    files,
+    promptId,
+    contextOptimization,
+    contextCandidates,
+    indexContextSelection,
+    supabase,
+    chatMode,
+    designScheme,
+    maxLLMSteps,
+    enableWorkbenchTools,
+    mcpResources,
+    usageBudget,
+    fallbackChain,
+    planStep,
+  } = await request.json<{
+    messages: Messages;
+    files: any;
+    promptId?: string;
+    contextOptimization: boolean;
+    contextCandidates?: string[];
+    indexContextSelection?: boolean;
+    chatMode: ChatMode;
+    designScheme?: DesignScheme;
+    supabase?: {
+      isConnected: boolean;
+      hasSelectedProject: boolean;
+      credentials?: {
+        anonKey?: string;
+        supabaseUrl?: string;
       };
-      maxLLMSteps: number;
-    }>();
+      schema?: string;
+      local?: boolean;
+    };
+    maxLLMSteps: number;
+    enableWorkbenchTools?: boolean;
+    mcpResources?: MCPResourceReference[];
+    usageBudget?: {
+      spent: number;
+      hardLimit?: number;
+    };
+    fallbackChain?: FallbackModel[];
+    planStep?: PlanStepRequest;
+  }>();
+
+  if (usageBudget?.hardLimit !== undefined && usageBudget.spent >= usageBudget.hardLimit) {
+    return new Response(
+      JSON.stringify({
+        error: true,
+        message: `Usage budget exceeded: $${usageBudget.spent.toFixed(2)} spent of $${usageBudget.hardLimit.toFixed(2)}`,
+        statusCode: 402,
+        isRetryable: false,
+        provider: 'unknown',
+      }),
+      {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+        statusText: 'Payment Required',
+      },
+    );
+  }
 
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
@@ -75,9 +165,11 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
   const stream = new SwitchableStream();
 
+  const requestStartTime = Date.now();
   const cumulativeUsage = {
     completionTokens: 0,
     promptTokens: 0,
+    cachedPromptTokens: 0,
     totalTokens: 0,
   };
   const encoder: TextEncoder = new TextEncoder();
@@ -101,6 +193,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
         const processedMessages = await mcpService.processToolInvocations(messages, dataStream);
 
+        // The model that is currently answering, switched when a fallback takes over
+        const { model: selectedModel, provider: selectedProvider } = extractPropertiesFromMessage(
+          processedMessages.filter((x) => x.role == 'user').slice(-1)[0],
+        );
+        let activeModel: FallbackModel = { provider: selectedProvider, model: selectedModel };
+        const fallbacks = resolveFallbackChain(activeModel, fallbackChain);
+        const failedModels: ModelAnnotation['fallbacks'] = [];
+
         if (processedMessages.length > 3) {
           messageSliceId = processedMessages.length - 3;
         }
@@ -130,6 +230,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                 logger.debug('createSummary token usage', JSON.stringify(resp.usage));
                 cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
                 cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                cumulativeUsage.cachedPromptTokens += getCachedPromptTokens(resp.providerMetadata);
                 cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
               }
             },
@@ -169,11 +270,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             promptId,
             contextOptimization,
             summary,
+            candidates: contextCandidates,
+            indexOnly: indexContextSelection,
             onFinish(resp) {
               if (resp.usage) {
                 logger.debug('selectContext token usage', JSON.stringify(resp.usage));
                 cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
                 cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                cumulativeUsage.cachedPromptTokens += getCachedPromptTokens(resp.providerMetadata);
                 cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
               }
             },
@@ -207,35 +311,75 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           // logger.debug('Code Files Selected');
         }
 
+        const attachedResources = await mcpService.getResourceContents(mcpResources ?? []);
+
         const options: StreamingOptions = {
           supabaseConnection: supabase,
+          mcpResources: attachedResources
+            .map(
+              ({ serverName, uri, text }) =>
+                `<mcp_resource server="${serverName}" uri="${uri}">\n${text}\n</mcp_resource>`,
+            )
+            .join('\n'),
           toolChoice: 'auto',
-          tools: mcpService.toolsWithoutExecute,
+          tools: enableWorkbenchTools
+            ? { ...workbenchTools, ...mcpService.toolsWithoutExecute }
+            : mcpService.toolsWithoutExecute,
           maxSteps: maxLLMSteps,
           onStepFinish: ({ toolCalls }) => {
             // add tool call annotations for frontend processing
             toolCalls.forEach((toolCall) => {
-              mcpService.processToolCall(toolCall, dataStream);
+              if (isWorkbenchTool(toolCall.toolName)) {
+                dataStream.writeMessageAnnotation({
+                  type: 'toolCall',
+                  toolCallId: toolCall.toolCallId,
+                  serverName: WORKBENCH_SERVER_NAME,
+                  toolName: toolCall.toolName,
+                  toolDescription: workbenchTools[toolCall.toolName].description ?? '',
+                } satisfies ToolCallAnnotation);
+              } else {
+                mcpService.processToolCall(toolCall, dataStream);
+              }
             });
           },
-          onFinish: async ({ text: content, finishReason, usage }) => {
+          onFinish: async ({ text: content, finishReason, usage, providerMetadata }) => {
             logger.debug('usage', JSON.stringify(usage));
 
             if (usage) {
               cumulativeUsage.completionTokens += usage.completionTokens || 0;
               cumulativeUsage.promptTokens += usage.promptTokens || 0;
+              cumulativeUsage.cachedPromptTokens += getCachedPromptTokens(providerMetadata);
               cumulativeUsage.totalTokens += usage.totalTokens || 0;
             }
 
+            if (finishReason === 'error' && failedModels.length < fallbacks.length) {
+              // the next model of the chain may take over, the usage is reported once it finishes
+              return;
+            }
+
+            const { model, provider } = activeModel;
+
             if (finishReason !== 'length') {
+              const cost = calculateCost(getModelPricing(provider, model), cumulativeUsage);
+
               dataStream.writeMessageAnnotation({
                 type: 'usage',
                 value: {
-                  completionTokens: cumulativeUsage.completionTokens,
-                  promptTokens: cumulativeUsage.promptTokens,
-                  totalTokens: cumulativeUsage.totalTokens,
+                  ...cumulativeUsage,
+                  latencyMs: Date.now() - requestStartTime,
+                  provider,
+                  model,
+
+                  // undefined is not a valid JSON value, models without pricing leave the cost out
+                  ...(cost !== undefined && { cost }),
                 },
-              });
+              } satisfies UsageAnnotation);
+              dataStream.writeMessageAnnotation({
+                type: 'model',
+                provider,
+                model,
+                fallbacks: failedModels,
+              } satisfies ModelAnnotation);
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -243,6 +387,17 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                 order: progressCounter++,
                 message: 'Response Generated',
               } satisfies ProgressAnnotation);
+
+              if (planStep) {
+                dataStream.writeData({
+                  type: 'progress',
+                  label: 'plan',
+                  status: 'complete',
+                  order: progressCounter++,
+                  message: `Step ${planStep.index + 1} of ${planStep.total} Done`,
+                } satisfies ProgressAnnotation);
+              }
+
               await new Promise((resolve) => setTimeout(resolve, 0));
 
               // stream.close();
@@ -256,9 +411,6 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
 
             logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
-
-            const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
             processedMessages.push({ id: generateId(), role: 'assistant', content });
             processedMessages.push({
               id: generateId(),
@@ -299,6 +451,17 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           },
         };
 
+        if (planStep) {
+          dataStream.writeMessageAnnotation({ type: 'planStep', ...planStep } satisfies PlanStepAnnotation);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: `Step ${planStep.index + 1} of ${planStep.total}: ${planStep.title}`,
+          } satisfies ProgressAnnotation);
+        }
+
         dataStream.writeData({
           type: 'progress',
           label: 'response',
@@ -307,79 +470,143 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
-        const result = await streamText({
-          messages: [...processedMessages],
-          env: context.cloudflare?.env,
-          options,
-          apiKeys,
-          files,
-          providerSettings,
-          promptId,
-          contextOptimization,
-          contextFiles: filteredFiles,
-          chatMode,
-          designScheme,
-          summary,
-          messageSliceId,
-        });
-
-        (async () => {
-          for await (const part of result.fullStream) {
-            streamRecovery.updateActivity();
-
-            if (part.type === 'error') {
-              const error: any = part.error;
-              logger.error('Streaming error:', error);
-              streamRecovery.stop();
-
-              // Enhanced error handling for common streaming issues
-              if (error.message?.includes('Invalid JSON response')) {
-                logger.error('Invalid JSON response detected - likely malformed API response');
-              } else if (error.message?.includes('token')) {
-                logger.error('Token-related error detected - possible token limit exceeded');
-              }
+        /**
+         * Streams the response with the model at `attempt` of the chain, the selected model first. When it fails
+         * with an error another provider may not have, the error is held back and the next model of the chain
+         * takes over the stream, continuing from the text already sent if the failure happened mid-response.
+         */
+        const streamWithFallback = async (attempt: number, partialContent: string): Promise<void> => {
+          const modelOverride = attempt > 0 ? fallbacks[attempt - 1] : undefined;
+          const canFallBack = (error: unknown) => attempt < fallbacks.length && shouldFallback(error);
+
+          const fallBack = (error: unknown, content: string) => {
+            logger.warn(
+              `${activeModel.provider}/${activeModel.model} failed, falling back to ${fallbacks[attempt].provider}/${fallbacks[attempt].model}`,
+            );
+            failedModels.push({ ...activeModel, error: getFallbackErrorMessage(error) });
+
+            return streamWithFallback(attempt + 1, content);
+          };
+
+          if (modelOverride) {
+            activeModel = modelOverride;
+          }
 
-              return;
+          const attemptMessages = [...processedMessages];
+
+          if (partialContent) {
+            attemptMessages.push({ id: generateId(), role: 'assistant', content: partialContent });
+            attemptMessages.push({
+              id: generateId(),
+              role: 'user',
+              content: `[Model: ${activeModel.model}]\n\n[Provider: ${activeModel.provider}]\n\n${CONTINUE_PROMPT}`,
+            });
+          }
+
+          let result: Awaited<ReturnType<typeof streamText>>;
+
+          try {
+            result = await streamText({
+              messages: attemptMessages,
+              env: context.cloudflare?.env,
+              options,
+              apiKeys,
+              files,
+              providerSettings,
+              promptId,
+              contextOptimization,
+              contextFiles: filteredFiles,
+              chatMode,
+              designScheme,
+              summary,
+              messageSliceId,
+              modelOverride,
+            });
+          } catch (error) {
+            if (canFallBack(error)) {
+              return fallBack(error, partialContent);
             }
+
+            throw error;
           }
-          streamRecovery.stop();
-        })();
-        result.mergeIntoDataStream(dataStream);
-      },
-      onError: (error: any) => {
-        // Provide more specific error messages for common issues
-        const errorMessage = error.message || 'Unknown error';
 
-        if (errorMessage.includes('model') && errorMessage.includes('not found')) {
-          return 'Custom error: Invalid model selected. Please check that the model name is correct and available.';
-        }
+          (async () => {
+            for await (const part of result.fullStream) {
+              streamRecovery.updateActivity();
 
-        if (errorMessage.includes('Invalid JSON response')) {
-          return 'Custom error: The AI service returned an invalid response. This may be due to an invalid model name, API rate limiting, or server issues. Try selecting a different model or check your API key.';
-        }
+              if (part.type === 'error') {
+                const error: any = part.error;
+                logger.error('Streaming error:', error);
+                streamRecovery.stop();
 
-        if (
-          errorMessage.includes('API key') ||
-          errorMessage.includes('unauthorized') ||
-          errorMessage.includes('authentication')
-        ) {
-          return 'Custom error: Invalid or missing API key. Please check your API key configuration.';
-        }
+                // Enhanced error handling for common streaming issues
+                if (error.message?.includes('Invalid JSON response')) {
+                  logger.error('Invalid JSON response detected - likely malformed API response');
+                } else if (error.message?.includes('token')) {
+                  logger.error('Token-related error detected - possible token limit exceeded');
+                }
 
-        if (errorMessage.includes('token') && errorMessage.includes('limit')) {
-          return 'Custom error: Token limit exceeded. The conversation is too long for the selected model. Try using a model with larger context window or start a new conversation.';
-        }
+                return;
+              }
+            }
+            streamRecovery.stop();
+          })();
+
+          const decoder = new TextDecoder();
+          let content = partialContent;
+          let streamError: unknown;
+          let abandoned = false;
+
+          const attemptStream = result
+            .toDataStream({
+              getErrorMessage: (error) => {
+                streamError = error;
+                return getStreamErrorMessage(error);
+              },
+            })
+            .pipeThrough(
+              new TransformStream<Uint8Array, string>({
+                transform: (chunk, controller) => {
+                  if (abandoned) {
+                    return;
+                  }
+
+                  const part = decoder.decode(chunk);
+
+                  if (part.startsWith('0:')) {
+                    content += JSON.parse(part.slice(2));
+                  }
+
+                  if (part.startsWith('3:') && canFallBack(streamError)) {
+                    // hold back the error and whatever follows it, the next model takes over from here
+                    abandoned = true;
+                    fallBack(streamError, content).catch((error) => {
+                      logger.error('Fallback failed:', error);
+                      stream.close();
+                    });
+
+                    return;
+                  }
+
+                  controller.enqueue(part);
+                },
+                flush: () => {
+                  if (!abandoned) {
+                    stream.close();
+                  }
+                },
+              }),
+            );
 
-        if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
-          return 'Custom error: API rate limit exceeded. Please wait a moment before trying again.';
-        }
+          await stream.switchSource(attemptStream);
 
-        if (errorMessage.includes('network') || errorMessage.includes('timeout')) {
-          return 'Custom error: Network error. Please check your internet connection and try again.';
-        }
+          return undefined;
+        };
 
-        return `Custom error: ${errorMessage}`;
+        dataStream.merge(stream.readable);
+        await streamWithFallback(0, '');
       },
+      onError: getStreamErrorMessage,
     }).pipeThrough(
       new TransformStream({
         transform: (chunk, controller) => {
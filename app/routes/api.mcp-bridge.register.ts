@@ -0,0 +1,27 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import {
+  getBearerToken,
+  getMCPServerToken,
+  mcpServerDisabledResponse,
+  tokensMatch,
+  unauthorizedResponse,
+} from '~/lib/.server/mcp-server/auth';
+import { WorkspaceBridge } from '~/lib/.server/mcp-server/bridge';
+
+/**
+ * Pairs an app tab with the MCP server. The tab proves it was set up by the server's owner with `MCP_SERVER_TOKEN` and
+ * gets a secret of its own for `/api/mcp-bridge`.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  const token = getMCPServerToken(context);
+
+  if (!token) {
+    return mcpServerDisabledResponse();
+  }
+
+  if (!tokensMatch(getBearerToken(request), token)) {
+    return unauthorizedResponse();
+  }
+
+  return Response.json({ secret: WorkspaceBridge.getInstance().registerTab() });
+}
@@ -0,0 +1,55 @@
+import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import {
+  getBearerToken,
+  getMCPServerToken,
+  mcpServerDisabledResponse,
+  unauthorizedResponse,
+} from '~/lib/.server/mcp-server/auth';
+import { WorkspaceBridge } from '~/lib/.server/mcp-server/bridge';
+import type { WorkspaceBridgeResponse } from '~/types/mcp-server';
+
+/**
+ * Long-polled by the app tabs that accept MCP requests, answers the requests of the app's MCP server. Tabs authenticate
+ * with the secret they got from `/api/mcp-bridge/register`.
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  if (!getMCPServerToken(context)) {
+    return mcpServerDisabledResponse();
+  }
+
+  const bridge = WorkspaceBridge.getInstance();
+  const tab = getBearerToken(request);
+
+  if (!bridge.isTab(tab)) {
+    return unauthorizedResponse();
+  }
+
+  const requests = await bridge.takeRequests(tab, request.signal);
+
+  return Response.json(requests);
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (!getMCPServerToken(context)) {
+    return mcpServerDisabledResponse();
+  }
+
+  const bridge = WorkspaceBridge.getInstance();
+  const tab = getBearerToken(request);
+
+  if (!bridge.isTab(tab)) {
+    return unauthorizedResponse();
+  }
+
+  const response = await request.json<WorkspaceBridgeResponse>();
+
+  if (!response?.id) {
+    return Response.json({ error: 'Missing request id' }, { status: 400 });
+  }
+
+  if (!bridge.respond(tab, response)) {
+    return Response.json({ error: 'Unknown request' }, { status: 404 });
+  }
+
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,34 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-get-prompt');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const {
+      serverName,
+      name,
+      arguments: args,
+    } = (await request.json()) as {
+      serverName: string;
+      name: string;
+      arguments?: Record<string, string>;
+    };
+
+    if (!serverName || !name) {
+      return Response.json({ error: 'Missing server name or prompt name' }, { status: 400 });
+    }
+
+    const mcpService = MCPService.getInstance();
+    const text = await mcpService.getPrompt(serverName, name, args);
+
+    return Response.json({ text });
+  } catch (error) {
+    logger.error('Error getting MCP prompt:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to get MCP prompt' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService, type MCPResourceReference } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-read-resource');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const { serverName, uri } = (await request.json()) as MCPResourceReference;
+
+    if (!serverName || !uri) {
+      return Response.json({ error: 'Missing server name or resource URI' }, { status: 400 });
+    }
+
+    const mcpService = MCPService.getInstance();
+    const resource = await mcpService.readResource({ serverName, uri });
+
+    return Response.json(resource);
+  } catch (error) {
+    logger.error('Error reading MCP resource:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to read MCP resource' },
+      { status: 500 },
+    );
+  }
+}
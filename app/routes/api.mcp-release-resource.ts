@@ -0,0 +1,25 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService, type MCPResourceReference } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-release-resource');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const { serverName, uri } = (await request.json()) as MCPResourceReference;
+
+    if (!serverName || !uri) {
+      return Response.json({ error: 'Missing server name or resource URI' }, { status: 400 });
+    }
+
+    await MCPService.getInstance().releaseResource({ serverName, uri });
+
+    return Response.json({ released: true });
+  } catch (error) {
+    logger.error('Error releasing MCP resource:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to release MCP resource' },
+      { status: 500 },
+    );
+  }
+}
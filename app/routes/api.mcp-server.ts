@@ -0,0 +1,61 @@
+import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import {
+  getBearerToken,
+  getMCPServerToken,
+  mcpServerDisabledResponse,
+  tokensMatch,
+  unauthorizedResponse,
+} from '~/lib/.server/mcp-server/auth';
+import { createAppMCPServer } from '~/lib/.server/mcp-server/server';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.mcp-server');
+
+/**
+ * Streamable HTTP endpoint of the app's MCP server. It is stateless, every request gets its own server and transport.
+ * The server can change projects and deploy them, so it is only served to clients that send `MCP_SERVER_TOKEN`.
+ */
+async function handleMCPRequest({ request, context }: LoaderFunctionArgs | ActionFunctionArgs) {
+  const env = context.cloudflare?.env as Env | undefined;
+  const token = getMCPServerToken(context);
+
+  if (!token) {
+    return mcpServerDisabledResponse();
+  }
+
+  if (!tokensMatch(getBearerToken(request), token)) {
+    return unauthorizedResponse();
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+
+  const server = createAppMCPServer({
+    env,
+    apiKeys: getApiKeysFromCookie(cookieHeader),
+    providerSettings: getProviderSettingsFromCookie(cookieHeader),
+    origin: new URL(request.url).origin,
+  });
+  const transport = new WebStandardStreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableJsonResponse: true,
+  });
+
+  try {
+    await server.connect(transport);
+
+    return await transport.handleRequest(request);
+  } catch (error) {
+    logger.error('Error handling MCP request:', error);
+    return Response.json(
+      { jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null },
+      { status: 500 },
+    );
+  } finally {
+    await server.close();
+  }
+}
+
+export const loader = handleMCPRequest;
+export const action = handleMCPRequest;
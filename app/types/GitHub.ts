@@ -75,6 +75,34 @@ export interface GitHubBranch {
   };
 }
 
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  html_url: string;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+export interface GitHubPullRequestComment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: { login: string } | null;
+
+  // only set for comments on the diff
+  path?: string;
+  line?: number | null;
+}
+
+export interface GitHubPullRequestReview {
+  id: number;
+  body: string;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  html_url: string;
+  user: { login: string } | null;
+}
+
 export interface GitHubBlobResponse {
   content: string;
   encoding: string;
@@ -89,6 +89,32 @@ export interface GitLabProjectResponse {
   };
 }
 
+export interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  web_url: string;
+  source_branch: string;
+  target_branch: string;
+}
+
+export interface GitLabNote {
+  id: number;
+  body: string;
+
+  // notes generated by GitLab itself, e.g. "added 1 commit"
+  system: boolean;
+  resolvable: boolean;
+  resolved?: boolean;
+  author: { username: string };
+
+  // only set for comments on the diff
+  position?: {
+    new_path?: string;
+    new_line?: number | null;
+  };
+}
+
 export interface GitLabCommitAction {
   action: 'create' | 'update' | 'delete';
   file_path: string;
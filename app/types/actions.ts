@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'edit' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,11 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+export interface EditAction extends BaseAction {
+  type: 'edit';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -30,7 +35,7 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction = FileAction | EditAction | ShellAction | StartAction | BuildAction | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -39,7 +44,8 @@ export interface ActionAlert {
   title: string;
   description: string;
   content: string;
-  source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  source?: 'terminal' | 'preview' | 'edit'; // Add source to differentiate between terminal, preview and edit errors
+  filePath?: string;
 }
 
 export interface SupabaseAlert {
@@ -48,6 +54,9 @@ export interface SupabaseAlert {
   description: string;
   content: string;
   source?: 'supabase';
+
+  /** migration file the SQL was written to */
+  filePath?: string;
 }
 
 export interface DeployAlert {
@@ -24,3 +24,40 @@ export type ToolCallAnnotation = {
   toolName: string;
   toolDescription: string;
 };
+
+export type UsageAnnotation = {
+  type: 'usage';
+  value: {
+    completionTokens: number;
+    promptTokens: number;
+    totalTokens: number;
+    cachedPromptTokens: number;
+    latencyMs: number;
+    provider: string;
+    model: string;
+    cost?: number;
+  };
+};
+
+export type ModelAnnotation = {
+  type: 'model';
+  provider: string;
+  model: string;
+
+  /** Models tried before the one that answered, in order, with the error that made each one fail */
+  fallbacks: Array<{
+    provider: string;
+    model: string;
+    error: string;
+  }>;
+};
+
+/** Links the response that executed a task of a plan to the task */
+export type PlanStepAnnotation = {
+  type: 'planStep';
+  planMessageId: string;
+  taskId: string;
+  index: number;
+  total: number;
+  title: string;
+};
@@ -0,0 +1,37 @@
+import type { Message } from 'ai';
+
+/**
+ * The app's MCP server runs on the server, while chats, project files and deploy credentials live in the browser. Tool
+ * calls are relayed to an app tab that accepts them, these are the requests it answers.
+ */
+export interface WorkspaceBridgeMethods {
+  listChats: {
+    params: Record<string, never>;
+    result: Array<{ id: string; urlId?: string; description?: string; timestamp: string; isOpen: boolean }>;
+  };
+  readProjectFiles: {
+    /** reads the open project when no chat is given, other chats are read from their last snapshot */
+    params: { chatId?: string; paths?: string[] };
+    result: { chatId?: string; files: Record<string, string>; omitted: string[] };
+  };
+  applyArtifact: {
+    params: { artifact: string };
+    result: { actions: Array<{ type: string; filePath?: string; content?: string; status: string; error?: string }> };
+  };
+  createChat: {
+    params: { description: string; messages: Array<Omit<Message, 'id'>> };
+    result: { chatId: string; url: string };
+  };
+  deploy: {
+    params: { target: 'netlify' | 'vercel' };
+    result: { url?: string };
+  };
+}
+
+export type WorkspaceBridgeMethod = keyof WorkspaceBridgeMethods;
+
+export type WorkspaceBridgeRequest = {
+  [M in WorkspaceBridgeMethod]: { id: string; method: M; params: WorkspaceBridgeMethods[M]['params'] };
+}[WorkspaceBridgeMethod];
+
+export type WorkspaceBridgeResponse = { id: string; result: unknown } | { id: string; error: string };
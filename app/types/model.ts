@@ -23,3 +23,12 @@ export interface IProviderSetting {
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+/**
+ * Entry of the fallback chain, tried in order when the selected model fails with a
+ * rate limit, authentication or timeout error.
+ */
+export interface FallbackModel {
+  provider: string;
+  model: string;
+}
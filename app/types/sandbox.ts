@@ -21,12 +21,43 @@ export const SANDBOX_LIMITS = {
  * Dangerous operations that trigger validation warnings
  */
 export const DANGEROUS_OPERATIONS = {
-  FILE_DELETE: ['rmSync', 'unlinkSync', 'rm', 'unlink'],
-  PROCESS_EXEC: ['exec', 'execSync', 'spawn', 'spawnSync', 'fork'],
-  FILE_WRITE: ['writeFileSync', 'writeFile', 'appendFileSync'],
-  NETWORK: ['http.request', 'https.request', 'fetch', 'XMLHttpRequest'],
-  EVAL: ['eval', 'Function', 'setTimeout', 'setInterval'],
-  REQUIRE_DYNAMIC: ['require.main', 'require.resolve'],
+  FILE_DELETE: ['fs.rm', 'fs.rmSync', 'fs.rmdir', 'fs.rmdirSync', 'fs.unlink', 'fs.unlinkSync'],
+  PROCESS_EXEC: [
+    'child_process.exec',
+    'child_process.execSync',
+    'child_process.execFile',
+    'child_process.execFileSync',
+    'child_process.spawn',
+    'child_process.spawnSync',
+    'child_process.fork',
+  ],
+  FILE_WRITE: ['fs.writeFile', 'fs.writeFileSync', 'fs.appendFile', 'fs.appendFileSync', 'fs.createWriteStream'],
+  NETWORK: [
+    'http.request',
+    'http.get',
+    'https.request',
+    'https.get',
+    'net.connect',
+    'net.createConnection',
+    'fetch',
+    'XMLHttpRequest',
+    'WebSocket',
+  ],
+
+  // timers only count when they are given a string to evaluate
+  EVAL: [
+    'eval',
+    'Function',
+    'setTimeout',
+    'setInterval',
+    'vm.runInContext',
+    'vm.runInNewContext',
+    'vm.runInThisContext',
+    'vm.Script',
+  ],
+
+  // `require` and `import` only count when the module name is computed
+  REQUIRE_DYNAMIC: ['require', 'import', 'require.main', 'require.resolve'],
 } as const;
 
 export interface SandboxConfig {
@@ -92,23 +123,27 @@ export interface ValidationIssue {
   type: 'dangerous-operation' | 'resource-limit' | 'network-request' | 'syntax-error';
   severity: 'info' | 'warning' | 'error';
   message: string;
-  location?: {
-    line: number;
-    column: number;
-  };
+  location?: SourceLocation;
   suggestion?: string;
 }
 
 export interface DangerousOperation {
   operation: string;
   category: keyof typeof DANGEROUS_OPERATIONS;
-  location?: {
-    line: number;
-    column: number;
-  };
+  location?: SourceLocation;
   description: string;
 }
 
+/**
+ * Range in the validated code, lines are 1-based and columns 0-based
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
 export interface ExecutionSnapshot {
   beforeState: {
     files: Record<string, string>;
@@ -119,6 +154,11 @@ export interface ExecutionSnapshot {
     timestamp: number;
   };
   changes: FileChange[];
+
+  /**
+   * Changes made inside the sandbox stay there until they are reviewed and applied to the project
+   */
+  reviewStatus: 'pending' | 'applied' | 'discarded';
 }
 
 export interface FileChange {
@@ -142,3 +182,48 @@ export interface SandboxSession {
   approvedBy?: string;
   approvalTime?: number;
 }
+
+/**
+ * What an isolated runtime needs to run one execution. `files` seeds the virtual filesystem overlay,
+ * the project itself is never touched by the execution.
+ */
+export interface SandboxRunRequest {
+  code: string;
+  language: ExecutionLanguage;
+  files: Record<string, string>;
+  cwd: string;
+  timeout: number;
+  memoryLimit: number;
+  filesystemLimit: number;
+  allowNetworkRequests: boolean;
+  whitelistedDomains?: string[];
+  environmentVariables?: Record<string, string>;
+}
+
+export interface SandboxRunResult {
+  status: ExecutionLog['status'];
+  exitCode?: number;
+  output: string;
+  errors: string;
+
+  /** Content of the virtual filesystem once the execution ended */
+  files: Record<string, string>;
+  fileOperations: FileOperation[];
+  networkRequests: NetworkRequest[];
+}
+
+/**
+ * Isolation boundary an execution runs behind, e.g. a Web Worker or a WebContainer process.
+ */
+export interface SandboxRuntime {
+  run(request: SandboxRunRequest, onOutput?: (chunk: string) => void): Promise<SandboxRunResult>;
+}
+
+/**
+ * The project the sandbox reads its overlay from and applies reviewed changes to.
+ */
+export interface SandboxWorkspace {
+  cwd: string;
+  getFiles(): Promise<Record<string, string>>;
+  applyChanges(changes: FileChange[]): Promise<void>;
+}
@@ -0,0 +1,41 @@
+export type ChatMode = 'discuss' | 'build' | 'plan';
+
+export type PlanTaskStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface PlanTask {
+  /** stable across reordering, `step-<n>` in the order the model proposed */
+  id: string;
+  title: string;
+  description: string;
+  files: string[];
+  commands: string[];
+  status: PlanTaskStatus;
+
+  /** the response that executed the task and the artifact it produced */
+  messageId?: string;
+  artifact?: {
+    id: string;
+    title: string;
+  };
+}
+
+export type TaskPlanState = 'editing' | 'running' | 'paused' | 'done';
+
+export interface TaskPlan {
+  /** the assistant message that proposed the plan */
+  messageId: string;
+  title: string;
+  tasks: PlanTask[];
+  state: TaskPlanState;
+}
+
+/**
+ * Sent with the chat request that executes one task of a plan
+ */
+export interface PlanStepRequest {
+  planMessageId: string;
+  taskId: string;
+  index: number;
+  total: number;
+  title: string;
+}
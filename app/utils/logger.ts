@@ -14,7 +14,8 @@ interface Logger {
   setLevel: (level: DebugLevel) => void;
 }
 
-let currentLevel: DebugLevel = import.meta.env.VITE_LOG_LEVEL || (import.meta.env.DEV ? 'debug' : 'info');
+// import.meta.env is only defined when bundled by Vite, the CLI imports the provider registry directly
+let currentLevel: DebugLevel = import.meta.env?.VITE_LOG_LEVEL || (import.meta.env?.DEV ? 'debug' : 'info');
 
 export const logger: Logger = {
   trace: (...messages: any[]) => logWithDebugCapture('trace', undefined, messages),
@@ -37,7 +38,7 @@ export function createScopedLogger(scope: string): Logger {
 }
 
 function setLevel(level: DebugLevel) {
-  if ((level === 'trace' || level === 'debug') && import.meta.env.PROD) {
+  if ((level === 'trace' || level === 'debug') && import.meta.env?.PROD) {
     return;
   }
 
@@ -86,7 +86,15 @@ const rehypeSanitizeOptions: RehypeSanitizeOptions = {
     div: [
       ...(defaultSchema.attributes?.div ?? []),
       'data*',
-      ['className', '__boltArtifact__', '__boltThought__', '__boltQuickAction', '__boltSelectedElement__'],
+      [
+        'className',
+        '__boltArtifact__',
+        '__boltThought__',
+        '__boltQuickAction',
+        '__boltSelectedElement__',
+        '__boltTestResults__',
+        '__boltPlan__',
+      ],
 
       // ['className', '__boltThought__']
     ],
@@ -112,10 +112,13 @@ export const selectStarterTemplate = async (options: { message: string; model: s
   }
 };
 
-const getGitHubRepoContent = async (repoName: string): Promise<{ name: string; path: string; content: string }[]> => {
+const getGitHubRepoContent = async (
+  repoName: string,
+  origin = '',
+): Promise<{ name: string; path: string; content: string }[]> => {
   try {
     // Instead of directly fetching from GitHub, use our own API endpoint as a proxy
-    const response = await fetch(`/api/github-template?repo=${encodeURIComponent(repoName)}`);
+    const response = await fetch(`${origin}/api/github-template?repo=${encodeURIComponent(repoName)}`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -131,7 +134,10 @@ const getGitHubRepoContent = async (repoName: string): Promise<{ name: string; p
   }
 };
 
-export async function getTemplates(templateName: string, title?: string) {
+/**
+ * @param origin of the app, the server passes it since it cannot fetch relative URLs
+ */
+export async function getTemplates(templateName: string, title?: string, origin?: string) {
   const template = STARTER_TEMPLATES.find((t) => t.name == templateName);
 
   if (!template) {
@@ -139,7 +145,7 @@ export async function getTemplates(templateName: string, title?: string) {
   }
 
   const githubRepo = template.githubRepo;
-  const files = await getGitHubRepoContent(githubRepo);
+  const files = await getGitHubRepoContent(githubRepo, origin);
 
   let filteredFiles = files;
 
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MockLanguageModelV1, simulateReadableStream } from 'ai/test';
+import type { LanguageModel } from 'ai';
+import { BaseAIProvider } from '@/ai/provider';
+import { providerManager } from '@/ai/provider-manager';
+import { ContextBuilder } from '@/ai/context-builder';
+import { StreamingHandler } from '@/ai/streaming-handler';
+import { AIConfigManager } from '@/config/ai-config';
+
+class MockStreamingProvider extends BaseAIProvider {
+  name = 'mock';
+
+  protected createModel(): LanguageModel {
+    return new MockLanguageModelV1({
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'text-delta' as const, textDelta: 'list' },
+            { type: 'text-delta' as const, textDelta: '-dir /tmp' },
+            {
+              type: 'finish' as const,
+              finishReason: 'stop' as const,
+              usage: { promptTokens: 3, completionTokens: 2 },
+            },
+          ],
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      }),
+    });
+  }
+}
+
+describe('AI providers', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should register providers from the shared registry', async () => {
+    process.env.AWS_ACCESS_KEY_ID = 'test';
+    process.env.AWS_SECRET_ACCESS_KEY = 'test';
+
+    await providerManager.registerProvider({ provider: 'anthropic', apiKey: 'key', model: 'claude-3-5-sonnet-latest' });
+    await providerManager.registerProvider({ provider: 'cohere', apiKey: 'key', model: 'command-r' });
+    await providerManager.registerProvider({ provider: 'bedrock', apiKey: '', model: 'anthropic.claude-3-sonnet' });
+    await providerManager.registerProvider({ provider: 'Deepseek', apiKey: 'key', model: 'deepseek-chat' });
+    await providerManager.registerProvider({
+      provider: 'ollama',
+      apiKey: '',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434',
+    });
+
+    expect(providerManager.getAvailableProviders()).toEqual(
+      expect.arrayContaining(['anthropic', 'cohere', 'bedrock', 'deepseek', 'ollama'])
+    );
+    expect(providerManager.getCurrentProvider().name).toBe('ollama');
+    expect((providerManager.getProvider('Anthropic').getModel() as any).provider).toContain('anthropic');
+    expect((providerManager.getProvider('bedrock').getModel() as any).provider).toContain('bedrock');
+  });
+
+  it('should reject providers missing from the registry', async () => {
+    await expect(
+      providerManager.registerProvider({ provider: 'unknown', apiKey: 'key', model: 'model' })
+    ).rejects.toThrow('Unknown provider: unknown');
+  });
+
+  it('should require credentials for hosted providers', async () => {
+    delete process.env.AWS_ACCESS_KEY_ID;
+
+    await expect(
+      providerManager.registerProvider({ provider: 'cohere', apiKey: '', model: 'command-r' })
+    ).rejects.toThrow('Missing API key for Cohere provider');
+    await expect(
+      providerManager.registerProvider({ provider: 'bedrock', apiKey: '', model: 'anthropic.claude-3-sonnet' })
+    ).rejects.toThrow('Missing API key for AmazonBedrock provider');
+  });
+
+  it('should configure providers from a web settings export', () => {
+    const config = AIConfigManager.fromSettingsExport({
+      providers: {
+        apiKeys: JSON.stringify({ Anthropic: 'sk-ant', Groq: 'gsk' }),
+        provider_settings: { Ollama: { name: 'Ollama', settings: { enabled: true, baseUrl: 'http://gpu:11434' } } },
+        selectedProvider: 'Anthropic',
+        selectedModel: 'claude-3-5-sonnet-20241022',
+      },
+    });
+
+    expect(config.getCurrentProvider()).toBe('anthropic');
+    expect(config.getProviderApiKey()).toBe('sk-ant');
+    expect(config.toProviderConfig().model).toBe('claude-3-5-sonnet-20241022');
+    expect(config.getConfig().providers.groq).toEqual({ apiKey: 'gsk' });
+    expect(config.getConfig().providers.ollama.baseUrl).toBe('http://gpu:11434');
+  });
+
+  it('should stream tokens through the streaming handler', async () => {
+    const provider = new MockStreamingProvider({ provider: 'ollama', apiKey: '', model: 'mock' });
+    const handler = new StreamingHandler(provider, new ContextBuilder([], new Map()));
+    const tokens: string[] = [];
+
+    const result = await handler.stream('show tmp', '/tmp', (token) => tokens.push(token));
+
+    expect(tokens).toEqual(['list', '-dir /tmp']);
+    expect(result).toBe('list-dir /tmp');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { forwardMessage, runStdioProxy } from '@/mcp/stdio-proxy';
+
+const listTools = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('MCP stdio proxy', () => {
+  it('should post messages to the app endpoint with the token', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ jsonrpc: '2.0', id: 1, result: { tools: [] } }));
+
+    const messages = await forwardMessage(listTools, {
+      url: 'http://localhost:5173',
+      token: 'secret',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 1, result: { tools: [] } }]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [URL, RequestInit];
+    expect(url.toString()).toBe('http://localhost:5173/api/mcp-server');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+  });
+
+  it('should read answers streamed as server-sent events', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(`event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n`, {
+          headers: { 'content-type': 'text/event-stream' },
+        }),
+    );
+
+    const messages = await forwardMessage(listTools, {
+      url: 'http://localhost:5173',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+
+  it('should answer requests with an error when the app cannot be reached', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new Error('ECONNREFUSED');
+    });
+
+    const [message] = await forwardMessage(listTools, {
+      url: 'http://localhost:5173',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(message).toMatchObject({ id: 1, error: { code: -32603 } });
+  });
+
+  it('should tell the client when the app has no MCP server token configured', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ error: 'The MCP server is disabled' }, 503));
+
+    const [message] = await forwardMessage(listTools, {
+      url: 'http://localhost:5173',
+      token: 'secret',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(message).toMatchObject({ id: 1, error: { code: -32001, message: expect.stringContaining('disabled') } });
+  });
+
+  it('should not answer notifications', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 202 }));
+
+    const messages = await forwardMessage(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }), {
+      url: 'http://localhost:5173',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should write one answer per line until stdin ends', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const fetchMock = vi.fn(async (_url: URL, init: RequestInit) => {
+      const { id } = JSON.parse(init.body as string);
+      return jsonResponse({ jsonrpc: '2.0', id, result: {} });
+    });
+
+    const done = runStdioProxy({
+      url: 'http://localhost:5173',
+      input,
+      output,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    input.end(`${listTools}\n\nnot json\n`);
+    await done;
+
+    const lines = output.read().toString().trim().split('\n').map((line: string) => JSON.parse(line));
+
+    expect(lines).toHaveLength(2);
+    expect(lines).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(lines).toContainEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  });
+});
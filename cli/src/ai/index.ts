@@ -1,3 +1,10 @@
 export { BaseAIProvider, type AIProvider, type ProviderConfig, type AIResponse, type StreamingHandler } from "@/ai/provider";
-export { OpenAIProvider } from "@/ai/providers/openai-provider";
+export { RegistryProvider } from "@/ai/providers/registry-provider";
+export {
+  findRegistryProvider,
+  toProviderId,
+  listProviderIds,
+  getModelCatalogue,
+  isKeylessProvider,
+} from "@/ai/registry";
 export { ProviderManager, providerManager } from "@/ai/provider-manager";
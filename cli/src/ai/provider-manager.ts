@@ -1,11 +1,13 @@
-import { AIProvider, ProviderConfig } from "@/ai/provider";
-import { OpenAIProvider } from "@/ai/providers/openai-provider";
+import type { AIProvider, ProviderConfig } from "@/ai/provider";
+import { RegistryProvider } from "@/ai/providers/registry-provider";
+import { findRegistryProvider, toProviderId } from "@/ai/registry";
 import { createLogger } from "@/utils/logger";
 
 const logger = createLogger("provider-manager");
 
 /**
  * Provider factory and manager
+ * Any provider of the shared registry can be registered, by registry name or CLI id
  */
 export class ProviderManager {
   private static instance: ProviderManager;
@@ -24,24 +26,14 @@ export class ProviderManager {
   async registerProvider(config: ProviderConfig): Promise<void> {
     logger.debug({ provider: config.provider }, "Registering AI provider");
 
-    let provider: AIProvider;
-
-    switch (config.provider) {
-      case "openai":
-        provider = new OpenAIProvider(config);
-        break;
-      case "anthropic":
-        throw new Error("Anthropic provider not yet implemented");
-      case "cohere":
-        throw new Error("Cohere provider not yet implemented");
-      case "bedrock":
-        throw new Error("Bedrock provider not yet implemented");
-      default:
-        throw new Error(`Unknown provider: ${config.provider}`);
+    if (!findRegistryProvider(config.provider)) {
+      throw new Error(`Unknown provider: ${config.provider}`);
     }
 
+    const provider: AIProvider = new RegistryProvider(config);
+
     await provider.initialize();
-    this.providers.set(config.provider, provider);
+    this.providers.set(provider.name, provider);
     this.currentProvider = provider;
 
     logger.info({ provider: config.provider }, "Provider registered successfully");
@@ -54,7 +46,7 @@ export class ProviderManager {
       throw new Error("No AI provider configured");
     }
 
-    const provider = this.providers.get(providerName);
+    const provider = this.providers.get(this.toProviderKey(providerName));
     if (!provider) {
       throw new Error(`Provider '${providerName}' not registered`);
     }
@@ -70,7 +62,7 @@ export class ProviderManager {
   }
 
   async switchProvider(name: string): Promise<void> {
-    const provider = this.providers.get(name);
+    const provider = this.providers.get(this.toProviderKey(name));
     if (!provider) {
       throw new Error(`Provider '${name}' not registered`);
     }
@@ -86,6 +78,14 @@ export class ProviderManager {
     return this.currentProvider !== null && this.currentProvider.isInitialized();
   }
 
+  /**
+   * Providers are registered under their CLI id, lookups also accept the registry name
+   */
+  private toProviderKey(name: string): string {
+    const provider = findRegistryProvider(name);
+    return provider ? toProviderId(provider.name) : name;
+  }
+
   async testCurrentProvider(): Promise<boolean> {
     if (!this.currentProvider) {
       return false;
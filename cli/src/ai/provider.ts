@@ -1,5 +1,8 @@
 import { EventEmitter } from "events";
-import { LanguageModel } from "ai";
+import { generateText, streamText, type LanguageModel } from "ai";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("ai-provider");
 
 /**
  * AI Provider interface for abstraction over multiple LLM providers
@@ -10,6 +13,8 @@ export interface AIProvider {
   isInitialized(): boolean;
   getModel(): LanguageModel;
   testConnection(): Promise<boolean>;
+  generateResponse(prompt: string, systemPrompt?: string): Promise<AIResponse>;
+  streamResponse(prompt: string, systemPrompt?: string, abortSignal?: AbortSignal): AsyncGenerator<string>;
 }
 
 /**
@@ -46,12 +51,14 @@ export interface AIResponse {
  * Provider configuration
  */
 export interface ProviderConfig {
-  provider: "openai" | "anthropic" | "cohere" | "bedrock";
+  provider: string; // registry name or CLI id of a provider in the shared registry
   apiKey: string;
   model: string;
   temperature?: number;
   maxTokens?: number;
   topP?: number;
+  baseUrl?: string; // overrides the provider's default endpoint, e.g. for local servers
+  region?: string; // AWS region for Bedrock
 }
 
 /**
@@ -68,7 +75,27 @@ export abstract class BaseAIProvider extends EventEmitter implements AIProvider
     this.config = config;
   }
 
-  abstract initialize(): Promise<void>;
+  /**
+   * Create the AI SDK model, throwing when the configuration is incomplete
+   */
+  protected abstract createModel(): LanguageModel;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      logger.debug({ provider: this.name }, "Provider already initialized");
+      return;
+    }
+
+    try {
+      this.model = this.createModel();
+      logger.debug({ provider: this.name, model: this.config.model }, "Initialized provider");
+      this.initialized = true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ provider: this.name, error: message }, "Failed to initialize provider");
+      throw error;
+    }
+  }
 
   isInitialized(): boolean {
     return this.initialized;
@@ -81,9 +108,131 @@ export abstract class BaseAIProvider extends EventEmitter implements AIProvider
     return this.model;
   }
 
-  abstract testConnection(): Promise<boolean>;
+  async testConnection(): Promise<boolean> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    try {
+      const result = await generateText({
+        model: this.getModel(),
+        prompt: "Say 'OK' if you can hear me.",
+        maxTokens: 10,
+      });
+
+      logger.debug({ provider: this.name, content: result.text }, "Connection test successful");
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ provider: this.name, error: message }, "Connection test failed");
+      return false;
+    }
+  }
+
+  async generateResponse(
+    prompt: string,
+    systemPrompt?: string
+  ): Promise<AIResponse> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const result = await generateText({
+        model: this.getModel(),
+        prompt,
+        system: systemPrompt,
+        temperature: this.config.temperature ?? 0.7,
+        maxTokens: this.config.maxTokens ?? 4096,
+        topP: this.config.topP,
+      });
+
+      const duration = Date.now() - startTime;
+
+      const response: AIResponse = {
+        content: result.text,
+        tokens: {
+          input: result.usage?.promptTokens ?? 0,
+          output: result.usage?.completionTokens ?? 0,
+        },
+        finishReason: toFinishReason(result.finishReason),
+        metadata: {
+          model: this.config.model,
+          provider: this.name,
+          timestamp: new Date(),
+          duration,
+        },
+      };
+
+      logger.debug(
+        {
+          provider: this.name,
+          tokens: response.tokens,
+          duration,
+        },
+        "Response generated"
+      );
+
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ provider: this.name, error: message }, "Generation failed");
+      throw error;
+    }
+  }
+
+  async *streamResponse(
+    prompt: string,
+    systemPrompt?: string,
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<string> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    let streamError: unknown;
+
+    const { textStream } = streamText({
+      model: this.getModel(),
+      prompt,
+      system: systemPrompt,
+      temperature: this.config.temperature ?? 0.7,
+      maxTokens: this.config.maxTokens ?? 4096,
+      topP: this.config.topP,
+      abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+
+    for await (const token of textStream) {
+      yield token;
+    }
+
+    // streamText reports provider errors through onError instead of failing the text stream
+    if (streamError) {
+      const message = streamError instanceof Error ? streamError.message : String(streamError);
+      logger.error({ provider: this.name, error: message }, "Streaming failed");
+      throw streamError;
+    }
+  }
 
   getConfig(): ProviderConfig {
     return { ...this.config };
   }
 }
+
+function toFinishReason(reason: string | undefined): AIResponse["finishReason"] {
+  switch (reason) {
+    case "stop":
+    case "length":
+    case "error":
+    case "tool-calls":
+    case "content-filter":
+      return reason;
+    default:
+      return "stop";
+  }
+}
@@ -0,0 +1,59 @@
+import type { LanguageModel } from "ai";
+import type { IProviderSetting } from "~/types/model";
+import { BaseAIProvider, type ProviderConfig } from "@/ai/provider";
+import { findRegistryProvider, toProviderId } from "@/ai/registry";
+
+/**
+ * Bedrock reads its credentials from a JSON config in the web app, the CLI also accepts
+ * the standard AWS environment variables (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN)
+ */
+function bedrockConfigFromEnv(region?: string): string | undefined {
+  if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
+    return undefined;
+  }
+
+  return JSON.stringify({
+    region: region ?? process.env.AWS_REGION ?? "us-east-1",
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    sessionToken: process.env.AWS_SESSION_TOKEN,
+  });
+}
+
+/**
+ * Provider backed by the shared registry: the model instance, the key resolution order
+ * and the supported providers are the ones of the web app
+ */
+export class RegistryProvider extends BaseAIProvider {
+  name: string;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+
+    const provider = findRegistryProvider(config.provider);
+    this.name = provider ? toProviderId(provider.name) : config.provider;
+  }
+
+  protected createModel(): LanguageModel {
+    const provider = findRegistryProvider(this.config.provider);
+
+    if (!provider) {
+      throw new Error(`Unknown provider: ${this.config.provider}`);
+    }
+
+    let apiKey = this.config.apiKey || undefined;
+
+    if (!apiKey && provider.name === "AmazonBedrock" && !process.env.AWS_BEDROCK_CONFIG) {
+      apiKey = bedrockConfigFromEnv(this.config.region);
+    }
+
+    const settings: IProviderSetting = { enabled: true, baseUrl: this.config.baseUrl };
+
+    return provider.getModelInstance({
+      model: this.config.model,
+      serverEnv: process.env as unknown as Env,
+      apiKeys: apiKey ? { [provider.name]: apiKey } : undefined,
+      providerSettings: { [provider.name]: settings },
+    });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Provider registry shared with the web app
+ * The CLI resolves providers, models and credentials through the web app's LLMManager,
+ * so every provider registered in app/lib/modules/llm is available in octodev as well.
+ */
+
+import { LLMManager } from "~/lib/modules/llm/manager";
+import type { BaseProvider } from "~/lib/modules/llm/base-provider";
+import type { ModelInfo } from "~/lib/modules/llm/types";
+import { logger as registryLogger } from "~/utils/logger";
+
+// the registry logs every provider it registers, which is only useful in the browser console
+registryLogger.setLevel("warn");
+
+/**
+ * CLI provider ids that differ from the lowercased registry name
+ */
+const PROVIDER_ALIASES: Record<string, string> = {
+  bedrock: "AmazonBedrock",
+  "amazon-bedrock": "AmazonBedrock",
+  "openai-like": "OpenAILike",
+  openrouter: "OpenRouter",
+  lmstudio: "LMStudio",
+};
+
+function getRegistry(): LLMManager {
+  return LLMManager.getInstance(process.env as Record<string, string>);
+}
+
+/**
+ * Find a registry provider by its registry name ("AmazonBedrock") or CLI id ("bedrock"), case-insensitively
+ */
+export function findRegistryProvider(name: string): BaseProvider | undefined {
+  const registryName = PROVIDER_ALIASES[name.toLowerCase()] ?? name;
+  const registry = getRegistry();
+
+  return (
+    registry.getProvider(registryName) ??
+    registry.getAllProviders().find((provider) => provider.name.toLowerCase() === registryName.toLowerCase())
+  );
+}
+
+/**
+ * CLI id of a registry provider, as used in the config file and on the command line
+ */
+export function toProviderId(registryName: string): string {
+  const alias = Object.entries(PROVIDER_ALIASES).find(([, name]) => name === registryName);
+
+  return alias ? alias[0] : registryName.toLowerCase();
+}
+
+export function listProviderIds(): string[] {
+  return getRegistry()
+    .getAllProviders()
+    .map((provider) => toProviderId(provider.name));
+}
+
+/**
+ * Static models of a provider, or of every provider
+ */
+export function getModelCatalogue(name?: string): ModelInfo[] {
+  if (!name) {
+    return getRegistry().getStaticModelList();
+  }
+
+  return findRegistryProvider(name)?.staticModels ?? [];
+}
+
+/**
+ * Whether the provider can be used without an API key, e.g. a local server
+ */
+export function isKeylessProvider(provider: BaseProvider): boolean {
+  return !provider.config.apiTokenKey;
+}
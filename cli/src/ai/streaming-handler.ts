@@ -43,10 +43,10 @@ export class StreamingHandler extends EventEmitter {
     logger.debug({ input: userInput }, "Starting stream");
 
     try {
-      // Stream from provider (OpenAI provider's streamResponse)
-      const stream = (this.aiProvider as any).streamResponse(
+      const stream = this.aiProvider.streamResponse(
         userInput,
-        context.systemPrompt
+        context.systemPrompt,
+        this.abortController.signal
       );
 
       for await (const token of stream) {
@@ -76,7 +76,10 @@ export class StreamingHandler extends EventEmitter {
 
       return this.buffer;
     } catch (error) {
-      if (error instanceof Error && error.message.includes("AbortError")) {
+      if (
+        error instanceof Error &&
+        (error.name === "AbortError" || error.message.includes("AbortError"))
+      ) {
         logger.info("Stream was cancelled");
         this.emit("cancelled", this.buffer);
         return this.buffer;
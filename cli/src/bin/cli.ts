@@ -10,6 +10,7 @@ import { createLogger } from "@/utils/logger";
 import { handleError, handleSigint, CLIError } from "@/utils/error-handler";
 import { registerVersionCommand, handleVersionCommand } from "@/commands/version";
 import { registerShellCommand, handleShellCommand } from "@/commands/shell";
+import { registerMCPCommand } from "@/commands/mcp";
 import { buildHelpText } from "@/commands/help";
 
 const logger = createLogger("cli");
@@ -32,6 +33,7 @@ async function main() {
     // Register commands
     registerVersionCommand(program);
     registerShellCommand(program);
+    registerMCPCommand(program);
 
     // Custom help
     program.addHelpCommand("help [command]", "show help");
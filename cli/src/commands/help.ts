@@ -11,6 +11,7 @@ USAGE:
 
 COMMANDS:
   shell                      Launch interactive TUI shell (default)
+  mcp                        Serve the app's MCP server over stdio
   help                       Show this help message
   version                    Show version number
 
@@ -24,6 +25,8 @@ OPTIONS:
 EXAMPLES:
   octodev                    Start the interactive shell
   octodev shell              Launch the TUI shell
+  octodev mcp --url http://localhost:5173
+                             Let a stdio MCP client drive the running app
   octodev --version          Display version
   octodev --help             Show this help
 
@@ -65,6 +68,25 @@ DESCRIPTION:
 
 EXAMPLE:
   octodev shell --profile development
+`,
+    mcp: `
+MCP - Stdio MCP server
+
+USAGE:
+  octodev mcp [options]
+
+OPTIONS:
+  --url <url>                URL of the running app (default: $OCTODEV_APP_URL or http://localhost:5173)
+  --token <token>            Token the app requires (default: $MCP_SERVER_TOKEN)
+
+DESCRIPTION:
+  Relays an MCP client that launches stdio servers to the app's MCP server at /api/mcp-server,
+  exposing its tools to create projects, apply artifacts, list chats, read project files and deploy.
+  The app only serves MCP clients when it sets MCP_SERVER_TOKEN. Enable "Accept requests from MCP clients"
+  in the app's MCP settings and enter the same token there for the tools to reach it.
+
+EXAMPLE:
+  { "mcpServers": { "octodev": { "command": "octodev", "args": ["mcp"] } } }
 `,
   };
 
@@ -4,4 +4,5 @@
 
 export { registerVersionCommand, handleVersionCommand } from "@/commands/version";
 export { registerShellCommand, handleShellCommand } from "@/commands/shell";
+export { registerMCPCommand, handleMCPCommand } from "@/commands/mcp";
 export { buildHelpText, buildCommandHelp } from "@/commands/help";
@@ -0,0 +1,23 @@
+/**
+ * MCP command
+ */
+
+import { DEFAULT_APP_URL, runStdioProxy } from "@/mcp/stdio-proxy";
+
+export function registerMCPCommand(program: any) {
+  program
+    .command("mcp")
+    .description("Serve the app's MCP server over stdio")
+    .option("--url <url>", "URL of the running app", process.env.OCTODEV_APP_URL || DEFAULT_APP_URL)
+    .option("--token <token>", "token the app requires in MCP_SERVER_TOKEN", process.env.MCP_SERVER_TOKEN)
+    .action(handleMCPCommand);
+
+  return program;
+}
+
+export async function handleMCPCommand(options: any) {
+  // stdout carries the protocol, diagnostics go to stderr
+  process.stderr.write(`octodev mcp: relaying stdio to ${options.url}/api/mcp-server\n`);
+
+  await runStdioProxy({ url: options.url, token: options.token });
+}
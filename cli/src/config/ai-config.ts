@@ -1,14 +1,29 @@
 import { z } from "zod";
+import type { ProviderConfig } from "@/ai/provider";
+import { findRegistryProvider, isKeylessProvider, toProviderId } from "@/ai/registry";
+import { readProviderSettingsExport } from "~/lib/modules/llm/settings-export";
 import { createLogger } from "@/utils/logger";
 
 const logger = createLogger("ai-config");
 
+const ProviderEntrySchema = z.object({
+  apiKey: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().min(100).optional(),
+});
+
 /**
  * AI Configuration Schema using Zod
  */
 export const AIConfigSchema = z.object({
   enabled: z.boolean().default(true),
-  provider: z.enum(["openai", "anthropic", "cohere", "bedrock"]).default("openai"),
+  // any provider of the shared registry, by CLI id ("bedrock") or registry name ("AmazonBedrock")
+  provider: z
+    .string()
+    .refine((name) => findRegistryProvider(name) !== undefined, { message: "Unknown provider" })
+    .default("openai"),
 
   // Provider-specific configurations
   providers: z.object({
@@ -38,7 +53,17 @@ export const AIConfigSchema = z.object({
       region: z.string().default("us-east-1"),
       model: z.string().default("anthropic.claude-3-sonnet"),
     }).default({}),
-  }).default({}),
+
+    ollama: z.object({
+      baseUrl: z.string().url().default("http://localhost:11434"),
+      model: z.string().default("llama3.1"),
+      temperature: z.number().min(0).max(2).default(0.7),
+      maxTokens: z.number().min(100).max(32000).default(4096),
+    }).default({}),
+  })
+    // every other registry provider, keyed by its CLI id
+    .catchall(ProviderEntrySchema)
+    .default({}),
 
   // Suggestions settings
   suggestions: z.object({
@@ -147,7 +172,8 @@ export class AIConfigManager {
    * Get provider config
    */
   getProviderConfig(): Record<string, any> {
-    const provider = this.config.provider as keyof typeof this.config.providers;
+    const registryProvider = findRegistryProvider(this.config.provider);
+    const provider = registryProvider ? toProviderId(registryProvider.name) : this.config.provider;
     return this.config.providers[provider] || {};
   }
 
@@ -155,16 +181,49 @@ export class AIConfigManager {
    * Get provider API key
    */
   getProviderApiKey(): string | undefined {
-    const providerConfig = this.getProviderConfig() as any;
-    return providerConfig.apiKey || process.env[`${this.config.provider.toUpperCase()}_API_KEY`];
+    const providerConfig = this.getProviderConfig();
+    const provider = findRegistryProvider(this.config.provider);
+
+    if (!provider) {
+      return providerConfig.apiKey;
+    }
+
+    // same resolution order as the web app: configured key first, then the provider's env variable
+    return provider.getProviderBaseUrlAndKey({
+      apiKeys: providerConfig.apiKey ? { [provider.name]: providerConfig.apiKey } : undefined,
+      serverEnv: process.env as Record<string, string>,
+      defaultBaseUrlKey: "",
+      defaultApiTokenKey: "",
+    }).apiKey;
   }
 
   /**
    * Validate provider configuration
    */
   validateProvider(): { valid: boolean; error?: string } {
+    const provider = findRegistryProvider(this.config.provider);
+
+    if (!provider) {
+      return { valid: false, error: `Unknown provider: ${this.config.provider}` };
+    }
+
+    // local servers need no key, Bedrock also authenticates with the AWS credentials
+    if (isKeylessProvider(provider)) {
+      return { valid: true };
+    }
+
     const apiKey = this.getProviderApiKey();
 
+    if (!apiKey && provider.name === "AmazonBedrock") {
+      return process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY
+        ? { valid: true }
+        : {
+            valid: false,
+            error:
+              "No AWS credentials configured for bedrock. Set AWS_BEDROCK_CONFIG or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.",
+          };
+    }
+
     if (!apiKey) {
       return {
         valid: false,
@@ -175,6 +234,24 @@ export class AIConfigManager {
     return { valid: true };
   }
 
+  /**
+   * Build the configuration to register the current provider with
+   */
+  toProviderConfig(): ProviderConfig {
+    const providerConfig = this.getProviderConfig();
+
+    return {
+      provider: this.config.provider,
+      apiKey: this.getProviderApiKey() ?? "",
+      model: providerConfig.model,
+      temperature: providerConfig.temperature,
+      maxTokens: providerConfig.maxTokens,
+      topP: providerConfig.topP,
+      baseUrl: providerConfig.baseUrl,
+      region: providerConfig.region,
+    };
+  }
+
   /**
    * Get suggestions config
    */
@@ -219,4 +296,44 @@ export class AIConfigManager {
     const aiConfig = obj.ai || obj;
     return new AIConfigManager(aiConfig);
   }
+
+  /**
+   * Load the providers configured in the web app from a settings export.
+   * API keys and base urls are keyed by registry name in the export and by CLI id in the config.
+   */
+  static fromSettingsExport(data: unknown, baseConfig?: Partial<AIConfig>): AIConfigManager {
+    const { apiKeys, providerSettings, selectedProvider, selectedModel } = readProviderSettingsExport(data);
+    const providers: Record<string, Record<string, unknown>> = { ...baseConfig?.providers };
+
+    for (const name of new Set([...Object.keys(apiKeys), ...Object.keys(providerSettings)])) {
+      const provider = findRegistryProvider(name);
+
+      if (!provider) {
+        logger.warn({ provider: name }, "Skipping unknown provider from settings export");
+        continue;
+      }
+
+      const id = toProviderId(provider.name);
+      const baseUrl = providerSettings[name]?.baseUrl;
+
+      providers[id] = {
+        ...providers[id],
+        ...(apiKeys[name] && { apiKey: apiKeys[name] }),
+        ...(baseUrl && { baseUrl }),
+      };
+    }
+
+    const selected = selectedProvider ? findRegistryProvider(selectedProvider) : undefined;
+
+    if (selected && selectedModel) {
+      const id = toProviderId(selected.name);
+      providers[id] = { ...providers[id], model: selectedModel };
+    }
+
+    return new AIConfigManager({
+      ...baseConfig,
+      ...(selected && { provider: toProviderId(selected.name) }),
+      providers: providers as AIConfig["providers"],
+    });
+  }
 }
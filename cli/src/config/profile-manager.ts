@@ -6,6 +6,7 @@
 import { CLIConfig } from "@/types";
 import { createLogger } from "@/utils/logger";
 import { ConfigError } from "@/utils/error-handler";
+import { AIConfigManager } from "@/config/ai-config";
 
 const logger = createLogger("profile-manager");
 
@@ -138,6 +139,20 @@ export class ProfileManager {
     return updated;
   }
 
+  /**
+   * Create a profile from a settings export of the web app, so it uses the same providers,
+   * API keys and selected model. The AI configuration is kept in the profile metadata.
+   */
+  createProfileFromSettingsExport(name: string, data: unknown, config: Partial<Profile> = {}): Profile {
+    const aiConfig = AIConfigManager.fromSettingsExport(data).getConfig();
+
+    return this.createProfile(name, {
+      ...config,
+      aiProvider: aiConfig.provider,
+      metadata: { ...config.metadata, ai: aiConfig },
+    });
+  }
+
   /**
    * Convert profile to CLI config
    */
@@ -0,0 +1,121 @@
+/**
+ * Stdio transport for the app's MCP server
+ *
+ * MCP clients that only launch stdio servers talk to the app through this proxy: every JSON-RPC message read from
+ * stdin is posted to the app's streamable HTTP endpoint and its answers are written to stdout, one per line.
+ */
+
+import { createInterface } from "node:readline";
+
+export const DEFAULT_APP_URL = "http://localhost:5173";
+
+export interface StdioProxyOptions {
+  /** origin of the app, the endpoint is `/api/mcp-server` */
+  url: string;
+
+  /** the app's `MCP_SERVER_TOKEN`, sent as bearer token */
+  token?: string;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  fetch?: typeof fetch;
+}
+
+type JSONRPCMessage = { jsonrpc: "2.0"; id?: string | number | null; [key: string]: unknown };
+
+function errorResponse(id: JSONRPCMessage["id"], code: number, message: string): JSONRPCMessage {
+  return { jsonrpc: "2.0", id: id ?? null, error: { code, message } };
+}
+
+// the endpoint answers with JSON, servers may also stream the answers as server-sent events
+async function readMessages(response: Response): Promise<JSONRPCMessage[]> {
+  const body = await response.text();
+
+  if (!body.trim()) {
+    return [];
+  }
+
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    return body
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => JSON.parse(line.slice("data:".length).trim()) as JSONRPCMessage);
+  }
+
+  const parsed = JSON.parse(body) as JSONRPCMessage | JSONRPCMessage[];
+
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+/**
+ * Posts one message read from stdin and returns the messages to write to stdout
+ */
+export async function forwardMessage(line: string, options: StdioProxyOptions): Promise<JSONRPCMessage[]> {
+  let message: JSONRPCMessage;
+
+  try {
+    message = JSON.parse(line) as JSONRPCMessage;
+  } catch {
+    return [errorResponse(null, -32700, "Parse error")];
+  }
+
+  // notifications have no id and get no answer, not even an error
+  const isRequest = message.id !== undefined && message.id !== null;
+
+  try {
+    const response = await (options.fetch ?? fetch)(new URL("/api/mcp-server", options.url), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      },
+      body: line,
+    });
+
+    if (response.status === 401) {
+      return isRequest ? [errorResponse(message.id, -32001, "Unauthorized, pass the app's MCP_SERVER_TOKEN")] : [];
+    }
+
+    if (response.status === 503) {
+      return isRequest
+        ? [errorResponse(message.id, -32001, "The app's MCP server is disabled, set MCP_SERVER_TOKEN on the app")]
+        : [];
+    }
+
+    const messages = await readMessages(response);
+
+    if (!response.ok && messages.length === 0) {
+      return isRequest ? [errorResponse(message.id, -32603, `The app responded with ${response.status}`)] : [];
+    }
+
+    return messages;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    return isRequest ? [errorResponse(message.id, -32603, `Cannot reach the app at ${options.url}: ${reason}`)] : [];
+  }
+}
+
+/**
+ * Relays stdin to the app until stdin ends. Requests are forwarded side by side, a deploy does not hold up the others.
+ */
+export async function runStdioProxy(options: StdioProxyOptions): Promise<void> {
+  const output = options.output ?? process.stdout;
+  const lines = createInterface({ input: options.input ?? process.stdin, crlfDelay: Infinity });
+  const inFlight = new Set<Promise<void>>();
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const forwarding = forwardMessage(line, options).then((messages) => {
+      messages.forEach((message) => output.write(`${JSON.stringify(message)}\n`));
+    });
+
+    inFlight.add(forwarding);
+    forwarding.finally(() => inFlight.delete(forwarding));
+  }
+
+  await Promise.all(inFlight);
+}
@@ -0,0 +1,11 @@
+/**
+ * The provider registry shared with the web app reads the Vite env, which is undefined when the CLI runs it.
+ * Same shape as the Vite declarations so both merge when the web app type-checks the CLI sources.
+ */
+interface ImportMetaEnv {
+  [key: string]: any;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
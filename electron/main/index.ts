@@ -12,6 +12,7 @@ import { createWindow } from './ui/window';
 import { initCookies, storeCookies } from './utils/cookie';
 import { loadServerBuild, serveAsset } from './utils/serve';
 import { reloadOnChange } from './utils/reload';
+import { setupNativeRuntime } from './runtime';
 
 Object.assign(console, log.functions);
 
@@ -75,6 +76,9 @@ declare global {
   // Load any existing cookies from ElectronStore, set as cookie
   await initCookies();
 
+  // Let chats run against a project folder on disk instead of the WebContainer
+  setupNativeRuntime();
+
   const serverBuild = await loadServerBuild();
 
   protocol.handle('http', async (req) => {
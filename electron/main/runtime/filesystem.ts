@@ -0,0 +1,247 @@
+import type { WebContents } from 'electron';
+import path from 'node:path';
+import { promises as fs, watch, type FSWatcher } from 'node:fs';
+import { getProjectRoot, resolveProjectPath, toProjectPath } from './project';
+
+export interface NativeDirent {
+  name: string;
+  isFile: boolean;
+  isDirectory: boolean;
+}
+
+export interface NativeWatchOptions {
+  exclude?: string[];
+  includeContent?: boolean;
+}
+
+export interface NativeWatchEvent {
+  type: 'change' | 'add_file' | 'remove_file' | 'add_dir' | 'remove_dir';
+
+  // project relative path
+  path: string;
+  mtime: number;
+  buffer?: Uint8Array;
+}
+
+// folders never reported to the renderer, whatever the watch options say
+const ALWAYS_IGNORED = ['node_modules', '.git'];
+
+// files above this size are reported without content
+const MAX_CONTENT_SIZE = 5 * 1024 * 1024;
+
+// filesystem events are batched before they are sent to the renderer
+const WATCH_BATCH_MS = 50;
+
+export async function readFile(webContentsId: number, relativePath: string, encoding?: BufferEncoding) {
+  const content = await fs.readFile(resolveProjectPath(webContentsId, relativePath));
+
+  return encoding ? content.toString(encoding) : new Uint8Array(content);
+}
+
+export async function writeFile(
+  webContentsId: number,
+  relativePath: string,
+  data: string | Uint8Array,
+  encoding?: BufferEncoding,
+) {
+  const filePath = resolveProjectPath(webContentsId, relativePath);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data, typeof data === 'string' ? { encoding: encoding ?? 'utf8' } : undefined);
+}
+
+export async function mkdir(webContentsId: number, relativePath: string, recursive?: boolean) {
+  await fs.mkdir(resolveProjectPath(webContentsId, relativePath), { recursive });
+}
+
+export async function readdir(webContentsId: number, relativePath: string): Promise<NativeDirent[]> {
+  const entries = await fs.readdir(resolveProjectPath(webContentsId, relativePath), { withFileTypes: true });
+
+  return entries.map((entry) => ({ name: entry.name, isFile: entry.isFile(), isDirectory: entry.isDirectory() }));
+}
+
+export async function rm(
+  webContentsId: number,
+  relativePath: string,
+  options: { recursive?: boolean; force?: boolean },
+) {
+  const filePath = resolveProjectPath(webContentsId, relativePath);
+
+  if (filePath === getProjectRoot(webContentsId)) {
+    throw new Error('Refusing to remove the project folder');
+  }
+
+  await fs.rm(filePath, options);
+}
+
+/**
+ * Watches the project folder and reports changes the way the WebContainer path watcher does:
+ * the existing files are reported as added first, then every change as it happens.
+ */
+export class ProjectWatcher {
+  #webContents: WebContents;
+  #watchId: string;
+  #options: NativeWatchOptions;
+  #ignored: Set<string>;
+  #watcher: FSWatcher | undefined;
+  #known = new Map<string, 'file' | 'dir'>();
+  #queue: NativeWatchEvent[] = [];
+  #pending = new Set<string>();
+  #flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(webContents: WebContents, watchId: string, options: NativeWatchOptions) {
+    this.#webContents = webContents;
+    this.#watchId = watchId;
+    this.#options = options;
+
+    // exclude patterns come as `**/name` or `name`, only the last segment is matched
+    this.#ignored = new Set([
+      ...ALWAYS_IGNORED,
+      ...(options.exclude ?? [])
+        .map((pattern) => pattern.replace(/^(\*\*\/)+/, ''))
+        .filter((name) => !name.includes('*')),
+    ]);
+  }
+
+  async start() {
+    const root = getProjectRoot(this.#webContents.id);
+
+    await this.#scan(root);
+    this.#flush();
+
+    this.#watcher = watch(root, { recursive: true }, (_event, filename) => {
+      if (!filename) {
+        return;
+      }
+
+      const relativePath = filename.toString().split(path.sep).join('/');
+
+      if (this.#isIgnored(relativePath) || this.#pending.has(relativePath)) {
+        return;
+      }
+
+      // editors emit several events per save, the path is checked once they settled
+      this.#pending.add(relativePath);
+      setTimeout(() => {
+        this.#pending.delete(relativePath);
+        this.#check(relativePath).catch((error) => console.log('runtime: failed to check path', relativePath, error));
+      }, WATCH_BATCH_MS);
+    });
+
+    this.#watcher.on('error', (error) => console.log('runtime: project watcher failed', error));
+  }
+
+  close() {
+    this.#watcher?.close();
+    clearTimeout(this.#flushTimer);
+  }
+
+  #isIgnored(relativePath: string) {
+    return relativePath.split('/').some((segment) => this.#ignored.has(segment));
+  }
+
+  async #scan(directory: string) {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      const relativePath = toProjectPath(this.#webContents.id, fullPath);
+
+      if (this.#isIgnored(relativePath)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        this.#known.set(relativePath, 'dir');
+        this.#push({ type: 'add_dir', path: relativePath, mtime: Date.now() });
+        await this.#scan(fullPath);
+      } else if (entry.isFile()) {
+        await this.#reportFile(relativePath, 'add_file');
+      }
+    }
+  }
+
+  async #check(relativePath: string) {
+    const fullPath = resolveProjectPath(this.#webContents.id, relativePath);
+    const known = this.#known.get(relativePath);
+    const stat = await fs.stat(fullPath).catch(() => undefined);
+
+    if (!stat) {
+      if (known) {
+        this.#forget(relativePath, known);
+      }
+
+      return;
+    }
+
+    if (stat.isDirectory()) {
+      if (known !== 'dir') {
+        this.#known.set(relativePath, 'dir');
+        this.#push({ type: 'add_dir', path: relativePath, mtime: stat.mtimeMs });
+
+        // fs.watch does not report the content of folders moved into the project
+        await this.#scan(fullPath);
+      }
+
+      return;
+    }
+
+    if (stat.isFile()) {
+      await this.#reportFile(relativePath, known === 'file' ? 'change' : 'add_file');
+    }
+  }
+
+  #forget(relativePath: string, type: 'file' | 'dir') {
+    this.#known.delete(relativePath);
+
+    if (type === 'file') {
+      this.#push({ type: 'remove_file', path: relativePath, mtime: Date.now() });
+      return;
+    }
+
+    for (const [knownPath, knownType] of this.#known) {
+      if (knownPath.startsWith(`${relativePath}/`)) {
+        this.#known.delete(knownPath);
+
+        if (knownType === 'file') {
+          this.#push({ type: 'remove_file', path: knownPath, mtime: Date.now() });
+        }
+      }
+    }
+
+    this.#push({ type: 'remove_dir', path: relativePath, mtime: Date.now() });
+  }
+
+  async #reportFile(relativePath: string, type: 'add_file' | 'change') {
+    const fullPath = resolveProjectPath(this.#webContents.id, relativePath);
+    const stat = await fs.stat(fullPath);
+    let buffer: Uint8Array | undefined;
+
+    if (this.#options.includeContent && stat.size <= MAX_CONTENT_SIZE) {
+      buffer = new Uint8Array(await fs.readFile(fullPath));
+    }
+
+    this.#known.set(relativePath, 'file');
+    this.#push({ type, path: relativePath, mtime: stat.mtimeMs, buffer });
+  }
+
+  #push(event: NativeWatchEvent) {
+    this.#queue.push(event);
+
+    if (!this.#flushTimer) {
+      this.#flushTimer = setTimeout(() => this.#flush(), WATCH_BATCH_MS);
+    }
+  }
+
+  #flush() {
+    clearTimeout(this.#flushTimer);
+    this.#flushTimer = undefined;
+
+    if (this.#queue.length === 0 || this.#webContents.isDestroyed()) {
+      return;
+    }
+
+    this.#webContents.send('runtime:watch-events', this.#watchId, this.#queue);
+    this.#queue = [];
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  BrowserWindow,
+  dialog,
+  ipcMain,
+  type IpcMainInvokeEvent,
+  type OpenDialogOptions,
+  type WebContents,
+} from 'electron';
+import { ProjectWatcher, mkdir, readFile, readdir, rm, writeFile, type NativeWatchOptions } from './filesystem';
+import { PortDetector } from './ports';
+import { ProcessManager, type NativeSpawnRequest } from './processes';
+import { attachProject, detachProject, grantProjectFolder } from './project';
+
+interface RuntimeSession {
+  processes: ProcessManager;
+  ports: PortDetector;
+  watchers: Map<string, ProjectWatcher>;
+}
+
+const sessions = new Map<number, RuntimeSession>();
+
+// windows whose destruction already disposes their session
+const trackedWebContents = new Set<number>();
+
+function disposeSession(webContentsId: number) {
+  const session = sessions.get(webContentsId);
+
+  if (!session) {
+    return;
+  }
+
+  session.processes.killAll();
+  session.ports.dispose();
+  session.watchers.forEach((watcher) => watcher.close());
+  sessions.delete(webContentsId);
+  detachProject(webContentsId);
+}
+
+function getSession(event: IpcMainInvokeEvent) {
+  const session = sessions.get(event.sender.id);
+
+  if (!session) {
+    throw new Error('No project folder is attached to this window');
+  }
+
+  return session;
+}
+
+function createSession(webContents: WebContents) {
+  disposeSession(webContents.id);
+
+  const ports = new PortDetector(webContents);
+  const session: RuntimeSession = { processes: new ProcessManager(webContents, ports), ports, watchers: new Map() };
+  sessions.set(webContents.id, session);
+
+  if (!trackedWebContents.has(webContents.id)) {
+    const { id } = webContents;
+
+    trackedWebContents.add(id);
+    webContents.once('destroyed', () => {
+      trackedWebContents.delete(id);
+      disposeSession(id);
+    });
+  }
+}
+
+/**
+ * Native project runtime: lets a renderer run a project from a folder on disk with the real Node
+ * instead of the WebContainer. Every channel is scoped to the folder the window attached.
+ */
+export function setupNativeRuntime() {
+  ipcMain.handle('runtime:select-folder', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options: OpenDialogOptions = {
+      title: 'Open Project Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    };
+    const result = await (win ? dialog.showOpenDialog(win, options) : dialog.showOpenDialog(options));
+
+    if (result.canceled) {
+      return undefined;
+    }
+
+    grantProjectFolder(result.filePaths[0]);
+
+    return result.filePaths[0];
+  });
+
+  ipcMain.handle('runtime:attach', async (event, folder: string) => {
+    const root = await attachProject(event.sender.id, folder);
+    createSession(event.sender);
+    console.log('runtime: attached project folder', root);
+
+    return root;
+  });
+
+  ipcMain.handle('runtime:fs:readFile', (event, filePath: string, encoding?: BufferEncoding) =>
+    readFile(event.sender.id, filePath, encoding),
+  );
+  ipcMain.handle(
+    'runtime:fs:writeFile',
+    (event, filePath: string, data: string | Uint8Array, encoding?: BufferEncoding) =>
+      writeFile(event.sender.id, filePath, data, encoding),
+  );
+  ipcMain.handle('runtime:fs:mkdir', (event, dirPath: string, recursive?: boolean) =>
+    mkdir(event.sender.id, dirPath, recursive),
+  );
+  ipcMain.handle('runtime:fs:readdir', (event, dirPath: string) => readdir(event.sender.id, dirPath));
+  ipcMain.handle('runtime:fs:rm', (event, filePath: string, options: { recursive?: boolean; force?: boolean }) =>
+    rm(event.sender.id, filePath, options ?? {}),
+  );
+
+  ipcMain.handle('runtime:watch', async (event, watchId: string, options: NativeWatchOptions) => {
+    const watcher = new ProjectWatcher(event.sender, watchId, options);
+    getSession(event).watchers.set(watchId, watcher);
+    await watcher.start();
+  });
+  ipcMain.handle('runtime:unwatch', (event, watchId: string) => {
+    const { watchers } = getSession(event);
+    watchers.get(watchId)?.close();
+    watchers.delete(watchId);
+  });
+
+  ipcMain.handle('runtime:spawn', (event, request: NativeSpawnRequest) => getSession(event).processes.spawn(request));
+  ipcMain.handle('runtime:process-input', (event, processId: string, data: string) =>
+    getSession(event).processes.write(processId, data),
+  );
+  ipcMain.handle('runtime:process-close-input', (event, processId: string) =>
+    getSession(event).processes.closeInput(processId),
+  );
+  ipcMain.handle('runtime:process-resize', (event, processId: string, cols: number, rows: number) =>
+    getSession(event).processes.resize(processId, cols, rows),
+  );
+  ipcMain.handle('runtime:process-kill', (event, processId: string) => getSession(event).processes.kill(processId));
+}
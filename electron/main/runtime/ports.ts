@@ -0,0 +1,93 @@
+import type { WebContents } from 'electron';
+import net from 'node:net';
+
+// dev servers print the address they listen on, e.g. `Local: http://localhost:5173/`
+const SERVER_URL_REGEX = /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})/g;
+
+const PROBE_ATTEMPTS = 10;
+const PROBE_INTERVAL_MS = 500;
+const CLOSE_CHECK_INTERVAL_MS = 2000;
+
+function isPortOpen(port: number) {
+  return new Promise<boolean>((resolve) => {
+    const socket = net.connect({ port, host: '127.0.0.1' });
+
+    socket.setTimeout(1000);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Detects the servers started by the processes of a window. WebContainer reports them through `port`
+ * and `server-ready` events, natively the addresses printed by the processes are probed instead.
+ */
+export class PortDetector {
+  #webContents: WebContents;
+  #openPorts = new Set<number>();
+  #probing = new Set<number>();
+  #closeCheck: ReturnType<typeof setInterval>;
+
+  constructor(webContents: WebContents) {
+    this.#webContents = webContents;
+    this.#closeCheck = setInterval(() => this.#checkOpenPorts(), CLOSE_CHECK_INTERVAL_MS);
+  }
+
+  scan(output: string) {
+    for (const match of output.matchAll(SERVER_URL_REGEX)) {
+      const port = Number(match[1]);
+
+      if (!this.#openPorts.has(port) && !this.#probing.has(port)) {
+        this.#probe(port);
+      }
+    }
+  }
+
+  dispose() {
+    clearInterval(this.#closeCheck);
+  }
+
+  async #probe(port: number) {
+    this.#probing.add(port);
+
+    try {
+      for (let attempt = 0; attempt < PROBE_ATTEMPTS; attempt++) {
+        if (await isPortOpen(port)) {
+          const url = `http://localhost:${port}`;
+
+          this.#openPorts.add(port);
+          this.#send('runtime:port', port, 'open', url);
+          this.#send('runtime:server-ready', port, url);
+
+          return;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, PROBE_INTERVAL_MS));
+      }
+    } finally {
+      this.#probing.delete(port);
+    }
+  }
+
+  async #checkOpenPorts() {
+    for (const port of this.#openPorts) {
+      if (!(await isPortOpen(port))) {
+        this.#openPorts.delete(port);
+        this.#send('runtime:port', port, 'close', `http://localhost:${port}`);
+      }
+    }
+  }
+
+  #send(channel: string, ...args: unknown[]) {
+    if (!this.#webContents.isDestroyed()) {
+      this.#webContents.send(channel, ...args);
+    }
+  }
+}
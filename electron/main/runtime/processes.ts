@@ -0,0 +1,176 @@
+import type { WebContents } from 'electron';
+import { app } from 'electron';
+import { spawn as spawnChild } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import * as pty from 'node-pty';
+import { resolveProjectPath } from './project';
+import type { PortDetector } from './ports';
+
+export interface NativeSpawnRequest {
+  processId: string;
+  command: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string | number | boolean>;
+  terminal?: { cols: number; rows: number };
+}
+
+interface ProcessHandle {
+  write(data: string): void;
+  closeInput(): void;
+  resize(cols: number, rows: number): void;
+  kill(): void;
+}
+
+/**
+ * The app drives its shells through the OSC 654 codes of the WebContainer shell (`jsh --osc`):
+ * `interactive` once the shell is ready, `exit=<pid>:<code>` after each command and `prompt` before each prompt.
+ * The native shells print the same codes from their prompt hook.
+ */
+const BASH_INTEGRATION = `
+[ -f ~/.bashrc ] && . ~/.bashrc
+__bolt_prompt_command() {
+  local code=$?
+  if [ -z "$__BOLT_INTERACTIVE" ]; then
+    __BOLT_INTERACTIVE=1
+    printf '\\033]654;interactive\\007'
+  else
+    printf '\\033]654;exit=0:%s\\007' "$code"
+  fi
+  printf '\\033]654;prompt\\007'
+}
+PROMPT_COMMAND=__bolt_prompt_command
+`;
+
+const POWERSHELL_INTEGRATION = `
+$global:__boltInteractive = $false
+function prompt {
+  $code = if ($?) { 0 } elseif ($global:LASTEXITCODE) { $global:LASTEXITCODE } else { 1 }
+  $esc = [char]27
+  $bel = [char]7
+  $osc = if ($global:__boltInteractive) { "$esc]654;exit=0:$code$bel" } else { "$esc]654;interactive$bel" }
+  $global:__boltInteractive = $true
+  "$osc$esc]654;prompt$bel" + "PS $($executionContext.SessionState.Path.CurrentLocation)> "
+}
+`;
+
+async function resolveShell(): Promise<{ command: string; args: string[] }> {
+  if (process.platform === 'win32') {
+    return { command: 'powershell.exe', args: ['-NoLogo', '-NoExit', '-Command', POWERSHELL_INTEGRATION] };
+  }
+
+  const rcFile = path.join(app.getPath('userData'), 'shell-integration.bash');
+  await fs.writeFile(rcFile, BASH_INTEGRATION);
+
+  return { command: 'bash', args: ['--rcfile', rcFile, '-i'] };
+}
+
+/**
+ * Processes spawned by one window. Output is streamed to the renderer and scanned for servers.
+ */
+export class ProcessManager {
+  #webContents: WebContents;
+  #ports: PortDetector;
+  #processes = new Map<string, ProcessHandle>();
+
+  constructor(webContents: WebContents, ports: PortDetector) {
+    this.#webContents = webContents;
+    this.#ports = ports;
+  }
+
+  async spawn(request: NativeSpawnRequest) {
+    const { processId } = request;
+    let { command, args } = request;
+
+    if (command === '/bin/jsh') {
+      ({ command, args } = await resolveShell());
+    }
+
+    const cwd = resolveProjectPath(this.#webContents.id, request.cwd ?? '.');
+    const env = {
+      ...process.env,
+      ...Object.fromEntries(Object.entries(request.env ?? {}).map(([key, value]) => [key, String(value)])),
+    };
+
+    const onOutput = (data: string) => {
+      this.#ports.scan(data);
+      this.#send('runtime:process-output', processId, data);
+    };
+
+    const onExit = (code: number) => {
+      this.#processes.delete(processId);
+      this.#send('runtime:process-exit', processId, code);
+    };
+
+    if (request.terminal) {
+      const terminal = pty.spawn(command, args, {
+        name: 'xterm-256color',
+        cols: request.terminal.cols,
+        rows: request.terminal.rows,
+        cwd,
+        env,
+      });
+
+      terminal.onData(onOutput);
+      terminal.onExit(({ exitCode }: { exitCode: number }) => onExit(exitCode));
+
+      this.#processes.set(processId, {
+        write: (data) => terminal.write(data),
+        closeInput: () => terminal.write('\x04'),
+        resize: (cols, rows) => terminal.resize(cols, rows),
+        kill: () => terminal.kill(),
+      });
+
+      return;
+    }
+
+    // package manager binaries are `.cmd` shims on Windows, which only run through a shell
+    const child = spawnChild(command, args, { cwd, env, shell: process.platform === 'win32' });
+
+    child.stdout.setEncoding('utf8').on('data', onOutput);
+    child.stderr.setEncoding('utf8').on('data', onOutput);
+    child.on('error', (error) => {
+      onOutput(`${error.message}\n`);
+      onExit(127);
+    });
+    child.on('close', (code) => onExit(code ?? 1));
+
+    this.#processes.set(processId, {
+      write: (data) => child.stdin.write(data),
+      closeInput: () => child.stdin.end(),
+      resize: () => undefined,
+      kill: () => child.kill(),
+    });
+  }
+
+  write(processId: string, data: string) {
+    this.#processes.get(processId)?.write(data);
+  }
+
+  closeInput(processId: string) {
+    this.#processes.get(processId)?.closeInput();
+  }
+
+  resize(processId: string, cols: number, rows: number) {
+    this.#processes.get(processId)?.resize(cols, rows);
+  }
+
+  kill(processId: string) {
+    this.#processes.get(processId)?.kill();
+  }
+
+  killAll() {
+    for (const handle of this.#processes.values()) {
+      handle.kill();
+    }
+
+    this.#processes.clear();
+  }
+
+  #send(channel: string, ...args: unknown[]) {
+    if (!this.#webContents.isDestroyed()) {
+      this.#webContents.send(channel, ...args);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { store } from '../utils/store';
+
+// project folder each renderer runs against, keyed by webContents id
+const projectRoots = new Map<number, string>();
+
+// folders the user picked in the folder dialog, chats are only attached to those
+const GRANTED_FOLDERS_KEY = 'runtime:granted-folders';
+
+function getGrantedFolders(): string[] {
+  const folders = store.get(GRANTED_FOLDERS_KEY);
+
+  return Array.isArray(folders) ? folders : [];
+}
+
+/**
+ * Remembers a folder the user picked so chats can attach to it, also after a restart
+ */
+export function grantProjectFolder(folder: string) {
+  const resolved = path.resolve(folder);
+  const folders = getGrantedFolders();
+
+  if (!folders.includes(resolved)) {
+    store.set(GRANTED_FOLDERS_KEY, [...folders, resolved]);
+  }
+}
+
+/**
+ * Attaches a renderer to a folder the user picked before. The folder comes from the chat metadata, which an imported
+ * chat can set to any path, so it is never trusted on its own.
+ */
+export async function attachProject(webContentsId: number, folder: string) {
+  if (!path.isAbsolute(folder)) {
+    throw new Error(`Project folder must be an absolute path: ${folder}`);
+  }
+
+  if (!getGrantedFolders().includes(path.resolve(folder))) {
+    throw new Error(`Project folder was not opened from the folder dialog: ${folder}`);
+  }
+
+  const stat = await fs.stat(folder);
+
+  if (!stat.isDirectory()) {
+    throw new Error(`Project folder is not a directory: ${folder}`);
+  }
+
+  projectRoots.set(webContentsId, folder);
+
+  return folder;
+}
+
+export function detachProject(webContentsId: number) {
+  projectRoots.delete(webContentsId);
+}
+
+export function getProjectRoot(webContentsId: number) {
+  const root = projectRoots.get(webContentsId);
+
+  if (!root) {
+    throw new Error('No project folder is attached to this window');
+  }
+
+  return root;
+}
+
+/**
+ * Resolves a path relative to the project folder, paths escaping it are refused
+ */
+export function resolveProjectPath(webContentsId: number, relativePath: string) {
+  const root = getProjectRoot(webContentsId);
+  const resolved = path.resolve(root, relativePath);
+
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Path is outside of the project folder: ${relativePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Project relative path with forward slashes, the way the renderer addresses files
+ */
+export function toProjectPath(webContentsId: number, absolutePath: string) {
+  return path.relative(getProjectRoot(webContentsId), absolutePath).split(path.sep).join('/');
+}
@@ -26,6 +26,9 @@ export default defineConfig({
         'node:util',
         'node:stream',
         'node:events',
+        'node:child_process',
+        'node:net',
+        'node-pty',
         'electron-store',
         '@remix-run/node',
 
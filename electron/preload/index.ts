@@ -20,3 +20,28 @@ const ipc = {
 };
 
 contextBridge.exposeInMainWorld('ipc', ipc);
+
+// native project runtime, see electron/main/runtime
+const nativeRuntime = {
+  invoke(channel: string, ...args: any[]) {
+    if (!channel.startsWith('runtime:')) {
+      throw new Error(`Channel is not part of the native runtime: ${channel}`);
+    }
+
+    return ipcRenderer.invoke(channel, ...args);
+  },
+  on(channel: string, listener: (...args: any[]) => void) {
+    if (!channel.startsWith('runtime:')) {
+      throw new Error(`Channel is not part of the native runtime: ${channel}`);
+    }
+
+    const f = (_event: IpcRendererEvent, ...args: any[]) => listener(...args);
+    ipcRenderer.on(channel, f);
+
+    return () => {
+      ipcRenderer.removeListener(channel, f);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld('nativeRuntime', nativeRuntime);
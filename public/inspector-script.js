@@ -2,6 +2,7 @@
   let isInspectorActive = false;
   let inspectorStyle = null;
   let currentHighlight = null;
+  let selectedElement = null;
 
   // Function to get relevant styles
   function getRelevantStyles(element) {
@@ -107,6 +108,105 @@
     return displayText;
   }
 
+  // Function to get the React fiber of a host element in dev builds
+  function getFiber(element) {
+    const fiberKey = Object.keys(element).find(
+      (key) => key.startsWith('__reactFiber$') || key.startsWith('__reactInternalInstance$')
+    );
+
+    return fiberKey ? element[fiberKey] : null;
+  }
+
+  // Function to resolve the JSX that rendered the element from the _debugSource React dev builds before React 19
+  // attach to the fiber of host elements
+  function getSourceLocation(element) {
+    const fiber = getFiber(element);
+    const debugSource = fiber && fiber._debugSource;
+
+    if (debugSource && debugSource.fileName) {
+      return {
+        filePath: debugSource.fileName,
+        line: debugSource.lineNumber,
+        column: debugSource.columnNumber || 1
+      };
+    }
+
+    return null;
+  }
+
+  // Function to parse a stack frame of V8 ("at App (url:1:2)") or Firefox and Safari ("App@url:1:2")
+  function parseStackFrame(frame) {
+    const match = frame.trim().match(/(?:\(|@|^at )(\S+?):(\d+):(\d+)\)?$/);
+
+    return match ? { url: match[1], line: Number(match[2]), column: Number(match[3]) } : null;
+  }
+
+  // Function to find where the JSX of the element runs in the transformed module. React 19 dev builds keep the stack
+  // of the JSX call in _debugStack instead of _debugSource, the app maps it back through the module's source map.
+  async function getGeneratedSource(element) {
+    const fiber = getFiber(element);
+    const stack = fiber && fiber._debugStack && fiber._debugStack.stack;
+
+    if (!stack) return null;
+
+    // the first frames are React's own, the first one from the project is the component
+    const frame = stack
+      .split('\n')
+      .slice(1)
+      .map(parseStackFrame)
+      .find((frame) => frame && !/\/node_modules\/|\/\.vite\/deps\/|\/@vite\/|\/@react-refresh/.test(frame.url));
+
+    if (!frame) return null;
+
+    try {
+      const code = await (await fetch(frame.url)).text();
+      const mapUrl = code.match(/\/\/# sourceMappingURL=(\S+)\s*$/);
+
+      if (!mapUrl) return null;
+
+      const map = await (await fetch(new URL(mapUrl[1], frame.url).href)).json();
+
+      return { url: frame.url, line: frame.line, column: frame.column, map };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Function to get the inline styles declared on the element
+  function getInlineStyles(element) {
+    const styles = {};
+
+    for (let i = 0; i < element.style.length; i++) {
+      const prop = element.style[i];
+      styles[prop] = element.style.getPropertyValue(prop);
+    }
+
+    return styles;
+  }
+
+  // Function to preview edits made in the inspector panel before they are written to the code
+  function previewEdit(edit) {
+    if (!selectedElement) return;
+
+    if (typeof edit.text === 'string') {
+      selectedElement.textContent = edit.text;
+    }
+
+    if (typeof edit.className === 'string') {
+      selectedElement.setAttribute('class', edit.className);
+    }
+
+    if (edit.style) {
+      Object.entries(edit.style).forEach(([prop, value]) => {
+        if (value) {
+          selectedElement.style.setProperty(prop, value);
+        } else {
+          selectedElement.style.removeProperty(prop);
+        }
+      });
+    }
+  }
+
   // Function to create element info
   function createElementInfo(element) {
     const rect = element.getBoundingClientRect();
@@ -128,7 +228,11 @@
       // Add new readable formats
       selector: createReadableSelector(element),
       displayText: createElementDisplayText(element),
-      elementPath: getElementPath(element)
+      elementPath: getElementPath(element),
+      // Source mapping and inline styles for editing
+      source: getSourceLocation(element),
+      inlineStyles: getInlineStyles(element),
+      childElementCount: element.childElementCount
     };
   }
 
@@ -136,13 +240,17 @@
   function getElementClassName(element) {
     if (!element.className) return '';
     
+    let className;
     if (typeof element.className === 'string') {
-      return element.className;
+      className = element.className;
     } else if (element.className.baseVal !== undefined) {
-      return element.className.baseVal;
+      className = element.className.baseVal;
     } else {
-      return element.className.toString();
+      className = element.className.toString();
     }
+
+    // The highlight class belongs to the inspector, not to the element
+    return className.split(/\s+/).filter((name) => name && name !== 'inspector-highlight').join(' ');
   }
 
   // Function to get element path (breadcrumb)
@@ -207,13 +315,23 @@
     const target = e.target;
     if (!target || target === document.body || target === document.documentElement) return;
 
+    // Remember the element so edits can be previewed on it
+    selectedElement = target;
+
     const elementInfo = createElementInfo(target);
-    
-    // Send message to parent
-    window.parent.postMessage({
-      type: 'INSPECTOR_CLICK',
-      elementInfo: elementInfo
-    }, '*');
+
+    // Without _debugSource the location comes from the source map, which has to be fetched first
+    const generatedSource = elementInfo.source ? Promise.resolve(null) : getGeneratedSource(target);
+
+    generatedSource.then((generated) => {
+      elementInfo.generatedSource = generated;
+
+      // Send message to parent
+      window.parent.postMessage({
+        type: 'INSPECTOR_CLICK',
+        elementInfo: elementInfo
+      }, '*');
+    });
   }
 
   function handleMouseLeave() {
@@ -284,9 +402,99 @@
   window.addEventListener('message', function(event) {
     if (event.data.type === 'INSPECTOR_ACTIVATE') {
       setInspectorActive(event.data.active);
+    } else if (event.data.type === 'INSPECTOR_PREVIEW_EDIT') {
+      previewEdit(event.data.edit || {});
     }
   });
 
+  // Runtime errors of the page, picked up by the auto-fix mode of the chat
+  const MAX_ERROR_LENGTH = 4000;
+
+  function reportToParent(type, data) {
+    try {
+      window.parent.postMessage(Object.assign({ type }, data), '*');
+    } catch (e) {
+      // the payload could not be cloned, nothing to report
+    }
+  }
+
+  function formatConsoleArg(arg) {
+    if (arg instanceof Error) return arg.message;
+    if (typeof arg === 'string') return arg;
+
+    try {
+      return JSON.stringify(arg);
+    } catch (e) {
+      return String(arg);
+    }
+  }
+
+  const originalConsoleError = console.error;
+  console.error = function(...args) {
+    const error = args.find(arg => arg instanceof Error);
+
+    reportToParent('PREVIEW_CONSOLE_ERROR', {
+      message: args.map(formatConsoleArg).join(' ').slice(0, MAX_ERROR_LENGTH),
+      stack: error && error.stack ? String(error.stack).slice(0, MAX_ERROR_LENGTH) : '',
+      pathname: window.location.pathname
+    });
+
+    return originalConsoleError.apply(console, args);
+  };
+
+  ['log', 'info', 'warn', 'debug'].forEach(function(level) {
+    const original = console[level];
+
+    console[level] = function(...args) {
+      reportToParent('PREVIEW_CONSOLE', {
+        level: level,
+        message: args.map(formatConsoleArg).join(' ').slice(0, MAX_ERROR_LENGTH),
+        pathname: window.location.pathname
+      });
+
+      return original.apply(console, args);
+    };
+  });
+
+  // The Vite error overlay fills its shadow root before it is attached to the page
+  function reportViteOverlay(overlay) {
+    const root = overlay.shadowRoot;
+    const text = (selector) => {
+      const node = root && root.querySelector(selector);
+      return node && node.textContent ? node.textContent.trim() : '';
+    };
+
+    reportToParent('PREVIEW_VITE_ERROR', {
+      message: text('.message-body').slice(0, MAX_ERROR_LENGTH),
+      file: text('.file'),
+      frame: text('.frame').slice(0, MAX_ERROR_LENGTH),
+      pathname: window.location.pathname
+    });
+  }
+
+  function watchViteOverlay() {
+    const existing = document.querySelector('vite-error-overlay');
+    if (existing) reportViteOverlay(existing);
+
+    new MutationObserver(function(mutations) {
+      mutations.forEach(function(mutation) {
+        mutation.addedNodes.forEach(function(node) {
+          if (node.nodeName === 'VITE-ERROR-OVERLAY') reportViteOverlay(node);
+        });
+      });
+    }).observe(document.body, { childList: true });
+  }
+
+  if (document.body) {
+    watchViteOverlay();
+  } else {
+    document.addEventListener('DOMContentLoaded', watchViteOverlay);
+  }
+
+  window.addEventListener('load', function() {
+    reportToParent('PREVIEW_LOADED', { pathname: window.location.pathname });
+  });
+
   // Auto-inject if inspector is already active
   window.parent.postMessage({ type: 'INSPECTOR_READY' }, '*');
 })();
\ No newline at end of file